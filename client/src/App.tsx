@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -36,8 +36,12 @@ import PermissionAssignmentPage from "@/pages/permission-assignment";
 import CustomersPage from "@/pages/customers";
 import ContractsPage from "@/pages/contracts";
 import ContractDetails from "@/pages/contract-details";
+import CustomerOverviewPage from "@/pages/customer-overview";
 import DatabaseBackupPage from "@/pages/database-backup";
 import RoleCreationConfig from "@/pages/role-creation-config";
+import PasswordPolicyPage from "@/pages/password-policy";
+import ApiKeysPage from "@/pages/api-keys";
+import CustomerPortalPage from "@/pages/customer-portal";
 import { AuthService } from "@/lib/auth";
 
 // Wrapper component for AppLayout
@@ -91,6 +95,11 @@ function ProtectedRoute({ component: Component }: { component: React.ComponentTy
     return <LoginPage />;
   }
 
+  // Customer portal users only have access to the portal
+  if (AuthService.getUser()?.userType === "Customer" && Component !== CustomerPortalPage) {
+    return <Redirect to="/customer-portal" />;
+  }
+
   console.log("Session valid, rendering protected component");
   return <Component />;
 }
@@ -177,15 +186,27 @@ function Router() {
       <Route path="/customers/:customerId/contracts/:contractId?">
         {() => <ProtectedRoute component={ContractDetails} />}
       </Route>
+      <Route path="/customers/:customerId">
+        {() => <ProtectedRoute component={CustomerOverviewPage} />}
+      </Route>
       <Route path="/contracts">
         {() => <ProtectedRoute component={ContractsPage} />}
       </Route>
+      <Route path="/customer-portal">
+        {() => <ProtectedRoute component={CustomerPortalPage} />}
+      </Route>
       <Route path="/configuration/database-backup">
         {() => <ProtectedRoute component={DatabaseBackupPage} />}
       </Route>
       <Route path="/configuration/role-creation">
         {() => <ProtectedRoute component={RoleCreationConfig} />}
       </Route>
+      <Route path="/configuration/password-policy">
+        {() => <ProtectedRoute component={PasswordPolicyPage} />}
+      </Route>
+      <Route path="/configuration/api-keys">
+        {() => <ProtectedRoute component={ApiKeysPage} />}
+      </Route>
       <Route path="/profile">
         {() => <ProtectedRoute component={ProfilePage} />}
       </Route>
@@ -0,0 +1,521 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useFieldArray, useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FilePen, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ContractRevisionSnapshot } from "@shared/contractRevisions";
+import { CONTRACT_CHARGE_UNITS, CONTRACT_CHARGE_UNIT_LABELS, CONTRACT_CURRENCIES, chargeUnitSchema, currencyCodeSchema } from "@shared/contractMoney";
+import {
+  MAX_STORAGE_RATE_SLABS,
+  STORAGE_CHARGE_APPLICABLE_DAYS,
+  formatStorageDays,
+  parseStorageChargeApplicableDays,
+  parseStorageRateSlabs,
+  storageChargeApplicableDaysSchema,
+} from "@shared/storageCharges";
+
+// Blank or a non-negative amount with up to 2 decimals
+const amountText = z.string().trim().regex(/^(\d+(\.\d{1,2})?)?$/, "Enter an amount, e.g. 1250.50");
+
+// Blank leaves the currency to the server, which uses the terminal's currency
+const rowCurrency = z.union([currencyCodeSchema, z.literal("")]);
+
+// Dates are edited as yyyy-mm-dd strings and amounts as text
+const amendmentFormSchema = z.object({
+  effectiveDate: z.string().min(1, "Effective date is required"),
+  reason: z.string().trim().min(1, "A reason is required for an amendment").max(1000),
+  validFrom: z.string().min(1, "Valid from date is required"),
+  validTo: z.string().min(1, "Valid to date is required"),
+  tariffs: z.array(z.object({
+    rowId: z.number().optional(), // Id of the live row amended; new rows have none. Not "id", which the field arrays use.
+    chcRateToCustomer: amountText,
+    chcRateToPort: amountText,
+    bhcRateToCustomer: amountText,
+    bhcRateToPort: amountText,
+    currency: rowCurrency,
+    unitOfMeasure: chargeUnitSchema,
+  })),
+  storageCharges: z.array(z.object({
+    rowId: z.number().optional(),
+    cargoType: z.string(), // Blank applies to every cargo type
+    storageFreeTime: z.coerce.number().int().min(0, "Free time cannot be negative"),
+    rateSlabs: z.array(z.object({
+      days: z.coerce.number().int("Whole days only").min(1, "At least 1 day"),
+      chargePerDay: amountText.min(1, "Rate is required"),
+    })),
+    chargePerDay: amountText.min(1, "Charge per day is required"),
+    chargeApplicableDays: storageChargeApplicableDaysSchema,
+    currency: rowCurrency,
+    unitOfMeasure: chargeUnitSchema,
+  })),
+}).refine((data) => data.validTo > data.validFrom, {
+  message: "End date must be after start date",
+  path: ["validTo"],
+});
+
+type AmendmentFormData = z.infer<typeof amendmentFormSchema>;
+
+interface ContractAmendmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contractId: number;
+  contractNumber: string;
+  // Terms of the current revision, used as the starting point
+  current: ContractRevisionSnapshot;
+}
+
+const toDateInput = (date: string | Date) => new Date(date).toISOString().slice(0, 10);
+const text = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+const toRowId = (value: unknown) => (typeof value === "number" ? value : undefined);
+const nullIfEmpty = (value: string) => (value.trim() === "" ? null : value.trim());
+const unitOf = (value: unknown, fallback: typeof CONTRACT_CHARGE_UNITS[number]) =>
+  (CONTRACT_CHARGE_UNITS as readonly string[]).includes(String(value)) ? value as typeof CONTRACT_CHARGE_UNITS[number] : fallback;
+
+// Select items cannot have an empty value
+const ALL_CARGO_TYPES = "__all";
+
+const TARIFF_FIELDS = [
+  { name: "chcRateToCustomer", label: "CHC to Customer" },
+  { name: "chcRateToPort", label: "CHC to Port" },
+  { name: "bhcRateToCustomer", label: "BHC to Customer" },
+  { name: "bhcRateToPort", label: "BHC to Port" },
+] as const;
+
+export function ContractAmendmentDialog({ open, onOpenChange, contractId, contractNumber, current }: ContractAmendmentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<AmendmentFormData>({
+    resolver: zodResolver(amendmentFormSchema),
+  });
+  const tariffRows = useFieldArray({ control: form.control, name: "tariffs" });
+  const storageRows = useFieldArray({ control: form.control, name: "storageCharges" });
+
+  // New rows take the contract's existing currency, if it has any rows
+  const defaultCurrency = text([...current.tariffs, ...current.storageCharges][0]?.currency);
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        effectiveDate: toDateInput(new Date()),
+        reason: "",
+        validFrom: toDateInput(current.contract.validFrom),
+        validTo: toDateInput(current.contract.validTo),
+        tariffs: current.tariffs.map(tariff => ({
+          rowId: toRowId(tariff.id),
+          chcRateToCustomer: text(tariff.chcRateToCustomer),
+          chcRateToPort: text(tariff.chcRateToPort),
+          bhcRateToCustomer: text(tariff.bhcRateToCustomer),
+          bhcRateToPort: text(tariff.bhcRateToPort),
+          currency: text(tariff.currency) || defaultCurrency,
+          unitOfMeasure: unitOf(tariff.unitOfMeasure, "TEU"),
+        })),
+        storageCharges: current.storageCharges.map(charge => ({
+          rowId: toRowId(charge.id),
+          cargoType: text(charge.cargoType),
+          storageFreeTime: Number(charge.storageFreeTime) || 0,
+          rateSlabs: parseStorageRateSlabs(charge.rateSlabs as string | null).map(slab => ({ days: slab.days, chargePerDay: slab.chargePerDay })),
+          chargePerDay: text(charge.chargePerDay),
+          chargeApplicableDays: parseStorageChargeApplicableDays(charge.chargeApplicableDays as string | null),
+          currency: text(charge.currency) || defaultCurrency,
+          unitOfMeasure: unitOf(charge.unitOfMeasure, "TEU"),
+        })),
+      });
+    }
+  }, [open, current, defaultCurrency, form]);
+
+  const amendMutation = useMutation({
+    mutationFn: async (data: AmendmentFormData) => {
+      // Cargo details and special conditions are not sent, so they carry over unchanged
+      const response = await apiRequest("POST", `/api/contracts/${contractId}/amendments`, {
+        effectiveDate: data.effectiveDate,
+        reason: data.reason,
+        validFrom: data.validFrom,
+        validTo: data.validTo,
+        tariffs: data.tariffs.map(tariff => ({
+          id: tariff.rowId,
+          chcRateToCustomer: nullIfEmpty(tariff.chcRateToCustomer),
+          chcRateToPort: nullIfEmpty(tariff.chcRateToPort),
+          bhcRateToCustomer: nullIfEmpty(tariff.bhcRateToCustomer),
+          bhcRateToPort: nullIfEmpty(tariff.bhcRateToPort),
+          currency: tariff.currency || undefined,
+          unitOfMeasure: tariff.unitOfMeasure,
+        })),
+        storageCharges: data.storageCharges.map(({ rowId, ...charge }) => ({ ...charge, id: rowId, cargoType: charge.cargoType || null, currency: charge.currency || undefined })),
+      });
+      return response.json();
+    },
+    onSuccess: (result: { revision: { revisionNumber: number } }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts", contractId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({
+        title: "Success",
+        description: `${contractNumber} revision ${result.revision.revisionNumber} submitted for approval`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to amend contract",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderMoneyUnitFields = (section: "tariffs" | "storageCharges", index: number) => (
+    <>
+      <FormField
+        control={form.control}
+        name={`${section}.${index}.currency`}
+        render={({ field }) => (
+          <FormItem className="w-24">
+            <FormLabel className="text-xs">Currency</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value || undefined}>
+              <FormControl>
+                <SelectTrigger data-testid={`select-amendment-${section}-${index}-currency`}>
+                  <SelectValue placeholder="Terminal" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {Array.from(new Set([...CONTRACT_CURRENCIES, ...(field.value ? [field.value] : [])])).map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`${section}.${index}.unitOfMeasure`}
+        render={({ field }) => (
+          <FormItem className="w-28">
+            <FormLabel className="text-xs">Unit</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger data-testid={`select-amendment-${section}-${index}-unit`}>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {CONTRACT_CHARGE_UNITS.map(unit => (
+                  <SelectItem key={unit} value={unit}>{CONTRACT_CHARGE_UNIT_LABELS[unit]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <FilePen className="h-5 w-5" />
+            Amend Contract
+          </DialogTitle>
+          <DialogDescription>
+            {contractNumber}: the amendment becomes a new revision once the port's approval chain signs it off, and applies from its effective date. The current terms stay in force until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => amendMutation.mutate(data))} className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="effectiveDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective Date *</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-amendment-effective-date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From *</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-amendment-valid-from" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid To *</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-amendment-valid-to" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason *</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What changed and why?" maxLength={1000} data-testid="input-amendment-reason" {...field} />
+                  </FormControl>
+                  <FormDescription>Shown in the revision history</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Tariffs</h4>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-8"
+                  onClick={() => tariffRows.append({ chcRateToCustomer: "", chcRateToPort: "", bhcRateToCustomer: "", bhcRateToPort: "", currency: defaultCurrency, unitOfMeasure: "TEU" })}
+                  data-testid="button-add-amendment-tariff"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Tariff
+                </Button>
+              </div>
+              {tariffRows.fields.length === 0 && <p className="text-sm text-muted-foreground">No tariffs.</p>}
+              {tariffRows.fields.map((row, index) => (
+                <div key={row.id} className="flex items-end gap-2">
+                  {TARIFF_FIELDS.map(({ name, label }) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={`tariffs.${index}.${name}`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className="text-xs">{label}</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" data-testid={`input-amendment-tariff-${index}-${name}`} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  {renderMoneyUnitFields("tariffs", index)}
+                  <Button type="button" variant="ghost" className="h-8 w-8 p-0" onClick={() => tariffRows.remove(index)} data-testid={`button-remove-amendment-tariff-${index}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Storage Charges</h4>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-8"
+                  onClick={() => storageRows.append({ cargoType: "", storageFreeTime: 0, rateSlabs: [], chargePerDay: "", chargeApplicableDays: "All days", currency: defaultCurrency, unitOfMeasure: "TEU" })}
+                  data-testid="button-add-amendment-storage"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Storage Charge
+                </Button>
+              </div>
+              {storageRows.fields.length === 0 && <p className="text-sm text-muted-foreground">No storage charges.</p>}
+              {storageRows.fields.map((row, index) => (
+                <div key={row.id} className="space-y-2 border rounded-md p-3">
+                  <div className="flex items-end gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`storageCharges.${index}.cargoType`}
+                      render={({ field }) => (
+                        <FormItem className="w-36">
+                          <FormLabel className="text-xs">Cargo Type</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(value === ALL_CARGO_TYPES ? "" : value)} value={field.value || ALL_CARGO_TYPES}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-amendment-storage-${index}-cargo-type`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={ALL_CARGO_TYPES}>All cargo types</SelectItem>
+                              {Array.from(new Set([...current.cargoDetails.map(detail => text(detail.cargoType)), field.value].filter(Boolean))).map(cargoType => (
+                                <SelectItem key={cargoType} value={cargoType}>{cargoType}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`storageCharges.${index}.storageFreeTime`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className="text-xs">Free Time (days)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} data-testid={`input-amendment-storage-${index}-free-time`} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`storageCharges.${index}.chargePerDay`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className="text-xs">Charge Per Day (after slabs)</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" data-testid={`input-amendment-storage-${index}-charge`} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`storageCharges.${index}.chargeApplicableDays`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className="text-xs">Applicable Days</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-amendment-storage-${index}-days`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {STORAGE_CHARGE_APPLICABLE_DAYS.map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {renderMoneyUnitFields("storageCharges", index)}
+                    <Button type="button" variant="ghost" className="h-8 w-8 p-0" onClick={() => storageRows.remove(index)} data-testid={`button-remove-amendment-storage-${index}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <StorageRateSlabFields form={form} index={index} />
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Cargo details ({current.cargoDetails.length}) and special conditions ({current.specialConditions.length}) carry over unchanged.
+            </p>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" className="h-8" onClick={() => onOpenChange(false)} disabled={amendMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" className="h-8" disabled={amendMutation.isPending} data-testid="button-save-amendment">
+                {amendMutation.isPending ? "Saving..." : "Create Revision"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Rate slabs of one storage charge, applied in order after its free time
+function StorageRateSlabFields({ form, index }: { form: UseFormReturn<AmendmentFormData>; index: number }) {
+  const slabRows = useFieldArray({ control: form.control, name: `storageCharges.${index}.rateSlabs` });
+  const freeTime = Number(form.watch(`storageCharges.${index}.storageFreeTime`)) || 0;
+  const slabs = form.watch(`storageCharges.${index}.rateSlabs`) || [];
+
+  // Day ranges as the slabs stand, e.g. "Days 8–15"
+  let fromDay = freeTime + 1;
+  const ranges = slabs.map(slab => {
+    const days = Math.max(Math.floor(Number(slab.days)) || 0, 0);
+    const range = days > 0 ? formatStorageDays(fromDay, fromDay + days - 1) : "";
+    fromDay += days;
+    return range;
+  });
+
+  return (
+    <div className="space-y-2 pl-2">
+      {slabRows.fields.map((slab, slabIndex) => (
+        <div key={slab.id} className="flex items-end gap-2">
+          <span className="text-xs text-muted-foreground w-24 pb-2">{ranges[slabIndex]}</span>
+          <FormField
+            control={form.control}
+            name={`storageCharges.${index}.rateSlabs.${slabIndex}.days`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <FormLabel className="text-xs">Slab Days</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} data-testid={`input-amendment-storage-${index}-slab-${slabIndex}-days`} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`storageCharges.${index}.rateSlabs.${slabIndex}.chargePerDay`}
+            render={({ field }) => (
+              <FormItem className="w-36">
+                <FormLabel className="text-xs">Charge Per Day</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" data-testid={`input-amendment-storage-${index}-slab-${slabIndex}-charge`} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" className="h-8 w-8 p-0" onClick={() => slabRows.remove(slabIndex)} data-testid={`button-remove-amendment-storage-${index}-slab-${slabIndex}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => slabRows.append({ days: 1, chargePerDay: "" })}
+          disabled={slabRows.fields.length >= MAX_STORAGE_RATE_SLABS}
+          data-testid={`button-add-amendment-storage-${index}-slab`}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add Rate Slab
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {formatStorageDays(fromDay, null)} at the charge per day
+        </span>
+      </div>
+    </div>
+  );
+}
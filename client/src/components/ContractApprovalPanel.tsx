@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Circle, Clock, History, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CONTRACT_APPROVAL_ACTION_LABELS, type ContractApprovalAction, type ContractApprovalStep } from "@shared/contractApproval";
+import type { ContractApprovalHistory } from "@shared/schema";
+
+type ApprovalProgress = Array<ContractApprovalStep & { step: number; state: "approved" | "pending" | "waiting" }>;
+
+// Approval state as returned by GET /api/contracts/:id/approval
+interface ContractApprovalState {
+  status: string;
+  chain: ApprovalProgress;
+  currentStep: number | null;
+  canSubmit: boolean;
+  canApprove: boolean;
+  canTerminate: boolean;
+  amendment: {
+    revisionNumber: number;
+    effectiveDate: string;
+    reason: string | null;
+    chain: ApprovalProgress;
+    currentStep: number;
+    canApprove: boolean;
+  } | null;
+  history: Array<ContractApprovalHistory & { performedByName: string | null }>;
+}
+
+type PanelAction = "submit" | "approve" | "reject" | "terminate";
+type AmendmentAction = "approve" | "reject";
+
+interface ContractApprovalPanelProps {
+  contractId: number;
+  customerId: number;
+}
+
+export const getContractStatusColor = (status: string) => {
+  switch (status) {
+    case "Draft":
+      return "bg-yellow-100 text-yellow-800";
+    case "Submitted":
+    case "Under Review":
+      return "bg-blue-100 text-blue-800";
+    case "Approved":
+      return "bg-teal-100 text-teal-800";
+    case "Active":
+      return "bg-green-100 text-green-800";
+    case "Terminated":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+const ACTION_BUTTONS: { action: PanelAction; label: string; destructive?: boolean; requiresComments?: boolean }[] = [
+  { action: "submit", label: "Submit for Approval" },
+  { action: "approve", label: "Approve" },
+  { action: "reject", label: "Reject", destructive: true, requiresComments: true },
+  { action: "terminate", label: "Terminate", destructive: true, requiresComments: true },
+];
+
+function ApprovalSteps({ chain }: { chain: ApprovalProgress }) {
+  return (
+    <div className="space-y-2">
+      {chain.map(step => (
+        <div key={step.step} className="flex items-center gap-2 text-sm" data-testid={`approval-step-${step.step}`}>
+          {step.state === "approved" ? (
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          ) : step.state === "pending" ? (
+            <Clock className="h-4 w-4 text-blue-500" />
+          ) : (
+            <Circle className="h-4 w-4 text-muted-foreground" />
+          )}
+          <span className={step.state === "waiting" ? "text-muted-foreground" : ""}>
+            {step.step}. {step.name}
+          </span>
+          <span className="text-xs text-muted-foreground">({step.roleName})</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ContractApprovalPanel({ contractId, customerId }: ContractApprovalPanelProps) {
+  const [comments, setComments] = useState("");
+  const [amendmentComments, setAmendmentComments] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: approval, isLoading } = useQuery<ContractApprovalState>({
+    queryKey: ["/api/contracts", contractId, "approval"],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: PanelAction) => {
+      const response = await apiRequest("POST", `/api/contracts/${contractId}/approval`, {
+        action,
+        comments: comments.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (contract: { contractNumber: string; status: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts", contractId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customerId, "contracts"] });
+      setComments("");
+      toast({
+        title: "Success",
+        description: `${contract.contractNumber} is now ${contract.status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update contract approval",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const amendmentMutation = useMutation({
+    mutationFn: async ({ revisionNumber, action }: { revisionNumber: number; action: AmendmentAction }) => {
+      const response = await apiRequest("POST", `/api/contracts/${contractId}/amendments/${revisionNumber}/approval`, {
+        action,
+        comments: amendmentComments.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (revision: { revisionNumber: number; status: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contracts", contractId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customerId, "contracts"] });
+      setAmendmentComments("");
+      toast({
+        title: "Success",
+        description: `Revision ${revision.revisionNumber} is now ${revision.status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update amendment approval",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !approval) {
+    return <div className="text-center py-4">Loading approval...</div>;
+  }
+
+  const allowed: Record<PanelAction, boolean> = {
+    submit: approval.canSubmit,
+    approve: approval.canApprove,
+    reject: approval.canApprove,
+    terminate: approval.canTerminate,
+  };
+  const actions = ACTION_BUTTONS.filter(button => allowed[button.action]);
+
+  const handleAction = (button: typeof ACTION_BUTTONS[number]) => {
+    if (button.requiresComments && !comments.trim()) {
+      toast({
+        title: "Error",
+        description: `Please enter comments to ${button.label.toLowerCase()} this contract`,
+        variant: "destructive",
+      });
+      return;
+    }
+    actionMutation.mutate(button.action);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Approval
+        </h3>
+        <Badge className={getContractStatusColor(approval.status)} data-testid="badge-contract-approval-status">
+          {approval.status}
+        </Badge>
+      </div>
+
+      {approval.status === "Draft" && (
+        <p className="text-sm text-muted-foreground">
+          Tariffs and charges of this contract cannot be used until it is submitted and approved.
+        </p>
+      )}
+
+      <ApprovalSteps chain={approval.chain} />
+
+      {actions.length > 0 && (
+        <div className="space-y-3">
+          {actions.some(button => button.requiresComments) && (
+            <Textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Comments (required to reject or terminate)"
+              maxLength={1000}
+              data-testid="input-approval-comments"
+            />
+          )}
+          <div className="flex flex-wrap gap-2">
+            {actions.map(button => (
+              <Button
+                key={button.action}
+                className="h-8"
+                variant={button.destructive ? "destructive" : "default"}
+                disabled={actionMutation.isPending}
+                onClick={() => handleAction(button)}
+                data-testid={`button-approval-${button.action}`}
+              >
+                {button.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {approval.amendment && (
+        <div className="space-y-3 rounded-md border p-3" data-testid={`amendment-approval-${approval.amendment.revisionNumber}`}>
+          <div>
+            <h4 className="font-medium">Amendment awaiting approval: revision {approval.amendment.revisionNumber}</h4>
+            <p className="text-sm text-muted-foreground">
+              Takes effect on {format(new Date(approval.amendment.effectiveDate), "MMM dd, yyyy")} once approved; the current terms apply until then.
+              {approval.amendment.reason && ` ${approval.amendment.reason}`}
+            </p>
+          </div>
+          <ApprovalSteps chain={approval.amendment.chain} />
+          {approval.amendment.canApprove && (
+            <div className="space-y-3">
+              <Textarea
+                value={amendmentComments}
+                onChange={(e) => setAmendmentComments(e.target.value)}
+                placeholder="Comments (required to reject)"
+                maxLength={1000}
+                data-testid="input-amendment-approval-comments"
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  className="h-8"
+                  disabled={amendmentMutation.isPending}
+                  onClick={() => amendmentMutation.mutate({ revisionNumber: approval.amendment!.revisionNumber, action: "approve" })}
+                  data-testid="button-amendment-approve"
+                >
+                  Approve Amendment
+                </Button>
+                <Button
+                  className="h-8"
+                  variant="destructive"
+                  disabled={amendmentMutation.isPending}
+                  onClick={() => {
+                    if (!amendmentComments.trim()) {
+                      toast({ title: "Error", description: "Please enter comments to reject this amendment", variant: "destructive" });
+                      return;
+                    }
+                    amendmentMutation.mutate({ revisionNumber: approval.amendment!.revisionNumber, action: "reject" });
+                  }}
+                  data-testid="button-amendment-reject"
+                >
+                  Reject Amendment
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-medium flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Approval History
+        </h4>
+        {approval.history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No approval actions yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Comments</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {approval.history.map(entry => (
+                <TableRow key={entry.id} data-testid={`row-approval-history-${entry.id}`}>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.revisionNumber !== null && <span className="text-muted-foreground">Revision {entry.revisionNumber}: </span>}
+                    {CONTRACT_APPROVAL_ACTION_LABELS[entry.action as ContractApprovalAction] ?? entry.action}
+                    {entry.stepName && <span className="text-muted-foreground"> ({entry.stepName})</span>}
+                    <div className="text-xs text-muted-foreground">{entry.fromStatus} → {entry.toStatus}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{entry.performedByName || "System"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{entry.comments || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation } from "wouter";
+import { RefreshCw } from "lucide-react";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getContractRenewalPeriod } from "@shared/contractExpiry";
+import type { Contract } from "@shared/schema";
+
+// Dates are edited as yyyy-mm-dd strings; a blank number is generated by the server
+const renewalFormSchema = z.object({
+  contractNumber: z.string().trim().max(100),
+  validFrom: z.string().min(1, "Valid from date is required"),
+  validTo: z.string().min(1, "Valid to date is required"),
+}).refine((data) => data.validTo > data.validFrom, {
+  message: "End date must be after start date",
+  path: ["validTo"],
+});
+
+type RenewalFormData = z.infer<typeof renewalFormSchema>;
+
+interface ContractRenewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: Contract;
+}
+
+const toDateInput = (date: string | Date) => new Date(date).toISOString().slice(0, 10);
+
+export function ContractRenewDialog({ open, onOpenChange, contract }: ContractRenewDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const form = useForm<RenewalFormData>({
+    resolver: zodResolver(renewalFormSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      const period = getContractRenewalPeriod(contract.validFrom, contract.validTo);
+      form.reset({
+        contractNumber: "",
+        validFrom: toDateInput(period.validFrom),
+        validTo: toDateInput(period.validTo),
+      });
+    }
+  }, [open, contract, form]);
+
+  const renewMutation = useMutation({
+    mutationFn: async (data: RenewalFormData) => {
+      const response = await apiRequest("POST", `/api/contracts/${contract.id}/renew`, {
+        contractNumber: data.contractNumber || undefined,
+        validFrom: data.validFrom,
+        validTo: data.validTo,
+      });
+      return response.json();
+    },
+    onSuccess: (renewal: Contract) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", contract.customerId, "contracts"] });
+      toast({
+        title: "Success",
+        description: `${contract.contractNumber} renewed as draft ${renewal.contractNumber}. Submit it for approval once reviewed.`,
+      });
+      onOpenChange(false);
+      setLocation(`/customers/${contract.customerId}/contracts/${renewal.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to renew contract",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <RefreshCw className="h-5 w-5" />
+            Renew Contract
+          </DialogTitle>
+          <DialogDescription>
+            {contract.contractNumber}: its tariffs, cargo details, storage charges and special conditions are copied into a new draft contract.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => renewMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="contractNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Contract Number</FormLabel>
+                  <FormControl>
+                    <Input placeholder={`${contract.contractNumber.replace(/-R\d+$/, "")}-R1`} data-testid="input-renewal-contract-number" {...field} />
+                  </FormControl>
+                  <FormDescription>Leave blank to number the renewal after this contract.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From *</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-renewal-valid-from" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid To *</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-renewal-valid-to" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" className="h-8" onClick={() => onOpenChange(false)} disabled={renewMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" className="h-8" disabled={renewMutation.isPending} data-testid="button-save-renewal">
+                {renewMutation.isPending ? "Renewing..." : "Create Draft"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FilePen, GitCompare, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ContractAmendmentDialog } from "@/components/ContractAmendmentDialog";
+import { CONTRACT_REVISION_SECTION_LABELS, type ContractRevisionChange, type ContractRevisionSnapshot, type ContractRevisionStatus } from "@shared/contractRevisions";
+import { format } from "date-fns";
+
+// Revision as returned by GET /api/contracts/:id/revisions
+interface ContractRevision {
+  revisionNumber: number;
+  effectiveDate: string;
+  status: ContractRevisionStatus;
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  isCurrent: boolean;
+  snapshot: ContractRevisionSnapshot;
+}
+
+interface ContractRevisionsPanelProps {
+  contractId: number;
+  contractNumber: string;
+  canAmend: boolean;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([field, fieldValue]) => `${field}: ${formatValue(fieldValue)}`)
+      .join("; ");
+  }
+  if (typeof value === "string" && ISO_DATE.test(value)) return format(new Date(value), "MMM dd, yyyy");
+  return String(value);
+};
+
+export function ContractRevisionsPanel({ contractId, contractNumber, canAmend }: ContractRevisionsPanelProps) {
+  const [isAmendOpen, setIsAmendOpen] = useState(false);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<ContractRevision[]>({
+    queryKey: ["/api/contracts", contractId, "revisions"],
+  });
+  const current = revisions.find(revision => revision.isCurrent);
+  // One amendment at a time: the next can be made once the last has been approved and taken effect, or rejected
+  const hasWaitingAmendment = revisions.some(revision => revision.status === "Pending" || revision.status === "Scheduled");
+
+  // Default to comparing the current revision with the one before it
+  useEffect(() => {
+    if (revisions.length > 0) {
+      const latest = revisions[revisions.length - 1].revisionNumber;
+      setToRevision(latest);
+      setFromRevision(revisions.length > 1 ? revisions[revisions.length - 2].revisionNumber : latest);
+    }
+  }, [revisions]);
+
+  const canCompare = fromRevision !== null && toRevision !== null && fromRevision !== toRevision;
+  const { data: comparison, isLoading: isComparing } = useQuery<{ changes: ContractRevisionChange[] }>({
+    queryKey: ["/api/contracts", contractId, `revisions/compare?from=${fromRevision}&to=${toRevision}`],
+    enabled: canCompare,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading revisions...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <History className="mr-2 h-5 w-5" />
+          Revisions ({revisions.length})
+        </h3>
+        {canAmend && current && !hasWaitingAmendment && (
+          <Button size="sm" className="h-8" onClick={() => setIsAmendOpen(true)} data-testid="button-amend-contract">
+            <FilePen className="mr-2 h-4 w-4" />
+            Amend Contract
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {[...revisions].reverse().map(revision => (
+          <div key={revision.revisionNumber} className="flex items-start justify-between rounded-md border p-3 text-sm" data-testid={`contract-revision-${revision.revisionNumber}`}>
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                Revision {revision.revisionNumber}
+                {revision.isCurrent ? <Badge>Current</Badge>
+                  : revision.status === "Pending" ? <Badge variant="outline">Awaiting Approval</Badge>
+                  : revision.status === "Scheduled" ? <Badge variant="outline">Scheduled</Badge>
+                  : revision.status === "Rejected" ? <Badge variant="destructive">Rejected</Badge>
+                  : <Badge variant="secondary">Read-only</Badge>}
+              </div>
+              <p className="text-muted-foreground mt-1">{revision.reason || "Original terms"}</p>
+            </div>
+            <div className="text-right text-muted-foreground">
+              <div>Effective {format(new Date(revision.effectiveDate), "MMM dd, yyyy")}</div>
+              <div className="text-xs">Recorded {format(new Date(revision.createdAt), "MMM dd, yyyy HH:mm")}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center gap-2 text-sm">
+            <GitCompare className="h-4 w-4 text-muted-foreground" />
+            <span>Compare revision</span>
+            <Select value={fromRevision !== null ? String(fromRevision) : undefined} onValueChange={(value) => setFromRevision(Number(value))}>
+              <SelectTrigger className="h-8 w-24" data-testid="select-compare-from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.revisionNumber} value={String(revision.revisionNumber)}>{revision.revisionNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>with</span>
+            <Select value={toRevision !== null ? String(toRevision) : undefined} onValueChange={(value) => setToRevision(Number(value))}>
+              <SelectTrigger className="h-8 w-24" data-testid="select-compare-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.revisionNumber} value={String(revision.revisionNumber)}>{revision.revisionNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!canCompare ? (
+            <p className="text-sm text-muted-foreground">Select two different revisions to compare.</p>
+          ) : isComparing ? (
+            <p className="text-sm text-muted-foreground">Comparing...</p>
+          ) : comparison && comparison.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences between these revisions.</p>
+          ) : comparison && (
+            <Table data-testid="table-revision-diff">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Revision {fromRevision}</TableHead>
+                  <TableHead>Revision {toRevision}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.changes.map((change, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      {CONTRACT_REVISION_SECTION_LABELS[change.section]}
+                      {change.row !== null && ` #${change.row + 1}`}
+                    </TableCell>
+                    <TableCell>
+                      {change.kind === "changed" ? change.field : (
+                        <Badge className={change.kind === "added" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                          {change.kind === "added" ? "Added" : "Removed"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-red-700">{formatValue(change.from)}</TableCell>
+                    <TableCell className="text-green-700">{formatValue(change.to)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      {current && (
+        <ContractAmendmentDialog
+          open={isAmendOpen}
+          onOpenChange={setIsAmendOpen}
+          contractId={contractId}
+          contractNumber={contractNumber}
+          current={current.snapshot}
+        />
+      )}
+    </div>
+  );
+}
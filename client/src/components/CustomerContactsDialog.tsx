@@ -0,0 +1,619 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Contact, Edit, Plus, Star, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  insertCustomerContactSchema,
+  insertCustomerAddressSchema,
+  type CustomerContact,
+  type CustomerAddress,
+} from "@shared/schema";
+
+const ADDRESS_TYPES = ["Billing", "Shipping", "Other"];
+
+const contactFormSchema = insertCustomerContactSchema.omit({ customerId: true });
+const addressFormSchema = insertCustomerAddressSchema.omit({ customerId: true });
+
+type ContactFormData = z.infer<typeof contactFormSchema>;
+type AddressFormData = z.infer<typeof addressFormSchema>;
+
+interface CustomerContactsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: number;
+  customerName?: string;
+  canEdit: boolean;
+}
+
+// Shared by the contact and address mutations: refresh the lists and anything derived from them
+function useCustomerChildMutation<TVariables>(
+  customerId: number,
+  mutationFn: (variables: TVariables) => Promise<Response>,
+  successMessage: string,
+  errorMessage: string,
+  onDone?: () => void
+) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await mutationFn(variables);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customerId}/contacts`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customerId}/addresses`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customerId}/lifecycle`] });
+      onDone?.();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || errorMessage,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+function ContactForm({ customerId, contact, onDone }: { customerId: number; contact: CustomerContact | null; onDone: () => void }) {
+  const form = useForm<ContactFormData>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: {
+      contactName: contact?.contactName ?? "",
+      designation: contact?.designation ?? "",
+      email: contact?.email ?? "",
+      contactNumber: contact?.contactNumber ?? "",
+      isPrimaryContact: contact?.isPrimaryContact ?? false,
+    },
+  });
+
+  const saveMutation = useCustomerChildMutation(
+    customerId,
+    (data: ContactFormData) => contact
+      ? apiRequest("PUT", `/api/customers/${customerId}/contacts/${contact.id}`, data)
+      : apiRequest("POST", `/api/customers/${customerId}/contacts`, data),
+    contact ? "Contact updated successfully" : "Contact added successfully",
+    "Failed to save contact",
+    onDone
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4 border rounded-md p-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="contactName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact Name *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter contact name" data-testid="input-contact-name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="designation"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Designation *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter designation" data-testid="input-contact-designation" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email *</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="Enter email" data-testid="input-contact-email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="contactNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mobile Number *</FormLabel>
+                <FormControl>
+                  <Input placeholder="10-digit mobile number" data-testid="input-contact-number" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* The current primary can only be replaced, not unset */}
+        {!contact?.isPrimaryContact && (
+          <FormField
+            control={form.control}
+            name="isPrimaryContact"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-primary-contact" />
+                </FormControl>
+                <FormLabel className="font-normal">Make this the primary contact</FormLabel>
+              </FormItem>
+            )}
+          />
+        )}
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" className="h-8" onClick={onDone} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" className="h-8" disabled={saveMutation.isPending} data-testid="button-save-contact">
+            {saveMutation.isPending ? "Saving..." : contact ? "Save Contact" : "Add Contact"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function AddressForm({ customerId, address, onDone }: { customerId: number; address: CustomerAddress | null; onDone: () => void }) {
+  // Load states for India (country ID = 1)
+  const { data: states = [] } = useQuery<any[]>({
+    queryKey: ['/api/countries/1/states'],
+  });
+
+  const form = useForm<AddressFormData>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: {
+      addressType: address?.addressType ?? "Billing",
+      addressLine1: address?.addressLine1 ?? "",
+      addressLine2: address?.addressLine2 ?? "",
+      city: address?.city ?? "",
+      state: address?.state ?? "",
+      country: address?.country ?? "India",
+      pincode: address?.pincode ?? "",
+      isDefaultAddress: address?.isDefaultAddress ?? false,
+    },
+  });
+
+  const saveMutation = useCustomerChildMutation(
+    customerId,
+    (data: AddressFormData) => address
+      ? apiRequest("PUT", `/api/customers/${customerId}/addresses/${address.id}`, data)
+      : apiRequest("POST", `/api/customers/${customerId}/addresses`, data),
+    address ? "Address updated successfully" : "Address added successfully",
+    "Failed to save address",
+    onDone
+  );
+
+  // The default of a type can only be replaced, not unset, unless the address moves to another type
+  const addressType = form.watch("addressType");
+  const isLockedDefault = !!address?.isDefaultAddress && addressType === address.addressType;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4 border rounded-md p-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="addressType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Address Type *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-address-type">
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ADDRESS_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="pincode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pincode *</FormLabel>
+                <FormControl>
+                  <Input placeholder="6-digit pincode" data-testid="input-address-pincode" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="addressLine1"
+            render={({ field }) => (
+              <FormItem className="col-span-2">
+                <FormLabel>Address Line 1 *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter address" data-testid="input-address-line1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="addressLine2"
+            render={({ field }) => (
+              <FormItem className="col-span-2">
+                <FormLabel>Address Line 2</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" data-testid="input-address-line2" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="city"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>City *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter city" data-testid="input-address-city" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="state"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>State *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-address-state">
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {states.map((state: any) => (
+                      <SelectItem key={state.id} value={state.name}>
+                        {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {!isLockedDefault && (
+          <FormField
+            control={form.control}
+            name="isDefaultAddress"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-default-address" />
+                </FormControl>
+                <FormLabel className="font-normal">Make this the default {addressType} address</FormLabel>
+              </FormItem>
+            )}
+          />
+        )}
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" className="h-8" onClick={onDone} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" className="h-8" disabled={saveMutation.isPending} data-testid="button-save-address">
+            {saveMutation.isPending ? "Saving..." : address ? "Save Address" : "Add Address"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function CustomerContactsDialog({ open, onOpenChange, customerId, customerName, canEdit }: CustomerContactsDialogProps) {
+  // null: no form shown; "new": add form; otherwise the record being edited
+  const [editingContact, setEditingContact] = useState<CustomerContact | "new" | null>(null);
+  const [editingAddress, setEditingAddress] = useState<CustomerAddress | "new" | null>(null);
+
+  const { data: contacts = [], isLoading: contactsLoading } = useQuery<CustomerContact[]>({
+    queryKey: [`/api/customers/${customerId}/contacts`],
+    enabled: open,
+  });
+
+  const { data: addresses = [], isLoading: addressesLoading } = useQuery<CustomerAddress[]>({
+    queryKey: [`/api/customers/${customerId}/addresses`],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setEditingContact(null);
+      setEditingAddress(null);
+    }
+  }, [open]);
+
+  const makePrimaryMutation = useCustomerChildMutation(
+    customerId,
+    (contactId: number) => apiRequest("PUT", `/api/customers/${customerId}/contacts/${contactId}`, { isPrimaryContact: true }),
+    "Primary contact updated",
+    "Failed to update primary contact"
+  );
+
+  const deleteContactMutation = useCustomerChildMutation(
+    customerId,
+    (contactId: number) => apiRequest("DELETE", `/api/customers/${customerId}/contacts/${contactId}`),
+    "Contact deleted successfully",
+    "Failed to delete contact"
+  );
+
+  const makeDefaultMutation = useCustomerChildMutation(
+    customerId,
+    (addressId: number) => apiRequest("PUT", `/api/customers/${customerId}/addresses/${addressId}`, { isDefaultAddress: true }),
+    "Default address updated",
+    "Failed to update default address"
+  );
+
+  const deleteAddressMutation = useCustomerChildMutation(
+    customerId,
+    (addressId: number) => apiRequest("DELETE", `/api/customers/${customerId}/addresses/${addressId}`),
+    "Address deleted successfully",
+    "Failed to delete address"
+  );
+
+  const handleDeleteContact = (contact: CustomerContact) => {
+    if (confirm(`Delete contact ${contact.contactName}?`)) {
+      deleteContactMutation.mutate(contact.id);
+    }
+  };
+
+  const handleDeleteAddress = (address: CustomerAddress) => {
+    if (confirm(`Delete ${address.addressType} address ${address.addressLine1}?`)) {
+      deleteAddressMutation.mutate(address.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Contact className="h-5 w-5" />
+            Contacts & Addresses
+          </DialogTitle>
+          <DialogDescription>
+            {customerName ? `${customerName}: ` : ""}each customer has one primary contact and one default address per address type.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="contacts">
+          <TabsList>
+            <TabsTrigger value="contacts" data-testid="tab-contacts">Contacts ({contacts.length})</TabsTrigger>
+            <TabsTrigger value="addresses" data-testid="tab-addresses">Addresses ({addresses.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="contacts">
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-4 pr-2">
+                {canEdit && editingContact === null && (
+                  <div className="flex justify-end">
+                    <Button className="h-8" onClick={() => setEditingContact("new")} data-testid="button-add-contact">
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Contact
+                    </Button>
+                  </div>
+                )}
+                {editingContact !== null && (
+                  <ContactForm
+                    key={editingContact === "new" ? "new" : editingContact.id}
+                    customerId={customerId}
+                    contact={editingContact === "new" ? null : editingContact}
+                    onDone={() => setEditingContact(null)}
+                  />
+                )}
+                {contactsLoading ? (
+                  <div className="text-center py-4">Loading contacts...</div>
+                ) : contacts.length === 0 ? (
+                  <div className="text-center py-8 text-sm text-muted-foreground">No contacts yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Mobile</TableHead>
+                        {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {contacts.map((contact) => (
+                        <TableRow key={contact.id} data-testid={`row-contact-${contact.id}`}>
+                          <TableCell>
+                            <div className="font-medium flex items-center gap-2">
+                              {contact.contactName}
+                              {contact.isPrimaryContact && <Badge className="bg-green-100 text-green-800">Primary</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground">{contact.designation}</div>
+                          </TableCell>
+                          <TableCell>{contact.email}</TableCell>
+                          <TableCell>{contact.contactNumber}</TableCell>
+                          {canEdit && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                {!contact.isPrimaryContact && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8"
+                                    onClick={() => makePrimaryMutation.mutate(contact.id)}
+                                    disabled={makePrimaryMutation.isPending}
+                                    data-testid={`button-make-primary-${contact.id}`}
+                                  >
+                                    <Star className="h-4 w-4 mr-1" />
+                                    Make Primary
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8"
+                                  onClick={() => setEditingContact(contact)}
+                                  data-testid={`button-edit-contact-${contact.id}`}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8"
+                                  onClick={() => handleDeleteContact(contact)}
+                                  disabled={deleteContactMutation.isPending}
+                                  data-testid={`button-delete-contact-${contact.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="addresses">
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-4 pr-2">
+                {canEdit && editingAddress === null && (
+                  <div className="flex justify-end">
+                    <Button className="h-8" onClick={() => setEditingAddress("new")} data-testid="button-add-address">
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Address
+                    </Button>
+                  </div>
+                )}
+                {editingAddress !== null && (
+                  <AddressForm
+                    key={editingAddress === "new" ? "new" : editingAddress.id}
+                    customerId={customerId}
+                    address={editingAddress === "new" ? null : editingAddress}
+                    onDone={() => setEditingAddress(null)}
+                  />
+                )}
+                {addressesLoading ? (
+                  <div className="text-center py-4">Loading addresses...</div>
+                ) : addresses.length === 0 ? (
+                  <div className="text-center py-8 text-sm text-muted-foreground">No addresses yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Address</TableHead>
+                        {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {addresses.map((address) => (
+                        <TableRow key={address.id} data-testid={`row-address-${address.id}`}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {address.addressType}
+                              {address.isDefaultAddress && <Badge className="bg-green-100 text-green-800">Default</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{[address.addressLine1, address.addressLine2].filter(Boolean).join(", ")}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {address.city}, {address.state} {address.pincode}, {address.country}
+                            </div>
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                {!address.isDefaultAddress && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8"
+                                    onClick={() => makeDefaultMutation.mutate(address.id)}
+                                    disabled={makeDefaultMutation.isPending}
+                                    data-testid={`button-make-default-${address.id}`}
+                                  >
+                                    <Star className="h-4 w-4 mr-1" />
+                                    Make Default
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8"
+                                  onClick={() => setEditingAddress(address)}
+                                  data-testid={`button-edit-address-${address.id}`}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8"
+                                  onClick={() => handleDeleteAddress(address)}
+                                  disabled={deleteAddressMutation.isPending}
+                                  data-testid={`button-delete-address-${address.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
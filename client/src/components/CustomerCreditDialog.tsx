@@ -0,0 +1,266 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { CreditCard } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { customerCreditSchema, type CustomerCreditUpdate } from "@shared/schema";
+
+// Credit status as returned by the API
+interface CustomerCreditStatus {
+  customerId: number;
+  customerCode: string;
+  customerName: string;
+  creditLimit: number | null;
+  currency: string;
+  paymentTermsDays: number;
+  onHold: boolean;
+  holdReason: string | null;
+  heldAt: string | null;
+  heldBy: string | null;
+  canTransact: boolean;
+}
+
+interface CustomerCreditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: number;
+  customerName?: string;
+  canManage: boolean;
+}
+
+// Currency options
+const currencies = [
+  { value: "INR", label: "Indian Rupee (INR)" },
+  { value: "USD", label: "US Dollar (USD)" },
+  { value: "EUR", label: "Euro (EUR)" },
+  { value: "GBP", label: "British Pound (GBP)" },
+];
+
+export function CustomerCreditDialog({ open, onOpenChange, customerId, customerName, canManage }: CustomerCreditDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const creditEndpoint = `/api/customers/${customerId}/credit-status`;
+
+  const { data: credit, isLoading } = useQuery<CustomerCreditStatus>({
+    queryKey: [creditEndpoint],
+    enabled: open,
+  });
+
+  const form = useForm<CustomerCreditUpdate>({
+    resolver: zodResolver(customerCreditSchema),
+    defaultValues: {
+      creditLimit: null,
+      creditCurrency: "INR",
+      paymentTermsDays: 0,
+      creditHold: false,
+      creditHoldReason: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open && credit) {
+      form.reset({
+        creditLimit: credit.creditLimit,
+        creditCurrency: credit.currency,
+        paymentTermsDays: credit.paymentTermsDays,
+        creditHold: credit.onHold,
+        creditHoldReason: credit.holdReason ?? "",
+      });
+    }
+  }, [open, credit, form]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: CustomerCreditUpdate) => {
+      const response = await apiRequest("PUT", `/api/customers/${customerId}/credit`, data);
+      return response.json();
+    },
+    onSuccess: (updated: CustomerCreditStatus) => {
+      queryClient.setQueryData([creditEndpoint], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({
+        title: "Success",
+        description: credit && updated.onHold !== credit.onHold
+          ? `${updated.customerName} ${updated.onHold ? "put on credit hold" : "released from credit hold"}`
+          : "Credit terms updated successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update credit terms",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const creditHold = form.watch("creditHold");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <CreditCard className="h-5 w-5" />
+            Credit Terms
+          </DialogTitle>
+          <DialogDescription>
+            {customerName ? `${customerName}: ` : ""}credit limit, payment terms and credit hold. Customers on hold cannot be given new contracts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !credit ? (
+          <div className="text-center py-4">Loading credit terms...</div>
+        ) : (
+          <div className="space-y-4">
+            {credit.onHold && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800" data-testid="text-credit-hold">
+                <div className="flex items-center gap-2 font-medium">
+                  <Badge className="bg-red-100 text-red-800">Credit Hold</Badge>
+                  {credit.heldAt && <span>since {format(new Date(credit.heldAt), "MMM dd, yyyy HH:mm")}</span>}
+                </div>
+                {credit.holdReason && <p className="mt-1">{credit.holdReason}</p>}
+              </div>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="creditLimit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Credit Limit</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="No limit set"
+                            disabled={!canManage}
+                            data-testid="input-credit-limit"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="creditCurrency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={!canManage}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-credit-currency">
+                              <SelectValue placeholder="Select currency" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {currencies.map((currency) => (
+                              <SelectItem key={currency.value} value={currency.value}>
+                                {currency.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={365}
+                          disabled={!canManage}
+                          data-testid="input-payment-terms"
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>0 for payment on delivery</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="creditHold"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-md border p-3">
+                      <div>
+                        <FormLabel>Credit Hold</FormLabel>
+                        <FormDescription>Terminal users are notified when the hold is placed or released</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={!canManage} data-testid="switch-credit-hold" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {creditHold && (
+                  <FormField
+                    control={form.control}
+                    name="creditHoldReason"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hold Reason *</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Why is this customer on hold?"
+                            maxLength={1000}
+                            disabled={!canManage}
+                            data-testid="input-credit-hold-reason"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {canManage && (
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" className="h-8" onClick={() => onOpenChange(false)} disabled={updateMutation.isPending}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="h-8" disabled={updateMutation.isPending} data-testid="button-save-credit">
+                      {updateMutation.isPending ? "Saving..." : "Save Credit Terms"}
+                    </Button>
+                  </div>
+                )}
+              </form>
+            </Form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,454 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Eye, FileText, Trash2, Upload, XCircle } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  CUSTOMER_DOCUMENT_TYPES,
+  DOCUMENT_EXPIRY_WARNING_DAYS,
+  getDocumentExpiryState,
+  type CustomerDocumentType,
+} from "@shared/customerDocuments";
+import type { CustomerDocument } from "@shared/schema";
+
+// KYC scans are as often images as PDFs
+const DOCUMENT_FILE_TYPES = [".pdf", ".jpg", ".jpeg", ".png", ".doc", ".docx"];
+
+interface NewDocument {
+  documentType: CustomerDocumentType;
+  documentNumber: string;
+  expiryDate: string;
+  fileUrl: string;
+  fileName: string;
+}
+
+interface PendingReview {
+  document: CustomerDocument;
+  verificationStatus: "Verified" | "Rejected";
+}
+
+interface CustomerDocumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: number;
+  customerName?: string;
+  canEdit: boolean;
+  canManage: boolean;
+}
+
+const emptyDocument: NewDocument = {
+  documentType: "GST Certificate",
+  documentNumber: "",
+  expiryDate: "",
+  fileUrl: "",
+  fileName: "",
+};
+
+const getVerificationColor = (status: string) => {
+  switch (status) {
+    case "Verified": return "bg-green-100 text-green-800";
+    case "Rejected": return "bg-red-100 text-red-800";
+    default: return "bg-yellow-100 text-yellow-800";
+  }
+};
+
+function ExpiryCell({ expiryDate }: { expiryDate: string | Date | null }) {
+  const state = getDocumentExpiryState(expiryDate);
+  if (!expiryDate || !state) {
+    return <span className="text-muted-foreground">No expiry</span>;
+  }
+  return (
+    <div className="flex items-center gap-2">
+      {format(new Date(expiryDate), "MMM dd, yyyy")}
+      {state === "expired" && <Badge className="bg-red-100 text-red-800">Expired</Badge>}
+      {state === "expiring" && <Badge className="bg-yellow-100 text-yellow-800">Expiring soon</Badge>}
+    </div>
+  );
+}
+
+export function CustomerDocumentsDialog({ open, onOpenChange, customerId, customerName, canEdit, canManage }: CustomerDocumentsDialogProps) {
+  const [newDocument, setNewDocument] = useState<NewDocument | null>(null);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const documentsEndpoint = `/api/customers/${customerId}/documents`;
+
+  const { data: documents = [], isLoading } = useQuery<CustomerDocument[]>({
+    queryKey: [documentsEndpoint],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setNewDocument(null);
+      setPendingReview(null);
+      setReviewNotes("");
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async (document: NewDocument) => {
+      const response = await apiRequest("POST", documentsEndpoint, {
+        documentType: document.documentType,
+        documentNumber: document.documentNumber.trim() || null,
+        expiryDate: document.expiryDate || null,
+        fileUrl: document.fileUrl,
+        fileName: document.fileName,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [documentsEndpoint] });
+      setNewDocument(null);
+      toast({
+        title: "Success",
+        description: "Document added successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async ({ document, verificationStatus }: PendingReview) => {
+      const response = await apiRequest("POST", `${documentsEndpoint}/${document.id}/verify`, {
+        verificationStatus,
+        verificationNotes: reviewNotes.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: CustomerDocument) => {
+      queryClient.invalidateQueries({ queryKey: [documentsEndpoint] });
+      setPendingReview(null);
+      setReviewNotes("");
+      toast({
+        title: "Success",
+        description: `${updated.documentType} marked as ${updated.verificationStatus.toLowerCase()}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update verification status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const response = await apiRequest("DELETE", `${documentsEndpoint}/${documentId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [documentsEndpoint] });
+      toast({
+        title: "Success",
+        description: "Document deleted successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The file endpoint needs the auth header, so it is fetched and opened as a blob
+  const handleViewDocument = async (document: CustomerDocument) => {
+    try {
+      const response = await apiRequest("GET", `${documentsEndpoint}/${document.id}/file`);
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteDocument = (document: CustomerDocument) => {
+    if (confirm(`Delete ${document.documentType} (${document.fileName})?`)) {
+      deleteMutation.mutate(document.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <FileText className="h-5 w-5" />
+            KYC Documents
+          </DialogTitle>
+          <DialogDescription>
+            {customerName ? `${customerName}: ` : ""}GST certificates, PAN cards, incorporation documents and NDAs. Files are readable only by users of the customer's port; documents expiring within {DOCUMENT_EXPIRY_WARNING_DAYS} days are flagged.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pendingReview ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Mark <span className="font-medium">{pendingReview.document.documentType}</span> ({pendingReview.document.fileName}) as{" "}
+              <span className="font-medium">{pendingReview.verificationStatus.toLowerCase()}</span>?
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="verification-notes">{pendingReview.verificationStatus === "Rejected" ? "Reason *" : "Notes"}</Label>
+              <Textarea
+                id="verification-notes"
+                value={reviewNotes}
+                onChange={(e) => setReviewNotes(e.target.value)}
+                placeholder={pendingReview.verificationStatus === "Rejected" ? "Why is this document rejected?" : "Optional verification notes"}
+                maxLength={1000}
+                data-testid="input-verification-notes"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" className="h-8" onClick={() => setPendingReview(null)} disabled={verifyMutation.isPending}>
+                Back
+              </Button>
+              <Button
+                variant={pendingReview.verificationStatus === "Rejected" ? "destructive" : "default"}
+                className="h-8"
+                onClick={() => verifyMutation.mutate(pendingReview)}
+                disabled={verifyMutation.isPending || (pendingReview.verificationStatus === "Rejected" && !reviewNotes.trim())}
+                data-testid="button-confirm-verification"
+              >
+                {verifyMutation.isPending ? "Saving..." : pendingReview.verificationStatus === "Rejected" ? "Reject Document" : "Verify Document"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[65vh]">
+            <div className="space-y-4 pr-2">
+              {canEdit && newDocument === null && (
+                <div className="flex justify-end">
+                  <Button className="h-8" onClick={() => setNewDocument(emptyDocument)} data-testid="button-add-document">
+                    <Upload className="h-4 w-4 mr-1" />
+                    Add Document
+                  </Button>
+                </div>
+              )}
+
+              {newDocument && (
+                <div className="space-y-4 border rounded-md p-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Document Type *</Label>
+                      <Select
+                        value={newDocument.documentType}
+                        onValueChange={(value) => setNewDocument({ ...newDocument, documentType: value as CustomerDocumentType })}
+                      >
+                        <SelectTrigger data-testid="select-document-type">
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CUSTOMER_DOCUMENT_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="document-number">Document Number</Label>
+                      <Input
+                        id="document-number"
+                        value={newDocument.documentNumber}
+                        onChange={(e) => setNewDocument({ ...newDocument, documentNumber: e.target.value })}
+                        placeholder="Optional"
+                        maxLength={100}
+                        data-testid="input-document-number"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="document-expiry">Expiry Date</Label>
+                      <Input
+                        id="document-expiry"
+                        type="date"
+                        value={newDocument.expiryDate}
+                        onChange={(e) => setNewDocument({ ...newDocument, expiryDate: e.target.value })}
+                        data-testid="input-document-expiry"
+                      />
+                    </div>
+                  </div>
+
+                  {newDocument.fileUrl ? (
+                    <div className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <FileText className="h-4 w-4 text-green-600 dark:text-green-400" />
+                        <span className="text-sm text-green-700 dark:text-green-300">{newDocument.fileName}</span>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setNewDocument({ ...newDocument, fileUrl: "", fileName: "" })}
+                        data-testid="button-remove-document-upload"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <ObjectUploader
+                      maxNumberOfFiles={1}
+                      maxFileSize={10485760} // 10MB
+                      allowedFileTypes={DOCUMENT_FILE_TYPES}
+                      onGetUploadParameters={async () => {
+                        const response = await apiRequest("POST", "/api/objects/upload", {});
+                        const data = await response.json();
+                        return {
+                          method: "PUT" as const,
+                          url: data.uploadURL,
+                        };
+                      }}
+                      onComplete={(result) => {
+                        const uploadedFile = result.successful?.[0];
+                        if (uploadedFile) {
+                          const fileUrl = (uploadedFile.response?.body?.objectPath as string | undefined) || uploadedFile.uploadURL || "";
+                          setNewDocument((current) => current && { ...current, fileUrl, fileName: uploadedFile.name ?? "document" });
+                        } else {
+                          toast({
+                            title: "Upload Failed",
+                            description: "Failed to upload document. Please try again.",
+                            variant: "destructive",
+                          });
+                        }
+                      }}
+                      buttonClassName="w-full"
+                    >
+                      <div className="flex items-center justify-center space-x-2">
+                        <Upload className="h-4 w-4" />
+                        <span>Upload File</span>
+                      </div>
+                    </ObjectUploader>
+                  )}
+
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" className="h-8" onClick={() => setNewDocument(null)} disabled={createMutation.isPending}>
+                      Cancel
+                    </Button>
+                    <Button
+                      className="h-8"
+                      onClick={() => createMutation.mutate(newDocument)}
+                      disabled={createMutation.isPending || !newDocument.fileUrl}
+                      data-testid="button-save-document"
+                    >
+                      {createMutation.isPending ? "Saving..." : "Save Document"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {isLoading ? (
+                <div className="text-center py-4">Loading documents...</div>
+              ) : documents.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">No documents yet.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead>Verification</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {documents.map((document) => (
+                      <TableRow key={document.id} data-testid={`row-document-${document.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{document.documentType}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {document.documentNumber ? `${document.documentNumber} · ` : ""}{document.fileName}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <ExpiryCell expiryDate={document.expiryDate} />
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getVerificationColor(document.verificationStatus)}>{document.verificationStatus}</Badge>
+                          {document.verificationNotes && (
+                            <div className="text-xs text-muted-foreground mt-1">{document.verificationNotes}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8"
+                              onClick={() => handleViewDocument(document)}
+                              data-testid={`button-view-document-${document.id}`}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {canManage && document.verificationStatus !== "Verified" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8"
+                                onClick={() => setPendingReview({ document, verificationStatus: "Verified" })}
+                                data-testid={`button-verify-document-${document.id}`}
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canManage && document.verificationStatus !== "Rejected" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8"
+                                onClick={() => setPendingReview({ document, verificationStatus: "Rejected" })}
+                                data-testid={`button-reject-document-${document.id}`}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canEdit && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8"
+                                onClick={() => handleDeleteDocument(document)}
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-document-${document.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Copy, GitMerge } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Customer } from "@shared/schema";
+
+interface CustomerDuplicatePair {
+  customer: Customer;
+  duplicate: Customer;
+  score: number;
+  nameSimilarity: number;
+  reasons: string[];
+}
+
+interface PendingMerge {
+  survivor: Customer;
+  merged: Customer;
+}
+
+interface CustomerDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canManage: boolean;
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "bg-red-100 text-red-800";
+  if (score >= 65) return "bg-yellow-100 text-yellow-800";
+  return "bg-gray-100 text-gray-800";
+};
+
+function CustomerCell({ customer }: { customer: Customer }) {
+  return (
+    <div>
+      <div className="font-medium">{customer.customerName}</div>
+      <div className="text-xs text-muted-foreground font-mono">{customer.customerCode} · {customer.pan}</div>
+    </div>
+  );
+}
+
+export function CustomerDuplicatesDialog({ open, onOpenChange, canManage }: CustomerDuplicatesDialogProps) {
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: duplicates = [], isLoading } = useQuery<CustomerDuplicatePair[]>({
+    queryKey: ["/api/customers/duplicates"],
+    enabled: open,
+    staleTime: 0, // Customers change elsewhere on the page; rescan each time the dialog opens
+  });
+
+  useEffect(() => {
+    if (open) {
+      setPendingMerge(null);
+      setReason("");
+    }
+  }, [open]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivor, merged }: PendingMerge) => {
+      const response = await apiRequest("POST", `/api/customers/${survivor.id}/merge`, {
+        mergedCustomerId: merged.id,
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { survivor, merged }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers/duplicates"] });
+      setPendingMerge(null);
+      setReason("");
+      toast({
+        title: "Success",
+        description: `${merged.customerName} merged into ${survivor.customerName}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge customers",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Copy className="h-5 w-5" />
+            Duplicate Customers
+          </DialogTitle>
+          <DialogDescription>
+            Customers with similar names or a shared PAN, email or phone number. Merging moves contacts, addresses, contracts and portal users to the customer you keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pendingMerge ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Merge <span className="font-medium">{pendingMerge.merged.customerName}</span> ({pendingMerge.merged.customerCode}) into{" "}
+              <span className="font-medium">{pendingMerge.survivor.customerName}</span> ({pendingMerge.survivor.customerCode})?
+              The merged customer is deleted and its code becomes an alias of the customer you keep. This cannot be undone.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="merge-reason">Reason</Label>
+              <Textarea
+                id="merge-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Optional note for the merge audit"
+                maxLength={1000}
+                data-testid="input-merge-reason"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" className="h-8" onClick={() => setPendingMerge(null)} disabled={mergeMutation.isPending}>
+                Back
+              </Button>
+              <Button
+                variant="destructive"
+                className="h-8"
+                onClick={() => mergeMutation.mutate(pendingMerge)}
+                disabled={mergeMutation.isPending}
+                data-testid="button-confirm-merge"
+              >
+                {mergeMutation.isPending ? "Merging..." : "Merge Customers"}
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-4">Looking for duplicates...</div>
+        ) : duplicates.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">No likely duplicates found.</div>
+        ) : (
+          <ScrollArea className="max-h-[65vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Possible Duplicate</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Why</TableHead>
+                  {canManage && <TableHead className="text-right">Keep</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {duplicates.map((pair) => (
+                  <TableRow key={`${pair.customer.id}-${pair.duplicate.id}`} data-testid={`row-duplicate-${pair.customer.id}-${pair.duplicate.id}`}>
+                    <TableCell><CustomerCell customer={pair.customer} /></TableCell>
+                    <TableCell><CustomerCell customer={pair.duplicate} /></TableCell>
+                    <TableCell>
+                      <Badge className={getScoreColor(pair.score)}>{pair.score}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        {pair.reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex flex-col items-end gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setPendingMerge({ survivor: pair.customer, merged: pair.duplicate })}
+                            data-testid={`button-keep-${pair.customer.id}-${pair.duplicate.id}`}
+                          >
+                            <GitMerge className="h-4 w-4 mr-1" />
+                            {pair.customer.customerCode}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setPendingMerge({ survivor: pair.duplicate, merged: pair.customer })}
+                            data-testid={`button-keep-${pair.duplicate.id}-${pair.customer.id}`}
+                          >
+                            <GitMerge className="h-4 w-4 mr-1" />
+                            {pair.duplicate.customerCode}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
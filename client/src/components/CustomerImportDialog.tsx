@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Upload, Download, CheckCircle, AlertCircle } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface ImportRowResult {
+  row: number;
+  pan: string;
+  customerName: string;
+  errors: string[];
+}
+
+interface ImportReport {
+  totalRows: number;
+  customerCount: number;
+  contactCount: number;
+  addressCount: number;
+  errorRowCount: number;
+  rows: ImportRowResult[];
+}
+
+interface CustomerImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Multipart upload; apiRequest only sends JSON
+async function uploadImportFile(file: File, dryRun: boolean) {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+
+  const token = localStorage.getItem('portray_auth_token');
+  const response = await fetch('/api/customers/import', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    body: formData,
+  });
+
+  const data = await response.json();
+  if (!response.ok && !data.report) {
+    throw new Error(data.message || "Failed to import customers");
+  }
+  return data as { report: ImportReport; message?: string; customers?: { id: number; customerCode: string }[] };
+}
+
+export function CustomerImportDialog({ open, onOpenChange }: CustomerImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setReport(null);
+    }
+  }, [open]);
+
+  const validateMutation = useMutation({
+    mutationFn: (selectedFile: File) => uploadImportFile(selectedFile, true),
+    onSuccess: (data) => setReport(data.report),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to validate import file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selectedFile: File) => uploadImportFile(selectedFile, false),
+    onSuccess: (data) => {
+      if (!data.customers) {
+        // The data changed since validation; show the new report
+        setReport(data.report);
+        toast({
+          title: "Error",
+          description: data.message || "Import has errors",
+          variant: "destructive",
+        });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({
+        title: "Success",
+        description: `${data.customers.length} customers imported successfully`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import customers",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownloadTemplate = async () => {
+    const token = localStorage.getItem('portray_auth_token');
+    const response = await fetch('/api/customers/import/template', {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'customer-import-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const errorRows = report?.rows.filter(row => row.errors.length > 0) ?? [];
+  const isPending = validateMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Upload className="h-5 w-5" />
+            Import Customers
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one row per customer. Add rows with the same PAN for extra contacts or addresses.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setReport(null);
+              }}
+              data-testid="input-import-file"
+            />
+            <Button variant="outline" className="h-9" onClick={handleDownloadTemplate} data-testid="button-download-import-template">
+              <Download className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm" data-testid="text-import-summary">
+                {report.errorRowCount === 0 ? (
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                )}
+                <span>
+                  {report.totalRows} rows: {report.customerCount} customers, {report.contactCount} contacts, {report.addressCount} addresses.
+                  {report.errorRowCount > 0 ? ` ${report.errorRowCount} rows have errors.` : " No errors found."}
+                </span>
+              </div>
+
+              {errorRows.length > 0 && (
+                <ScrollArea className="max-h-[45vh]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {errorRows.map((row) => (
+                        <TableRow key={row.row} data-testid={`row-import-error-${row.row}`}>
+                          <TableCell className="font-mono">{row.row}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{row.customerName || "-"}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{row.pan}</div>
+                          </TableCell>
+                          <TableCell>
+                            <ul className="text-sm text-red-600 space-y-1">
+                              {row.errors.map((error, index) => (
+                                <li key={index}>{error}</li>
+                              ))}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" className="h-8" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              className="h-8"
+              disabled={!file || isPending}
+              onClick={() => file && validateMutation.mutate(file)}
+              data-testid="button-validate-import"
+            >
+              {validateMutation.isPending ? "Validating..." : "Validate"}
+            </Button>
+            <Button
+              className="h-8"
+              disabled={!file || !report || report.errorRowCount > 0 || isPending}
+              onClick={() => file && importMutation.mutate(file)}
+              data-testid="button-commit-import"
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${report?.customerCount ?? ""} Customers`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
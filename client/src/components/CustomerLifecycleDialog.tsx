@@ -0,0 +1,202 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Workflow, CheckCircle, Circle, History } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CUSTOMER_CHECKLIST_LABELS, type CustomerChecklistItem, type CustomerTransition } from "@shared/customerLifecycle";
+import type { CustomerStatusHistory } from "@shared/schema";
+
+interface CustomerLifecycle {
+  status: string;
+  checklist: Record<CustomerChecklistItem, boolean>;
+  transitions: (CustomerTransition & { allowed: boolean })[];
+  history: CustomerStatusHistory[];
+}
+
+interface CustomerLifecycleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: number;
+  customerName?: string;
+  getStatusColor: (status: string) => string;
+}
+
+export function CustomerLifecycleDialog({ open, onOpenChange, customerId, customerName, getStatusColor }: CustomerLifecycleDialogProps) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const endpoint = `/api/customers/${customerId}/lifecycle`;
+
+  const { data: lifecycle, isLoading } = useQuery<CustomerLifecycle>({
+    queryKey: [endpoint],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: CustomerTransition) => {
+      const response = await apiRequest("PATCH", `/api/customers/${customerId}/status`, {
+        action: transition.action,
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_, transition) => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setReason("");
+      toast({
+        title: "Success",
+        description: `Customer moved to ${transition.to}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update customer status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTransition = (transition: CustomerTransition) => {
+    if (transition.requiresReason && !reason.trim()) {
+      toast({
+        title: "Error",
+        description: `Please enter a reason to ${transition.label.toLowerCase()} this customer`,
+        variant: "destructive",
+      });
+      return;
+    }
+    transitionMutation.mutate(transition);
+  };
+
+  const checklistComplete = lifecycle ? Object.values(lifecycle.checklist).every(Boolean) : false;
+  const needsReason = lifecycle?.transitions.some(transition => transition.allowed && transition.requiresReason);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Workflow className="h-5 w-5" />
+            Customer Lifecycle
+            {customerName && <span className="text-sm font-normal text-muted-foreground">for {customerName}</span>}
+          </DialogTitle>
+          <DialogDescription>
+            Customers move from Draft to Activation in Progress to Active once the onboarding checklist is complete and an approver signs off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !lifecycle ? (
+          <div className="text-center py-4">Loading customer lifecycle...</div>
+        ) : (
+          <ScrollArea className="max-h-[65vh] pr-3">
+            <div className="space-y-6">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Current status:</span>
+                <Badge className={getStatusColor(lifecycle.status)} data-testid="badge-lifecycle-status">
+                  {lifecycle.status}
+                </Badge>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Onboarding Checklist</Label>
+                {(Object.keys(CUSTOMER_CHECKLIST_LABELS) as CustomerChecklistItem[]).map((item) => (
+                  <div key={item} className="flex items-center gap-2 text-sm" data-testid={`checklist-${item}`}>
+                    {lifecycle.checklist[item] ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Circle className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className={lifecycle.checklist[item] ? "" : "text-muted-foreground"}>{CUSTOMER_CHECKLIST_LABELS[item]}</span>
+                  </div>
+                ))}
+              </div>
+
+              {lifecycle.transitions.length > 0 && (
+                <div className="space-y-3">
+                  <Label>Actions</Label>
+                  {needsReason && (
+                    <Textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason (required to reject or deactivate)"
+                      maxLength={1000}
+                      data-testid="input-lifecycle-reason"
+                    />
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {lifecycle.transitions.map((transition) => (
+                      <Button
+                        key={transition.action}
+                        className="h-8"
+                        variant={transition.action === "reject" || transition.action === "deactivate" ? "destructive" : "default"}
+                        disabled={
+                          !transition.allowed ||
+                          transitionMutation.isPending ||
+                          (transition.requiresChecklist && !checklistComplete)
+                        }
+                        title={!transition.allowed ? `Requires customers ${transition.requiredLevel} permission` : undefined}
+                        onClick={() => handleTransition(transition)}
+                        data-testid={`button-lifecycle-${transition.action}`}
+                      >
+                        {transition.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Status History
+                </Label>
+                {lifecycle.history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No status changes yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lifecycle.history.map((entry) => (
+                        <TableRow key={entry.id} data-testid={`row-lifecycle-history-${entry.id}`}>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm")}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {entry.fromStatus} → {entry.toStatus}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {entry.reason || "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
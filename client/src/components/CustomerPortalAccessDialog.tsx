@@ -0,0 +1,194 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Globe, Send, UserX } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { CustomerContact } from "@shared/schema";
+
+// Portal account as returned by the API
+interface PortalUserInfo {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  isVerified: boolean;
+  invitationPending: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+}
+
+interface CustomerPortalAccessDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: number;
+  customerName?: string;
+  canManage: boolean;
+}
+
+export function CustomerPortalAccessDialog({ open, onOpenChange, customerId, customerName, canManage }: CustomerPortalAccessDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const portalUsersEndpoint = `/api/customers/${customerId}/portal-users`;
+
+  const { data: contacts = [], isLoading: contactsLoading } = useQuery<CustomerContact[]>({
+    queryKey: [`/api/customers/${customerId}/contacts`],
+    enabled: open,
+  });
+
+  const { data: portalUsers = [], isLoading: portalUsersLoading } = useQuery<PortalUserInfo[]>({
+    queryKey: [portalUsersEndpoint],
+    enabled: open,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (contactId: number) => {
+      const response = await apiRequest("POST", `/api/customers/${customerId}/contacts/${contactId}/portal-access`);
+      return response.json();
+    },
+    onSuccess: (portalUser: PortalUserInfo) => {
+      queryClient.invalidateQueries({ queryKey: [portalUsersEndpoint] });
+      toast({
+        title: "Success",
+        description: `Portal invitation sent to ${portalUser.email}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send portal invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `${portalUsersEndpoint}/${userId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [portalUsersEndpoint] });
+      toast({
+        title: "Success",
+        description: "Portal access revoked",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke portal access",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getPortalUser = (contact: CustomerContact) =>
+    portalUsers.find(user => user.email.toLowerCase() === contact.email.toLowerCase());
+
+  const getAccessBadge = (portalUser?: PortalUserInfo) => {
+    if (!portalUser) {
+      return <Badge variant="outline">No Access</Badge>;
+    }
+    if (portalUser.isActive) {
+      return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+    }
+    return portalUser.invitationPending
+      ? <Badge className="bg-yellow-100 text-yellow-800">Invited</Badge>
+      : <Badge className="bg-gray-100 text-gray-800">Revoked</Badge>;
+  };
+
+  const isLoading = contactsLoading || portalUsersLoading;
+  const isPending = inviteMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Globe className="h-5 w-5" />
+            Customer Portal Access
+            {customerName && <span className="text-sm font-normal text-muted-foreground">for {customerName}</span>}
+          </DialogTitle>
+          <DialogDescription>
+            Invited contacts verify their email, set a password and get read-only access to this customer's contracts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading contacts...</div>
+        ) : contacts.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Add a contact to this customer before granting portal access.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[65vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => {
+                  const portalUser = getPortalUser(contact);
+                  return (
+                    <TableRow key={contact.id} data-testid={`row-portal-contact-${contact.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{contact.contactName}</div>
+                        <div className="text-xs text-muted-foreground">{contact.designation}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{contact.email}</TableCell>
+                      <TableCell>{getAccessBadge(portalUser)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {portalUser?.lastLogin ? format(new Date(portalUser.lastLogin), "MMM dd, yyyy HH:mm") : "Never"}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          {portalUser?.isActive ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8"
+                              disabled={isPending}
+                              onClick={() => revokeMutation.mutate(portalUser.id)}
+                              data-testid={`button-revoke-portal-${contact.id}`}
+                            >
+                              <UserX className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8"
+                              disabled={isPending}
+                              onClick={() => inviteMutation.mutate(contact.id)}
+                              data-testid={`button-invite-portal-${contact.id}`}
+                            >
+                              <Send className="h-4 w-4 mr-1" />
+                              {portalUser ? "Resend Invite" : "Invite"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
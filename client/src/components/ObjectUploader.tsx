@@ -11,6 +11,7 @@ import { Button } from "@/components/ui/button";
 interface ObjectUploaderProps {
   maxNumberOfFiles?: number;
   maxFileSize?: number;
+  allowedFileTypes?: string[];
   onGetUploadParameters: () => Promise<{
     method: "PUT";
     url: string;
@@ -41,6 +42,8 @@ interface ObjectUploaderProps {
  * @param props.maxNumberOfFiles - Maximum number of files allowed to be uploaded
  *   (default: 1)
  * @param props.maxFileSize - Maximum file size in bytes (default: 10MB)
+ * @param props.allowedFileTypes - Accepted file extensions or MIME types
+ *   (default: contract document formats)
  * @param props.onGetUploadParameters - Function to get upload parameters (method and URL).
  *   Typically used to fetch a presigned URL from the backend server for direct-to-S3
  *   uploads.
@@ -53,6 +56,7 @@ interface ObjectUploaderProps {
 export function ObjectUploader({
   maxNumberOfFiles = 1,
   maxFileSize = 10485760, // 10MB default
+  allowedFileTypes = ['.pdf', '.doc', '.docx', '.txt'], // Contract documents
   onGetUploadParameters,
   onComplete,
   buttonClassName,
@@ -64,13 +68,17 @@ export function ObjectUploader({
       restrictions: {
         maxNumberOfFiles,
         maxFileSize,
-        allowedFileTypes: ['.pdf', '.doc', '.docx', '.txt'], // Contract documents
+        allowedFileTypes,
       },
       autoProceed: false,
     })
       .use(AwsS3, {
         shouldUseMultipart: false,
-        getUploadParameters: onGetUploadParameters,
+        // The server's direct upload endpoint authenticates the PUT like any other API request
+        getUploadParameters: async () => ({
+          ...(await onGetUploadParameters()),
+          headers: { Authorization: `Bearer ${localStorage.getItem("portray_auth_token") ?? ""}` },
+        }),
       })
       .on("complete", (result) => {
         onComplete?.(result);
@@ -0,0 +1,338 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OrganizationSsoConfig, Port, Role } from "@shared/schema";
+
+interface RoleMapping {
+  groupName: string;
+  roleId: number;
+}
+
+// SSO configuration as returned by the API; the client secret is replaced by hasClientSecret
+type SsoConfigInfo = Omit<OrganizationSsoConfig, "clientSecret"> & {
+  hasClientSecret: boolean;
+  roleMappings: RoleMapping[];
+};
+
+interface SsoFormData {
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  groupsClaim: string;
+  defaultRoleId: number | null;
+  defaultPortId: number | null;
+  autoProvision: boolean;
+  enforceSso: boolean;
+  isEnabled: boolean;
+  roleMappings: RoleMapping[];
+}
+
+const EMPTY_FORM: SsoFormData = {
+  issuerUrl: "",
+  clientId: "",
+  clientSecret: "",
+  scopes: "openid profile email",
+  groupsClaim: "groups",
+  defaultRoleId: null,
+  defaultPortId: null,
+  autoProvision: true,
+  enforceSso: false,
+  isEnabled: false,
+  roleMappings: [],
+};
+
+interface OrganizationSsoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: number;
+  organizationName?: string;
+}
+
+export function OrganizationSsoDialog({ open, onOpenChange, organizationId, organizationName }: OrganizationSsoDialogProps) {
+  const [formData, setFormData] = useState<SsoFormData>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const endpoint = `/api/organizations/${organizationId}/sso`;
+
+  const { data: config, isLoading } = useQuery<SsoConfigInfo | null>({
+    queryKey: [endpoint],
+    enabled: open,
+  });
+
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    enabled: open,
+  });
+
+  const { data: ports = [] } = useQuery<Port[]>({
+    queryKey: [`/api/organizations/${organizationId}/ports`],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(config ? {
+      issuerUrl: config.issuerUrl,
+      clientId: config.clientId,
+      clientSecret: "",
+      scopes: config.scopes,
+      groupsClaim: config.groupsClaim,
+      defaultRoleId: config.defaultRoleId,
+      defaultPortId: config.defaultPortId,
+      autoProvision: config.autoProvision,
+      enforceSso: config.enforceSso,
+      isEnabled: config.isEnabled,
+      roleMappings: config.roleMappings,
+    } : EMPTY_FORM);
+  }, [config, open]);
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (data: SsoFormData) => {
+      const response = await apiRequest("PUT", endpoint, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sso/providers"] });
+      toast({
+        title: "Success",
+        description: "Single sign-on settings saved successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save single sign-on settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMapping = (index: number, updates: Partial<RoleMapping>) => {
+    setFormData({
+      ...formData,
+      roleMappings: formData.roleMappings.map((mapping, i) => i === index ? { ...mapping, ...updates } : mapping),
+    });
+  };
+
+  const addMapping = () => {
+    if (roles.length === 0) return;
+    setFormData({ ...formData, roleMappings: [...formData.roleMappings, { groupName: "", roleId: roles[0].id }] });
+  };
+
+  const removeMapping = (index: number) => {
+    setFormData({ ...formData, roleMappings: formData.roleMappings.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveConfigMutation.mutate(formData);
+  };
+
+  const callbackUrl = `${window.location.origin}/api/auth/sso/${organizationId}/callback`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <KeyRound className="h-5 w-5" />
+            Single Sign-On
+            {organizationName && <span className="text-sm font-normal text-muted-foreground">for {organizationName}</span>}
+          </DialogTitle>
+          <DialogDescription>
+            Let staff sign in with the organization's OpenID Connect identity provider. Register {callbackUrl} as the redirect URI.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading single sign-on settings...</div>
+        ) : (
+          <ScrollArea className="max-h-[65vh] pr-3">
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="sso-enabled"
+                  checked={formData.isEnabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isEnabled: checked })}
+                  data-testid="switch-sso-enabled"
+                />
+                <Label htmlFor="sso-enabled">Enable single sign-on</Label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="issuerUrl">Issuer URL *</Label>
+                  <Input
+                    id="issuerUrl"
+                    value={formData.issuerUrl}
+                    onChange={(e) => setFormData({ ...formData, issuerUrl: e.target.value })}
+                    placeholder="https://login.example-port.com/realms/staff"
+                    required
+                    data-testid="input-sso-issuer-url"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clientId">Client ID *</Label>
+                  <Input
+                    id="clientId"
+                    value={formData.clientId}
+                    onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                    required
+                    data-testid="input-sso-client-id"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clientSecret">Client Secret</Label>
+                  <Input
+                    id="clientSecret"
+                    type="password"
+                    value={formData.clientSecret}
+                    onChange={(e) => setFormData({ ...formData, clientSecret: e.target.value })}
+                    placeholder={config?.hasClientSecret ? "Leave blank to keep the current secret" : "Not set (public client)"}
+                    data-testid="input-sso-client-secret"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scopes">Scopes</Label>
+                  <Input
+                    id="scopes"
+                    value={formData.scopes}
+                    onChange={(e) => setFormData({ ...formData, scopes: e.target.value })}
+                    data-testid="input-sso-scopes"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="groupsClaim">Groups Claim</Label>
+                  <Input
+                    id="groupsClaim"
+                    value={formData.groupsClaim}
+                    onChange={(e) => setFormData({ ...formData, groupsClaim: e.target.value })}
+                    data-testid="input-sso-groups-claim"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Group to Role Mappings</Label>
+                  <Button type="button" variant="outline" size="sm" className="h-8" onClick={addMapping} data-testid="button-add-sso-mapping">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Mapping
+                  </Button>
+                </div>
+                {formData.roleMappings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No mappings. New users receive the default role.</p>
+                ) : (
+                  formData.roleMappings.map((mapping, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        value={mapping.groupName}
+                        onChange={(e) => updateMapping(index, { groupName: e.target.value })}
+                        placeholder="IdP group"
+                        required
+                        data-testid={`input-sso-mapping-group-${index}`}
+                      />
+                      <Select value={mapping.roleId.toString()} onValueChange={(value) => updateMapping(index, { roleId: parseInt(value) })}>
+                        <SelectTrigger className="w-56" data-testid={`select-sso-mapping-role-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role.id} value={role.id.toString()}>{role.displayName}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button type="button" variant="outline" size="sm" className="h-8" onClick={() => removeMapping(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+                <p className="text-xs text-muted-foreground">The first matching mapping sets the user's role on every sign-in.</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Default Role</Label>
+                  <Select
+                    value={formData.defaultRoleId?.toString() ?? "none"}
+                    onValueChange={(value) => setFormData({ ...formData, defaultRoleId: value === "none" ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger data-testid="select-sso-default-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (require a mapped group)</SelectItem>
+                      {roles.map((role) => (
+                        <SelectItem key={role.id} value={role.id.toString()}>{role.displayName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Default Port</Label>
+                  <Select
+                    value={formData.defaultPortId?.toString() ?? "none"}
+                    onValueChange={(value) => setFormData({ ...formData, defaultPortId: value === "none" ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger data-testid="select-sso-default-port">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {ports.map((port) => (
+                        <SelectItem key={port.id} value={port.id.toString()}>{port.portName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="sso-auto-provision"
+                    checked={formData.autoProvision}
+                    onCheckedChange={(checked) => setFormData({ ...formData, autoProvision: checked })}
+                    data-testid="switch-sso-auto-provision"
+                  />
+                  <Label htmlFor="sso-auto-provision">Create accounts for new users on first sign-in</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="sso-enforce"
+                    checked={formData.enforceSso}
+                    onCheckedChange={(checked) => setFormData({ ...formData, enforceSso: checked })}
+                    data-testid="switch-sso-enforce"
+                  />
+                  <Label htmlFor="sso-enforce">Require single sign-on (password login stays available to System Admins)</Label>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" className="h-8" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="h-8" disabled={saveConfigMutation.isPending} data-testid="button-save-sso">
+                  {saveConfigMutation.isPending ? "Saving..." : "Save Settings"}
+                </Button>
+              </div>
+            </form>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
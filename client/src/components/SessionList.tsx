@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SessionInfo {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface SessionListProps {
+  // Base endpoint: "/api/auth/sessions" for the signed-in user or "/api/users/:id/sessions" for admins
+  endpoint: string;
+  canRevoke?: boolean;
+}
+
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return { label: "Unknown device", mobile: false };
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "Unknown OS";
+
+  return { label: `${browser} on ${os}`, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+};
+
+export function SessionList({ endpoint, canRevoke = true }: SessionListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: [endpoint],
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return apiRequest("DELETE", `${endpoint}/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: "Success",
+        description: "Session signed out",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading sessions...</p>;
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Device</TableHead>
+            <TableHead>IP Address</TableHead>
+            <TableHead>Signed In</TableHead>
+            <TableHead>Last Active</TableHead>
+            {canRevoke && <TableHead className="text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sessions.map((session) => {
+            const device = describeUserAgent(session.userAgent);
+            return (
+              <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {device.mobile ? <Smartphone className="h-4 w-4 text-gray-500" /> : <Monitor className="h-4 w-4 text-gray-500" />}
+                    <span className="text-sm">{device.label}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">{session.ipAddress || "Unknown"}</TableCell>
+                <TableCell className="text-sm">{format(new Date(session.createdAt), "MMM dd, yyyy hh:mm a")}</TableCell>
+                <TableCell className="text-sm">{format(new Date(session.lastSeenAt), "MMM dd, yyyy hh:mm a")}</TableCell>
+                {canRevoke && (
+                  <TableCell className="text-right">
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => revokeSessionMutation.mutate(session.id)}
+                        disabled={revokeSessionMutation.isPending}
+                        data-testid={`button-revoke-session-${session.id}`}
+                      >
+                        <LogOut className="h-4 w-4 mr-1" />
+                        Sign Out
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
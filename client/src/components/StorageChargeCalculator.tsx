@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Calculator } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isContractApproved } from "@shared/contractApproval";
+import { CONTRACT_CHARGE_UNIT_LABELS, formatMoney, type ContractChargeUnit } from "@shared/contractMoney";
+import { formatStorageDays, type StorageChargeBreakdown } from "@shared/storageCharges";
+import type { Contract } from "@shared/schema";
+
+// Calculation as returned by POST /api/contracts/:id/storage-charges/calculate
+interface StorageChargeCalculation extends StorageChargeBreakdown {
+  revisionNumber: number;
+  provisional: boolean;
+  cargoType: string;
+  quantity: number;
+  unitOfMeasure: string;
+  currency: string;
+  chargeApplicableDays: string;
+  calendarDays: number;
+  excludedDays: number;
+}
+
+interface StorageChargeCalculatorProps {
+  contract: Contract;
+  // Cargo types to offer; free text is asked for when there are none
+  cargoTypes: string[];
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export function StorageChargeCalculator({ contract, cargoTypes }: StorageChargeCalculatorProps) {
+  const { toast } = useToast();
+  const [cargoType, setCargoType] = useState(cargoTypes[0] ?? "");
+  const [quantity, setQuantity] = useState("1");
+  const [gateInDate, setGateInDate] = useState(toDateInput(new Date()));
+  const [gateOutDate, setGateOutDate] = useState(toDateInput(new Date()));
+  // Contracts that are not approved yet can only be previewed
+  const preview = !isContractApproved(contract.status);
+
+  const calculateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/contracts/${contract.id}/storage-charges/calculate`, {
+        cargoType,
+        quantity,
+        gateInDate,
+        gateOutDate,
+        preview,
+      });
+      return response.json() as Promise<StorageChargeCalculation>;
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to calculate storage charge",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = calculateMutation.data;
+  const unitLabel = (unit: string) => CONTRACT_CHARGE_UNIT_LABELS[unit as ContractChargeUnit] ?? `per ${unit}`;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold flex items-center">
+        <Calculator className="mr-2 h-5 w-5" />
+        What-if Storage Charge
+      </h3>
+      {preview && (
+        <p className="text-sm text-muted-foreground" data-testid="text-storage-calculator-provisional">
+          {contract.contractNumber} is {contract.status}, so this is a preview; its terms may still change before approval.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <Label className="text-xs">Cargo Type</Label>
+          {cargoTypes.length > 0 ? (
+            <Select value={cargoType || undefined} onValueChange={setCargoType}>
+              <SelectTrigger data-testid="select-calculator-cargo-type">
+                <SelectValue placeholder="Cargo type" />
+              </SelectTrigger>
+              <SelectContent>
+                {cargoTypes.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input value={cargoType} onChange={(e) => setCargoType(e.target.value)} placeholder="Cargo type" data-testid="input-calculator-cargo-type" />
+          )}
+        </div>
+        <div>
+          <Label className="text-xs">Quantity</Label>
+          <Input type="number" min={0} step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} data-testid="input-calculator-quantity" />
+        </div>
+        <div>
+          <Label className="text-xs">Gate-in</Label>
+          <Input type="date" value={gateInDate} onChange={(e) => setGateInDate(e.target.value)} data-testid="input-calculator-gate-in" />
+        </div>
+        <div>
+          <Label className="text-xs">Gate-out</Label>
+          <Input type="date" value={gateOutDate} onChange={(e) => setGateOutDate(e.target.value)} data-testid="input-calculator-gate-out" />
+        </div>
+        <Button
+          className="h-9"
+          onClick={() => calculateMutation.mutate()}
+          disabled={calculateMutation.isPending || !cargoType.trim()}
+          data-testid="button-calculate-storage-charge"
+        >
+          {calculateMutation.isPending ? "Calculating..." : preview ? "Preview" : "Calculate"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-2" data-testid="storage-calculation-result">
+          <p className="text-sm text-muted-foreground">
+            {result.quantity} {result.unitOfMeasure} of {result.cargoType} for {result.totalDays} day{result.totalDays === 1 ? "" : "s"}:
+            {" "}{result.freeDays} free, {result.chargeableDays} chargeable.
+            {result.excludedDays > 0 && ` ${result.excludedDays} of ${result.calendarDays} calendar days not counted (${result.chargeApplicableDays}).`}
+            {" "}Priced with revision {result.revisionNumber}{result.provisional ? ", provisionally" : ""}.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Days</TableHead>
+                <TableHead>No. of Days</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.lines.map(line => (
+                <TableRow key={line.fromDay} data-testid={`row-storage-calculation-${line.fromDay}`}>
+                  <TableCell>{formatStorageDays(line.fromDay, line.toDay)}</TableCell>
+                  <TableCell>{line.days}</TableCell>
+                  <TableCell>{line.chargePerDay === null ? "Free" : `${formatMoney(line.chargePerDay, result.currency)} per day ${unitLabel(result.unitOfMeasure)}`}</TableCell>
+                  <TableCell className="text-right">{formatMoney(line.amount, result.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold" data-testid="text-storage-calculation-total">
+                  {formatMoney(result.total, result.currency)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
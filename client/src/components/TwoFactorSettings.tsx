@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ShieldCheck, ShieldAlert, KeyRound, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpAuthUrl: string;
+  qrCode: string;
+}
+
+export function TwoFactorSettings() {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (error: any) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.message || "Two-factor authentication request failed",
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication enabled",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication disabled",
+      });
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = () => {
+    if (recoveryCodes) {
+      navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+    }
+  };
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="twoFactorCode">Authentication Code</Label>
+      <Input
+        id="twoFactorCode"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="Enter the 6-digit code from your app"
+        data-testid="input-profile-two-factor-code"
+      />
+    </div>
+  );
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status.enabled ? (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+              <ShieldCheck className="w-3 h-3 mr-1" />
+              Enabled
+            </Badge>
+          ) : (
+            <Badge variant="secondary">
+              <ShieldAlert className="w-3 h-3 mr-1" />
+              Disabled
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-3 sm:p-6 space-y-4">
+        {status.required && !status.enabled && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up to continue using PortRay.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2">
+            <Alert>
+              <AlertDescription>
+                Save these recovery codes somewhere safe. Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+              </AlertDescription>
+            </Alert>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 dark:bg-gray-800 p-3 rounded" data-testid="list-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" className="h-8" onClick={copyRecoveryCodes}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy Codes
+            </Button>
+          </div>
+        )}
+
+        {!status.enabled && !setup && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Protect your account with a time-based code from an authenticator app such as Google Authenticator or Microsoft Authenticator.
+            </p>
+            <Button
+              className="h-8"
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              data-testid="button-setup-two-factor"
+            >
+              <KeyRound className="w-4 h-4 mr-2" />
+              {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+
+        {!status.enabled && setup && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Scan this QR code with your authenticator app, then enter the code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 border rounded" data-testid="img-two-factor-qr" />
+            <div className="space-y-1">
+              <Label>Manual entry key</Label>
+              <p className="font-mono text-sm break-all">{setup.secret}</p>
+            </div>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                className="h-8"
+                onClick={() => enableMutation.mutate()}
+                disabled={enableMutation.isPending || code.trim().length < 6}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Verify and Enable"}
+              </Button>
+              <Button variant="outline" className="h-8" onClick={() => { setSetup(null); setCode(""); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {status.recoveryCodesRemaining} recovery codes remaining. Enter a current authentication code to generate new recovery codes{status.required ? "" : " or disable two-factor authentication"}.
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="h-8"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending || code.trim().length < 6}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  className="h-8"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={disableMutation.isPending || code.trim().length < 6}
+                  data-testid="button-disable-two-factor"
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
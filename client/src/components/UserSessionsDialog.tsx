@@ -0,0 +1,32 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Monitor } from "lucide-react";
+import { SessionList } from "@/components/SessionList";
+
+interface UserSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  userName?: string;
+  canRevoke?: boolean;
+}
+
+export function UserSessionsDialog({ open, onOpenChange, userId, userName, canRevoke }: UserSessionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Monitor className="h-5 w-5" />
+            Active Sessions
+            {userName && <span className="text-sm font-normal text-muted-foreground">for {userName}</span>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          {open && userId && <SessionList endpoint={`/api/users/${userId}/sessions`} canRevoke={canRevoke} />}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
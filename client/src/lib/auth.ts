@@ -1,11 +1,20 @@
 import { queryClient, apiRequest } from "./queryClient";
-import type { LoginCredentials, User } from "@shared/schema";
+import type { LoginCredentials, TwoFactorLogin, ForgotPassword, User } from "@shared/schema";
 
 interface AuthResponse {
   user: User;
   token: string;
   expiresAt: string;
   redirectPath?: string;
+  twoFactorSetupRequired?: boolean;
+  passwordChangeRequired?: boolean;
+}
+
+// Returned by login when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
 }
 
 export class AuthService {
@@ -67,11 +76,15 @@ export class AuthService {
     }
   }
 
-  static async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  static async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallengeResponse> {
     try {
       const response = await apiRequest("POST", "/api/auth/login", credentials);
-      const data: AuthResponse = await response.json();
+      const data: AuthResponse | TwoFactorChallengeResponse = await response.json();
       
+      if ("twoFactorRequired" in data) {
+        return data;
+      }
+
       console.log("Login successful, storing token:", data.token);
       AuthService.setToken(data.token);
       AuthService.setUser(data.user);
@@ -84,6 +97,32 @@ export class AuthService {
     }
   }
 
+  // Complete a single sign-on login using the one-time code from the IdP callback
+  static async exchangeSsoCode(code: string): Promise<AuthResponse | TwoFactorChallengeResponse> {
+    const response = await apiRequest("POST", "/api/auth/sso/exchange", { code });
+    const data: AuthResponse | TwoFactorChallengeResponse = await response.json();
+
+    if (!("twoFactorRequired" in data)) {
+      AuthService.setToken(data.token);
+      AuthService.setUser(data.user);
+    }
+    return data;
+  }
+
+  static async verifyTwoFactor(data: TwoFactorLogin): Promise<AuthResponse> {
+    const response = await apiRequest("POST", "/api/auth/login/2fa", data);
+    const authData: AuthResponse = await response.json();
+
+    AuthService.setToken(authData.token);
+    AuthService.setUser(authData.user);
+    return authData;
+  }
+
+  static async requestPasswordReset(data: ForgotPassword): Promise<{ message: string }> {
+    const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+    return response.json();
+  }
+
   static async logout(): Promise<void> {
     try {
       const token = AuthService.getToken();
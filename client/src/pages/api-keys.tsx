@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { KeyRound, Plus, Ban, History, Copy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ApiKey, ApiKeyAuditLog, Port } from "@shared/schema";
+
+// API key as returned by the API; the full key is only included in the create response
+type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+type ScopeLevel = "none" | "read" | "write" | "manage";
+
+// Areas integrations can be granted, as glink or glink:plink permission names
+const API_KEY_SCOPES = [
+  { permission: "customers", label: "Customers" },
+  { permission: "contracts", label: "Contracts" },
+  { permission: "configuration:terminals", label: "Terminals" },
+  { permission: "configuration:ports", label: "Ports" },
+];
+
+interface ApiKeyFormData {
+  name: string;
+  portId: string;
+  expiresAt: string;
+  scopes: Record<string, ScopeLevel>;
+}
+
+const EMPTY_FORM: ApiKeyFormData = {
+  name: "",
+  portId: "",
+  expiresAt: "",
+  scopes: Object.fromEntries(API_KEY_SCOPES.map((scope) => [scope.permission, "none"])),
+};
+
+export default function ApiKeysPage() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [formData, setFormData] = useState<ApiKeyFormData>(EMPTY_FORM);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [activityKey, setActivityKey] = useState<ApiKeyInfo | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canManage } = usePermissions();
+  const canManageKeys = canManage("configuration", "api-keys");
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKeyInfo[]>({
+    queryKey: ["/api/configuration/api-keys"],
+  });
+
+  const { data: ports = [] } = useQuery<Port[]>({
+    queryKey: ["/api/ports"],
+  });
+
+  const { data: auditLogs = [], isLoading: isLoadingLogs } = useQuery<ApiKeyAuditLog[]>({
+    queryKey: [`/api/configuration/api-keys/${activityKey?.id}/audit-logs`],
+    enabled: !!activityKey,
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: async (data: ApiKeyFormData) => {
+      const response = await apiRequest("POST", "/api/configuration/api-keys", {
+        name: data.name,
+        portId: parseInt(data.portId),
+        expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`).toISOString() : null,
+        permissions: Object.entries(data.scopes)
+          .filter(([, level]) => level !== "none")
+          .map(([permission, level]) => `${permission}:${level}`),
+      });
+      return response.json();
+    },
+    onSuccess: (data: ApiKeyInfo & { key: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/configuration/api-keys"] });
+      setIsCreateOpen(false);
+      setFormData(EMPTY_FORM);
+      setCreatedKey(data.key);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("PATCH", `/api/configuration/api-keys/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/configuration/api-keys"] });
+      toast({
+        title: "Success",
+        description: "API key revoked successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createKeyMutation.mutate(formData);
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({
+      title: "Success",
+      description: "API key copied to clipboard",
+    });
+  };
+
+  const getPortName = (portId: number) => ports.find((port) => port.id === portId)?.portName || `Port ${portId}`;
+
+  const getStatus = (apiKey: ApiKeyInfo) => {
+    if (!apiKey.isActive) return { label: "Revoked", variant: "secondary" as const };
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date()) return { label: "Expired", variant: "secondary" as const };
+    return { label: "Active", variant: "default" as const };
+  };
+
+  return (
+    <AppLayout title="API Keys" activeSection="api-keys">
+      <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <div className="border-b border-gray-200 dark:border-gray-700">
+          <span className="text-sm text-gray-600 dark:text-gray-400 pl-4">API Keys</span>
+        </div>
+
+        <main className="px-4 sm:px-6 lg:px-2 py-2 flex-1">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Integration Keys
+              </CardTitle>
+              {canManageKeys && (
+                <Button className="h-8" onClick={() => setIsCreateOpen(true)} data-testid="button-create-api-key">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Create API Key
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground mb-4">
+                External systems authenticate by sending the key in the <code>X-API-Key</code> header. Every call is recorded in the key's activity log.
+              </p>
+              {isLoading ? (
+                <div className="text-center py-4">Loading API keys...</div>
+              ) : apiKeys.length === 0 ? (
+                <div className="text-center py-4 text-muted-foreground">No API keys have been created.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Port</TableHead>
+                        <TableHead>Permissions</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Last Used</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {apiKeys.map((apiKey) => {
+                        const status = getStatus(apiKey);
+                        return (
+                          <TableRow key={apiKey.id} data-testid={`row-api-key-${apiKey.id}`}>
+                            <TableCell className="font-medium">{apiKey.name}</TableCell>
+                            <TableCell className="font-mono text-sm">{apiKey.keyPrefix}...</TableCell>
+                            <TableCell className="text-sm">{getPortName(apiKey.portId)}</TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {apiKey.permissions.map((permission) => (
+                                  <Badge key={permission} variant="outline" className="text-xs">{permission}</Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {apiKey.expiresAt ? format(new Date(apiKey.expiresAt), "MMM dd, yyyy") : "Never"}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {apiKey.lastUsedAt ? (
+                                <div>
+                                  <div>{format(new Date(apiKey.lastUsedAt), "MMM dd, yyyy hh:mm a")}</div>
+                                  {apiKey.lastUsedIp && <div className="text-xs text-muted-foreground">{apiKey.lastUsedIp}</div>}
+                                </div>
+                              ) : "Never"}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={status.variant}>{status.label}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end space-x-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8"
+                                  onClick={() => setActivityKey(apiKey)}
+                                  data-testid={`button-api-key-activity-${apiKey.id}`}
+                                >
+                                  <History className="h-4 w-4" />
+                                </Button>
+                                {canManageKeys && apiKey.isActive && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8"
+                                    onClick={() => revokeKeyMutation.mutate(apiKey.id)}
+                                    disabled={revokeKeyMutation.isPending}
+                                    data-testid={`button-revoke-api-key-${apiKey.id}`}
+                                  >
+                                    <Ban className="h-4 w-4 mr-1" />
+                                    Revoke
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      {/* Create API Key Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) setFormData(EMPTY_FORM); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>Keys can only be granted permissions you hold yourself.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyName">Name *</Label>
+              <Input
+                id="apiKeyName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Terminal Operating System"
+                required
+                data-testid="input-api-key-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Port *</Label>
+              <Select value={formData.portId} onValueChange={(value) => setFormData({ ...formData, portId: value })}>
+                <SelectTrigger data-testid="select-api-key-port">
+                  <SelectValue placeholder="Select a port" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ports.map((port) => (
+                    <SelectItem key={port.id} value={port.id.toString()}>{port.portName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions *</Label>
+              {API_KEY_SCOPES.map((scope) => (
+                <div key={scope.permission} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{scope.label}</span>
+                  <Select
+                    value={formData.scopes[scope.permission]}
+                    onValueChange={(value) => setFormData({ ...formData, scopes: { ...formData.scopes, [scope.permission]: value as ScopeLevel } })}
+                  >
+                    <SelectTrigger className="w-40" data-testid={`select-api-key-scope-${scope.permission}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No access</SelectItem>
+                      <SelectItem value="read">Read</SelectItem>
+                      <SelectItem value="write">Write</SelectItem>
+                      <SelectItem value="manage">Manage</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyExpiresAt">Expires On</Label>
+              <Input
+                id="apiKeyExpiresAt"
+                type="date"
+                value={formData.expiresAt}
+                onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                data-testid="input-api-key-expires-at"
+              />
+              <p className="text-xs text-muted-foreground">Leave blank for a key that does not expire</p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" className="h-8" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="h-8"
+                disabled={createKeyMutation.isPending || !formData.portId}
+                data-testid="button-submit-api-key"
+              >
+                {createKeyMutation.isPending ? "Creating..." : "Create Key"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Newly Created Key Dialog */}
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>Copy this key now. It will not be shown again.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={createdKey || ""} readOnly className="font-mono text-sm" data-testid="input-created-api-key" />
+            <Button type="button" variant="outline" className="h-8" onClick={copyCreatedKey} data-testid="button-copy-api-key">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex justify-end">
+            <Button className="h-8" onClick={() => setCreatedKey(null)}>Done</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Activity Dialog */}
+      <Dialog open={!!activityKey} onOpenChange={(open) => !open && setActivityKey(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-xl">
+              <History className="h-5 w-5" />
+              Activity
+              {activityKey && <span className="text-sm font-normal text-muted-foreground">for {activityKey.name}</span>}
+            </DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            {isLoadingLogs ? (
+              <p className="text-sm text-muted-foreground">Loading activity...</p>
+            ) : auditLogs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity recorded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditLogs.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="text-sm">{format(new Date(log.createdAt), "MMM dd, yyyy hh:mm:ss a")}</TableCell>
+                      <TableCell className="text-sm font-mono">
+                        {log.action === "request" ? `${log.method} ${log.path}` : `Key ${log.action}`}
+                      </TableCell>
+                      <TableCell className="text-sm">{log.statusCode ?? "-"}</TableCell>
+                      <TableCell className="text-sm">{log.ipAddress || "Unknown"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
@@ -10,6 +10,15 @@ import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ContractForm } from "@/components/contract-form";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { ContractRevisionsPanel } from "@/components/ContractRevisionsPanel";
+import { ContractApprovalPanel, getContractStatusColor } from "@/components/ContractApprovalPanel";
+import { ContractRenewDialog } from "@/components/ContractRenewDialog";
+import { StorageChargeCalculator } from "@/components/StorageChargeCalculator";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatMoney } from "@shared/contractMoney";
+import { isContractApproved } from "@shared/contractApproval";
+import { DEFAULT_CONTRACT_EXPIRY_REMINDER_DAYS, getDaysUntilExpiry } from "@shared/contractExpiry";
+import { formatStorageDays, getStorageRatePeriods, parseStorageChargeApplicableDays } from "@shared/storageCharges";
 import type { Customer, Contract, CustomerContact, ContractTariff, ContractCargoDetail, ContractStorageCharge } from "@shared/schema";
 
 const CONTRACT_TABS = [
@@ -24,9 +33,11 @@ const CONTRACT_TABS = [
 function ContractDetailsContent() {
   const [, params] = useRoute("/customers/:customerId/contracts/:contractId?");
   const [, setLocation] = useLocation();
+  const { canWrite } = usePermissions();
   const [activeTab, setActiveTab] = useState("contract");
   const [isContractFormOpen, setIsContractFormOpen] = useState(false);
   const [renewContractId, setRenewContractId] = useState<number | undefined>();
+  const [renewingContract, setRenewingContract] = useState<Contract | null>(null);
   
   const customerId = params?.customerId ? parseInt(params.customerId) : null;
   const contractId = params?.contractId ? parseInt(params.contractId) : null;
@@ -220,9 +231,12 @@ function ContractDetailsContent() {
                       <h3 className="text-lg font-semibold">All Contracts ({contracts.length})</h3>
                       <div className="grid gap-4">
                         {contracts.map((contractItem) => {
-                          const isExpired = new Date(contractItem.validTo) < new Date();
-                          const isActive = new Date(contractItem.validFrom) <= new Date() && new Date(contractItem.validTo) >= new Date();
-                          const isUpcoming = new Date(contractItem.validFrom) > new Date();
+                          const daysLeft = getDaysUntilExpiry(contractItem.validTo);
+                          const renewal = contracts.find(other => other.renewedFromContractId === contractItem.id && other.status !== "Terminated");
+                          const renewedFrom = contracts.find(other => other.id === contractItem.renewedFromContractId);
+                          const isExpiring = ["Approved", "Active"].includes(contractItem.status)
+                            && !renewal && daysLeft >= 0 && daysLeft <= Math.max(...DEFAULT_CONTRACT_EXPIRY_REMINDER_DAYS);
+                          const canRenew = canWrite("contracts") && isContractApproved(contractItem.status) && !renewal;
                           
                           return (
                             <div 
@@ -239,12 +253,22 @@ function ContractDetailsContent() {
                                       {contractItem.contractNumber}
                                     </h4>
                                     <Badge 
-                                      variant={isActive ? "default" : isExpired ? "destructive" : "secondary"}
+                                      className={getContractStatusColor(contractItem.status)}
                                       data-testid={`contract-status-${contractItem.id}`}
                                     >
-                                      {isActive ? "Active" : isExpired ? "Expired" : "Upcoming"}
+                                      {contractItem.status}
                                     </Badge>
+                                    {isExpiring && (
+                                      <Badge variant="outline" className="border-orange-300 text-orange-700" data-testid={`contract-expiring-${contractItem.id}`}>
+                                        {daysLeft === 0 ? "Expires today" : `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                                      </Badge>
+                                    )}
                                   </div>
+                                  {(renewal || renewedFrom) && (
+                                    <div className="text-sm text-muted-foreground" data-testid={`contract-renewal-${contractItem.id}`}>
+                                      {renewal ? `Renewed as ${renewal.contractNumber}` : `Renewal of ${renewedFrom!.contractNumber}`}
+                                    </div>
+                                  )}
                                   <div className="grid grid-cols-2 gap-4 text-sm">
                                     <div>
                                       <span className="text-muted-foreground">Valid From: </span>
@@ -282,13 +306,11 @@ function ContractDetailsContent() {
                                   >
                                     {contractItem.id === contract?.id ? "Current" : "View"}
                                   </Button>
-                                  {isExpired && (
+                                  {canRenew && (
                                     <Button 
                                       size="sm"
-                                      onClick={() => {
-                                        setRenewContractId(contractItem.id);
-                                        setIsContractFormOpen(true);
-                                      }}
+                                      variant={isExpiring || contractItem.status === "Expired" ? "default" : "outline"}
+                                      onClick={() => setRenewingContract(contractItem)}
                                       data-testid={`button-renew-contract-${contractItem.id}`}
                                     >
                                       Renew
@@ -348,6 +370,16 @@ function ContractDetailsContent() {
                             This contract number serves as the reference for all associated contacts, cargo details, tariff rates, and storage charges shown in the tabs above.
                           </p>
                         </div>
+                        <div className="mt-6">
+                          <ContractApprovalPanel contractId={contract.id} customerId={contract.customerId} />
+                        </div>
+                        <div className="mt-6 border-t pt-6">
+                          <ContractRevisionsPanel
+                            contractId={contract.id}
+                            contractNumber={contract.contractNumber}
+                            canAmend={canWrite("contracts") && isContractApproved(contract.status)}
+                          />
+                        </div>
                       </div>
                     )}
                   </div>
@@ -616,19 +648,19 @@ function ContractDetailsContent() {
                         <div className="grid grid-cols-2 gap-4">
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">CHC Rate to Customer</label>
-                            <p data-testid={`tariff-chc-customer-${tariff.id}`}>{tariff.chcRateToCustomer || 'Not set'}</p>
+                            <p data-testid={`tariff-chc-customer-${tariff.id}`}>{formatMoney(tariff.chcRateToCustomer, tariff.currency, tariff.unitOfMeasure)}</p>
                           </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">CHC Rate to Port</label>
-                            <p data-testid={`tariff-chc-port-${tariff.id}`}>{tariff.chcRateToPort || 'Not set'}</p>
+                            <p data-testid={`tariff-chc-port-${tariff.id}`}>{formatMoney(tariff.chcRateToPort, tariff.currency, tariff.unitOfMeasure)}</p>
                           </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">BHC Rate to Customer</label>
-                            <p data-testid={`tariff-bhc-customer-${tariff.id}`}>{tariff.bhcRateToCustomer || 'Not set'}</p>
+                            <p data-testid={`tariff-bhc-customer-${tariff.id}`}>{formatMoney(tariff.bhcRateToCustomer, tariff.currency, tariff.unitOfMeasure)}</p>
                           </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">BHC Rate to Port</label>
-                            <p data-testid={`tariff-bhc-port-${tariff.id}`}>{tariff.bhcRateToPort || 'Not set'}</p>
+                            <p data-testid={`tariff-bhc-port-${tariff.id}`}>{formatMoney(tariff.bhcRateToPort, tariff.currency, tariff.unitOfMeasure)}</p>
                           </div>
                         </div>
                       </div>
@@ -677,22 +709,45 @@ function ContractDetailsContent() {
                   <div className="space-y-4">
                     {storageCharges.map((storage) => (
                       <div key={storage.id} className="border rounded-lg p-4">
-                        <div className="grid grid-cols-3 gap-4">
+                        <div className="grid grid-cols-4 gap-4">
+                          <div>
+                            <label className="text-sm font-medium text-muted-foreground">Cargo Type</label>
+                            <p data-testid={`storage-cargo-type-${storage.id}`}>{storage.cargoType || "All cargo types"}</p>
+                          </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">Free Time</label>
                             <p data-testid={`storage-free-time-${storage.id}`}>{storage.storageFreeTime} days</p>
                           </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">Charge Per Day</label>
-                            <p data-testid={`storage-charge-${storage.id}`}>{storage.chargePerDay}</p>
+                            <p data-testid={`storage-charge-${storage.id}`}>{formatMoney(storage.chargePerDay, storage.currency, storage.unitOfMeasure)}</p>
                           </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">Applicable Days</label>
-                            <p data-testid={`storage-applicable-${storage.id}`}>{storage.chargeApplicableDays}</p>
+                            <p data-testid={`storage-applicable-${storage.id}`}>{parseStorageChargeApplicableDays(storage.chargeApplicableDays)}</p>
                           </div>
                         </div>
+                        {storage.rateSlabs && (
+                          <div className="mt-3 space-y-1" data-testid={`storage-slabs-${storage.id}`}>
+                            <label className="text-sm font-medium text-muted-foreground">Rate Slabs</label>
+                            {getStorageRatePeriods(storage).map(period => (
+                              <p key={period.fromDay} className="text-sm">
+                                {formatStorageDays(period.fromDay, period.toDay)}:{" "}
+                                {period.chargePerDay === null ? "Free" : formatMoney(period.chargePerDay, storage.currency, storage.unitOfMeasure)}
+                              </p>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))}
+                    {contract && (
+                      <div className="border-t pt-6">
+                        <StorageChargeCalculator
+                          contract={contract}
+                          cargoTypes={Array.from(new Set(cargoDetails.map(detail => detail.cargoType)))}
+                        />
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-12">
@@ -727,6 +782,14 @@ function ContractDetailsContent() {
           renewFromContractId={renewContractId}
         />
       )}
+
+      {renewingContract && (
+        <ContractRenewDialog
+          open={!!renewingContract}
+          onOpenChange={(open) => !open && setRenewingContract(null)}
+          contract={renewingContract}
+        />
+      )}
     </div>
   );
 }
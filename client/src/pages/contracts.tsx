@@ -10,9 +10,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getContractStatusColor } from "@/components/ContractApprovalPanel";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertContractSchema, insertContractTariffSchema, insertContractCargoDetailSchema, insertContractStorageChargeSchema, insertContractSpecialConditionSchema } from "@shared/schema";
+import { normalizeCustomerStatus } from "@shared/customerLifecycle";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -36,6 +38,7 @@ type Customer = {
   customerCode: string;
   customerName: string;
   status: string;
+  creditHold: boolean;
 };
 
 type CargoType = {
@@ -53,16 +56,17 @@ const contractFormSchema = insertContractSchema;
 type ContractFormData = z.infer<typeof contractFormSchema>;
 
 const tariffFormSchema = insertContractTariffSchema.omit({ contractId: true });
-type TariffFormData = z.infer<typeof tariffFormSchema>;
+type TariffFormData = z.input<typeof tariffFormSchema>;
 
 const cargoDetailFormSchema = insertContractCargoDetailSchema.omit({ contractId: true });
 type CargoDetailFormData = z.infer<typeof cargoDetailFormSchema>;
 
-const storageChargeFormSchema = insertContractStorageChargeSchema.omit({ contractId: true });
-type StorageChargeFormData = z.infer<typeof storageChargeFormSchema>;
+// Rate slabs are edited through contract amendments, not here
+const storageChargeFormSchema = insertContractStorageChargeSchema.omit({ contractId: true, rateSlabs: true });
+type StorageChargeFormData = z.input<typeof storageChargeFormSchema>;
 
 const specialConditionFormSchema = insertContractSpecialConditionSchema.omit({ contractId: true });
-type SpecialConditionFormData = z.infer<typeof specialConditionFormSchema>;
+type SpecialConditionFormData = z.input<typeof specialConditionFormSchema>;
 
 export default function Contracts() {
   const [searchTerm, setSearchTerm] = useState("");
@@ -224,7 +228,7 @@ export default function Contracts() {
     resolver: zodResolver(tariffFormSchema),
     defaultValues: {
       serviceDescription: "",
-      unitOfMeasure: "",
+      unitOfMeasure: "TEU",
       ratePerUnit: 0,
       minimumCharge: 0,
       effectiveFrom: "",
@@ -296,27 +300,13 @@ export default function Contracts() {
     contract.contractNumber.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Draft":
-        return "bg-gray-100 text-gray-800";
-      case "Active":
-        return "bg-green-100 text-green-800";
-      case "Expired":
-        return "bg-red-100 text-red-800";
-      case "Terminated":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
-
   const getCustomerName = (customerId: number) => {
     const customer = customers.find((c: Customer) => c.id === customerId);
     return customer ? `${customer.customerName} (${customer.customerCode})` : "Unknown";
   };
 
-  const eligibleCustomers = customers.filter((c: Customer) => c.status === "Prospect");
+  // Contracts are signed while onboarding (Draft) or renewed for active customers
+  const eligibleCustomers = customers.filter((c: Customer) => ["Draft", "Active"].includes(normalizeCustomerStatus(c.status)));
 
   if (contractsLoading) {
     return <div className="flex items-center justify-center h-64">Loading contracts...</div>;
@@ -365,8 +355,8 @@ export default function Contracts() {
                           </FormControl>
                           <SelectContent>
                             {eligibleCustomers.map((customer: Customer) => (
-                              <SelectItem key={customer.id} value={customer.id.toString()}>
-                                {customer.customerName} ({customer.customerCode}) - {customer.status}
+                              <SelectItem key={customer.id} value={customer.id.toString()} disabled={customer.creditHold}>
+                                {customer.customerName} ({customer.customerCode}) - {customer.creditHold ? "Credit Hold" : customer.status}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -825,7 +815,8 @@ export default function Contracts() {
                                   type="number" 
                                   step="0.01"
                                   data-testid="input-rate-per-sqm"
-                                  {...field} 
+                                  {...field}
+                                  value={field.value ?? ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -842,7 +833,8 @@ export default function Contracts() {
                                 <Input 
                                   type="number" 
                                   data-testid="input-free-period"
-                                  {...field} 
+                                  {...field}
+                                  value={field.value ?? ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -860,7 +852,8 @@ export default function Contracts() {
                                   type="number" 
                                   step="0.01"
                                   data-testid="input-penalty-rate"
-                                  {...field} 
+                                  {...field}
+                                  value={field.value ?? ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -879,7 +872,8 @@ export default function Contracts() {
                                 <Input 
                                   type="date" 
                                   data-testid="input-storage-from"
-                                  {...field} 
+                                  {...field}
+                                  value={field.value ?? ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -896,7 +890,8 @@ export default function Contracts() {
                                 <Input 
                                   type="date" 
                                   data-testid="input-storage-to"
-                                  {...field} 
+                                  {...field}
+                                  value={field.value ?? ""}
                                 />
                               </FormControl>
                               <FormMessage />
@@ -927,7 +922,7 @@ export default function Contracts() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>Condition Type *</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
+                            <Select onValueChange={field.onChange} value={field.value === undefined ? undefined : String(field.value)}>
                               <FormControl>
                                 <SelectTrigger data-testid="select-condition-type">
                                   <SelectValue placeholder="Select condition type" />
@@ -1101,7 +1096,7 @@ export default function Contracts() {
                       {new Date(contract.validFrom).toLocaleDateString()} - {new Date(contract.validTo).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
-                      <Badge className={getStatusColor(contract.status)} data-testid={`badge-contract-status-${contract.id}`}>
+                      <Badge className={getContractStatusColor(contract.status)} data-testid={`badge-contract-status-${contract.id}`}>
                         {contract.status}
                       </Badge>
                     </TableCell>
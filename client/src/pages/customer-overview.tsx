@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { useRoute, useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Building2, Mail, MapPin, Calendar, Contact, CreditCard, FileText, History, Package, Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { CustomerContactsDialog } from "@/components/CustomerContactsDialog";
+import { CustomerDocumentsDialog } from "@/components/CustomerDocumentsDialog";
+import { CustomerCreditDialog } from "@/components/CustomerCreditDialog";
+import { CustomerLifecycleDialog } from "@/components/CustomerLifecycleDialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { normalizeCustomerStatus } from "@shared/customerLifecycle";
+import type { DocumentExpiryState } from "@shared/customerDocuments";
+import type { Customer, Contract, CustomerAddress, CustomerContact, CustomerDocument, CustomerStatusHistory, CustomerMerge, CustomerCodeAlias } from "@shared/schema";
+import { format } from "date-fns";
+
+// Shapes as returned by GET /api/customers/:id/overview
+interface CustomerTimelineEntry {
+  timestamp: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  description: string;
+  performedBy: { id: string; name: string } | null;
+  source: "audit" | "record" | "status" | "merge";
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+}
+
+interface CustomerOverview {
+  customer: Customer;
+  credit: {
+    creditLimit: number | null;
+    currency: string;
+    paymentTermsDays: number;
+    onHold: boolean;
+    holdReason: string | null;
+  };
+  contacts: CustomerContact[];
+  addresses: CustomerAddress[];
+  contracts: Array<Contract & { validityStatus: "Upcoming" | "Active" | "Expired" }>;
+  documents: Array<CustomerDocument & { expiryState: DocumentExpiryState | null }>;
+  statusHistory: CustomerStatusHistory[];
+  merges: CustomerMerge[];
+  aliases: CustomerCodeAlias[];
+  timeline: CustomerTimelineEntry[];
+}
+
+type CustomerDialog = "contacts" | "documents" | "credit" | "lifecycle";
+
+const ENTITY_LABELS: Record<string, string> = {
+  customer: "Customer",
+  customer_contact: "Contact",
+  customer_address: "Address",
+  customer_document: "Document",
+  contract: "Contract",
+};
+
+const getStatusColor = (status: string) => {
+  switch (normalizeCustomerStatus(status)) {
+    case "Draft":
+      return "bg-yellow-100 text-yellow-800";
+    case "Activation in Progress":
+      return "bg-blue-100 text-blue-800";
+    case "Active":
+      return "bg-green-100 text-green-800";
+    case "Rejected":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+const validityColors = {
+  Upcoming: "bg-blue-100 text-blue-800",
+  Active: "bg-green-100 text-green-800",
+  Expired: "bg-red-100 text-red-800",
+};
+
+const expiryColors: Record<DocumentExpiryState, string> = {
+  expired: "bg-red-100 text-red-800",
+  expiring: "bg-orange-100 text-orange-800",
+  valid: "bg-green-100 text-green-800",
+};
+
+const formatChangeValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const formatDate = (date: string | Date) => format(new Date(date), "MMM dd, yyyy");
+
+function CustomerOverviewContent() {
+  const [, params] = useRoute("/customers/:customerId");
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { canWrite, canManage } = usePermissions();
+  const [openDialog, setOpenDialog] = useState<CustomerDialog | null>(null);
+  const [timelineFilter, setTimelineFilter] = useState("all");
+
+  const customerId = params?.customerId ? parseInt(params.customerId) : null;
+  const overviewKey = [`/api/customers/${customerId}/overview`];
+
+  const { data: overview, isLoading } = useQuery<CustomerOverview>({
+    queryKey: overviewKey,
+    enabled: !!customerId,
+  });
+
+  // The dialogs refresh their own queries; the overview is refetched once they close
+  const handleDialogChange = (open: boolean) => {
+    if (!open) {
+      setOpenDialog(null);
+      queryClient.invalidateQueries({ queryKey: overviewKey });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading customer details...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h3 className="text-lg font-semibold mb-2">Customer not found</h3>
+          <p className="text-muted-foreground mb-4">The requested customer could not be found.</p>
+          <Button onClick={() => setLocation("/customers")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Customers
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { customer, credit, contacts, addresses, contracts, documents, aliases, timeline } = overview;
+  const timelineEntries = timelineFilter === "all" ? timeline : timeline.filter(entry => entry.entityType === timelineFilter);
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header with Customer Info */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocation("/customers")}
+              data-testid="button-back-to-customers"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Customers
+            </Button>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center space-x-3">
+              <Avatar className="h-12 w-12">
+                <AvatarFallback className="bg-primary/10 text-primary font-semibold">
+                  {getInitials(customer.customerName)}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <h1 className="text-xl font-semibold" data-testid="customer-name">
+                  {customer.customerName}
+                </h1>
+                <p className="text-sm text-muted-foreground" data-testid="customer-display-name">
+                  {customer.displayName}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {credit.onHold && (
+              <Badge className="bg-red-100 text-red-800" title={credit.holdReason ?? undefined} data-testid="customer-credit-hold">
+                Credit Hold
+              </Badge>
+            )}
+            <Badge className={getStatusColor(customer.status)} data-testid="customer-status">
+              {customer.status}
+            </Badge>
+            <Badge variant="secondary" data-testid="customer-code">
+              {customer.customerCode}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-6 text-sm">
+            <div className="flex items-center space-x-2">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              <span data-testid="customer-email">{customer.email}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              <span data-testid="customer-location">{customer.state}, {customer.country}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Building2 className="h-4 w-4 text-muted-foreground" />
+              <span data-testid="customer-gst">GST: {customer.gst}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              <span data-testid="customer-created">Created {formatDate(customer.createdAt)}</span>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" className="h-8" onClick={() => setOpenDialog("contacts")} data-testid="button-open-contacts">
+              <Contact className="mr-2 h-4 w-4" />
+              Contacts & Addresses
+            </Button>
+            <Button variant="outline" className="h-8" onClick={() => setOpenDialog("documents")} data-testid="button-open-documents">
+              <FileText className="mr-2 h-4 w-4" />
+              KYC Documents
+            </Button>
+            <Button variant="outline" className="h-8" onClick={() => setOpenDialog("credit")} data-testid="button-open-credit">
+              <CreditCard className="mr-2 h-4 w-4" />
+              Credit
+            </Button>
+            <Button variant="outline" className="h-8" onClick={() => setOpenDialog("lifecycle")} data-testid="button-open-lifecycle">
+              <History className="mr-2 h-4 w-4" />
+              Lifecycle
+            </Button>
+          </div>
+        </div>
+        {aliases.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-3" data-testid="customer-aliases">
+            Also known as {aliases.map(alias => alias.aliasCode).join(", ")}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Contracts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <div className="flex items-center">
+                  <Package className="mr-2 h-5 w-5" />
+                  Contracts ({contracts.length})
+                </div>
+                <Button size="sm" variant="outline" className="h-8" onClick={() => setLocation(`/customers/${customer.id}/contracts`)} data-testid="button-manage-contracts">
+                  Manage Contracts
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {contracts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No contracts yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {contracts.map(contract => (
+                    <button
+                      key={contract.id}
+                      type="button"
+                      className="flex w-full items-center justify-between rounded-md border p-3 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+                      onClick={() => setLocation(`/customers/${customer.id}/contracts/${contract.id}`)}
+                      data-testid={`overview-contract-${contract.id}`}
+                    >
+                      <span className="font-medium">{contract.contractNumber}</span>
+                      <span className="flex items-center gap-3 text-muted-foreground">
+                        {formatDate(contract.validFrom)} – {formatDate(contract.validTo)}
+                        <Badge className={validityColors[contract.validityStatus]}>{contract.validityStatus}</Badge>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Activity timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <div className="flex items-center">
+                  <Activity className="mr-2 h-5 w-5" />
+                  Activity
+                </div>
+                <Select value={timelineFilter} onValueChange={setTimelineFilter}>
+                  <SelectTrigger className="h-8 w-44" data-testid="select-timeline-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All activity</SelectItem>
+                    {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timelineEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No activity recorded.</p>
+              ) : (
+                <ol className="relative space-y-4 border-l border-gray-200 dark:border-gray-700 pl-4">
+                  {timelineEntries.map((entry, index) => (
+                    <li key={`${entry.source}-${entry.entityType}-${entry.entityId}-${entry.action}-${index}`} data-testid={`timeline-entry-${index}`}>
+                      <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary dark:border-gray-900" />
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{format(new Date(entry.timestamp), "MMM dd, yyyy HH:mm")}</span>
+                        <Badge variant="outline" className="text-xs">{ENTITY_LABELS[entry.entityType] || entry.entityType}</Badge>
+                        {entry.performedBy && <span>by {entry.performedBy.name}</span>}
+                      </div>
+                      <p className="text-sm mt-1">{entry.description}</p>
+                      {entry.changes && Object.keys(entry.changes).length > 0 && (
+                        <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <li key={field}>
+                              <span className="font-medium">{field}</span>: {formatChangeValue(change.from)} → {formatChangeValue(change.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Credit */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-base">
+                <CreditCard className="mr-2 h-5 w-5" />
+                Credit
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credit Limit</span>
+                <span data-testid="overview-credit-limit">
+                  {credit.creditLimit === null ? "Not set" : `${credit.currency} ${credit.creditLimit.toLocaleString()}`}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Payment Terms</span>
+                <span>{credit.paymentTermsDays === 0 ? "On delivery" : `${credit.paymentTermsDays} days`}</span>
+              </div>
+              {credit.onHold && credit.holdReason && (
+                <p className="text-red-700 pt-1">On hold: {credit.holdReason}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Contacts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-base">
+                <Contact className="mr-2 h-5 w-5" />
+                Contacts ({contacts.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {contacts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No contacts.</p>
+              ) : contacts.map(contact => (
+                <div key={contact.id} className="text-sm" data-testid={`overview-contact-${contact.id}`}>
+                  <div className="flex items-center gap-2 font-medium">
+                    {contact.contactName}
+                    {contact.isPrimaryContact && <Badge variant="secondary" className="text-xs">Primary</Badge>}
+                  </div>
+                  <p className="text-muted-foreground">{contact.designation} · {contact.email} · {contact.contactNumber}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Addresses */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-base">
+                <MapPin className="mr-2 h-5 w-5" />
+                Addresses ({addresses.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {addresses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No addresses.</p>
+              ) : addresses.map(address => (
+                <div key={address.id} className="text-sm" data-testid={`overview-address-${address.id}`}>
+                  <div className="flex items-center gap-2 font-medium">
+                    {address.addressType}
+                    {address.isDefaultAddress && <Badge variant="secondary" className="text-xs">Default</Badge>}
+                  </div>
+                  <p className="text-muted-foreground">
+                    {[address.addressLine1, address.addressLine2, address.city, address.state, address.pincode].filter(Boolean).join(", ")}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Documents */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-base">
+                <FileText className="mr-2 h-5 w-5" />
+                KYC Documents ({documents.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {documents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No documents uploaded.</p>
+              ) : documents.map(document => (
+                <div key={document.id} className="flex items-center justify-between text-sm" data-testid={`overview-document-${document.id}`}>
+                  <div>
+                    <div className="font-medium">{document.documentType}</div>
+                    <p className="text-muted-foreground">
+                      {document.verificationStatus}
+                      {document.expiryDate && ` · expires ${formatDate(document.expiryDate)}`}
+                    </p>
+                  </div>
+                  {document.expiryState && document.expiryState !== "valid" && (
+                    <Badge className={expiryColors[document.expiryState]}>
+                      {document.expiryState === "expired" ? "Expired" : "Expiring"}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {openDialog === "contacts" && (
+        <CustomerContactsDialog
+          open
+          onOpenChange={handleDialogChange}
+          customerId={customer.id}
+          customerName={customer.customerName}
+          canEdit={canWrite("customers")}
+        />
+      )}
+
+      {openDialog === "documents" && (
+        <CustomerDocumentsDialog
+          open
+          onOpenChange={handleDialogChange}
+          customerId={customer.id}
+          customerName={customer.customerName}
+          canEdit={canWrite("customers")}
+          canManage={canManage("customers")}
+        />
+      )}
+
+      {openDialog === "credit" && (
+        <CustomerCreditDialog
+          open
+          onOpenChange={handleDialogChange}
+          customerId={customer.id}
+          customerName={customer.customerName}
+          canManage={canManage("customers")}
+        />
+      )}
+
+      {openDialog === "lifecycle" && (
+        <CustomerLifecycleDialog
+          open
+          onOpenChange={handleDialogChange}
+          customerId={customer.id}
+          customerName={customer.customerName}
+          getStatusColor={getStatusColor}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function CustomerOverviewPage() {
+  return (
+    <AppLayout title="Customer Overview" activeSection="customers">
+      <CustomerOverviewContent />
+    </AppLayout>
+  );
+}
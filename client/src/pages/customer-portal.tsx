@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Building2, FileText, LogOut, Mail, MapPin, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PortrayLogo } from "@/components/portray-logo";
+import { AuthService } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { Contract, ContractSpecialCondition, ContractStorageCharge, ContractTariff, Customer } from "@shared/schema";
+import { formatMoney } from "@shared/contractMoney";
+import { formatStorageDays, getStorageRatePeriods, parseStorageChargeApplicableDays } from "@shared/storageCharges";
+
+type PortalContractDetails = Contract & {
+  tariffs: ContractTariff[];
+  storageCharges: ContractStorageCharge[];
+  specialConditions: ContractSpecialCondition[];
+};
+
+function ContractDetailsDialog({ contractId, onOpenChange }: { contractId: number | null; onOpenChange: (open: boolean) => void }) {
+  const { data: contract, isLoading } = useQuery<PortalContractDetails>({
+    queryKey: [`/api/customer-portal/contracts/${contractId}`],
+    enabled: contractId !== null,
+  });
+  const { toast } = useToast();
+
+  // The copy endpoint needs the auth header, so it is fetched and opened as a blob
+  const handleViewCopy = async (id: number) => {
+    try {
+      const response = await apiRequest("GET", `/api/customer-portal/contracts/${id}/copy`);
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open contract copy",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={contractId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <FileText className="h-5 w-5" />
+            {contract ? `Contract ${contract.contractNumber}` : "Contract"}
+          </DialogTitle>
+          {contract && (
+            <DialogDescription>
+              Valid from {format(new Date(contract.validFrom), "MMM dd, yyyy")} to {format(new Date(contract.validTo), "MMM dd, yyyy")}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !contract ? (
+          <div className="text-center py-4">Loading contract...</div>
+        ) : (
+          <ScrollArea className="max-h-[65vh] pr-3">
+            <div className="space-y-6">
+              {contract.contractCopyUrl && (
+                <Button variant="outline" className="h-8" onClick={() => handleViewCopy(contract.id)} data-testid="button-contract-copy">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  View Contract Copy
+                </Button>
+              )}
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Tariffs</h3>
+                {contract.tariffs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No tariffs on this contract.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>CHC Rate</TableHead>
+                        <TableHead>BHC Rate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {contract.tariffs.map((tariff) => (
+                        <TableRow key={tariff.id} data-testid={`row-portal-tariff-${tariff.id}`}>
+                          <TableCell>{formatMoney(tariff.chcRateToCustomer, tariff.currency, tariff.unitOfMeasure)}</TableCell>
+                          <TableCell>{formatMoney(tariff.bhcRateToCustomer, tariff.currency, tariff.unitOfMeasure)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Storage Charges</h3>
+                {contract.storageCharges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No storage charges on this contract.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cargo Type</TableHead>
+                        <TableHead>Free Time (days)</TableHead>
+                        <TableHead>Charge per Day</TableHead>
+                        <TableHead>Applicable Days</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {contract.storageCharges.map((charge) => (
+                        <TableRow key={charge.id} data-testid={`row-portal-storage-charge-${charge.id}`}>
+                          <TableCell>{charge.cargoType || "All"}</TableCell>
+                          <TableCell>{charge.storageFreeTime}</TableCell>
+                          <TableCell>
+                            {charge.rateSlabs
+                              ? getStorageRatePeriods(charge).filter(period => period.chargePerDay !== null).map(period => (
+                                  <div key={period.fromDay}>
+                                    {formatStorageDays(period.fromDay, period.toDay)}: {formatMoney(period.chargePerDay, charge.currency, charge.unitOfMeasure)}
+                                  </div>
+                                ))
+                              : formatMoney(charge.chargePerDay, charge.currency, charge.unitOfMeasure)}
+                          </TableCell>
+                          <TableCell>{parseStorageChargeApplicableDays(charge.chargeApplicableDays)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Special Conditions</h3>
+                {contract.specialConditions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No special conditions on this contract.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Responsibility</TableHead>
+                        <TableHead>Charge</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {contract.specialConditions.map((condition) => (
+                        <TableRow key={condition.id} data-testid={`row-portal-special-condition-${condition.id}`}>
+                          <TableCell>{condition.condition}</TableCell>
+                          <TableCell>{condition.responsibility}</TableCell>
+                          <TableCell>{formatMoney(condition.charge, condition.currency, condition.unitOfMeasure)} ({condition.chargeType})</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function CustomerPortalPage() {
+  const [, setLocation] = useLocation();
+  const [selectedContractId, setSelectedContractId] = useState<number | null>(null);
+
+  const { data: customer, isLoading } = useQuery<Customer>({
+    queryKey: ["/api/customer-portal/profile"],
+  });
+
+  const { data: contracts = [], isLoading: contractsLoading } = useQuery<Contract[]>({
+    queryKey: ["/api/customer-portal/contracts"],
+  });
+
+  const handleLogout = async () => {
+    await AuthService.logout();
+    setLocation("/login");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <p className="text-red-600 mb-4">Access denied. Customer portal account required.</p>
+            <Button onClick={handleLogout} className="h-10">
+              Back to Login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const today = new Date();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
+          <PortrayLogo size="sm" />
+          <Button variant="outline" className="h-8" onClick={handleLogout} data-testid="button-portal-logout">
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              <span data-testid="text-portal-customer-name">{customer.customerName}</span>
+            </CardTitle>
+            <CardDescription>Customer ID {customer.customerCode}</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div className="flex items-center gap-2">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              {customer.email}
+            </div>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              {customer.state}, {customer.country}
+            </div>
+            <div>
+              <span className="text-muted-foreground">GST: </span>
+              <span className="font-mono">{customer.gst}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contracts</CardTitle>
+            <CardDescription>Your contracts with the port, including tariffs, storage charges and special conditions</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {contractsLoading ? (
+              <div className="text-center py-8">Loading contracts...</div>
+            ) : contracts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No contracts yet.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="pl-6">Contract Number</TableHead>
+                    <TableHead>Valid From</TableHead>
+                    <TableHead>Valid To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="pr-6"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contracts.map((contract) => {
+                    const isCurrent = new Date(contract.validFrom) <= today && new Date(contract.validTo) >= today;
+                    return (
+                      <TableRow key={contract.id} data-testid={`row-portal-contract-${contract.id}`}>
+                        <TableCell className="pl-6 font-mono">{contract.contractNumber}</TableCell>
+                        <TableCell>{format(new Date(contract.validFrom), "MMM dd, yyyy")}</TableCell>
+                        <TableCell>{format(new Date(contract.validTo), "MMM dd, yyyy")}</TableCell>
+                        <TableCell>
+                          <Badge className={isCurrent ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                            {isCurrent ? "Current" : new Date(contract.validTo) < today ? "Expired" : "Upcoming"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="pr-6 text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setSelectedContractId(contract.id)}
+                            data-testid={`button-portal-view-contract-${contract.id}`}
+                          >
+                            View Details
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ContractDetailsDialog contractId={selectedContractId} onOpenChange={(open) => !open && setSelectedContractId(null)} />
+    </div>
+  );
+}
@@ -19,9 +19,19 @@ import { insertCustomerSchema, type Customer, type Terminal } from "@shared/sche
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Search, FileText, Users, Building2, Mail, Phone, Check, ChevronsUpDown, MoreHorizontal, Eye, Edit, MapPin, Truck, Grid3X3, List } from "lucide-react";
+import { Plus, Search, FileText, Users, Building2, Mail, Phone, Check, ChevronsUpDown, MoreHorizontal, Eye, Edit, MapPin, Truck, Grid3X3, List, Workflow, Globe, Upload, Copy, Contact, CreditCard } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { CustomerLifecycleDialog } from "@/components/CustomerLifecycleDialog";
+import { CustomerPortalAccessDialog } from "@/components/CustomerPortalAccessDialog";
+import { CustomerImportDialog } from "@/components/CustomerImportDialog";
+import { CustomerDuplicatesDialog } from "@/components/CustomerDuplicatesDialog";
+import { CustomerContactsDialog } from "@/components/CustomerContactsDialog";
+import { CustomerCreditDialog } from "@/components/CustomerCreditDialog";
+import { CustomerDocumentsDialog } from "@/components/CustomerDocumentsDialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { normalizeCustomerStatus } from "@shared/customerLifecycle";
+import { panSchema, gstinSchema, validateTaxIdentifiers } from "@shared/taxIdentifiers";
 
 // Updated schema with country and state dropdowns, removed website and operational address
 const customerFormSchema = z.object({
@@ -29,8 +39,8 @@ const customerFormSchema = z.object({
   displayName: z.string().min(1, "Display name is required"),
   email: z.string().email("Invalid email"),
   confirmEmail: z.string().email("Invalid email"),
-  pan: z.string().regex(/^[A-Z]{5}[0-9]{4}[A-Z]{1}$/, "Please enter a valid PAN number (e.g., ABCDE1234F)"),
-  gst: z.string().regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/, "Please enter a valid GST number"),
+  pan: panSchema,
+  gst: gstinSchema,
   country: z.string().default("India"),
   state: z.string().min(1, "Please select a state"),
   terminalId: z.number().min(1, "Please select a terminal"),
@@ -87,6 +97,14 @@ function CustomersContent() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [lifecycleCustomer, setLifecycleCustomer] = useState<Customer | null>(null);
+  const [portalAccessCustomer, setPortalAccessCustomer] = useState<Customer | null>(null);
+  const [contactsCustomer, setContactsCustomer] = useState<Customer | null>(null);
+  const [creditCustomer, setCreditCustomer] = useState<Customer | null>(null);
+  const [documentsCustomer, setDocumentsCustomer] = useState<Customer | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isDuplicatesDialogOpen, setIsDuplicatesDialogOpen] = useState(false);
+  const { canManage, canWrite } = usePermissions();
   const [countryOpen, setCountryOpen] = useState(false);
   const [viewMode, setViewMode] = useState<"list" | "card">("list");
   const [, setLocation] = useLocation();
@@ -201,11 +219,24 @@ function CustomersContent() {
     },
   });
 
+  // GST must embed the PAN and the selected state's code; the server repeats these checks
+  const hasTaxIdentifierIssues = (data: CustomerFormData, targetForm: typeof form) => {
+    const issues = validateTaxIdentifiers({
+      gst: data.gst,
+      pan: data.pan,
+      state: states.find((state: any) => state.name === data.state),
+    });
+    issues.forEach(issue => targetForm.setError(issue.field, { message: issue.message }));
+    return issues.length > 0;
+  };
+
   const onSubmit = (data: CustomerFormData) => {
+    if (hasTaxIdentifierIssues(data, form)) return;
     createCustomerMutation.mutate(data);
   };
 
   const onEditSubmit = (data: CustomerFormData) => {
+    if (hasTaxIdentifierIssues(data, editForm)) return;
     if (editingCustomer) {
       updateCustomerMutation.mutate({ ...data, id: editingCustomer.id });
     }
@@ -234,13 +265,15 @@ function CustomersContent() {
   );
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Prospect":
+    switch (normalizeCustomerStatus(status)) {
+      case "Draft":
         return "bg-yellow-100 text-yellow-800";
-      case "Customer SC":
+      case "Activation in Progress":
         return "bg-blue-100 text-blue-800";
-      case "Customer TC":
+      case "Active":
         return "bg-green-100 text-green-800";
+      case "Rejected":
+        return "bg-red-100 text-red-800";
       case "Inactive":
         return "bg-gray-100 text-gray-800";
       default:
@@ -301,6 +334,15 @@ function CustomersContent() {
             </Button>
           </div>
         </div>
+        <div className="flex items-center gap-2">
+        <Button variant="outline" className="h-8" onClick={() => setIsDuplicatesDialogOpen(true)} data-testid="button-find-duplicates">
+          <Copy className="h-4 w-4 mr-2" />
+          Duplicates
+        </Button>
+        <Button variant="outline" className="h-8" onClick={() => setIsImportDialogOpen(true)} data-testid="button-import-customers">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <DialogTrigger asChild>
             <Button className="h-8" data-testid="button-add-customer">
@@ -520,6 +562,7 @@ function CustomersContent() {
             </Form>
           </DialogContent>
         </Dialog>
+        </div>
 
         {/* Edit Customer Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -849,12 +892,19 @@ function CustomersContent() {
 
                     {/* Status Column */}
                     <TableCell>
-                      <Badge 
-                        className={getStatusColor(customer.status)} 
-                        data-testid={`badge-status-${customer.id}`}
-                      >
-                        {customer.status}
-                      </Badge>
+                      <div className="flex flex-col items-start gap-1">
+                        <Badge 
+                          className={getStatusColor(customer.status)} 
+                          data-testid={`badge-status-${customer.id}`}
+                        >
+                          {customer.status}
+                        </Badge>
+                        {customer.creditHold && (
+                          <Badge className="bg-red-100 text-red-800" data-testid={`badge-credit-hold-${customer.id}`}>
+                            Credit Hold
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
 
                     {/* Date Column */}
@@ -889,7 +939,10 @@ function CustomersContent() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem data-testid={`menu-view-${customer.id}`}>
+                            <DropdownMenuItem 
+                              onClick={() => setLocation(`/customers/${customer.id}`)}
+                              data-testid={`menu-view-${customer.id}`}
+                            >
                               <Eye className="mr-2 h-4 w-4" />
                               View Details
                             </DropdownMenuItem>
@@ -900,6 +953,41 @@ function CustomersContent() {
                               <Edit className="mr-2 h-4 w-4" />
                               Edit Customer
                             </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setLifecycleCustomer(customer)}
+                              data-testid={`menu-lifecycle-${customer.id}`}
+                            >
+                              <Workflow className="mr-2 h-4 w-4" />
+                              Lifecycle
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setContactsCustomer(customer)}
+                              data-testid={`menu-contacts-${customer.id}`}
+                            >
+                              <Contact className="mr-2 h-4 w-4" />
+                              Contacts & Addresses
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setDocumentsCustomer(customer)}
+                              data-testid={`menu-documents-${customer.id}`}
+                            >
+                              <FileText className="mr-2 h-4 w-4" />
+                              KYC Documents
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setCreditCustomer(customer)}
+                              data-testid={`menu-credit-${customer.id}`}
+                            >
+                              <CreditCard className="mr-2 h-4 w-4" />
+                              Credit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setPortalAccessCustomer(customer)}
+                              data-testid={`menu-portal-access-${customer.id}`}
+                            >
+                              <Globe className="mr-2 h-4 w-4" />
+                              Portal Access
+                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
@@ -939,7 +1027,10 @@ function CustomersContent() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem data-testid={`card-menu-view-${customer.id}`}>
+                            <DropdownMenuItem 
+                              onClick={() => setLocation(`/customers/${customer.id}`)}
+                              data-testid={`card-menu-view-${customer.id}`}
+                            >
                               <Eye className="mr-2 h-4 w-4" />
                               View Details
                             </DropdownMenuItem>
@@ -950,6 +1041,41 @@ function CustomersContent() {
                               <Edit className="mr-2 h-4 w-4" />
                               Edit Customer
                             </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setLifecycleCustomer(customer)}
+                              data-testid={`card-menu-lifecycle-${customer.id}`}
+                            >
+                              <Workflow className="mr-2 h-4 w-4" />
+                              Lifecycle
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setContactsCustomer(customer)}
+                              data-testid={`card-menu-contacts-${customer.id}`}
+                            >
+                              <Contact className="mr-2 h-4 w-4" />
+                              Contacts & Addresses
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setDocumentsCustomer(customer)}
+                              data-testid={`card-menu-documents-${customer.id}`}
+                            >
+                              <FileText className="mr-2 h-4 w-4" />
+                              KYC Documents
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setCreditCustomer(customer)}
+                              data-testid={`card-menu-credit-${customer.id}`}
+                            >
+                              <CreditCard className="mr-2 h-4 w-4" />
+                              Credit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => setPortalAccessCustomer(customer)}
+                              data-testid={`card-menu-portal-access-${customer.id}`}
+                            >
+                              <Globe className="mr-2 h-4 w-4" />
+                              Portal Access
+                            </DropdownMenuItem>
                             {customer.status === "Draft" && (
                               <DropdownMenuItem data-testid={`card-menu-contract-${customer.id}`}>
                                 <FileText className="mr-2 h-4 w-4" />
@@ -991,12 +1117,19 @@ function CustomersContent() {
                               </span>
                             </div>
                           </div>
-                          <Badge 
-                            className={getStatusColor(customer.status)} 
-                            data-testid={`card-status-${customer.id}`}
-                          >
-                            {customer.status}
-                          </Badge>
+                          <div className="flex flex-col items-end gap-1">
+                            <Badge 
+                              className={getStatusColor(customer.status)} 
+                              data-testid={`card-status-${customer.id}`}
+                            >
+                              {customer.status}
+                            </Badge>
+                            {customer.creditHold && (
+                              <Badge className="bg-red-100 text-red-800" data-testid={`card-credit-hold-${customer.id}`}>
+                                Credit Hold
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                         
                         {customer.status === "Draft" && (
@@ -1039,6 +1172,65 @@ function CustomersContent() {
           )}
         </CardContent>
       </Card>
+
+      {lifecycleCustomer && (
+        <CustomerLifecycleDialog
+          open={!!lifecycleCustomer}
+          onOpenChange={(open) => !open && setLifecycleCustomer(null)}
+          customerId={lifecycleCustomer.id}
+          customerName={lifecycleCustomer.customerName}
+          getStatusColor={getStatusColor}
+        />
+      )}
+
+      {portalAccessCustomer && (
+        <CustomerPortalAccessDialog
+          open={!!portalAccessCustomer}
+          onOpenChange={(open) => !open && setPortalAccessCustomer(null)}
+          customerId={portalAccessCustomer.id}
+          customerName={portalAccessCustomer.customerName}
+          canManage={canManage("customers")}
+        />
+      )}
+
+      {contactsCustomer && (
+        <CustomerContactsDialog
+          open={!!contactsCustomer}
+          onOpenChange={(open) => !open && setContactsCustomer(null)}
+          customerId={contactsCustomer.id}
+          customerName={contactsCustomer.customerName}
+          canEdit={canWrite("customers")}
+        />
+      )}
+
+      {documentsCustomer && (
+        <CustomerDocumentsDialog
+          open={!!documentsCustomer}
+          onOpenChange={(open) => !open && setDocumentsCustomer(null)}
+          customerId={documentsCustomer.id}
+          customerName={documentsCustomer.customerName}
+          canEdit={canWrite("customers")}
+          canManage={canManage("customers")}
+        />
+      )}
+
+      {creditCustomer && (
+        <CustomerCreditDialog
+          open={!!creditCustomer}
+          onOpenChange={(open) => !open && setCreditCustomer(null)}
+          customerId={creditCustomer.id}
+          customerName={creditCustomer.customerName}
+          canManage={canManage("customers")}
+        />
+      )}
+
+      <CustomerImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+
+      <CustomerDuplicatesDialog
+        open={isDuplicatesDialogOpen}
+        onOpenChange={setIsDuplicatesDialogOpen}
+        canManage={canManage("customers")}
+      />
     </div>
   );
 }
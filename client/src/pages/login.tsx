@@ -4,7 +4,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Eye, EyeOff, Ship, Package, TrendingUp, Moon, Sun, Monitor, Truck, FileText } from "lucide-react";
 import portBackgroundImage from "@assets/8_1754302078221.png";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,9 +20,20 @@ import { HeroLogo } from "@/components/hero-logo";
 import { loginSchema, type LoginCredentials } from "@shared/schema";
 import { AuthService } from "@/lib/auth";
 
+// Organization with single sign-on enabled, as listed by /api/auth/sso/providers
+interface SsoProvider {
+  organizationId: number;
+  displayName: string;
+}
+
 export default function LoginPage() {
   const [, setLocation] = useLocation();
   const [showPassword, setShowPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [resetEmail, setResetEmail] = useState("");
+  const [resetRequested, setResetRequested] = useState(false);
   const [currentFeature, setCurrentFeature] = useState(0);
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
@@ -59,6 +70,10 @@ export default function LoginPage() {
     return () => clearInterval(interval);
   }, [features.length]);
 
+  const { data: ssoProviders = [] } = useQuery<SsoProvider[]>({
+    queryKey: ["/api/auth/sso/providers"],
+  });
+
   const form = useForm<LoginCredentials>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -68,23 +83,35 @@ export default function LoginPage() {
     },
   });
 
+  const completeSignIn = (response: any) => {
+    toast({
+      title: "Welcome to PortRay",
+      description: response.passwordChangeRequired
+        ? "Your password has expired. Please choose a new password to continue."
+        : response.twoFactorSetupRequired
+        ? "Your role requires two-factor authentication. Please set it up to continue."
+        : "Successfully signed in to your account.",
+    });
+    // Use the redirectPath from backend response or default to dashboard
+    const redirectPath = response.redirectPath || "/dashboard";
+    console.log("Redirecting to:", redirectPath);
+    
+    // Force page reload to ensure proper state reset
+    setTimeout(() => {
+      console.log("Reloading page to:", redirectPath);
+      window.location.href = redirectPath;
+    }, 500);
+  };
+
   const loginMutation = useMutation({
     mutationFn: AuthService.login,
     onSuccess: (response: any) => {
       console.log("Login mutation success, response:", response);
-      toast({
-        title: "Welcome to PortRay",
-        description: "Successfully signed in to your account.",
-      });
-      // Use the redirectPath from backend response or default to dashboard
-      const redirectPath = response.redirectPath || "/dashboard";
-      console.log("Redirecting to:", redirectPath);
-      
-      // Force page reload to ensure proper state reset
-      setTimeout(() => {
-        console.log("Reloading page to:", redirectPath);
-        window.location.href = redirectPath;
-      }, 500);
+      if (response.twoFactorRequired) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      completeSignIn(response);
     },
     onError: (error: any) => {
       const message = error.message || "Login failed. Please try again.";
@@ -96,6 +123,90 @@ export default function LoginPage() {
     },
   });
 
+  const ssoExchangeMutation = useMutation({
+    mutationFn: AuthService.exchangeSsoCode,
+    onSuccess: (response: any) => {
+      if (response.twoFactorRequired) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      completeSignIn(response);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Single Sign-On Failed",
+        description: error.message || "Could not complete single sign-on. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The SSO callback redirects back here with either a one-time sign-in code or an error
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoCode = params.get("ssoCode");
+    const ssoError = params.get("ssoError");
+    if (!ssoCode && !ssoError) return;
+
+    window.history.replaceState(null, "", "/login");
+    if (ssoCode) {
+      ssoExchangeMutation.mutate(ssoCode);
+    } else if (ssoError) {
+      toast({
+        title: "Single Sign-On Failed",
+        description: ssoError,
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  const twoFactorMutation = useMutation({
+    mutationFn: AuthService.verifyTwoFactor,
+    onSuccess: completeSignIn,
+    onError: (error: any) => {
+      if (error.message?.startsWith("401")) {
+        setChallengeToken(null);
+      }
+      setTwoFactorCode("");
+      toast({
+        title: "Verification Failed",
+        description: error.message || "Invalid authentication code.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: AuthService.requestPasswordReset,
+    onSuccess: () => {
+      setResetRequested(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Request Failed",
+        description: error.message || "Could not request a password reset. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmitForgotPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    forgotPasswordMutation.mutate({ email: resetEmail.trim() });
+  };
+
+  const closeForgotPassword = () => {
+    setShowForgotPassword(false);
+    setResetRequested(false);
+    setResetEmail("");
+  };
+
+  const onSubmitTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    twoFactorMutation.mutate({ challengeToken, code: twoFactorCode.trim() });
+  };
+
   const onSubmit = (data: LoginCredentials) => {
     loginMutation.mutate(data);
   };
@@ -205,6 +316,95 @@ export default function LoginPage() {
             </CardHeader>
             
             <CardContent>
+              {challengeToken ? (
+              <form onSubmit={onSubmitTwoFactor} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode" className="text-gray-700 dark:text-gray-300">
+                    Authentication Code
+                  </Label>
+                  <Input
+                    id="twoFactorCode"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    placeholder="Enter the 6-digit code or a recovery code"
+                    className="h-11 border-2 focus:border-blue-500 dark:focus:border-blue-400"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    data-testid="input-two-factor-code"
+                  />
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Open your authenticator app to view your code.
+                  </p>
+                </div>
+                <Button 
+                  type="submit" 
+                  className="w-full h-10 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold"
+                  disabled={twoFactorMutation.isPending || twoFactorCode.trim().length < 6}
+                  data-testid="button-verify-two-factor"
+                >
+                  {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 p-0 h-8"
+                  onClick={() => {
+                    setChallengeToken(null);
+                    setTwoFactorCode("");
+                  }}
+                >
+                  Back to sign in
+                </Button>
+              </form>
+              ) : showForgotPassword ? (
+              <form onSubmit={onSubmitForgotPassword} className="space-y-6">
+                {resetRequested ? (
+                  <Alert>
+                    <AlertDescription data-testid="text-reset-requested">
+                      If an account exists for {resetEmail}, we've sent a link to reset your password. The link expires in 1 hour.
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="resetEmail" className="text-gray-700 dark:text-gray-300">
+                        Email Address
+                      </Label>
+                      <Input
+                        id="resetEmail"
+                        type="email"
+                        autoFocus
+                        placeholder="Enter your account email"
+                        className="h-11 border-2 focus:border-blue-500 dark:focus:border-blue-400"
+                        value={resetEmail}
+                        onChange={(e) => setResetEmail(e.target.value)}
+                        data-testid="input-reset-email"
+                      />
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        We'll email you a link to choose a new password.
+                      </p>
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full h-10 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold"
+                      disabled={forgotPasswordMutation.isPending || !resetEmail.trim()}
+                      data-testid="button-send-reset-link"
+                    >
+                      {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                  </>
+                )}
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 p-0 h-8"
+                  onClick={closeForgotPassword}
+                  data-testid="button-back-to-sign-in"
+                >
+                  Back to sign in
+                </Button>
+              </form>
+              ) : (
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 
                 {/* Email Field */}
@@ -279,6 +479,11 @@ export default function LoginPage() {
                     type="button"
                     variant="link"
                     className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 p-0 h-8"
+                    onClick={() => {
+                      setResetEmail(form.getValues("email"));
+                      setShowForgotPassword(true);
+                    }}
+                    data-testid="button-forgot-password"
                   >
                     Forgot password?
                   </Button>
@@ -303,8 +508,10 @@ export default function LoginPage() {
                 )}
                 
               </form>
+              )}
               
               {/* Additional Options */}
+              {ssoProviders.length > 0 && (
               <div className="mt-8">
                 <div className="relative">
                   <div className="absolute inset-0 flex items-center">
@@ -317,19 +524,26 @@ export default function LoginPage() {
                   </div>
                 </div>
                 
-                <div className="mt-6">
-                  <Button 
-                    type="button" 
-                    variant="outline"
-                    className="w-full h-10 border-2"
-                  >
-                    <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24" fill="currentColor">
-                      <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.94-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93z"/>
-                    </svg>
-                    Sign in with Corporate SSO
-                  </Button>
+                <div className="mt-6 space-y-2">
+                  {ssoProviders.map((provider) => (
+                    <Button 
+                      key={provider.organizationId}
+                      type="button" 
+                      variant="outline"
+                      className="w-full h-10 border-2"
+                      onClick={() => { window.location.href = `/api/auth/sso/${provider.organizationId}/login`; }}
+                      disabled={ssoExchangeMutation.isPending}
+                      data-testid={`button-sso-${provider.organizationId}`}
+                    >
+                      <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                        <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.94-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93z"/>
+                      </svg>
+                      {ssoExchangeMutation.isPending ? "Signing In..." : `Sign in with ${provider.displayName} SSO`}
+                    </Button>
+                  ))}
                 </div>
               </div>
+              )}
               
             </CardContent>
           </Card>
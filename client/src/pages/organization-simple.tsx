@@ -32,11 +32,13 @@ import {
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Check, ChevronsUpDown } from "lucide-react";
-import { Plus, Edit2, Power, Building2, MapPin, Phone, Globe, Upload, X, Search } from "lucide-react";
+import { Plus, Edit2, Power, Building2, MapPin, Phone, Globe, Upload, X, Search, KeyRound } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { type Organization } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { OrganizationSsoDialog } from "@/components/OrganizationSsoDialog";
 import { ObjectUploader } from "@/components/ObjectUploader";
 
 // Flag component with fallback
@@ -283,6 +285,7 @@ export default function OrganizationPage() {
   const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null);
   const [countryOpen, setCountryOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [ssoOrganization, setSsoOrganization] = useState<Organization | null>(null);
   const [formData, setFormData] = useState<OrganizationFormData>({
     organizationName: "",
     displayName: "",
@@ -298,6 +301,7 @@ export default function OrganizationPage() {
   
   const isEditMode = selectedOrganization !== null;
   const { toast } = useToast();
+  const { canManage } = usePermissions();
   const queryClient = useQueryClient();
 
   // Fetch organizations
@@ -878,6 +882,18 @@ export default function OrganizationPage() {
                           >
                             <Power className="w-4 h-4" />
                           </Button>
+                          {canManage("configuration", "organization") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setSsoOrganization(org)}
+                              className="h-8"
+                              title="Single Sign-On"
+                              data-testid={`button-sso-settings-${org.id}`}
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -890,6 +906,15 @@ export default function OrganizationPage() {
       </Card>
         </div>
       </main>
+
+      {ssoOrganization && (
+        <OrganizationSsoDialog
+          open={!!ssoOrganization}
+          onOpenChange={(open) => !open && setSsoOrganization(null)}
+          organizationId={ssoOrganization.id}
+          organizationName={ssoOrganization.displayName}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
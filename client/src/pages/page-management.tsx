@@ -90,6 +90,8 @@ const getAllSystemPages = (): PageInfo[] => {
     { id: "email-configuration", name: "email-configuration", title: "Email Configuration", route: "/configuration/email", category: "System Configuration", icon: "Mail", description: "SMTP email configuration management", isActive: true, isSystem: false },
     { id: "menu-management", name: "menu-management", title: "Menu Management", route: "/configuration/menu", category: "System Configuration", icon: "Menu", description: "Navigation menu structure management", isActive: true, isSystem: false },
     { id: "page-management", name: "page-management", title: "Page Management", route: "/configuration/pages", category: "System Configuration", icon: "FileText", description: "System page management and control", isActive: true, isSystem: false },
+    { id: "password-policy", name: "password-policy", title: "Password Policy", route: "/configuration/password-policy", category: "System Configuration", icon: "Shield", description: "Password complexity, history and expiry rules", isActive: true, isSystem: false },
+    { id: "api-keys", name: "api-keys", title: "API Keys", route: "/configuration/api-keys", category: "System Configuration", icon: "Shield", description: "Port API keys for system integrations", isActive: true, isSystem: false },
     
     // User & Role Management
     { id: "roles", name: "roles", title: "Role Management", route: "/roles", category: "User & Role Management", icon: "Shield", description: "User roles and permissions management", isActive: true, isSystem: false },
@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { KeyRound } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { PasswordPolicy } from "@shared/schema";
+import { DEFAULT_PASSWORD_RULES, getPasswordRequirements, type PasswordRules } from "@shared/passwordPolicy";
+
+const COMPLEXITY_OPTIONS: { key: "requireUppercase" | "requireLowercase" | "requireNumber" | "requireSymbol"; label: string }[] = [
+  { key: "requireUppercase", label: "Require an uppercase letter (A-Z)" },
+  { key: "requireLowercase", label: "Require a lowercase letter (a-z)" },
+  { key: "requireNumber", label: "Require a number (0-9)" },
+  { key: "requireSymbol", label: "Require a symbol (e.g. ! @ # $)" },
+];
+
+export default function PasswordPolicyPage() {
+  const [formData, setFormData] = useState<PasswordRules>(DEFAULT_PASSWORD_RULES);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canEdit } = usePermissions();
+  const canEditPolicy = canEdit("configuration", "password-policy");
+
+  const { data: policy, isLoading } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/configuration/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setFormData({
+        minLength: policy.minLength,
+        requireUppercase: policy.requireUppercase,
+        requireLowercase: policy.requireLowercase,
+        requireNumber: policy.requireNumber,
+        requireSymbol: policy.requireSymbol,
+        historyCount: policy.historyCount,
+        maxAgeDays: policy.maxAgeDays,
+      });
+    }
+  }, [policy]);
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (data: PasswordRules) => {
+      const response = await apiRequest("PUT", "/api/configuration/password-policy", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/configuration/password-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/password-policy"] });
+      toast({
+        title: "Success",
+        description: "Password policy updated successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update password policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AppLayout title="Password Policy" activeSection="password-policy">
+      <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+        <div className="border-b border-gray-200 dark:border-gray-700">
+          <span className="text-sm text-gray-600 dark:text-gray-400 pl-4">Password Policy</span>
+        </div>
+
+        <main className="px-4 sm:px-6 lg:px-2 py-2 flex-1">
+          {isLoading ? (
+            <div className="text-center py-4">Loading password policy...</div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Password Rules
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="minLength">Minimum Length</Label>
+                      <Input
+                        id="minLength"
+                        type="number"
+                        min={8}
+                        max={128}
+                        value={formData.minLength}
+                        onChange={(e) => setFormData({ ...formData, minLength: parseInt(e.target.value) || 8 })}
+                        disabled={!canEditPolicy}
+                        data-testid="input-min-length"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="historyCount">Password History</Label>
+                      <Input
+                        id="historyCount"
+                        type="number"
+                        min={0}
+                        max={24}
+                        value={formData.historyCount}
+                        onChange={(e) => setFormData({ ...formData, historyCount: parseInt(e.target.value) || 0 })}
+                        disabled={!canEditPolicy}
+                        data-testid="input-history-count"
+                      />
+                      <p className="text-xs text-muted-foreground">Recent passwords that cannot be reused (0 to allow reuse)</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxAgeDays">Maximum Age (days)</Label>
+                      <Input
+                        id="maxAgeDays"
+                        type="number"
+                        min={1}
+                        value={formData.maxAgeDays ?? ""}
+                        onChange={(e) => setFormData({ ...formData, maxAgeDays: e.target.value ? parseInt(e.target.value) : null })}
+                        placeholder="Never expires"
+                        disabled={!canEditPolicy}
+                        data-testid="input-max-age-days"
+                      />
+                      <p className="text-xs text-muted-foreground">Users must change older passwords at their next login</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    {COMPLEXITY_OPTIONS.map((option) => (
+                      <div key={option.key} className="flex items-center space-x-2">
+                        <Switch
+                          id={option.key}
+                          checked={formData[option.key]}
+                          onCheckedChange={(checked) => setFormData({ ...formData, [option.key]: checked })}
+                          disabled={!canEditPolicy}
+                          data-testid={`switch-${option.key}`}
+                        />
+                        <Label htmlFor={option.key}>{option.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+
+                  {canEditPolicy && (
+                    <div className="flex justify-end">
+                      <Button
+                        className="h-8"
+                        onClick={() => updatePolicyMutation.mutate(formData)}
+                        disabled={updatePolicyMutation.isPending}
+                        data-testid="button-save-password-policy"
+                      >
+                        {updatePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                    {getPasswordRequirements(formData).map((requirement) => (
+                      <li key={requirement}>• {requirement}</li>
+                    ))}
+                    {formData.maxAgeDays && <li>• Must be changed every {formData.maxAgeDays} days</li>}
+                  </ul>
+                  {policy && (
+                    <p className="text-xs text-muted-foreground">
+                      Last updated {format(new Date(policy.updatedAt), "MMM dd, yyyy 'at' hh:mm a")}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Save, Check, ChevronsUpDown } from "lucide-react";
+import { Save, Check, ChevronsUpDown, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -14,7 +14,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { AppLayout } from "@/components/layout/AppLayout";
 
-import type { Port, Organization } from "@shared/schema";
+import type { Port, Organization, Role } from "@shared/schema";
+import { CUSTOMER_CODE_TOKENS, DEFAULT_CUSTOMER_CODE_TEMPLATE, renderCustomerCode, validateCustomerCodeTemplate } from "@shared/customerCode";
+import { DEFAULT_CONTRACT_APPROVAL_CHAIN, contractApprovalChainSchema, parseContractApprovalChain, type ContractApprovalStep } from "@shared/contractApproval";
+import { contractExpiryReminderDaysSchema, getContractExpiryReminderDays } from "@shared/contractExpiry";
 
 interface PortFormPageProps {
   params?: {
@@ -265,6 +268,9 @@ export default function PortFormPage({ params }: PortFormPageProps) {
     address: "",
     country: "India",
     state: "",
+    customerCodeTemplate: DEFAULT_CUSTOMER_CODE_TEMPLATE,
+    contractApprovalChain: DEFAULT_CONTRACT_APPROVAL_CHAIN as ContractApprovalStep[],
+    contractExpiryReminderDays: getContractExpiryReminderDays(null).join(", "), // Comma-separated days
     isActive: true,
   });
 
@@ -273,6 +279,11 @@ export default function PortFormPage({ params }: PortFormPageProps) {
     queryKey: ["/api/organizations"],
   });
 
+  // Roles that can be named as contract approvers
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
   // Get all ports for validation
   const { data: allPorts = [] } = useQuery<Port[]>({
     queryKey: ["/api/ports"],
@@ -294,6 +305,9 @@ export default function PortFormPage({ params }: PortFormPageProps) {
         address: (port as any).address || "",
         country: (port as any).country || "India",
         state: (port as any).state || "",
+        customerCodeTemplate: (port as any).customerCodeTemplate || DEFAULT_CUSTOMER_CODE_TEMPLATE,
+        contractApprovalChain: parseContractApprovalChain((port as any).contractApprovalChain),
+        contractExpiryReminderDays: getContractExpiryReminderDays((port as any).contractExpiryReminderDays).join(", "),
         isActive: (port as any).isActive ?? true,
       });
     }
@@ -314,7 +328,7 @@ export default function PortFormPage({ params }: PortFormPageProps) {
 
   // Create port mutation
   const createPortMutation = useMutation({
-    mutationFn: (data: typeof formData) => apiRequest("POST", "/api/ports", data),
+    mutationFn: (data: Record<string, unknown>) => apiRequest("POST", "/api/ports", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ports"] });
       toast({
@@ -334,7 +348,7 @@ export default function PortFormPage({ params }: PortFormPageProps) {
 
   // Update port mutation
   const updatePortMutation = useMutation({
-    mutationFn: (data: typeof formData) => apiRequest("PUT", `/api/ports/${portId}`, data),
+    mutationFn: (data: Record<string, unknown>) => apiRequest("PUT", `/api/ports/${portId}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ports"] });
       queryClient.invalidateQueries({ queryKey: ["/api/ports", portId] });
@@ -360,6 +374,37 @@ export default function PortFormPage({ params }: PortFormPageProps) {
     }));
   };
 
+  const handleApprovalStepChange = (index: number, field: keyof ContractApprovalStep, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      contractApprovalChain: prev.contractApprovalChain.map((step, i) => i === index ? { ...step, [field]: value } : step),
+    }));
+  };
+
+  const addApprovalStep = () => {
+    setFormData(prev => ({
+      ...prev,
+      contractApprovalChain: [...prev.contractApprovalChain, { name: "", roleName: "" }],
+    }));
+  };
+
+  const removeApprovalStep = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      contractApprovalChain: prev.contractApprovalChain.filter((_, i) => i !== index),
+    }));
+  };
+
+  const templateErrors = validateCustomerCodeTemplate(formData.customerCodeTemplate);
+  const templatePreview = templateErrors.length === 0
+    ? renderCustomerCode(formData.customerCodeTemplate, {
+        year: new Date().getFullYear(),
+        terminalCode: "VPT",
+        portCode: formData.displayName || "PORT",
+        sequence: 7,
+      })
+    : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -373,6 +418,37 @@ export default function PortFormPage({ params }: PortFormPageProps) {
       return;
     }
 
+    if (templateErrors.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: templateErrors[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const chainResult = contractApprovalChainSchema.safeParse(formData.contractApprovalChain);
+    if (!chainResult.success) {
+      toast({
+        title: "Validation Error",
+        description: chainResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reminderResult = contractExpiryReminderDaysSchema.safeParse(
+      formData.contractExpiryReminderDays.split(/[\s,]+/).filter(Boolean).map(Number)
+    );
+    if (!reminderResult.success) {
+      toast({
+        title: "Validation Error",
+        description: reminderResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Check for unique constraints - check each field individually for better error reporting
     if (allPorts) {
       const duplicateFields: string[] = [];
@@ -411,10 +487,11 @@ export default function PortFormPage({ params }: PortFormPageProps) {
       }
     }
     
+    const payload = { ...formData, contractExpiryReminderDays: reminderResult.data };
     if (isEdit) {
-      updatePortMutation.mutate(formData);
+      updatePortMutation.mutate(payload);
     } else {
-      createPortMutation.mutate(formData);
+      createPortMutation.mutate(payload);
     }
   };
 
@@ -559,6 +636,95 @@ export default function PortFormPage({ params }: PortFormPageProps) {
                     />
                   </div>
 
+                  <div className="md:col-span-2">
+                    <Label htmlFor="customerCodeTemplate">Customer Code Template *</Label>
+                    <Input
+                      id="customerCodeTemplate"
+                      placeholder={DEFAULT_CUSTOMER_CODE_TEMPLATE}
+                      value={formData.customerCodeTemplate}
+                      onChange={(e) => handleInputChange('customerCodeTemplate', e.target.value)}
+                      maxLength={64}
+                      className="font-mono"
+                      data-testid="input-customer-code-template"
+                    />
+                    {templatePreview ? (
+                      <p className="text-sm text-muted-foreground mt-1" data-testid="text-customer-code-preview">
+                        Example: <span className="font-mono">{templatePreview}</span>
+                      </p>
+                    ) : (
+                      <p className="text-sm text-red-600 mt-1">{templateErrors[0]}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {CUSTOMER_CODE_TOKENS.map(({ token, description }) => `${token} ${description}`).join(" · ")}
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Contract Approval Chain *</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="h-8"
+                        onClick={addApprovalStep}
+                        disabled={formData.contractApprovalChain.length >= 5}
+                        data-testid="button-add-approval-step"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Step
+                      </Button>
+                    </div>
+                    {formData.contractApprovalChain.map((step, index) => (
+                      <div key={index} className="flex items-center gap-2" data-testid={`approval-step-${index}`}>
+                        <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                        <Input
+                          placeholder="Step name"
+                          value={step.name}
+                          onChange={(e) => handleApprovalStepChange(index, 'name', e.target.value)}
+                          maxLength={100}
+                          data-testid={`input-approval-step-name-${index}`}
+                        />
+                        <Select value={step.roleName || undefined} onValueChange={(value) => handleApprovalStepChange(index, 'roleName', value)}>
+                          <SelectTrigger className="w-64" data-testid={`select-approval-step-role-${index}`}>
+                            <SelectValue placeholder="Approver role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roles.filter(role => role.isActive || role.name === step.roleName).map(role => (
+                              <SelectItem key={role.id} value={role.name}>{role.displayName}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => removeApprovalStep(index)}
+                          disabled={formData.contractApprovalChain.length <= 1}
+                          data-testid={`button-remove-approval-step-${index}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">
+                      New contracts are signed off by each step in order, by a user of this port holding the step's role.
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <Label htmlFor="contractExpiryReminderDays">Contract Expiry Reminders (days before expiry) *</Label>
+                    <Input
+                      id="contractExpiryReminderDays"
+                      value={formData.contractExpiryReminderDays}
+                      onChange={(e) => handleInputChange('contractExpiryReminderDays', e.target.value)}
+                      placeholder="90, 60, 30, 7"
+                      data-testid="input-contract-expiry-reminder-days"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Commercial users and the customer's primary contact are reminded once as a contract enters each of these windows.
+                    </p>
+                  </div>
+
                 </div>
 
                 {/* Action Buttons */}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Calendar, MapPin, Shield, Monitor, Smartphone, Globe, Clock, User, Mail, Eye, EyeOff, Edit, Check, X, History } from "lucide-react";
 import { UserAuditLogDialog } from "@/components/UserAuditLogDialog";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { SessionList } from "@/components/SessionList";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,10 +12,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AuthService } from "@/lib/auth";
 import { apiRequest } from "@/lib/queryClient";
 import type { User as UserType, Role } from "@shared/schema";
+import { DEFAULT_PASSWORD_RULES, getPasswordRequirements, validatePasswordComplexity, type PasswordRules } from "@shared/passwordPolicy";
 
 interface LoginLog {
   id: number;
@@ -71,6 +76,58 @@ export default function ProfilePage() {
     enabled: !!user?.roleId,
   });
 
+  const { data: passwordRules = DEFAULT_PASSWORD_RULES } = useQuery<PasswordRules>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/change-password", {
+        currentPassword: formData.currentPassword,
+        newPassword: formData.newPassword,
+        confirmPassword: formData.confirmPassword,
+      });
+    },
+    onSuccess: () => {
+      setFormData({ ...formData, currentPassword: "", newPassword: "", confirmPassword: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Success",
+        description: "Password changed successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChangePassword = () => {
+    const errors = validatePasswordComplexity(formData.newPassword, passwordRules);
+    if (errors.length > 0) {
+      toast({ title: "Password Requirements", description: errors[0], variant: "destructive" });
+      return;
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      toast({ title: "Password Mismatch", description: "Passwords do not match", variant: "destructive" });
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
+  // Users whose role requires 2FA, or whose password expired, land here until they fix it
+  useEffect(() => {
+    if ((user as any)?.twoFactorSetupRequired || (user as any)?.passwordChangeRequired) {
+      setActiveTab("security");
+    }
+  }, [user]);
+
   // Mock data for login logs (you can replace with actual API calls)
   const loginLogs: LoginLog[] = [
     {
@@ -414,6 +471,13 @@ export default function ProfilePage() {
                   </CardHeader>
                   <CardContent className="p-3 sm:p-6">
                     <div className="space-y-4">
+                      {(user as any)?.passwordChangeRequired && (
+                        <Alert variant="destructive">
+                          <AlertDescription>
+                            Your password has expired. Choose a new password to continue using PortRay.
+                          </AlertDescription>
+                        </Alert>
+                      )}
                       <div className="space-y-2">
                         <Label htmlFor="currentPassword">Current Password</Label>
                         <div className="relative">
@@ -455,13 +519,36 @@ export default function ProfilePage() {
                           placeholder="Confirm new password"
                         />
                       </div>
+                      <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                        {getPasswordRequirements(passwordRules).map((requirement) => (
+                          <li key={requirement}>• {requirement}</li>
+                        ))}
+                      </ul>
                       <div className="pt-4">
-                        <Button className="h-8">Update Password</Button>
+                        <Button
+                          className="h-8"
+                          onClick={handleChangePassword}
+                          disabled={changePasswordMutation.isPending || !formData.currentPassword || !formData.newPassword || !formData.confirmPassword}
+                          data-testid="button-update-password"
+                        >
+                          {changePasswordMutation.isPending ? "Updating..." : "Update Password"}
+                        </Button>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
 
+                <TwoFactorSettings />
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Active Sessions</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-3 sm:p-6">
+                    <SessionList endpoint="/api/auth/sessions" />
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardHeader>
                     <CardTitle>Security Information</CardTitle>
@@ -42,6 +42,8 @@ interface RoleFormData {
   description: string;
   permissions: string[];
   isActive: boolean;
+  requireTwoFactor: boolean;
+  maxConcurrentSessions: number | null;
 }
 
 
@@ -57,7 +59,9 @@ export default function RolesPage() {
     displayName: "",
     description: "",
     permissions: [],
-    isActive: true
+    isActive: true,
+    requireTwoFactor: false,
+    maxConcurrentSessions: null
   });
 
   const { toast } = useToast();
@@ -163,7 +167,9 @@ export default function RolesPage() {
       displayName: "",
       description: "",
       permissions: [],
-      isActive: true
+      isActive: true,
+      requireTwoFactor: false,
+      maxConcurrentSessions: null
     });
   };
 
@@ -187,7 +193,9 @@ export default function RolesPage() {
       displayName: role.displayName,
       description: role.description || "",
       permissions: role.permissions || [],
-      isActive: role.isActive
+      isActive: role.isActive,
+      requireTwoFactor: role.requireTwoFactor,
+      maxConcurrentSessions: role.maxConcurrentSessions
     });
     setShowEditForm(true);
   };
@@ -314,6 +322,20 @@ export default function RolesPage() {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="maxConcurrentSessions">Max Concurrent Sessions</Label>
+                    <Input
+                      id="maxConcurrentSessions"
+                      type="number"
+                      min={1}
+                      value={formData.maxConcurrentSessions ?? ""}
+                      onChange={(e) => setFormData({ ...formData, maxConcurrentSessions: e.target.value ? parseInt(e.target.value) : null })}
+                      placeholder="Unlimited"
+                      data-testid="input-role-max-sessions"
+                    />
+                    <p className="text-xs text-muted-foreground">Oldest sessions are signed out when a user exceeds this limit</p>
+                  </div>
+
                   <div className="flex items-center space-x-2">
                     <Switch
                       id="isActive"
@@ -324,6 +346,16 @@ export default function RolesPage() {
                     <Label htmlFor="isActive">Active</Label>
                   </div>
 
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="requireTwoFactor"
+                      checked={formData.requireTwoFactor}
+                      onCheckedChange={(checked) => setFormData({ ...formData, requireTwoFactor: checked })}
+                      data-testid="switch-role-require-two-factor"
+                    />
+                    <Label htmlFor="requireTwoFactor">Require two-factor authentication</Label>
+                  </div>
+
                   <div className="flex justify-end space-x-2 pt-4">
                     <Button 
                       variant="outline" 
@@ -551,6 +583,20 @@ export default function RolesPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="editMaxConcurrentSessions">Max Concurrent Sessions</Label>
+                <Input
+                  id="editMaxConcurrentSessions"
+                  type="number"
+                  min={1}
+                  value={formData.maxConcurrentSessions ?? ""}
+                  onChange={(e) => setFormData({ ...formData, maxConcurrentSessions: e.target.value ? parseInt(e.target.value) : null })}
+                  placeholder="Unlimited"
+                  data-testid="input-edit-role-max-sessions"
+                />
+                <p className="text-xs text-muted-foreground">Oldest sessions are signed out when a user exceeds this limit</p>
+              </div>
+
 
 
               <div className="flex items-center space-x-2">
@@ -564,6 +610,16 @@ export default function RolesPage() {
                 <Label htmlFor="editIsActive">Active</Label>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="editRequireTwoFactor"
+                  checked={formData.requireTwoFactor}
+                  onCheckedChange={(checked) => setFormData({ ...formData, requireTwoFactor: checked })}
+                  data-testid="switch-edit-role-require-two-factor"
+                />
+                <Label htmlFor="editRequireTwoFactor">Require two-factor authentication</Label>
+              </div>
+
               <div className="flex justify-end space-x-2 pt-4">
                 <Button 
                   variant="outline" 
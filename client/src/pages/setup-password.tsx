@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { CheckCircle, XCircle, Lock, Eye, EyeOff } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PASSWORD_RULES, getPasswordRequirements, validatePasswordComplexity, type PasswordRules } from "@shared/passwordPolicy";
 
 export default function SetupPasswordPage() {
   const [location] = useLocation();
@@ -20,8 +22,13 @@ export default function SetupPasswordPage() {
   const [userId, setUserId] = useState<string | null>(null);
   const [email, setEmail] = useState<string | null>(null);
   const [contactName, setContactName] = useState<string | null>(null);
+  const [resetToken, setResetToken] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const { data: passwordRules = DEFAULT_PASSWORD_RULES } = useQuery<PasswordRules>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+
   useEffect(() => {
     // Get the full URL including query parameters
     const fullUrl = window.location.href;
@@ -30,6 +37,7 @@ export default function SetupPasswordPage() {
     const emailParam = url.searchParams.get('email');
     const contactNameParam = url.searchParams.get('contactName');
     const tokenParam = url.searchParams.get('token');
+    const isReset = url.searchParams.get('mode') === 'reset';
     
     console.log("SetupPasswordPage: Full URL:", fullUrl);
     console.log("SetupPasswordPage: UserID from URL:", userIdParam);
@@ -50,6 +58,10 @@ export default function SetupPasswordPage() {
         .then(data => {
           if (data.success && data.userId) {
             setUserId(data.userId);
+            // Reset links submit the token itself so the server can clear it and sign out old sessions
+            if (isReset) {
+              setResetToken(tokenParam);
+            }
             setEmail(data.email);
             setContactName(data.firstName || data.contactName || '');
           } else {
@@ -70,25 +82,7 @@ export default function SetupPasswordPage() {
   }, [location]);
 
   const validatePassword = (password: string): string[] => {
-    const errors: string[] = [];
-    
-    if (password.length < 8) {
-      errors.push("Password must be at least 8 characters long");
-    }
-    
-    if (!/[A-Z]/.test(password)) {
-      errors.push("Password must contain at least one uppercase letter");
-    }
-    
-    if (!/[a-z]/.test(password)) {
-      errors.push("Password must contain at least one lowercase letter");
-    }
-    
-    if (!/\d/.test(password)) {
-      errors.push("Password must contain at least one number");
-    }
-    
-    return errors;
+    return validatePasswordComplexity(password, passwordRules);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -127,17 +121,21 @@ export default function SetupPasswordPage() {
     setIsSubmitting(true);
     
     try {
-      const response = await apiRequest("POST", "/api/setup-password", { 
-        userId, 
-        password 
-      });
+      const response = resetToken
+        ? await apiRequest("POST", "/api/auth/setup-password", { token: resetToken, password })
+        : await apiRequest("POST", "/api/setup-password", { 
+            userId, 
+            password 
+          });
       
       if (response) {
         setStatus("success");
-        setMessage("Password set successfully! You can now log in to your account.");
+        setMessage(resetToken
+          ? "Password reset successfully! You have been signed out everywhere. Please log in with your new password."
+          : "Password set successfully! You can now log in to your account.");
         
         toast({
-          title: "Password Set Successfully",
+          title: resetToken ? "Password Reset Successfully" : "Password Set Successfully",
           description: "You can now log in to your account",
         });
         
@@ -151,7 +149,9 @@ export default function SetupPasswordPage() {
       
       if (error.message?.includes("expired")) {
         setStatus("expired");
-        setMessage("Password setup link has expired. Please contact your administrator for assistance.");
+        setMessage(resetToken
+          ? "Password reset link has expired. Please request a new one from the login page."
+          : "Password setup link has expired. Please contact your administrator for assistance.");
       } else {
         toast({
           title: "Setup Failed",
@@ -204,7 +204,7 @@ export default function SetupPasswordPage() {
             <div className="flex justify-center">
               <CheckCircle className="h-16 w-16 text-green-500" />
             </div>
-            <CardTitle className="text-2xl">Password Set Successfully!</CardTitle>
+            <CardTitle className="text-2xl">{resetToken ? "Password Reset Successfully!" : "Password Set Successfully!"}</CardTitle>
             <CardDescription>{message}</CardDescription>
           </CardHeader>
           <CardContent>
@@ -229,7 +229,7 @@ export default function SetupPasswordPage() {
             <div className="flex justify-center">
               <XCircle className="h-16 w-16 text-orange-500" />
             </div>
-            <CardTitle className="text-2xl">Setup Link Expired</CardTitle>
+            <CardTitle className="text-2xl">{resetToken ? "Reset Link Expired" : "Setup Link Expired"}</CardTitle>
             <CardDescription>{message}</CardDescription>
           </CardHeader>
           <CardContent>
@@ -254,9 +254,11 @@ export default function SetupPasswordPage() {
             <Lock className="h-16 w-16 text-blue-500" />
           </div>
           <div className="space-y-2">
-            <CardTitle className="text-2xl">Set Your Password</CardTitle>
+            <CardTitle className="text-2xl">{resetToken ? "Reset Your Password" : "Set Your Password"}</CardTitle>
             <CardDescription>
-              Create a secure password to complete your account setup
+              {resetToken
+                ? "Choose a new password for your account"
+                : "Create a secure password to complete your account setup"}
             </CardDescription>
           </div>
         </CardHeader>
@@ -324,10 +326,9 @@ export default function SetupPasswordPage() {
             <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
               <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Password Requirements:</h4>
               <ul className="text-sm text-blue-800 dark:text-blue-300 space-y-1">
-                <li>• At least 8 characters long</li>
-                <li>• At least one uppercase letter (A-Z)</li>
-                <li>• At least one lowercase letter (a-z)</li>
-                <li>• At least one number (0-9)</li>
+                {getPasswordRequirements(passwordRules).map((requirement) => (
+                  <li key={requirement}>• {requirement}</li>
+                ))}
               </ul>
             </div>
             
@@ -337,7 +338,7 @@ export default function SetupPasswordPage() {
               className="w-full"
               data-testid="button-setup-password"
             >
-              {isSubmitting ? "Setting Password..." : "Set Password"}
+              {isSubmitting ? "Setting Password..." : (resetToken ? "Reset Password" : "Set Password")}
             </Button>
           </form>
         </CardContent>
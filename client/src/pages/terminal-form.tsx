@@ -19,6 +19,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { AuthService } from "@/lib/auth";
 
 import type { Terminal, Port, InsertTerminal } from "@shared/schema";
+import { validateTaxIdentifiers } from "@shared/taxIdentifiers";
 
 // Terminal form schema
 const terminalFormSchema = z.object({
@@ -50,6 +51,11 @@ const terminalFormSchema = z.object({
   shippingFax: z.string().optional(),
   
   sameAsBilling: z.boolean().default(false),
+}).superRefine((data, ctx) => {
+  // Both are optional; when given they must be valid and the GST must embed the PAN
+  for (const issue of validateTaxIdentifiers({ gst: data.gst, pan: data.pan })) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
 });
 
 type TerminalFormData = z.infer<typeof terminalFormSchema>;
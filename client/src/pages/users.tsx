@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, User, Edit, ToggleLeft, ToggleRight, Trash2, Search, Calendar, Shield, Mail, Users, TrendingUp, Clock, UserCheck, MoreHorizontal, History } from "lucide-react";
+import { Plus, User, Edit, ToggleLeft, ToggleRight, Trash2, Search, Calendar, Shield, Mail, Users, TrendingUp, Clock, UserCheck, MoreHorizontal, History, Lock, Unlock, Monitor } from "lucide-react";
 import { UserAuditLogDialog } from "@/components/UserAuditLogDialog";
+import { UserSessionsDialog } from "@/components/UserSessionsDialog";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -65,6 +66,15 @@ export function UsersContent() {
     userId: null,
     userName: null,
   });
+  const [sessionsDialog, setSessionsDialog] = useState<{
+    open: boolean;
+    userId: string | null;
+    userName: string | null;
+  }>({
+    open: false,
+    userId: null,
+    userName: null,
+  });
   const [formData, setFormData] = useState<UserFormData>({
     userType: "PortUser",
     email: "",
@@ -189,6 +199,27 @@ export function UsersContent() {
     }
   });
 
+  // Unlock account mutation
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", `/api/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: "User account unlocked successfully"
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock user account",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Resend verification email mutation
   const resendVerificationMutation = useMutation({
     mutationFn: async (userId: string) => {
@@ -306,6 +337,14 @@ export function UsersContent() {
     toggleUserStatusMutation.mutate(userId);
   };
 
+  const handleUnlockUser = (userId: string) => {
+    unlockUserMutation.mutate(userId);
+  };
+
+  const isUserLocked = (user: UserType) => {
+    return !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+  };
+
   const handleDeleteUser = (userId: string) => {
     deleteUserMutation.mutate(userId);
   };
@@ -322,6 +361,14 @@ export function UsersContent() {
     });
   };
 
+  const handleViewSessions = (user: UserType) => {
+    setSessionsDialog({
+      open: true,
+      userId: user.id,
+      userName: `${user.firstName} ${user.lastName}`,
+    });
+  };
+
   const handleRoleChange = (roleId: string) => {
     const selectedRole = (roles as Role[]).find(r => r.id.toString() === roleId);
     if (selectedRole) {
@@ -753,6 +800,12 @@ export function UsersContent() {
                                         Active
                                       </Badge>
                                     )}
+                                    {isUserLocked(user) && (
+                                      <Badge variant="destructive" className="text-xs px-1 py-0" data-testid={`badge-user-locked-${user.id}`}>
+                                        <Lock className="w-3 h-3 mr-1" />
+                                        Locked
+                                      </Badge>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -791,6 +844,10 @@ export function UsersContent() {
                                     <History className="w-4 h-4 mr-2" />
                                     View Activity Log
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleViewSessions(user)} data-testid={`button-sessions-user-${user.id}`}>
+                                    <Monitor className="w-4 h-4 mr-2" />
+                                    Active Sessions
+                                  </DropdownMenuItem>
                                   {!user.isActive && (
                                     <DropdownMenuItem 
                                       onClick={() => handleResendVerification(user.id)}
@@ -801,6 +858,16 @@ export function UsersContent() {
                                       Resend Verification
                                     </DropdownMenuItem>
                                   )}
+                                  {isUserLocked(user) && (
+                                    <DropdownMenuItem 
+                                      onClick={() => handleUnlockUser(user.id)}
+                                      disabled={unlockUserMutation.isPending}
+                                      data-testid={`button-unlock-user-${user.id}`}
+                                    >
+                                      <Unlock className="w-4 h-4 mr-2" />
+                                      Unlock Account
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem 
                                     onClick={() => handleToggleUserStatus(user.id)}
                                     disabled={toggleUserStatusMutation.isPending || user.id === "admin-001"}
@@ -1087,6 +1154,15 @@ export function UsersContent() {
         userId={auditLogDialog.userId || ""}
         userName={auditLogDialog.userName || ""}
       />
+
+      {/* User Sessions Dialog */}
+      <UserSessionsDialog
+        open={sessionsDialog.open}
+        onOpenChange={(open) => setSessionsDialog(prev => ({ ...prev, open }))}
+        userId={sessionsDialog.userId || ""}
+        userName={sessionsDialog.userName || ""}
+        canRevoke={canManage("users", "user-access")}
+      />
     </div>
   );
 }
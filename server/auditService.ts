@@ -1,7 +1,62 @@
 import { storage } from "./storage";
 import type { InsertUserAuditLog, User } from "@shared/schema";
 
+export type AuditedEntityType = "customer" | "customer_contact" | "customer_address" | "customer_document" | "contract";
+
+export interface EntityChange {
+  entityType: AuditedEntityType;
+  entityId: number | string;
+  customerId?: number | null;
+  action: string;
+  description: string;
+  performedBy?: string | null;
+  // Record before the change (omit for creations) and the values written
+  oldValues?: Record<string, unknown> | null;
+  newValues?: Record<string, unknown> | null;
+}
+
+// Bookkeeping columns that change on every write and say nothing about the change itself
+const UNAUDITED_FIELDS = new Set(["id", "createdAt", "updatedAt", "updatedBy"]);
+
+const normalizeAuditValue = (value: unknown) => value instanceof Date ? value.toISOString() : value ?? null;
+
+// Fields of newValues whose value differs from oldValues
+function diffValues(oldValues: Record<string, unknown>, newValues: Record<string, unknown>): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(newValues)) {
+    if (UNAUDITED_FIELDS.has(field) || value === undefined) continue;
+    const from = normalizeAuditValue(oldValues[field]);
+    const to = normalizeAuditValue(value);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
 export class AuditService {
+  // Change history for business records. Updates that change nothing are not recorded.
+  static async logEntityChange({ entityType, entityId, customerId, action, description, performedBy, oldValues, newValues }: EntityChange) {
+    try {
+      const changes = newValues ? diffValues(oldValues || {}, newValues) : null;
+      if (oldValues && changes && Object.keys(changes).length === 0) {
+        return;
+      }
+
+      await storage.createEntityAuditLog({
+        entityType,
+        entityId: String(entityId),
+        customerId: customerId ?? null,
+        action,
+        description,
+        changes: changes ? JSON.stringify(changes) : null,
+        performedBy: performedBy ?? null,
+      });
+    } catch (error) {
+      console.error("Failed to log entity change:", error);
+    }
+  }
+
   static async logUserCreation(
     targetUserId: string,
     performedBy: string,
@@ -227,4 +282,204 @@ export class AuditService {
       console.error("Failed to log user login:", error);
     }
   }
-}
\ No newline at end of file
+
+  static async logAccountLocked(
+    targetUserId: string,
+    failedAttempts: number,
+    lockedUntil: Date,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy: null,
+        action: "locked",
+        description: `Account locked after ${failedAttempts} failed login attempts`,
+        oldValues: null,
+        newValues: JSON.stringify({ lockedUntil: lockedUntil.toISOString(), failedAttempts }),
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log account lockout:", error);
+    }
+  }
+
+  static async logAccountUnlocked(
+    targetUserId: string,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy,
+        action: "unlocked",
+        description: "Account unlocked by administrator",
+        oldValues: null,
+        newValues: JSON.stringify({ lockedUntil: null }),
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log account unlock:", error);
+    }
+  }
+
+  static async logPasswordResetRequested(
+    targetUserId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy: null,
+        action: "password_reset_requested",
+        description: "Password reset link requested",
+        oldValues: null,
+        newValues: null,
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log password reset request:", error);
+    }
+  }
+
+  static async logPasswordReset(
+    targetUserId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy: targetUserId,
+        action: "password_reset",
+        description: "Password reset via emailed link; all sessions signed out",
+        oldValues: null,
+        newValues: JSON.stringify({ passwordReset: true }),
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log password reset:", error);
+    }
+  }
+
+  static async logPasswordChange(
+    targetUserId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy: targetUserId,
+        action: "password_changed",
+        description: "Password changed from profile",
+        oldValues: null,
+        newValues: JSON.stringify({ passwordChanged: true }),
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log password change:", error);
+    }
+  }
+
+  static async logSessionRevoked(
+    targetUserId: string,
+    performedBy: string,
+    sessionId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy,
+        action: "session_revoked",
+        description: performedBy === targetUserId ? "Signed out a session" : "Session signed out by administrator",
+        oldValues: JSON.stringify({ sessionId }),
+        newValues: null,
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log session revocation:", error);
+    }
+  }
+
+  static async logSsoLogin(
+    targetUserId: string,
+    action: "sso_linked" | "sso_provisioned",
+    organizationId: number,
+    subject: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createUserAuditLog({
+        targetUserId,
+        performedBy: null,
+        action,
+        description: action === "sso_provisioned"
+          ? "Account created by single sign-on"
+          : "Account linked to single sign-on identity",
+        oldValues: null,
+        newValues: JSON.stringify({ organizationId, subject }),
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log single sign-on:", error);
+    }
+  }
+
+  static async logApiKeyChange(
+    apiKeyId: number,
+    action: "created" | "revoked",
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createApiKeyAuditLog({
+        apiKeyId,
+        action,
+        performedBy,
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log API key change:", error);
+    }
+  }
+
+  static async logApiKeyRequest(
+    apiKeyId: number,
+    method: string,
+    path: string,
+    statusCode: number,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    try {
+      await storage.createApiKeyAuditLog({
+        apiKeyId,
+        action: "request",
+        method,
+        path,
+        statusCode,
+        ipAddress,
+        userAgent
+      });
+    } catch (error) {
+      console.error("Failed to log API key request:", error);
+    }
+  }
+}
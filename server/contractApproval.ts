@@ -0,0 +1,535 @@
+import { storage, isCustomerInScope, type DataScope } from "./storage";
+import { emailService } from "./emailService";
+import { AuditService } from "./auditService";
+import { checkUserPermission, API_PERMISSIONS } from "./middleware/permissions";
+import {
+  CONTRACT_APPROVAL_ACTION_LABELS,
+  contractApprovalChainSchema,
+  getApprovedContractStatus,
+  isContractApproved,
+  parseContractApprovalChain,
+  type ContractApprovalAction,
+  type ContractApprovalStep,
+  type ContractStatus,
+} from "@shared/contractApproval";
+import type {
+  Contract,
+  ContractAmendmentApprovalActionRequest,
+  ContractApprovalActionRequest,
+  ContractApprovalHistory,
+  ContractRevision,
+  Customer,
+  Role,
+  User,
+} from "@shared/schema";
+
+// Approval action refused; statusCode is the HTTP status to respond with
+export class ContractApprovalError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+interface ApprovalActor {
+  id: string;
+  isSystemAdmin: boolean;
+  role?: string | null;
+  roleId?: number | null;
+  dataScope?: DataScope; // Undefined for system admins
+  rolePermissions?: string[];
+}
+
+type ContractApprovalProgress = Array<ContractApprovalStep & { step: number; state: "approved" | "pending" | "waiting" }>;
+
+// Approval status of a contract, as returned by GET /api/contracts/:id/approval
+export interface ContractApprovalState {
+  contractId: number;
+  status: string;
+  chain: ContractApprovalProgress;
+  currentStep: number | null;
+  canSubmit: boolean;
+  canApprove: boolean;
+  canTerminate: boolean;
+  // Amendment awaiting sign-off; the contract keeps its status and current terms meanwhile
+  amendment: {
+    revisionNumber: number;
+    effectiveDate: Date;
+    reason: string | null;
+    chain: ContractApprovalProgress;
+    currentStep: number;
+    canApprove: boolean;
+  } | null;
+  history: Array<ContractApprovalHistory & { performedByName: string | null }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First check shortly after startup, then once a day
+const STATUS_CHECK_DELAY_MS = 60 * 1000;
+
+const SUBMITTED_STATUSES: string[] = ["Submitted", "Under Review"];
+
+let statusMonitorStarted = false;
+
+const isSystemAdminUser = (user: User) =>
+  user.isSystemAdmin || user.role === "SystemAdmin" || user.userType === "SuperAdmin";
+
+const userName = (user: User) => `${user.firstName} ${user.lastName}`.trim() || user.email;
+
+export class ContractApprovalService {
+  static async getChain(customer: Customer): Promise<ContractApprovalStep[]> {
+    const port = await storage.getPortById(customer.portId);
+    return parseContractApprovalChain(port?.contractApprovalChain);
+  }
+
+  // Validates a chain sent by a port form and returns it as stored on the port; every step must name an existing role
+  static async serializeChain(value: unknown): Promise<string> {
+    const chain = contractApprovalChainSchema.parse(value);
+    for (const step of chain) {
+      if (!(await storage.getRoleByName(step.roleName))) {
+        throw new ContractApprovalError(`Approval step "${step.name}": role "${step.roleName}" does not exist`);
+      }
+    }
+    return JSON.stringify(chain);
+  }
+
+  static async getState(contract: Contract, user: ApprovalActor): Promise<ContractApprovalState> {
+    const customer = await this.getCustomer(contract);
+    const [chain, history, roles, revisions] = await Promise.all([
+      this.getChain(customer),
+      storage.getContractApprovalHistory(contract.id),
+      storage.getAllRoles(),
+      storage.getContractRevisions(contract.id),
+    ]);
+    const currentStep = SUBMITTED_STATUSES.includes(contract.status) ? this.getCurrentStep(contract.approvalStep, chain) : null;
+    const amendment = revisions.find(revision => revision.status === "Pending");
+    const amendmentStep = amendment ? this.getCurrentStep(amendment.approvalStep, chain) : null;
+
+    const performerIds = Array.from(new Set(history.map(entry => entry.performedBy).filter((id): id is string => !!id)));
+    const performers = await Promise.all(performerIds.map(id => storage.getUser(id)));
+    const names = new Map(performers.filter((performer): performer is User => !!performer).map(performer => [performer.id, userName(performer)]));
+
+    return {
+      contractId: contract.id,
+      status: contract.status,
+      chain: this.getProgress(chain, isContractApproved(contract.status), currentStep),
+      currentStep,
+      canSubmit: contract.status === "Draft" && this.hasPermission(user, "write"),
+      canApprove: currentStep !== null && this.isStepApprover(user, chain[currentStep - 1], customer, roles),
+      canTerminate: ["Approved", "Active"].includes(contract.status) && this.hasPermission(user, "manage"),
+      amendment: amendment && amendmentStep !== null ? {
+        revisionNumber: amendment.revisionNumber,
+        effectiveDate: amendment.effectiveDate,
+        reason: amendment.reason,
+        chain: this.getProgress(chain, false, amendmentStep),
+        currentStep: amendmentStep,
+        canApprove: this.isStepApprover(user, chain[amendmentStep - 1], customer, roles),
+      } : null,
+      history: history.map(entry => ({ ...entry, performedByName: entry.performedBy ? names.get(entry.performedBy) ?? null : null })),
+    };
+  }
+
+  static async perform(contract: Contract, request: ContractApprovalActionRequest, user: ApprovalActor): Promise<Contract> {
+    const customer = await this.getCustomer(contract);
+    const chain = await this.getChain(customer);
+    const comments = request.comments || null;
+
+    switch (request.action) {
+      case "submit": {
+        if (contract.status !== "Draft") {
+          throw new ContractApprovalError(`Only draft contracts can be submitted; this contract is ${contract.status}`);
+        }
+        if (!this.hasPermission(user, "write")) {
+          throw new ContractApprovalError("Access denied. Required permission: contracts:write", 403);
+        }
+        return await this.submit(contract, customer, chain, user.id, comments);
+      }
+
+      case "approve":
+      case "reject": {
+        if (!SUBMITTED_STATUSES.includes(contract.status)) {
+          throw new ContractApprovalError(`This contract is ${contract.status} and is not awaiting approval`);
+        }
+        const stepNumber = this.getCurrentStep(contract.approvalStep, chain);
+        const step = chain[stepNumber - 1];
+        if (!this.isStepApprover(user, step, customer, await storage.getAllRoles())) {
+          throw new ContractApprovalError(`This step ("${step.name}") must be approved by a ${step.roleName} of the contract's port`, 403);
+        }
+
+        if (request.action === "reject") {
+          if (!comments) {
+            throw new ContractApprovalError("Comments are required to reject a contract");
+          }
+          const rejected = await this.transition(contract, "reject", "Draft", { approvalStep: null }, user.id, comments, stepNumber, step.name);
+          await this.notify(rejected, customer, "reject", await this.getSubmitters(rejected), user.id, comments);
+          return rejected;
+        }
+
+        if (stepNumber < chain.length) {
+          const reviewed = await this.transition(contract, "approve", "Under Review", { approvalStep: stepNumber + 1 }, user.id, comments, stepNumber, step.name);
+          await this.notify(reviewed, customer, "submit", await this.getStepApprovers(chain[stepNumber], customer), user.id, comments, chain[stepNumber]);
+          return reviewed;
+        }
+
+        const approved = await this.transition(
+          contract, "approve", getApprovedContractStatus(contract.validFrom, contract.validTo), { approvalStep: null }, user.id, comments, stepNumber, step.name
+        );
+        await this.notify(approved, customer, "approve", await this.getSubmitters(approved), user.id, comments);
+        return approved;
+      }
+
+      case "terminate": {
+        if (!["Approved", "Active"].includes(contract.status)) {
+          throw new ContractApprovalError(`Only approved or active contracts can be terminated; this contract is ${contract.status}`);
+        }
+        if (!this.hasPermission(user, "manage")) {
+          throw new ContractApprovalError("Access denied. Required permission: contracts:manage", 403);
+        }
+        if (!comments) {
+          throw new ContractApprovalError("Comments are required to terminate a contract");
+        }
+        const terminated = await this.transition(contract, "terminate", "Terminated", { approvalStep: null }, user.id, comments);
+        // Amendments still waiting never take effect on a terminated contract
+        for (const revision of await storage.getContractRevisions(contract.id)) {
+          if (revision.status === "Pending" || revision.status === "Scheduled") {
+            await storage.updateContractRevision(revision.id, { status: "Rejected", approvalStep: null });
+          }
+        }
+        await this.notify(terminated, customer, "terminate", await this.getSubmitters(terminated), user.id, comments);
+        return terminated;
+      }
+    }
+  }
+
+  // Amendments go through the port's approval chain from its first step; the contract keeps its status meanwhile
+  static async submitAmendment(contract: Contract, revision: ContractRevision, userId: string): Promise<void> {
+    const customer = await this.getCustomer(contract);
+    const chain = await this.getChain(customer);
+    await this.recordAmendmentAction(contract, revision, "submit", "Pending", userId, revision.reason);
+    await this.notify(contract, customer, "submit", await this.getStepApprovers(chain[0], customer), userId, revision.reason, chain[0], revision);
+  }
+
+  // Signs off or rejects the current step of a pending amendment. Once the last step approves it, the amendment
+  // applies straight away if its effective date has come and is Scheduled for that date otherwise.
+  static async performAmendment(
+    contract: Contract,
+    revisionNumber: number,
+    request: ContractAmendmentApprovalActionRequest,
+    user: ApprovalActor,
+  ): Promise<ContractRevision> {
+    const revision = (await storage.getContractRevisions(contract.id)).find(r => r.revisionNumber === revisionNumber);
+    if (!revision) {
+      throw new ContractApprovalError("Amendment not found", 404);
+    }
+    if (revision.status !== "Pending") {
+      throw new ContractApprovalError(`Revision ${revisionNumber} is ${revision.status} and is not awaiting approval`);
+    }
+
+    const customer = await this.getCustomer(contract);
+    const chain = await this.getChain(customer);
+    const stepNumber = this.getCurrentStep(revision.approvalStep, chain);
+    const step = chain[stepNumber - 1];
+    if (!this.isStepApprover(user, step, customer, await storage.getAllRoles())) {
+      throw new ContractApprovalError(`This step ("${step.name}") must be approved by a ${step.roleName} of the contract's port`, 403);
+    }
+    const comments = request.comments || null;
+
+    if (request.action === "reject") {
+      if (!comments) {
+        throw new ContractApprovalError("Comments are required to reject an amendment");
+      }
+      const rejected = await this.updateRevision(revision, { status: "Rejected", approvalStep: null });
+      await this.recordAmendmentAction(contract, revision, "reject", "Rejected", user.id, comments, stepNumber, step.name);
+      await this.notify(contract, customer, "reject", await this.getSubmitters(contract, revision), user.id, comments, undefined, rejected);
+      return rejected;
+    }
+
+    if (stepNumber < chain.length) {
+      const reviewed = await this.updateRevision(revision, { approvalStep: stepNumber + 1 });
+      await this.recordAmendmentAction(contract, revision, "approve", "Pending", user.id, comments, stepNumber, step.name);
+      await this.notify(contract, customer, "submit", await this.getStepApprovers(chain[stepNumber], customer), user.id, comments, chain[stepNumber], reviewed);
+      return reviewed;
+    }
+
+    let approved: ContractRevision;
+    if (revision.effectiveDate.getTime() <= Date.now()) {
+      const applied = await storage.applyContractRevision(contract.id, revisionNumber, user.id);
+      await this.syncValidityStatus(applied.contract);
+      approved = applied.revision;
+    } else {
+      approved = await this.updateRevision(revision, { status: "Scheduled", approvalStep: null });
+    }
+    await this.recordAmendmentAction(contract, revision, "approve", approved.status, user.id, comments, stepNumber, step.name);
+    await this.notify(contract, customer, "approve", await this.getSubmitters(contract, revision), user.id, comments, undefined, approved);
+    return approved;
+  }
+
+  // Downstream users of tariffs and charges, such as storage charge calculation, call this before relying on them
+  static assertTariffsUsable(contract: Contract): void {
+    if (!isContractApproved(contract.status)) {
+      throw new ContractApprovalError(
+        `Contract ${contract.contractNumber} is ${contract.status}. Its tariffs cannot be used until it is approved.`,
+        409
+      );
+    }
+  }
+
+  // Moves approved contracts to Active on their start date and to Expired after their end date, and an expired
+  // contract whose validity an amendment has extended back to Active. Returns the number of contracts updated.
+  static async syncValidityStatuses(now: Date = new Date()): Promise<number> {
+    const contracts = (await storage.getAllContracts()).filter(contract => isContractApproved(contract.status));
+    let updated = 0;
+    for (const contract of contracts) {
+      try {
+        if (await this.syncValidityStatus(contract, now)) updated++;
+      } catch (error) {
+        console.error(`Failed to update status of contract ${contract.id}:`, error);
+      }
+    }
+    return updated;
+  }
+
+  // Brings one approved contract's status in line with its validity dates; returns whether it changed
+  static async syncValidityStatus(contract: Contract, now: Date = new Date()): Promise<boolean> {
+    if (!isContractApproved(contract.status)) return false;
+    const status = getApprovedContractStatus(contract.validFrom, contract.validTo, now);
+    if (status === contract.status) return false;
+    await this.transition(contract, status === "Expired" ? "expire" : "activate", status, {}, null, null);
+    return true;
+  }
+
+  static startStatusMonitor(): void {
+    if (statusMonitorStarted) return;
+    statusMonitorStarted = true;
+
+    const run = async () => {
+      try {
+        const updated = await this.syncValidityStatuses();
+        if (updated > 0) {
+          console.log(`Contract status check: updated ${updated} contract(s)`);
+        }
+      } catch (error) {
+        console.error("Contract status check failed:", error);
+      }
+    };
+
+    setTimeout(run, STATUS_CHECK_DELAY_MS);
+    setInterval(run, DAY_MS);
+  }
+
+  private static async submit(contract: Contract, customer: Customer, chain: ContractApprovalStep[], userId: string, comments: string | null): Promise<Contract> {
+    const submitted = await this.transition(
+      contract, "submit", "Submitted", { approvalStep: 1, submittedBy: userId, submittedAt: new Date() }, userId, comments
+    );
+    await this.notify(submitted, customer, "submit", await this.getStepApprovers(chain[0], customer), userId, comments, chain[0]);
+    return submitted;
+  }
+
+  private static async transition(
+    contract: Contract,
+    action: ContractApprovalAction,
+    toStatus: ContractStatus,
+    updates: Partial<Contract>,
+    performedBy: string | null,
+    comments: string | null,
+    step?: number,
+    stepName?: string,
+  ): Promise<Contract> {
+    const updated = await storage.updateContract(contract.id, {
+      ...updates,
+      status: toStatus,
+      ...(performedBy ? { updatedBy: performedBy } : {}),
+    });
+    if (!updated) {
+      throw new ContractApprovalError("Contract not found", 404);
+    }
+
+    await storage.createContractApprovalHistory({
+      contractId: contract.id,
+      action,
+      step: step ?? null,
+      stepName: stepName ?? null,
+      fromStatus: contract.status,
+      toStatus,
+      comments,
+      performedBy,
+    });
+
+    await AuditService.logEntityChange({
+      entityType: "contract",
+      entityId: contract.id,
+      customerId: contract.customerId,
+      action,
+      description: `Contract ${contract.contractNumber} ${CONTRACT_APPROVAL_ACTION_LABELS[action].toLowerCase()}${stepName ? ` (${stepName})` : ""}${comments ? `: ${comments}` : ""}`,
+      performedBy,
+      oldValues: contract,
+      newValues: { status: toStatus },
+    });
+    return updated;
+  }
+
+  private static async updateRevision(revision: ContractRevision, updates: Partial<Pick<ContractRevision, "status" | "approvalStep">>): Promise<ContractRevision> {
+    const updated = await storage.updateContractRevision(revision.id, updates);
+    if (!updated) {
+      throw new ContractApprovalError("Amendment not found", 404);
+    }
+    return updated;
+  }
+
+  private static async recordAmendmentAction(
+    contract: Contract,
+    revision: ContractRevision,
+    action: "submit" | "approve" | "reject",
+    toStatus: string,
+    performedBy: string,
+    comments: string | null,
+    step?: number,
+    stepName?: string,
+  ): Promise<void> {
+    await storage.createContractApprovalHistory({
+      contractId: contract.id,
+      action,
+      revisionNumber: revision.revisionNumber,
+      step: step ?? null,
+      stepName: stepName ?? null,
+      fromStatus: revision.status,
+      toStatus,
+      comments,
+      performedBy,
+    });
+
+    await AuditService.logEntityChange({
+      entityType: "contract",
+      entityId: contract.id,
+      customerId: contract.customerId,
+      action,
+      description: `Contract ${contract.contractNumber} revision ${revision.revisionNumber} ${CONTRACT_APPROVAL_ACTION_LABELS[action].toLowerCase()}${stepName ? ` (${stepName})` : ""}${comments ? `: ${comments}` : ""}`,
+      performedBy,
+      oldValues: { revisionStatus: revision.status },
+      newValues: { revisionStatus: toStatus },
+    });
+  }
+
+  // Chains edited while a contract or amendment is in review are clamped, so a removed step counts as the last one
+  private static getCurrentStep(approvalStep: number | null, chain: ContractApprovalStep[]): number {
+    return Math.min(Math.max(approvalStep ?? 1, 1), chain.length);
+  }
+
+  private static getProgress(chain: ContractApprovalStep[], approved: boolean, currentStep: number | null): ContractApprovalProgress {
+    return chain.map((step, index) => ({
+      ...step,
+      step: index + 1,
+      state: approved || (currentStep !== null && index + 1 < currentStep)
+        ? "approved"
+        : currentStep === index + 1 ? "pending" : "waiting",
+    }));
+  }
+
+  private static hasPermission(user: ApprovalActor, level: "write" | "manage"): boolean {
+    const { section } = API_PERMISSIONS.contracts;
+    return checkUserPermission(user.rolePermissions || [], user.isSystemAdmin, section, undefined, level);
+  }
+
+  private static getRoleName(user: { role?: string | null; roleId?: number | null }, roles: Role[]): string | null {
+    if (user.roleId) {
+      const role = roles.find(r => r.id === user.roleId);
+      return role?.isActive ? role.name : null;
+    }
+    return user.role ?? null;
+  }
+
+  // System admins may sign off any step; everyone else needs the step's role and the customer in their data scope.
+  // Port admins often have no portId of their own, so the scope is what places them in a port.
+  private static isStepApprover(user: ApprovalActor, step: ContractApprovalStep, customer: Customer, roles: Role[]): boolean {
+    if (user.isSystemAdmin) return true;
+    return isCustomerInScope(customer, user.dataScope) && this.getRoleName(user, roles) === step.roleName;
+  }
+
+  private static async getStepApprovers(step: ContractApprovalStep, customer: Customer): Promise<User[]> {
+    const [users, roles] = await Promise.all([storage.getAllUsers(), storage.getAllRoles()]);
+    const active = users.filter(user => user.isActive && user.userType !== "Customer");
+    const approvers: User[] = [];
+    for (const user of active.filter(user => !isSystemAdminUser(user))) {
+      if (this.isStepApprover({ ...user, isSystemAdmin: false, dataScope: await storage.getUserDataScope(user) }, step, customer, roles)) {
+        approvers.push(user);
+      }
+    }
+    if (approvers.length > 0) return approvers;
+
+    // Nobody holds the role in this port; system admins are the only ones who can move the contract on
+    return active.filter(isSystemAdminUser);
+  }
+
+  // The contract's creator and whoever submitted it, or made the amendment
+  private static async getSubmitters(contract: Contract, amendment?: ContractRevision): Promise<User[]> {
+    const submittedBy = amendment ? amendment.createdBy : contract.submittedBy;
+    const ids = Array.from(new Set([contract.createdBy, submittedBy].filter((id): id is string => !!id)));
+    const users = await Promise.all(ids.map(id => storage.getUser(id)));
+    return users.filter((user): user is User => !!user && user.isActive);
+  }
+
+  private static async notify(
+    contract: Contract,
+    customer: Customer,
+    kind: "submit" | "approve" | "reject" | "terminate",
+    recipients: User[],
+    performedBy: string,
+    comments: string | null,
+    step?: ContractApprovalStep,
+    amendment?: ContractRevision,
+  ) {
+    try {
+      const subjectOf = amendment ? `Contract ${contract.contractNumber} Amendment` : `Contract ${contract.contractNumber}`;
+      const subject = {
+        submit: `${subjectOf} Awaiting Approval`,
+        approve: `${subjectOf} Approved`,
+        reject: `${subjectOf} Rejected`,
+        terminate: `${subjectOf} Terminated`,
+      }[kind];
+      const subjectText = amendment
+        ? `Revision ${amendment.revisionNumber} of contract ${contract.contractNumber} for "${customer.customerName}" (${customer.customerCode})`
+        : `Contract ${contract.contractNumber} for "${customer.customerName}" (${customer.customerCode})`;
+      const outcome = !amendment
+        ? `is now ${contract.status}`
+        : amendment.status === "Scheduled"
+          ? `has been approved and takes effect on ${amendment.effectiveDate.toISOString().slice(0, 10)}`
+          : amendment.status === "Applied" ? "has been approved and is now in effect" : "has been rejected";
+      const message = (kind === "submit"
+        ? `${subjectText} is awaiting your approval${step ? ` (${step.name})` : ""}.`
+        : `${subjectText} ${outcome}.`)
+        + (comments ? ` Comments: ${comments}` : "");
+      const contractPath = `/customers/${customer.id}/contracts/${contract.id}`;
+
+      await Promise.all(recipients.filter(user => user.id !== performedBy).map(async user => {
+        await storage.createNotification({
+          userId: user.id,
+          type: kind === "submit" ? "contract_approval_request" : "contract_status_changed",
+          title: subject,
+          message,
+          data: JSON.stringify({
+            contractId: contract.id,
+            contractNumber: contract.contractNumber,
+            customerId: customer.id,
+            status: contract.status,
+            approvalStep: amendment ? amendment.approvalStep : contract.approvalStep,
+            revisionNumber: amendment?.revisionNumber ?? null,
+            comments,
+            performedBy,
+          }),
+        });
+        await emailService.sendPortNotificationEmail(customer.portId, user.email, `PortRay - ${subject}`, subject, message, contractPath, user.id);
+      }));
+    } catch (error) {
+      console.error("Failed to send contract approval notification:", error);
+      // Don't fail the approval action if notification fails
+    }
+  }
+
+  private static async getCustomer(contract: Contract): Promise<Customer> {
+    const customer = await storage.getCustomerById(contract.customerId);
+    if (!customer) {
+      throw new ContractApprovalError("Customer not found", 404);
+    }
+    return customer;
+  }
+}
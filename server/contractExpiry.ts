@@ -0,0 +1,211 @@
+import { storage, isCustomerInScope, type DataScope } from "./storage";
+import { emailService } from "./emailService";
+import { AuditService } from "./auditService";
+import { CustomerCreditService } from "./customerCredit";
+import { checkUserPermission, API_PERMISSIONS } from "./middleware/permissions";
+import { isContractApproved } from "@shared/contractApproval";
+import {
+  getContractExpiryReminderDays,
+  getContractRenewalPeriod,
+  getDaysUntilExpiry,
+  getDueExpiryReminder,
+  getRenewalContractNumber,
+} from "@shared/contractExpiry";
+import type { Contract, ContractRenewal, Customer, User } from "@shared/schema";
+
+// Renewal refused; statusCode is the HTTP status to respond with
+export class ContractExpiryError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First check shortly after startup, then once a day
+const REMINDER_CHECK_DELAY_MS = 60 * 1000;
+
+let reminderMonitorStarted = false;
+
+// Staff who may be reminded about contracts, read once per run
+interface CommercialStaff {
+  commercial: { user: User; scope: DataScope | undefined }[];
+  systemAdmins: User[];
+}
+
+const isSystemAdminUser = (user: User) =>
+  user.isSystemAdmin || user.role === "SystemAdmin" || user.userType === "SuperAdmin";
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export class ContractExpiryService {
+  // Reminds about approved contracts entering one of their port's expiry windows, once per window.
+  // Contracts that already have a renewal are left alone. Returns the number of reminders sent.
+  static async notifyExpiringContracts(now: Date = new Date()): Promise<number> {
+    const allContracts = await storage.getAllContracts();
+    const renewed = new Set(allContracts
+      .filter(contract => contract.renewedFromContractId && contract.status !== "Terminated")
+      .map(contract => contract.renewedFromContractId));
+    const contracts = allContracts.filter(contract => ["Approved", "Active"].includes(contract.status) && !renewed.has(contract.id));
+    if (contracts.length === 0) return 0;
+
+    const staff = await this.getCommercialStaff();
+    const reminderDaysByPort = new Map<number, number[]>();
+
+    let sent = 0;
+    for (const contract of contracts) {
+      try {
+        const daysLeft = getDaysUntilExpiry(contract.validTo, now);
+        if (daysLeft < 0) continue;
+
+        const customer = await storage.getCustomerById(contract.customerId);
+        if (!customer) continue;
+        if (!reminderDaysByPort.has(customer.portId)) {
+          const port = await storage.getPortById(customer.portId);
+          reminderDaysByPort.set(customer.portId, getContractExpiryReminderDays(port?.contractExpiryReminderDays));
+        }
+
+        const window = getDueExpiryReminder(daysLeft, reminderDaysByPort.get(customer.portId)!);
+        if (window === null || (contract.expiryReminderDays !== null && contract.expiryReminderDays <= window)) continue;
+
+        await this.remind(contract, customer, daysLeft, this.getCommercialUsers(customer, staff));
+        await storage.updateContract(contract.id, { expiryReminderDays: window });
+        sent++;
+      } catch (error) {
+        // One contract's failure must not hold up the others; it is retried on the next run
+        console.error(`Failed to send expiry reminder for contract ${contract.id}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  static startReminderMonitor(): void {
+    if (reminderMonitorStarted) return;
+    reminderMonitorStarted = true;
+
+    const run = async () => {
+      try {
+        const sent = await this.notifyExpiringContracts();
+        if (sent > 0) {
+          console.log(`Contract expiry check: sent ${sent} reminder(s)`);
+        }
+      } catch (error) {
+        console.error("Contract expiry check failed:", error);
+      }
+    };
+
+    setTimeout(run, REMINDER_CHECK_DELAY_MS);
+    setInterval(run, DAY_MS);
+  }
+
+  // Clones the contract into a new draft that follows on from it; the draft goes through approval like any new contract
+  static async renew(contract: Contract, request: ContractRenewal, userId: string): Promise<Contract> {
+    if (!isContractApproved(contract.status)) {
+      throw new ContractExpiryError(`Only approved, active or expired contracts can be renewed; this contract is ${contract.status}`, 409);
+    }
+
+    const customer = await storage.getCustomerById(contract.customerId);
+    if (!customer) {
+      throw new ContractExpiryError("Customer not found", 404);
+    }
+    CustomerCreditService.assertCanCreateContract(customer);
+
+    const existing = (await storage.getContractsByCustomerId(contract.customerId))
+      .find(other => other.renewedFromContractId === contract.id && other.status !== "Terminated");
+    if (existing) {
+      throw new ContractExpiryError(`Contract ${contract.contractNumber} has already been renewed as ${existing.contractNumber}`, 409);
+    }
+
+    const period = getContractRenewalPeriod(contract.validFrom, contract.validTo);
+    const validFrom = request.validFrom ?? period.validFrom;
+    const validTo = request.validTo ?? period.validTo;
+    if (validTo.getTime() <= validFrom.getTime()) {
+      throw new ContractExpiryError("The renewal must end after it starts");
+    }
+
+    const takenNumbers = (await storage.getAllContracts()).map(other => other.contractNumber);
+    const contractNumber = request.contractNumber ?? getRenewalContractNumber(contract.contractNumber, takenNumbers);
+    if (takenNumbers.includes(contractNumber)) {
+      throw new ContractExpiryError(`Contract number ${contractNumber} is already in use`, 409);
+    }
+
+    const renewal = await storage.renewContract(contract.id, { contractNumber, validFrom, validTo }, userId);
+    await AuditService.logEntityChange({
+      entityType: "contract",
+      entityId: renewal.id,
+      customerId: renewal.customerId,
+      action: "created",
+      description: `Contract ${renewal.contractNumber} created as a renewal of ${contract.contractNumber}, valid ${formatDate(validFrom)} to ${formatDate(validTo)}`,
+      performedBy: userId,
+    });
+    await AuditService.logEntityChange({
+      entityType: "contract",
+      entityId: contract.id,
+      customerId: contract.customerId,
+      action: "renewed",
+      description: `Contract ${contract.contractNumber} renewed as ${renewal.contractNumber}`,
+      performedBy: userId,
+      newValues: { renewalContractId: renewal.id },
+    });
+    return renewal;
+  }
+
+  // Active staff whose role manages contracts, with their data scopes, and the system admins to fall back on
+  private static async getCommercialStaff(): Promise<CommercialStaff> {
+    const [users, roles] = await Promise.all([storage.getAllUsers(), storage.getAllRoles()]);
+    const { section } = API_PERMISSIONS.contracts;
+    const staff = users.filter(user => user.isActive && user.userType !== "Customer");
+    const commercial = staff.filter(user => {
+      if (isSystemAdminUser(user)) return false;
+      const role = roles.find(r => user.roleId ? r.id === user.roleId : r.name === user.role);
+      return !!role?.isActive && checkUserPermission(role.permissions || [], false, section, undefined, "write");
+    });
+    return {
+      commercial: await Promise.all(commercial.map(async user => ({ user, scope: await storage.getUserDataScope(user) }))),
+      systemAdmins: staff.filter(isSystemAdminUser),
+    };
+  }
+
+  // Commercial staff whose data scope covers the customer. Where nobody's does, system admins are reminded instead.
+  private static getCommercialUsers(customer: Customer, staff: CommercialStaff): User[] {
+    const covering = staff.commercial.filter(({ scope }) => isCustomerInScope(customer, scope)).map(({ user }) => user);
+    return covering.length > 0 ? covering : staff.systemAdmins;
+  }
+
+  // In-app notifications for the commercial users, and an email to the customer's primary contact
+  // through the port's SMTP configuration
+  private static async remind(contract: Contract, customer: Customer, daysLeft: number, recipients: User[]) {
+    const expiry = daysLeft === 0 ? "today" : `in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+    const subject = `Contract ${contract.contractNumber} Expires ${daysLeft === 0 ? "Today" : `in ${daysLeft} Day${daysLeft === 1 ? "" : "s"}`}`;
+    const contractPath = `/customers/${customer.id}/contracts/${contract.id}`;
+
+    await Promise.all(recipients.map(user =>
+      storage.createNotification({
+        userId: user.id,
+        type: "contract_expiring",
+        title: subject,
+        message: `Contract ${contract.contractNumber} of "${customer.customerName}" (${customer.customerCode}) expires ${expiry}, on ${formatDate(contract.validTo)}. Renew it from the contract page.`,
+        data: JSON.stringify({
+          contractId: contract.id,
+          contractNumber: contract.contractNumber,
+          customerId: customer.id,
+          validTo: contract.validTo,
+          daysLeft,
+          renewPath: contractPath,
+        }),
+      })
+    ));
+
+    const primaryContact = (await storage.getCustomerContactsByCustomerId(customer.id)).find(contact => contact.isPrimaryContact);
+    if (primaryContact) {
+      await emailService.sendPortNotificationEmail(
+        customer.portId,
+        primaryContact.email,
+        `PortRay - ${subject}`,
+        subject,
+        `Dear ${primaryContact.contactName}, your contract ${contract.contractNumber} with us expires ${expiry}, on ${formatDate(contract.validTo)}. Please contact us to renew it.`,
+        "/customer-portal",
+      );
+    }
+  }
+}
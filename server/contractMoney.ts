@@ -0,0 +1,15 @@
+import { storage } from "./storage";
+import type { Contract } from "@shared/schema";
+
+export class ContractMoneyService {
+  // Amounts on a contract are in its customer's terminal currency unless a row names another
+  static async getDefaultCurrency(contract: Contract): Promise<string> {
+    const customer = await storage.getCustomerById(contract.customerId);
+    const terminal = customer ? await storage.getTerminalById(customer.terminalId) : undefined;
+    return terminal?.currency || "INR";
+  }
+
+  static withDefaultCurrency<T extends { currency?: string }>(rows: T[], currency: string): (T & { currency: string })[] {
+    return rows.map(row => ({ ...row, currency: row.currency || currency }));
+  }
+}
@@ -0,0 +1,244 @@
+import { storage } from "./storage";
+import { AuditService } from "./auditService";
+import { ContractApprovalService } from "./contractApproval";
+import { ContractMoneyService } from "./contractMoney";
+import { isContractApproved } from "@shared/contractApproval";
+import {
+  CONTRACT_REVISION_SECTION_LABELS,
+  buildContractRevisionSnapshot,
+  diffContractRevisions,
+  type ContractRevisionChange,
+  type ContractRevisionSnapshot,
+  type ContractRevisionStatus,
+} from "@shared/contractRevisions";
+import type { Contract, ContractAmendment, ContractRevision } from "@shared/schema";
+
+// One revision of a contract's terms, as returned by GET /api/contracts/:id/revisions
+export interface ContractRevisionView {
+  revisionNumber: number;
+  effectiveDate: Date;
+  status: ContractRevisionStatus;
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  isCurrent: boolean;
+  snapshot: ContractRevisionSnapshot;
+}
+
+// Amendment or revision request refused; statusCode is the HTTP status to respond with
+export class ContractRevisionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First check shortly after startup, then once a day
+const AMENDMENT_CHECK_DELAY_MS = 60 * 1000;
+
+let amendmentMonitorStarted = false;
+
+const formatDate = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+const toView = (revision: ContractRevision, contract: Contract): ContractRevisionView => ({
+  revisionNumber: revision.revisionNumber,
+  effectiveDate: revision.effectiveDate,
+  status: revision.status as ContractRevisionStatus,
+  reason: revision.reason,
+  createdBy: revision.createdBy,
+  createdAt: revision.createdAt,
+  isCurrent: revision.revisionNumber === contract.currentRevision,
+  snapshot: JSON.parse(revision.snapshot),
+});
+
+export class ContractRevisionService {
+  // Oldest first. A contract that was never amended has only its original terms, read from the live rows.
+  static async getRevisions(contract: Contract): Promise<ContractRevisionView[]> {
+    const revisions = await storage.getContractRevisions(contract.id);
+    if (revisions.length > 0) {
+      return revisions.map(revision => toView(revision, contract));
+    }
+
+    return [{
+      revisionNumber: contract.currentRevision,
+      effectiveDate: contract.validFrom,
+      status: "Applied",
+      reason: null,
+      createdBy: contract.createdBy,
+      createdAt: contract.createdAt,
+      isCurrent: true,
+      snapshot: await this.getCurrentSnapshot(contract),
+    }];
+  }
+
+  static async compare(contract: Contract, fromRevision: number, toRevision: number): Promise<ContractRevisionChange[]> {
+    const revisions = await this.getRevisions(contract);
+    const from = revisions.find(revision => revision.revisionNumber === fromRevision);
+    const to = revisions.find(revision => revision.revisionNumber === toRevision);
+    if (!from || !to) {
+      throw new ContractRevisionError("Revision not found", 404);
+    }
+    return diffContractRevisions(from.snapshot, to.snapshot);
+  }
+
+  // Amendments change approved contracts; drafts are edited directly. The amendment waits for the port's approval chain
+  // while the contract keeps its status and current terms, then takes effect on its effective date.
+  static async amend(contract: Contract, data: ContractAmendment, userId: string): Promise<{ contract: Contract; revision: ContractRevisionView }> {
+    if (contract.status === "Terminated") {
+      throw new ContractRevisionError(`Contract ${contract.contractNumber} has been terminated and cannot be amended`, 409);
+    }
+    if (contract.status === "Draft") {
+      throw new ContractRevisionError(`Contract ${contract.contractNumber} is a draft. Change its terms directly instead.`, 409);
+    }
+    if (!isContractApproved(contract.status)) {
+      throw new ContractRevisionError(`Contract ${contract.contractNumber} is awaiting approval. Amend it once it is approved.`, 409);
+    }
+    const validFrom = data.validFrom ?? contract.validFrom;
+    const validTo = data.validTo ?? contract.validTo;
+    if (validTo.getTime() <= validFrom.getTime()) {
+      throw new ContractRevisionError("Valid To must be after Valid From");
+    }
+    if (data.effectiveDate.getTime() > validTo.getTime()) {
+      throw new ContractRevisionError("An amendment cannot take effect after the contract ends");
+    }
+
+    // Revisions apply in order, one at a time; an amendment cannot take effect before the terms it replaces
+    const revisions = await this.getRevisions(contract);
+    this.assertNoWaitingRevision(contract, revisions);
+    const current = revisions.find(revision => revision.isCurrent) ?? revisions[revisions.length - 1];
+    if (data.effectiveDate.getTime() < new Date(current.effectiveDate).getTime()) {
+      throw new ContractRevisionError(
+        `The effective date must be on or after ${formatDate(current.effectiveDate)}, when revision ${current.revisionNumber} took effect`
+      );
+    }
+    this.assertRowIds(contract, await this.getCurrentSnapshot(contract), data);
+
+    // New rows without a currency are in the terminal's currency
+    const currency = await ContractMoneyService.getDefaultCurrency(contract);
+    const revision = await storage.amendContract(contract.id, {
+      ...data,
+      tariffs: data.tariffs && ContractMoneyService.withDefaultCurrency(data.tariffs, currency),
+      storageCharges: data.storageCharges && ContractMoneyService.withDefaultCurrency(data.storageCharges, currency),
+      specialConditions: data.specialConditions && ContractMoneyService.withDefaultCurrency(data.specialConditions, currency),
+    }, userId);
+    if (!revision) {
+      // Another amendment was recorded meanwhile
+      this.assertNoWaitingRevision(contract, await this.getRevisions(contract));
+      throw new ContractRevisionError(`Contract ${contract.contractNumber} was amended meanwhile. Review its revisions and try again.`, 409);
+    }
+
+    await AuditService.logEntityChange({
+      entityType: "contract",
+      entityId: contract.id,
+      customerId: contract.customerId,
+      action: "amended",
+      description: `Contract ${contract.contractNumber} amended as revision ${revision.revisionNumber}, taking effect on ${formatDate(data.effectiveDate)} once approved: ${data.reason}`,
+      performedBy: userId,
+      oldValues: contract,
+      newValues: { validFrom, validTo, contractCopyUrl: data.contractCopyUrl !== undefined ? data.contractCopyUrl : contract.contractCopyUrl },
+    });
+
+    await ContractApprovalService.submitAmendment(contract, revision, userId);
+    return { contract, revision: toView(revision, contract) };
+  }
+
+  private static assertNoWaitingRevision(contract: Contract, revisions: ContractRevisionView[]): void {
+    const waiting = revisions.find(revision => revision.status === "Pending" || revision.status === "Scheduled");
+    if (waiting) {
+      throw new ContractRevisionError(
+        waiting.status === "Pending"
+          ? `Revision ${waiting.revisionNumber} of contract ${contract.contractNumber} is awaiting approval. Amend the contract again once it has been approved or rejected.`
+          : `Revision ${waiting.revisionNumber} of contract ${contract.contractNumber} takes effect on ${formatDate(waiting.effectiveDate)}. Amend the contract again once it has.`,
+        409
+      );
+    }
+  }
+
+  // Applies scheduled amendments whose effective date has come. Returns the number applied.
+  static async applyDueAmendments(now: Date = new Date()): Promise<number> {
+    let applied = 0;
+    for (const due of await storage.getDueContractRevisions(now)) {
+      try {
+        const { contract, revision } = await storage.applyContractRevision(due.contractId, due.revisionNumber, null);
+        // New validity dates can make the contract Active again, or let it expire
+        await ContractApprovalService.syncValidityStatus(contract, now);
+        await AuditService.logEntityChange({
+          entityType: "contract",
+          entityId: contract.id,
+          customerId: contract.customerId,
+          action: "amended",
+          description: `Contract ${contract.contractNumber} revision ${revision.revisionNumber} took effect: ${revision.reason}`,
+          performedBy: null,
+          newValues: { validFrom: contract.validFrom, validTo: contract.validTo, contractCopyUrl: contract.contractCopyUrl },
+        });
+        applied++;
+      } catch (error) {
+        console.error(`Failed to apply revision ${due.revisionNumber} of contract ${due.contractId}:`, error);
+      }
+    }
+    return applied;
+  }
+
+  static startAmendmentMonitor(): void {
+    if (amendmentMonitorStarted) return;
+    amendmentMonitorStarted = true;
+
+    const run = async () => {
+      try {
+        const applied = await this.applyDueAmendments();
+        if (applied > 0) {
+          console.log(`Contract amendment check: applied ${applied} scheduled amendment(s)`);
+        }
+      } catch (error) {
+        console.error("Contract amendment check failed:", error);
+      }
+    };
+
+    setTimeout(run, AMENDMENT_CHECK_DELAY_MS);
+    setInterval(run, DAY_MS);
+  }
+
+  // Tariff, cargo, storage and condition rows can be changed directly only on a draft. Once submitted, every change
+  // goes through an amendment, so the recorded revisions and approvals stay accurate.
+  static assertEditable(contract: Contract): void {
+    if (contract.status !== "Draft") {
+      throw new ContractRevisionError(
+        `Contract ${contract.contractNumber} is ${contract.status}. Change its terms with a new amendment instead.`,
+        409
+      );
+    }
+  }
+
+  // Amended rows must name rows of the contract as it stands, each at most once
+  private static assertRowIds(contract: Contract, current: ContractRevisionSnapshot, data: ContractAmendment): void {
+    for (const section of ["tariffs", "cargoDetails", "storageCharges", "specialConditions"] as const) {
+      const ids = (data[section] ?? []).map(row => row.id).filter((id): id is number => id !== undefined);
+      for (const id of ids) {
+        if (!current[section].some(row => row.id === id)) {
+          throw new ContractRevisionError(`${CONTRACT_REVISION_SECTION_LABELS[section]}: row ${id} is not part of contract ${contract.contractNumber}`);
+        }
+      }
+      if (new Set(ids).size !== ids.length) {
+        throw new ContractRevisionError(`${CONTRACT_REVISION_SECTION_LABELS[section]}: a row can only be amended once`);
+      }
+    }
+  }
+
+  private static async getCurrentSnapshot(contract: Contract): Promise<ContractRevisionSnapshot> {
+    const [tariffs, cargoDetails, storageCharges, specialConditions] = await Promise.all([
+      storage.getContractTariffsByContractId(contract.id),
+      storage.getContractCargoDetailsByContractId(contract.id),
+      storage.getContractStorageChargesByContractId(contract.id),
+      storage.getContractSpecialConditionsByContractId(contract.id),
+    ]);
+    const byId = <T extends { id: number }>(rows: T[]) => [...rows].sort((a, b) => a.id - b.id);
+    return buildContractRevisionSnapshot({
+      contract,
+      tariffs: byId(tariffs),
+      cargoDetails: byId(cargoDetails),
+      storageCharges: byId(storageCharges),
+      specialConditions: byId(specialConditions),
+    });
+  }
+}
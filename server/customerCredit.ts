@@ -0,0 +1,128 @@
+import { storage } from "./storage";
+import { AuditService } from "./auditService";
+import type { Customer, CustomerCreditUpdate } from "@shared/schema";
+
+// Credit position of a customer, as returned by GET /api/customers/:id/credit-status
+export interface CustomerCreditStatus {
+  customerId: number;
+  customerCode: string;
+  customerName: string;
+  creditLimit: number | null;
+  currency: string;
+  paymentTermsDays: number;
+  onHold: boolean;
+  holdReason: string | null;
+  heldAt: Date | null;
+  heldBy: string | null;
+  // False while the customer is on credit hold; callers must not start new business for them
+  canTransact: boolean;
+}
+
+// Operation refused because of the customer's credit position; statusCode is the HTTP status to respond with
+export class CustomerCreditError extends Error {
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+  }
+}
+
+export class CustomerCreditService {
+  static getStatus(customer: Customer): CustomerCreditStatus {
+    return {
+      customerId: customer.id,
+      customerCode: customer.customerCode,
+      customerName: customer.customerName,
+      creditLimit: customer.creditLimit === null ? null : Number(customer.creditLimit),
+      currency: customer.creditCurrency,
+      paymentTermsDays: customer.paymentTermsDays,
+      onHold: customer.creditHold,
+      holdReason: customer.creditHold ? customer.creditHoldReason : null,
+      heldAt: customer.creditHold ? customer.creditHoldAt : null,
+      heldBy: customer.creditHold ? customer.creditHoldBy : null,
+      canTransact: !customer.creditHold,
+    };
+  }
+
+  static async updateCredit(customer: Customer, data: CustomerCreditUpdate, userId: string): Promise<Customer> {
+    const placedOnHold = data.creditHold && !customer.creditHold;
+    const released = !data.creditHold && customer.creditHold;
+
+    const updated = await storage.updateCustomer(customer.id, {
+      creditLimit: data.creditLimit === null ? null : data.creditLimit.toFixed(2),
+      creditCurrency: data.creditCurrency,
+      paymentTermsDays: data.paymentTermsDays,
+      creditHold: data.creditHold,
+      creditHoldReason: data.creditHold ? data.creditHoldReason || null : null,
+      // The hold keeps the time and user that first placed it, even when its reason is edited
+      creditHoldAt: data.creditHold ? (placedOnHold ? new Date() : customer.creditHoldAt) : null,
+      creditHoldBy: data.creditHold ? (placedOnHold ? userId : customer.creditHoldBy) : null,
+      updatedBy: userId,
+    });
+    if (!updated) {
+      throw new CustomerCreditError("Customer not found", 404);
+    }
+
+    await AuditService.logEntityChange({
+      entityType: "customer",
+      entityId: customer.id,
+      customerId: customer.id,
+      action: placedOnHold ? "credit_hold" : released ? "credit_released" : "updated",
+      description: placedOnHold
+        ? `Put on credit hold: ${updated.creditHoldReason}`
+        : released ? "Released from credit hold" : "Credit terms updated",
+      performedBy: userId,
+      oldValues: customer,
+      newValues: {
+        creditLimit: updated.creditLimit,
+        creditCurrency: updated.creditCurrency,
+        paymentTermsDays: updated.paymentTermsDays,
+        creditHold: updated.creditHold,
+        creditHoldReason: updated.creditHoldReason,
+      },
+    });
+
+    if (placedOnHold || released) {
+      await this.notify(updated, placedOnHold, userId);
+    }
+    return updated;
+  }
+
+  static assertCanCreateContract(customer: Customer): void {
+    if (customer.creditHold) {
+      throw new CustomerCreditError(
+        `Customer "${customer.customerName}" is on credit hold${customer.creditHoldReason ? `: ${customer.creditHoldReason}` : ""}. New contracts cannot be created until the hold is released.`
+      );
+    }
+  }
+
+  // Holds and releases go to the active users of the customer's terminal
+  private static async notify(customer: Customer, placedOnHold: boolean, performedBy: string) {
+    try {
+      const recipients = (await storage.getUsersByTerminalId(customer.terminalId))
+        .filter(user => user.isActive && user.id !== performedBy);
+
+      const message = placedOnHold
+        ? `Customer "${customer.customerName}" (${customer.customerCode}) has been put on credit hold. Reason: ${customer.creditHoldReason}`
+        : `Customer "${customer.customerName}" (${customer.customerCode}) has been released from credit hold.`;
+
+      await Promise.all(recipients.map(user =>
+        storage.createNotification({
+          userId: user.id,
+          type: placedOnHold ? "customer_credit_hold" : "customer_credit_released",
+          title: placedOnHold ? "Customer on Credit Hold" : "Customer Credit Hold Released",
+          message,
+          data: JSON.stringify({
+            customerId: customer.id,
+            customerCode: customer.customerCode,
+            terminalId: customer.terminalId,
+            creditHold: customer.creditHold,
+            reason: customer.creditHoldReason,
+            performedBy,
+          }),
+        })
+      ));
+    } catch (error) {
+      console.error("Failed to create customer credit notification:", error);
+      // Don't fail the credit update if notification fails
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { storage, isCustomerInScope } from "./storage";
+import { AuditService } from "./auditService";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { ObjectAccessGroupType, ObjectPermission } from "./objectAcl";
+import { DOCUMENT_EXPIRY_WARNING_DAYS } from "@shared/customerDocuments";
+import type { File } from "@google-cloud/storage";
+import type {
+  Customer,
+  CustomerDocument,
+  CustomerDocumentVerification,
+  InsertCustomerDocument,
+  UpdateCustomerDocument,
+  User,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First check shortly after startup, then once a day
+const EXPIRY_CHECK_DELAY_MS = 60 * 1000;
+
+// Document operation refused; statusCode is the HTTP status to respond with
+export class CustomerDocumentError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+let expiryMonitorStarted = false;
+
+export class CustomerDocumentService {
+  // Registers an uploaded file as a customer document and restricts reading it to the customer's port
+  static async create(customer: Customer, data: InsertCustomerDocument): Promise<CustomerDocument> {
+    if (!process.env.PRIVATE_OBJECT_DIR) {
+      throw new CustomerDocumentError("Documents cannot be stored: private object storage is not configured", 503);
+    }
+    const objectStorageService = new ObjectStorageService();
+    const objectPath = objectStorageService.normalizeObjectEntityPath(data.fileUrl);
+    if (!objectPath.startsWith("/objects/")) {
+      throw new CustomerDocumentError("Documents must be uploaded to private object storage");
+    }
+
+    try {
+      await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+        owner: data.uploadedBy,
+        visibility: "private",
+        aclRules: [{
+          group: { type: ObjectAccessGroupType.PORT_MEMBER, id: String(customer.portId) },
+          permission: ObjectPermission.READ,
+        }],
+      });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new CustomerDocumentError("Uploaded file not found. Please upload the document again.");
+      }
+      throw error;
+    }
+
+    const document = await storage.createCustomerDocument({ ...data, customerId: customer.id, fileUrl: objectPath });
+    await AuditService.logEntityChange({
+      entityType: "customer_document",
+      entityId: document.id,
+      customerId: customer.id,
+      action: "created",
+      description: `Uploaded ${document.documentType} "${document.fileName}"`,
+      performedBy: data.uploadedBy,
+    });
+    return document;
+  }
+
+  static async update(document: CustomerDocument, data: UpdateCustomerDocument, userId: string): Promise<CustomerDocument> {
+    const expiryChanged = data.expiryDate !== undefined
+      && (data.expiryDate?.getTime() ?? null) !== (document.expiryDate?.getTime() ?? null);
+
+    const updated = await storage.updateCustomerDocument(document.id, {
+      ...data,
+      // A new expiry date gets its own warning
+      ...(expiryChanged ? { expiryNotifiedAt: null } : {}),
+    });
+    if (!updated) {
+      throw new CustomerDocumentError("Document not found", 404);
+    }
+
+    await AuditService.logEntityChange({
+      entityType: "customer_document",
+      entityId: document.id,
+      customerId: document.customerId,
+      action: "updated",
+      description: `Updated ${updated.documentType} "${updated.fileName}"`,
+      performedBy: userId,
+      oldValues: document,
+      newValues: data,
+    });
+    return updated;
+  }
+
+  static async verify(document: CustomerDocument, data: CustomerDocumentVerification, userId: string): Promise<CustomerDocument> {
+    const updated = await storage.updateCustomerDocument(document.id, {
+      verificationStatus: data.verificationStatus,
+      verificationNotes: data.verificationNotes || null,
+      verifiedBy: userId,
+      verifiedAt: new Date(),
+    });
+    if (!updated) {
+      throw new CustomerDocumentError("Document not found", 404);
+    }
+
+    await AuditService.logEntityChange({
+      entityType: "customer_document",
+      entityId: document.id,
+      customerId: document.customerId,
+      action: data.verificationStatus === "Verified" ? "verified" : data.verificationStatus === "Rejected" ? "rejected" : "updated",
+      description: `${updated.documentType} "${updated.fileName}" marked ${data.verificationStatus}${data.verificationNotes ? `: ${data.verificationNotes}` : ""}`,
+      performedBy: userId,
+      oldValues: document,
+      newValues: { verificationStatus: updated.verificationStatus, verificationNotes: updated.verificationNotes },
+    });
+    return updated;
+  }
+
+  static async delete(document: CustomerDocument, userId: string): Promise<void> {
+    await storage.deleteCustomerDocument(document.id);
+    await AuditService.logEntityChange({
+      entityType: "customer_document",
+      entityId: document.id,
+      customerId: document.customerId,
+      action: "deleted",
+      description: `Deleted ${document.documentType} "${document.fileName}"`,
+      performedBy: userId,
+    });
+    try {
+      const objectFile = await new ObjectStorageService().getObjectEntityFile(document.fileUrl);
+      await objectFile.delete();
+    } catch (error) {
+      // The record is gone; an orphaned object is unreachable without it
+      console.error(`Failed to delete object for customer document ${document.id}:`, error);
+    }
+  }
+
+  // The stored file, once the object's ACL policy confirms the user may read it
+  static async getFile(document: CustomerDocument, userId: string): Promise<File> {
+    const objectStorageService = new ObjectStorageService();
+    let objectFile: File;
+    try {
+      objectFile = await objectStorageService.getObjectEntityFile(document.fileUrl);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new CustomerDocumentError("Document file not found", 404);
+      }
+      throw error;
+    }
+
+    const canAccess = await objectStorageService.canAccessObjectEntity({
+      userId,
+      objectFile,
+      requestedPermission: ObjectPermission.READ,
+    });
+    if (!canAccess) {
+      throw new CustomerDocumentError("Access denied", 403);
+    }
+    return objectFile;
+  }
+
+  // Notifies the port's users about documents expiring within the warning window, once per document and expiry date.
+  // Returns the number of documents notified about.
+  static async notifyExpiringDocuments(now: Date = new Date()): Promise<number> {
+    const documents = await storage.getCustomerDocumentsExpiringBefore(new Date(now.getTime() + DOCUMENT_EXPIRY_WARNING_DAYS * DAY_MS));
+    if (documents.length === 0) return 0;
+
+    const documentsByCustomer = new Map<number, CustomerDocument[]>();
+    documents.forEach(document => {
+      documentsByCustomer.set(document.customerId, [...(documentsByCustomer.get(document.customerId) || []), document]);
+    });
+    const users = await storage.getAllUsers();
+
+    let notified = 0;
+    for (const [customerId, customerDocuments] of Array.from(documentsByCustomer.entries())) {
+      try {
+        const customer = await storage.getCustomerById(customerId);
+        if (!customer) continue;
+
+        const lines = customerDocuments.map(document => {
+          const expiry = document.expiryDate!;
+          return `${document.documentType} ${expiry.getTime() < now.getTime() ? "expired" : "expires"} on ${formatDate(expiry)}`;
+        });
+        const recipients = await this.getPortRecipients(customer, customerDocuments, users);
+
+        await Promise.all(recipients.map(user =>
+          storage.createNotification({
+            userId: user.id,
+            type: "customer_document_expiring",
+            title: "Customer Documents Expiring",
+            message: `KYC documents of "${customer.customerName}" (${customer.customerCode}) need renewal: ${lines.join("; ")}.`,
+            data: JSON.stringify({
+              customerId: customer.id,
+              customerCode: customer.customerCode,
+              documentIds: customerDocuments.map(document => document.id),
+            }),
+          })
+        ));
+
+        await Promise.all(customerDocuments.map(document =>
+          storage.updateCustomerDocument(document.id, { expiryNotifiedAt: now })
+        ));
+        notified += customerDocuments.length;
+      } catch (error) {
+        // One customer's failure must not hold up the others; its documents are retried on the next run
+        console.error(`Failed to notify about expiring documents of customer ${customerId}:`, error);
+      }
+    }
+    return notified;
+  }
+
+  static startExpiryMonitor(): void {
+    if (expiryMonitorStarted) return;
+    expiryMonitorStarted = true;
+
+    const run = async () => {
+      try {
+        const notified = await this.notifyExpiringDocuments();
+        if (notified > 0) {
+          console.log(`Customer document expiry check: notified about ${notified} document(s)`);
+        }
+      } catch (error) {
+        console.error("Customer document expiry check failed:", error);
+      }
+    };
+
+    setTimeout(run, EXPIRY_CHECK_DELAY_MS);
+    setInterval(run, DAY_MS);
+  }
+
+  // Active staff whose data scope covers the customer, plus whoever uploaded the documents. System admins see
+  // every customer, so they are only told about documents they uploaded.
+  private static async getPortRecipients(customer: Customer, documents: CustomerDocument[], users: User[]): Promise<User[]> {
+    const uploaders = new Set(documents.map(document => document.uploadedBy));
+    const recipients: User[] = [];
+    for (const user of users.filter(user => user.isActive && user.userType !== "Customer")) {
+      const scope = await storage.getUserDataScope(user);
+      if (uploaders.has(user.id) || (scope && isCustomerInScope(customer, scope))) {
+        recipients.push(user);
+      }
+    }
+    return recipients;
+  }
+}
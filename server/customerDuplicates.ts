@@ -0,0 +1,175 @@
+import { storage, type DataScope } from "./storage";
+import { getGstinPan } from "@shared/taxIdentifiers";
+import type { Customer, CustomerContact, CustomerMerge } from "@shared/schema";
+
+// Pairs scoring below this are not reported unless the caller asks for a lower threshold
+export const CUSTOMER_DUPLICATE_MIN_SCORE = 50;
+
+// Name similarity needed before it counts towards the score at all
+const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+// Words that vary between two registrations of the same business
+const NAME_NOISE_WORDS = new Set([
+  "the", "and", "ms", "pvt", "private", "ltd", "limited", "llp", "inc", "co", "company", "corp", "corporation", "india",
+]);
+
+export interface CustomerDuplicatePair {
+  customer: Customer;
+  duplicate: Customer;
+  score: number; // 0-100
+  nameSimilarity: number; // 0-1
+  reasons: string[];
+}
+
+// Merge refused by the merge rules; statusCode is the HTTP status to respond with
+export class CustomerMergeError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+interface CustomerFingerprint {
+  customer: Customer;
+  nameBigrams: Set<string>;
+  pans: Set<string>;
+  emails: Set<string>;
+  phones: Set<string>;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !NAME_NOISE_WORDS.has(word))
+    .join("");
+}
+
+function bigrams(value: string): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i < value.length - 1; i++) {
+    result.add(value.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(bigram => {
+    if (b.has(bigram)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+// Last ten digits, so +91 and leading-zero variants of a number match
+function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+function firstShared(a: Set<string>, b: Set<string>): string | undefined {
+  return Array.from(a).find(value => b.has(value));
+}
+
+function fingerprint(customer: Customer, contacts: CustomerContact[]): CustomerFingerprint {
+  const phones = contacts.map(contact => normalizePhone(contact.contactNumber)).filter((phone): phone is string => !!phone);
+  return {
+    customer,
+    nameBigrams: bigrams(normalizeName(customer.customerName)),
+    pans: new Set([customer.pan, getGstinPan(customer.gst)]),
+    emails: new Set([customer.email, ...contacts.map(contact => contact.email)].map(email => email.toLowerCase())),
+    phones: new Set(phones),
+  };
+}
+
+function scorePair(a: CustomerFingerprint, b: CustomerFingerprint): Omit<CustomerDuplicatePair, "customer" | "duplicate"> {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const nameSimilarity = diceSimilarity(a.nameBigrams, b.nameBigrams);
+  if (nameSimilarity >= NAME_SIMILARITY_THRESHOLD) {
+    score += Math.round(nameSimilarity * 50);
+    reasons.push(`Names ${Math.round(nameSimilarity * 100)}% similar`);
+  }
+
+  const sharedPan = firstShared(a.pans, b.pans);
+  if (sharedPan) {
+    score += 40;
+    reasons.push(a.customer.pan === b.customer.pan ? `Same PAN ${sharedPan}` : `GST numbers registered to the same PAN ${sharedPan}`);
+  }
+
+  const sharedEmail = firstShared(a.emails, b.emails);
+  if (sharedEmail) {
+    score += 25;
+    reasons.push(`Shared email ${sharedEmail}`);
+  }
+
+  const sharedPhone = firstShared(a.phones, b.phones);
+  if (sharedPhone) {
+    score += 20;
+    reasons.push(`Shared phone ${sharedPhone}`);
+  }
+
+  return { score: Math.min(score, 100), nameSimilarity, reasons };
+}
+
+export class CustomerDuplicateService {
+  // Scores every pair of customers in scope, or only the pairs involving customerId
+  static async findDuplicates(scope: DataScope | undefined, options: { customerId?: number; minScore?: number } = {}): Promise<CustomerDuplicatePair[]> {
+    const minScore = options.minScore ?? CUSTOMER_DUPLICATE_MIN_SCORE;
+    const customers = await storage.getAllCustomers(scope);
+    const contacts = await storage.getCustomerContactsByCustomerIds(customers.map(customer => customer.id));
+
+    const contactsByCustomer = new Map<number, CustomerContact[]>();
+    contacts.forEach(contact => {
+      contactsByCustomer.set(contact.customerId, [...(contactsByCustomer.get(contact.customerId) || []), contact]);
+    });
+    const fingerprints = customers.map(customer => fingerprint(customer, contactsByCustomer.get(customer.id) || []));
+
+    const pairs: CustomerDuplicatePair[] = [];
+    for (let i = 0; i < fingerprints.length; i++) {
+      for (let j = i + 1; j < fingerprints.length; j++) {
+        const [a, b] = [fingerprints[i], fingerprints[j]];
+        if (options.customerId !== undefined && a.customer.id !== options.customerId && b.customer.id !== options.customerId) continue;
+
+        const result = scorePair(a, b);
+        if (result.score >= minScore) {
+          // The older record is listed first, as the usual survivor
+          const [customer, duplicate] = a.customer.createdAt <= b.customer.createdAt ? [a.customer, b.customer] : [b.customer, a.customer];
+          pairs.push({ customer, duplicate, ...result });
+        }
+      }
+    }
+
+    return pairs.sort((a, b) => b.score - a.score);
+  }
+
+  static async merge(
+    survivorId: number,
+    mergedCustomerId: number,
+    performedBy: string,
+    reason: string | undefined,
+    scope?: DataScope
+  ): Promise<{ customer: Customer; merge: CustomerMerge }> {
+    if (survivorId === mergedCustomerId) {
+      throw new CustomerMergeError("A customer cannot be merged into itself");
+    }
+
+    const [survivor, merged] = await Promise.all([
+      storage.getCustomerById(survivorId, scope),
+      storage.getCustomerById(mergedCustomerId, scope),
+    ]);
+    if (!survivor || !merged) {
+      throw new CustomerMergeError("Customer not found", 404);
+    }
+    if (survivor.portId !== merged.portId) {
+      throw new CustomerMergeError("Customers belong to different ports and cannot be merged");
+    }
+
+    const merge = await storage.mergeCustomers(survivorId, mergedCustomerId, performedBy, reason);
+    const customer = await storage.getCustomerById(survivorId);
+    return { customer: customer!, merge };
+  }
+}
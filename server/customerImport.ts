@@ -0,0 +1,324 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import type { ZodError } from "zod";
+import { storage, type DataScope, type CustomerImportRecord } from "./storage";
+import {
+  insertCustomerSchema,
+  insertCustomerContactSchema,
+  insertCustomerAddressSchema,
+  type Customer,
+  type InsertCustomer,
+} from "@shared/schema";
+import { validateTaxIdentifiers } from "@shared/taxIdentifiers";
+
+// Large enough for a terminal's existing customer base, small enough to validate in one request
+export const CUSTOMER_IMPORT_MAX_ROWS = 2000;
+
+// Columns of the import template, in order. Rows sharing a PAN belong to the same customer, so extra
+// rows for a customer only need the PAN plus the additional contact or address.
+export const CUSTOMER_IMPORT_COLUMNS = [
+  "Customer Name", "Display Name", "Country", "State", "PAN", "GST", "Email", "Terminal",
+  "Contact Name", "Designation", "Contact Email", "Contact Number", "Primary Contact",
+  "Address Type", "Address Line 1", "Address Line 2", "City", "Address State", "Address Country", "Pincode", "Default Address",
+] as const;
+
+type ImportField =
+  | "customerName" | "displayName" | "country" | "state" | "pan" | "gst" | "email" | "terminal"
+  | "contactName" | "designation" | "contactEmail" | "contactNumber" | "isPrimaryContact"
+  | "addressType" | "addressLine1" | "addressLine2" | "city" | "addressState" | "addressCountry" | "pincode" | "isDefaultAddress";
+
+// Header names are matched case-insensitively, ignoring spaces and punctuation
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  customername: "customerName",
+  displayname: "displayName",
+  country: "country",
+  state: "state",
+  pan: "pan",
+  gst: "gst",
+  gstin: "gst",
+  email: "email",
+  terminal: "terminal",
+  terminalcode: "terminal",
+  contactname: "contactName",
+  designation: "designation",
+  contactemail: "contactEmail",
+  contactnumber: "contactNumber",
+  mobile: "contactNumber",
+  primarycontact: "isPrimaryContact",
+  isprimarycontact: "isPrimaryContact",
+  addresstype: "addressType",
+  addressline1: "addressLine1",
+  addressline2: "addressLine2",
+  city: "city",
+  addressstate: "addressState",
+  addresscountry: "addressCountry",
+  pincode: "pincode",
+  defaultaddress: "isDefaultAddress",
+  isdefaultaddress: "isDefaultAddress",
+};
+
+const REQUIRED_FIELDS: ImportField[] = ["customerName", "pan", "gst", "email", "terminal"];
+const CUSTOMER_FIELDS: ImportField[] = ["customerName", "displayName", "country", "state", "gst", "email", "terminal"];
+const CONTACT_FIELDS: ImportField[] = ["contactName", "designation", "contactEmail", "contactNumber", "isPrimaryContact"];
+const ADDRESS_FIELDS: ImportField[] = ["addressType", "addressLine1", "addressLine2", "city", "addressState", "addressCountry", "pincode", "isDefaultAddress"];
+
+const importCustomerSchema = insertCustomerSchema.omit({ terminalId: true, portId: true, createdBy: true });
+const importContactSchema = insertCustomerContactSchema.omit({ customerId: true });
+const importAddressSchema = insertCustomerAddressSchema.omit({ customerId: true });
+
+interface ImportRow {
+  row: number; // Spreadsheet row number, the header being row 1
+  values: Partial<Record<ImportField, string>>;
+}
+
+export interface CustomerImportRowResult {
+  row: number;
+  pan: string;
+  customerName: string;
+  errors: string[];
+}
+
+export interface CustomerImportReport {
+  totalRows: number;
+  customerCount: number;
+  contactCount: number;
+  addressCount: number;
+  errorRowCount: number;
+  rows: CustomerImportRowResult[];
+}
+
+export class CustomerImportError extends Error {}
+
+// Uniqueness rules for new customers, shared by POST /api/customers and the bulk import.
+// Existing records are passed in so an import can check every row against one snapshot.
+export function findCustomerConflict(
+  data: Pick<InsertCustomer, "customerName" | "pan" | "gst" | "email">,
+  existingCustomers: Customer[],
+  existingUserEmails: Set<string>
+): string | undefined {
+  if (existingCustomers.some(c => c.customerName === data.customerName)) {
+    return "Customer name already exists";
+  }
+  if (existingCustomers.some(c => c.pan === data.pan)) {
+    return "PAN number already exists";
+  }
+  if (existingCustomers.some(c => c.gst === data.gst)) {
+    return "GST number already exists";
+  }
+  if (existingUserEmails.has(data.email)) {
+    return "Email already exists as a registered user";
+  }
+  if (existingCustomers.some(c => c.email === data.email)) {
+    return "Email already exists as a customer";
+  }
+  return undefined;
+}
+
+const parseBoolean = (value?: string) => ["yes", "y", "true", "1"].includes((value || "").toLowerCase());
+
+const hasAnyValue = (row: ImportRow, fields: ImportField[]) => fields.some(field => row.values[field]);
+
+const formatZodErrors = (error: ZodError) =>
+  error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+
+export class CustomerImportService {
+  // Read the first worksheet of an XLSX file, or a CSV file, into rows keyed by import field
+  static async parseFile(buffer: Buffer, filename: string): Promise<ImportRow[]> {
+    const workbook = new ExcelJS.Workbook();
+    let worksheet: ExcelJS.Worksheet | undefined;
+    if (filename.toLowerCase().endsWith(".xlsx")) {
+      await workbook.xlsx.load(buffer);
+      worksheet = workbook.worksheets[0];
+    } else if (filename.toLowerCase().endsWith(".csv")) {
+      // Keep every value as text so PANs, pincodes and phone numbers are not converted to numbers or dates
+      worksheet = await workbook.csv.read(Readable.from(buffer), { map: (value: string) => value });
+    } else {
+      throw new CustomerImportError("Only CSV and XLSX files are supported");
+    }
+
+    if (!worksheet || worksheet.rowCount < 2) {
+      throw new CustomerImportError("The file has no customer rows");
+    }
+
+    const columns = new Map<number, ImportField>();
+    worksheet.getRow(1).eachCell((cell, columnNumber) => {
+      const field = COLUMN_ALIASES[cell.text.toLowerCase().replace(/[^a-z0-9]/g, "")];
+      if (field) columns.set(columnNumber, field);
+    });
+
+    const mappedFields = Array.from(columns.values());
+    const missingColumns = REQUIRED_FIELDS.filter(field => !mappedFields.includes(field));
+    if (missingColumns.length > 0) {
+      throw new CustomerImportError(`Missing required columns: ${missingColumns.join(", ")}`);
+    }
+
+    const rows: ImportRow[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values: ImportRow["values"] = {};
+      columns.forEach((field, columnNumber) => {
+        const text = row.getCell(columnNumber).text.trim();
+        if (text) values[field] = text;
+      });
+      if (Object.keys(values).length > 0) {
+        rows.push({ row: rowNumber, values });
+      }
+    });
+
+    if (rows.length > CUSTOMER_IMPORT_MAX_ROWS) {
+      throw new CustomerImportError(`The file has ${rows.length} rows; at most ${CUSTOMER_IMPORT_MAX_ROWS} can be imported at once`);
+    }
+    return rows;
+  }
+
+  // Validate every row and group them into customers. Records are only usable when the report has no errors.
+  static async validate(rows: ImportRow[], scope?: DataScope): Promise<{ report: CustomerImportReport; records: CustomerImportRecord[] }> {
+    const [existingCustomers, users, terminals, states] = await Promise.all([
+      storage.getAllCustomers(),
+      storage.getAllUsers(),
+      storage.getAllTerminals(scope),
+      storage.getAllStates(),
+    ]);
+    const existingUserEmails = new Set(users.map(user => user.email));
+    const statesByName = new Map(states.map(state => [state.name, state]));
+    const terminalsByCode = new Map(terminals.map(terminal => [terminal.shortCode.toUpperCase(), terminal]));
+
+    const results = rows.map(row => ({
+      row: row.row,
+      pan: (row.values.pan || "").toUpperCase(),
+      customerName: row.values.customerName || "",
+      errors: [] as string[],
+    }));
+
+    // Rows sharing a PAN describe the same customer; its details come from the first of them
+    const groups = new Map<string, number[]>();
+    results.forEach((result, index) => {
+      if (!result.pan) {
+        result.errors.push("PAN is required");
+        return;
+      }
+      groups.set(result.pan, [...(groups.get(result.pan) || []), index]);
+    });
+
+    const records: CustomerImportRecord[] = [];
+    const seenInFile = { customerName: new Map<string, number>(), gst: new Map<string, number>(), email: new Map<string, number>() };
+
+    groups.forEach((indexes, pan) => {
+      const first = rows[indexes[0]];
+      const firstResult = results[indexes[0]];
+
+      const parsedCustomer = importCustomerSchema.safeParse({
+        customerName: first.values.customerName,
+        displayName: first.values.displayName || first.values.customerName,
+        country: first.values.country || "India",
+        state: first.values.state,
+        pan,
+        gst: first.values.gst?.toUpperCase(),
+        email: first.values.email,
+      });
+
+      const terminal = first.values.terminal ? terminalsByCode.get(first.values.terminal.toUpperCase()) : undefined;
+      if (!first.values.terminal) {
+        firstResult.errors.push("terminal: Terminal is required");
+      } else if (!terminal) {
+        firstResult.errors.push(`terminal: Terminal "${first.values.terminal}" not found`);
+      }
+
+      if (!parsedCustomer.success) {
+        firstResult.errors.push(...formatZodErrors(parsedCustomer.error));
+      } else {
+        const conflict = findCustomerConflict(parsedCustomer.data, existingCustomers, existingUserEmails);
+        if (conflict) firstResult.errors.push(conflict);
+
+        // Offline checks only; a registry lookup per row would make large files too slow to validate
+        const taxIssues = validateTaxIdentifiers({ ...parsedCustomer.data, state: statesByName.get(parsedCustomer.data.state) });
+        firstResult.errors.push(...taxIssues.map(issue => `${issue.field}: ${issue.message}`));
+
+        (["customerName", "gst", "email"] as const).forEach(field => {
+          const value = parsedCustomer.data[field];
+          const previousRow = seenInFile[field].get(value);
+          if (previousRow !== undefined) {
+            firstResult.errors.push(`${field}: Duplicate of row ${previousRow} for a different PAN`);
+          } else {
+            seenInFile[field].set(value, first.row);
+          }
+        });
+      }
+
+      const contacts: CustomerImportRecord["contacts"] = [];
+      const addresses: CustomerImportRecord["addresses"] = [];
+
+      indexes.forEach(index => {
+        const row = rows[index];
+        const result = results[index];
+
+        if (index !== indexes[0]) {
+          const conflicting = CUSTOMER_FIELDS.filter(field => row.values[field] && row.values[field] !== first.values[field]);
+          if (conflicting.length > 0) {
+            result.errors.push(`Customer details differ from row ${first.row} for the same PAN: ${conflicting.join(", ")}`);
+          }
+        }
+
+        if (hasAnyValue(row, CONTACT_FIELDS)) {
+          const parsedContact = importContactSchema.safeParse({
+            contactName: row.values.contactName,
+            designation: row.values.designation,
+            email: row.values.contactEmail,
+            contactNumber: row.values.contactNumber,
+            isPrimaryContact: parseBoolean(row.values.isPrimaryContact),
+          });
+          if (parsedContact.success) {
+            contacts.push(parsedContact.data);
+          } else {
+            result.errors.push(...formatZodErrors(parsedContact.error).map(message => `contact.${message}`));
+          }
+        }
+
+        if (hasAnyValue(row, ADDRESS_FIELDS)) {
+          const parsedAddress = importAddressSchema.safeParse({
+            addressType: row.values.addressType || "Billing",
+            addressLine1: row.values.addressLine1,
+            addressLine2: row.values.addressLine2 || null,
+            city: row.values.city,
+            state: row.values.addressState || first.values.state,
+            country: row.values.addressCountry || first.values.country || "India",
+            pincode: row.values.pincode,
+            isDefaultAddress: parseBoolean(row.values.isDefaultAddress),
+          });
+          if (parsedAddress.success) {
+            addresses.push(parsedAddress.data);
+          } else {
+            result.errors.push(...formatZodErrors(parsedAddress.error).map(message => `address.${message}`));
+          }
+        }
+      });
+
+      // Every imported customer gets exactly one primary contact and one default address per address type
+      const primaryIndex = Math.max(contacts.findIndex(contact => contact.isPrimaryContact), 0);
+      contacts.forEach((contact, i) => { contact.isPrimaryContact = i === primaryIndex; });
+      new Set(addresses.map(address => address.addressType)).forEach(addressType => {
+        const ofType = addresses.filter(address => address.addressType === addressType);
+        const defaultIndex = Math.max(ofType.findIndex(address => address.isDefaultAddress), 0);
+        ofType.forEach((address, i) => { address.isDefaultAddress = i === defaultIndex; });
+      });
+
+      if (parsedCustomer.success && terminal) {
+        records.push({
+          customer: { ...parsedCustomer.data, terminalId: terminal.id, portId: terminal.portId },
+          contacts,
+          addresses,
+        });
+      }
+    });
+
+    const report: CustomerImportReport = {
+      totalRows: rows.length,
+      customerCount: groups.size,
+      contactCount: rows.filter(row => hasAnyValue(row, CONTACT_FIELDS)).length,
+      addressCount: rows.filter(row => hasAnyValue(row, ADDRESS_FIELDS)).length,
+      errorRowCount: results.filter(result => result.errors.length > 0).length,
+      rows: results,
+    };
+    return { report, records };
+  }
+}
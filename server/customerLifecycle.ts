@@ -0,0 +1,161 @@
+import { storage, isCustomerInScope } from "./storage";
+import { checkUserPermission, API_PERMISSIONS } from "./middleware/permissions";
+import {
+  CUSTOMER_CHECKLIST_LABELS,
+  CUSTOMER_TRANSITIONS,
+  findCustomerTransition,
+  getCustomerTransitions,
+  type CustomerChecklistItem,
+  type CustomerTransition,
+} from "@shared/customerLifecycle";
+import type { Customer, User } from "@shared/schema";
+
+export type CustomerChecklist = Record<CustomerChecklistItem, boolean>;
+
+// Transition refused by the lifecycle rules; statusCode is the HTTP status to respond with
+export class CustomerTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 400, public missingItems: CustomerChecklistItem[] = []) {
+    super(message);
+  }
+}
+
+interface TransitionActor {
+  id: string;
+  isSystemAdmin: boolean;
+  rolePermissions?: string[];
+}
+
+const isSystemAdminUser = (user: User) =>
+  user.isSystemAdmin || user.role === "SystemAdmin" || user.userType === "SuperAdmin";
+
+export class CustomerLifecycleService {
+  static async getChecklist(customerId: number): Promise<CustomerChecklist> {
+    const [contacts, addresses, contracts] = await Promise.all([
+      storage.getCustomerContactsByCustomerId(customerId),
+      storage.getCustomerAddressesByCustomerId(customerId),
+      storage.getContractsByCustomerId(customerId),
+    ]);
+
+    return {
+      primaryContact: contacts.some(contact => contact.isPrimaryContact),
+      billingAddress: addresses.some(address => address.addressType === "Billing"),
+      // Contracts have no signature flag; the uploaded copy is the signed contract
+      signedContract: contracts.some(contract => !!contract.contractCopyUrl),
+    };
+  }
+
+  static canPerform(user: TransitionActor, transition: CustomerTransition): boolean {
+    const { section } = API_PERMISSIONS.customers;
+    return checkUserPermission(user.rolePermissions || [], user.isSystemAdmin, section, undefined, transition.requiredLevel);
+  }
+
+  // Transitions available from the customer's status, flagged with whether this user may perform them
+  static getAvailableTransitions(customer: Customer, user: TransitionActor) {
+    return getCustomerTransitions(customer.status).map(transition => ({
+      ...transition,
+      allowed: this.canPerform(user, transition),
+    }));
+  }
+
+  static async transition(customer: Customer, action: string, reason: string | undefined, user: TransitionActor): Promise<Customer> {
+    const transition = findCustomerTransition(customer.status, action);
+    if (!transition) {
+      throw new CustomerTransitionError(`Cannot ${action} a customer with status "${customer.status}"`);
+    }
+
+    if (!this.canPerform(user, transition)) {
+      throw new CustomerTransitionError(`Access denied. Required permission: customers:${transition.requiredLevel}`, 403);
+    }
+
+    if (transition.requiresReason && !reason) {
+      throw new CustomerTransitionError("A reason is required for this action");
+    }
+
+    if (transition.requiresChecklist) {
+      const checklist = await this.getChecklist(customer.id);
+      const missingItems = (Object.keys(checklist) as CustomerChecklistItem[]).filter(item => !checklist[item]);
+      if (missingItems.length > 0) {
+        throw new CustomerTransitionError(
+          `Checklist incomplete: ${missingItems.map(item => CUSTOMER_CHECKLIST_LABELS[item]).join(", ")}`,
+          400,
+          missingItems
+        );
+      }
+    }
+
+    const updated = await storage.transitionCustomerStatus({
+      customerId: customer.id,
+      action: transition.action,
+      fromStatus: customer.status,
+      toStatus: transition.to,
+      reason: reason || null,
+      performedBy: user.id,
+    });
+    if (!updated) {
+      throw new CustomerTransitionError("Customer not found", 404);
+    }
+
+    await this.notify(updated, transition, reason, user.id);
+    return updated;
+  }
+
+  // Submissions go to the port's approvers; every other transition goes back to the people who raised the customer
+  private static async notify(customer: Customer, transition: CustomerTransition, reason: string | undefined, performedBy: string) {
+    try {
+      const recipientIds = new Set<string>();
+      if (transition.action === "submit") {
+        const approvers = await this.getApprovers(customer);
+        approvers.forEach(approver => recipientIds.add(approver.id));
+      } else {
+        recipientIds.add(customer.createdBy);
+        const history = await storage.getCustomerStatusHistory(customer.id);
+        const lastSubmission = history.find(entry => entry.action === "submit");
+        if (lastSubmission?.performedBy) {
+          recipientIds.add(lastSubmission.performedBy);
+        }
+      }
+      recipientIds.delete(performedBy);
+
+      const message = transition.action === "submit"
+        ? `Customer "${customer.customerName}" (${customer.customerCode}) has been submitted for activation review.`
+        : `Customer "${customer.customerName}" (${customer.customerCode}) is now ${transition.to}.${reason ? ` Reason: ${reason}` : ""}`;
+
+      await Promise.all(Array.from(recipientIds).map(userId =>
+        storage.createNotification({
+          userId,
+          type: transition.action === "submit" ? "customer_activation_request" : "customer_status_changed",
+          title: transition.action === "submit" ? "Customer Activation Request" : `Customer ${transition.to}`,
+          message,
+          data: JSON.stringify({
+            customerId: customer.id,
+            customerCode: customer.customerCode,
+            action: transition.action,
+            status: transition.to,
+            reason: reason || null,
+            performedBy,
+          }),
+        })
+      ));
+    } catch (error) {
+      console.error("Failed to create customer lifecycle notification:", error);
+      // Don't fail the transition if notification fails
+    }
+  }
+
+  // Active users allowed to approve customers of this port; the data scope places port admins without a portId
+  private static async getApprovers(customer: Customer): Promise<User[]> {
+    const [users, roles] = await Promise.all([storage.getAllUsers(), storage.getAllRoles()]);
+    const approve = CUSTOMER_TRANSITIONS.find(transition => transition.action === "approve")!;
+
+    const approvers: User[] = [];
+    for (const user of users.filter(user => user.isActive && user.userType !== "Customer")) {
+      if (!isSystemAdminUser(user)) {
+        const role = roles.find(r => user.roleId ? r.id === user.roleId : r.name === user.role);
+        if (!role?.isActive || !this.canPerform({ id: user.id, isSystemAdmin: false, rolePermissions: role.permissions || [] }, approve)) continue;
+        if (!isCustomerInScope(customer, await storage.getUserDataScope(user))) continue;
+      }
+      approvers.push(user);
+    }
+    return approvers;
+  }
+}
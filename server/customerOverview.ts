@@ -0,0 +1,210 @@
+import { storage } from "./storage";
+import { CustomerCreditService, type CustomerCreditStatus } from "./customerCredit";
+import { getDocumentExpiryState, type DocumentExpiryState } from "@shared/customerDocuments";
+import type {
+  Contract,
+  Customer,
+  CustomerAddress,
+  CustomerCodeAlias,
+  CustomerContact,
+  CustomerDocument,
+  CustomerMerge,
+  CustomerStatusHistory,
+  EntityAuditLog,
+} from "@shared/schema";
+
+export type ContractValidityStatus = "Upcoming" | "Active" | "Expired";
+
+export interface CustomerTimelineEntry {
+  timestamp: Date;
+  entityType: string;
+  entityId: string;
+  action: string;
+  description: string;
+  performedBy: { id: string; name: string } | null;
+  // "audit" entries come from the entity audit log; the others are derived from the records themselves
+  source: "audit" | "record" | "status" | "merge";
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+}
+
+// Everything known about a customer, as returned by GET /api/customers/:id/overview
+export interface CustomerOverview {
+  customer: Customer;
+  credit: CustomerCreditStatus;
+  contacts: CustomerContact[];
+  addresses: CustomerAddress[];
+  contracts: Array<Contract & { validityStatus: ContractValidityStatus }>;
+  documents: Array<CustomerDocument & { expiryState: DocumentExpiryState | null }>;
+  statusHistory: CustomerStatusHistory[];
+  merges: CustomerMerge[];
+  aliases: CustomerCodeAlias[];
+  timeline: CustomerTimelineEntry[];
+}
+
+type PendingEntry = Omit<CustomerTimelineEntry, "performedBy"> & { performedBy: string | null };
+
+export function getContractValidityStatus(contract: Contract, now: Date = new Date()): ContractValidityStatus {
+  if (contract.validFrom.getTime() > now.getTime()) return "Upcoming";
+  return contract.validTo.getTime() < now.getTime() ? "Expired" : "Active";
+}
+
+const timelineKey = (entry: Pick<PendingEntry, "entityType" | "entityId" | "action">) =>
+  `${entry.entityType}:${entry.entityId}:${entry.action}`;
+
+export class CustomerOverviewService {
+  static async getOverview(customer: Customer): Promise<CustomerOverview> {
+    const [contacts, addresses, contracts, documents, statusHistory, merges, aliases, auditLogs] = await Promise.all([
+      storage.getCustomerContactsByCustomerId(customer.id),
+      storage.getCustomerAddressesByCustomerId(customer.id),
+      storage.getContractsByCustomerId(customer.id),
+      storage.getCustomerDocumentsByCustomerId(customer.id),
+      storage.getCustomerStatusHistory(customer.id),
+      storage.getCustomerMerges(customer.id),
+      storage.getCustomerCodeAliases(customer.id),
+      storage.getEntityAuditLogsByCustomerId(customer.id),
+    ]);
+
+    const now = new Date();
+    const timeline = await this.buildTimeline(customer, contracts, documents, statusHistory, merges, auditLogs);
+
+    return {
+      customer,
+      credit: CustomerCreditService.getStatus(customer),
+      contacts,
+      addresses,
+      contracts: contracts.map(contract => ({ ...contract, validityStatus: getContractValidityStatus(contract, now) })),
+      documents: documents.map(document => ({ ...document, expiryState: getDocumentExpiryState(document.expiryDate, now) })),
+      statusHistory,
+      merges,
+      aliases,
+      timeline,
+    };
+  }
+
+  // Audit log entries, plus entries derived from the records for activity that predates the audit log.
+  // A derived entry is dropped when the audit log already has the same action on the same record.
+  private static async buildTimeline(
+    customer: Customer,
+    contracts: Contract[],
+    documents: CustomerDocument[],
+    statusHistory: CustomerStatusHistory[],
+    merges: CustomerMerge[],
+    auditLogs: EntityAuditLog[],
+  ): Promise<CustomerTimelineEntry[]> {
+    const entries: PendingEntry[] = auditLogs.map(log => ({
+      timestamp: log.createdAt,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      action: log.action,
+      description: log.description,
+      performedBy: log.performedBy,
+      source: "audit",
+      changes: log.changes ? JSON.parse(log.changes) : null,
+    }));
+    const audited = new Set(entries.map(timelineKey));
+
+    const derived: PendingEntry[] = [];
+    const record = (entry: Omit<PendingEntry, "source" | "changes">) => {
+      derived.push({ ...entry, source: "record", changes: null });
+    };
+
+    record({
+      timestamp: customer.createdAt,
+      entityType: "customer",
+      entityId: String(customer.id),
+      action: "created",
+      description: `Customer ${customer.customerCode} created`,
+      performedBy: customer.createdBy,
+    });
+    if (customer.creditHold && customer.creditHoldAt) {
+      record({
+        timestamp: customer.creditHoldAt,
+        entityType: "customer",
+        entityId: String(customer.id),
+        action: "credit_hold",
+        description: `Put on credit hold: ${customer.creditHoldReason}`,
+        performedBy: customer.creditHoldBy,
+      });
+    }
+    contracts.forEach(contract => {
+      record({
+        timestamp: contract.createdAt,
+        entityType: "contract",
+        entityId: String(contract.id),
+        action: "created",
+        description: `Contract ${contract.contractNumber} created`,
+        performedBy: contract.createdBy,
+      });
+    });
+    documents.forEach(document => {
+      record({
+        timestamp: document.createdAt,
+        entityType: "customer_document",
+        entityId: String(document.id),
+        action: "created",
+        description: `Uploaded ${document.documentType} "${document.fileName}"`,
+        performedBy: document.uploadedBy,
+      });
+      if (document.verifiedAt && document.verificationStatus !== "Pending") {
+        record({
+          timestamp: document.verifiedAt,
+          entityType: "customer_document",
+          entityId: String(document.id),
+          action: document.verificationStatus === "Verified" ? "verified" : "rejected",
+          description: `${document.documentType} "${document.fileName}" marked ${document.verificationStatus}`,
+          performedBy: document.verifiedBy,
+        });
+      }
+    });
+
+    entries.push(...derived.filter(entry => !audited.has(timelineKey(entry))));
+
+    // Status changes and merges have their own history tables and are never in the audit log
+    statusHistory.forEach(change => {
+      entries.push({
+        timestamp: change.createdAt,
+        entityType: "customer",
+        entityId: String(customer.id),
+        action: change.action,
+        description: `Status changed from ${change.fromStatus} to ${change.toStatus}${change.reason ? `: ${change.reason}` : ""}`,
+        performedBy: change.performedBy,
+        source: "status",
+        changes: null,
+      });
+    });
+    merges.forEach(merge => {
+      entries.push({
+        timestamp: merge.createdAt,
+        entityType: "customer",
+        entityId: String(customer.id),
+        action: "merged",
+        description: `Merged ${merge.mergedCustomerName} (${merge.mergedCustomerCode}) into this customer${merge.reason ? `: ${merge.reason}` : ""}`,
+        performedBy: merge.performedBy,
+        source: "merge",
+        changes: null,
+      });
+    });
+
+    const userNames = await this.getUserNames(entries.map(entry => entry.performedBy));
+    return entries
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .map(entry => ({
+        ...entry,
+        performedBy: entry.performedBy
+          ? { id: entry.performedBy, name: userNames.get(entry.performedBy) || "Unknown user" }
+          : null,
+      }));
+  }
+
+  private static async getUserNames(userIds: Array<string | null>): Promise<Map<string, string>> {
+    const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+    const users = await Promise.all(ids.map(id => storage.getUser(id)));
+    const names = new Map<string, string>();
+    users.forEach(user => {
+      if (user) {
+        names.set(user.id, `${user.firstName} ${user.lastName}`.trim() || user.email);
+      }
+    });
+    return names;
+  }
+}
@@ -445,6 +445,205 @@ This setup link will expire in 24 hours.
       return false;
     }
   }
+
+  // Send password reset email using port-specific configuration
+  async sendPortPasswordResetEmail(portId: number, userEmail: string, userName: string, resetToken: string): Promise<boolean> {
+    try {
+      const emailConfig = await this.getPortEmailConfiguration(portId);
+      
+      if (!emailConfig) {
+        console.error(`No email configuration found for port ${portId}`);
+        return false;
+      }
+
+      const transporter = this.createTransporter({
+        smtpHost: emailConfig.smtpHost,
+        smtpPort: emailConfig.smtpPort,
+        smtpUser: emailConfig.smtpUser,
+        smtpPassword: emailConfig.smtpPassword,
+        fromEmail: emailConfig.fromEmail,
+        fromName: emailConfig.fromName,
+        enableTLS: emailConfig.enableTLS
+      });
+
+      const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
+        `https://${process.env.REPLIT_DEV_DOMAIN}` : 
+        (process.env.REPL_SLUG && process.env.REPL_OWNER ? 
+          `https://${process.env.REPL_SLUG}-${process.env.REPL_OWNER}.replit.app` : 
+          'http://localhost:5000');
+          
+      const resetUrl = `${baseUrl}/setup-password?token=${resetToken}&mode=reset`;
+
+      const mailOptions = {
+        from: `"${emailConfig.fromName}" <${emailConfig.fromEmail}>`,
+        to: userEmail,
+        subject: 'PortRay - Reset Your Password',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #2563eb;">Reset Your PortRay Password</h2>
+            <p>Hello ${userName},</p>
+            <p>We received a request to reset the password for your PortRay account. Click the button below to choose a new password.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${resetUrl}" 
+                 style="background-color: #2563eb; color: white; padding: 12px 24px; 
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                Reset Password
+              </a>
+            </div>
+            <p>If the button doesn't work, copy and paste this link into your browser:</p>
+            <p style="word-break: break-all; color: #6b7280;">${resetUrl}</p>
+            <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+              This reset link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.
+            </p>
+          </div>
+        `,
+        text: `
+Reset Your PortRay Password
+
+Hello ${userName},
+
+We received a request to reset the password for your PortRay account.
+
+Click here to reset your password: ${resetUrl}
+
+This reset link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.
+        `
+      };
+
+      await transporter.sendMail(mailOptions);
+      
+      // Log the email
+      try {
+        await storage.createEmailLog({
+          emailConfigurationId: emailConfig.id,
+          portId: portId,
+          toEmail: userEmail,
+          fromEmail: emailConfig.fromEmail,
+          fromName: emailConfig.fromName,
+          subject: 'PortRay - Reset Your Password',
+          emailType: 'password_reset',
+          status: 'sent',
+          userId: undefined,
+        });
+      } catch (logError) {
+        console.error('Failed to log password reset email:', logError);
+      }
+      
+      return true;
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+      
+      try {
+        const emailConfig = await this.getPortEmailConfiguration(portId);
+        if (emailConfig) {
+          await storage.createEmailLog({
+            emailConfigurationId: emailConfig.id,
+            portId: portId,
+            toEmail: userEmail,
+            fromEmail: emailConfig.fromEmail,
+            fromName: emailConfig.fromName,
+            subject: 'PortRay - Reset Your Password',
+            emailType: 'password_reset',
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            userId: undefined,
+          });
+        }
+      } catch (logError) {
+        console.error('Failed to log failed password reset email:', logError);
+      }
+      
+      return false;
+    }
+  }
+
+  // Send a short notification (approval requests, expiry reminders and the like) using port-specific configuration
+  async sendPortNotificationEmail(portId: number, recipientEmail: string, subject: string, heading: string, message: string, actionPath?: string, userId?: string): Promise<boolean> {
+    const emailConfig = await this.getPortEmailConfiguration(portId);
+    if (!emailConfig) {
+      console.error(`No email configuration found for port ${portId}`);
+      return false;
+    }
+
+    const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
+      `https://${process.env.REPLIT_DEV_DOMAIN}` : 
+      (process.env.REPL_SLUG && process.env.REPL_OWNER ? 
+        `https://${process.env.REPL_SLUG}-${process.env.REPL_OWNER}.replit.app` : 
+        'http://localhost:5000');
+    const actionUrl = actionPath ? `${baseUrl}${actionPath}` : null;
+
+    const emailLog = {
+      emailConfigurationId: emailConfig.id,
+      portId: portId,
+      toEmail: recipientEmail,
+      fromEmail: emailConfig.fromEmail,
+      fromName: emailConfig.fromName,
+      subject,
+      emailType: 'notification',
+      userId,
+    };
+
+    try {
+      const transporter = this.createTransporter({
+        smtpHost: emailConfig.smtpHost,
+        smtpPort: emailConfig.smtpPort,
+        smtpUser: emailConfig.smtpUser,
+        smtpPassword: emailConfig.smtpPassword,
+        fromEmail: emailConfig.fromEmail,
+        fromName: emailConfig.fromName,
+        enableTLS: emailConfig.enableTLS
+      });
+
+      await transporter.sendMail({
+        from: `"${emailConfig.fromName}" <${emailConfig.fromEmail}>`,
+        to: recipientEmail,
+        subject,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #2563eb;">${heading}</h2>
+            <p>${message}</p>
+            ${actionUrl ? `
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${actionUrl}" 
+                 style="background-color: #2563eb; color: white; padding: 12px 24px; 
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                Open in PortRay
+              </a>
+            </div>` : ''}
+            <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+              This email was sent automatically by PortRay.
+            </p>
+          </div>
+        `,
+        text: `
+${heading}
+
+${message}
+${actionUrl ? `\nOpen in PortRay: ${actionUrl}\n` : ''}
+This email was sent automatically by PortRay.
+        `
+      });
+
+      try {
+        await storage.createEmailLog({ ...emailLog, status: 'sent' });
+      } catch (logError) {
+        console.error('Failed to log notification email:', logError);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error sending notification email:', error);
+      try {
+        await storage.createEmailLog({
+          ...emailLog,
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } catch (logError) {
+        console.error('Failed to log failed notification email:', logError);
+      }
+      return false;
+    }
+  }
 }
 
 export const emailService = new EmailService();
@@ -504,4 +703,31 @@ export async function sendPasswordSetupEmail(userEmail: string, userName: string
     console.error('Failed to send password setup email:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+export async function sendPasswordResetEmail(userEmail: string, userName: string, resetToken: string, portId?: number): Promise<boolean> {
+  try {
+    if (portId) {
+      // Use port-specific email configuration
+      return await emailService.sendPortPasswordResetEmail(portId, userEmail, userName, resetToken);
+    } else {
+      // Fallback to console log for users without port assignment
+      const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
+        `https://${process.env.REPLIT_DEV_DOMAIN}` : 
+        (process.env.REPL_SLUG && process.env.REPL_OWNER ? 
+          `https://${process.env.REPL_SLUG}-${process.env.REPL_OWNER}.replit.app` : 
+          'http://localhost:5000');
+      
+      const resetUrl = `${baseUrl}/setup-password?token=${resetToken}&mode=reset`;
+      
+      console.log(`Password reset email would be sent to ${userEmail}:`);
+      console.log(`Subject: PortRay - Reset Your Password`);
+      console.log(`Password Reset URL: ${resetUrl}`);
+      console.log(`User: ${userName}`);
+      
+      return true;
+    }
+  } catch (error) {
+    console.error('Failed to send password reset email:', error);
+    return false;
+  }
+}
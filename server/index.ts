@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { CustomerDocumentService } from "./customerDocuments";
+import { ContractApprovalService } from "./contractApproval";
+import { ContractRevisionService } from "./contractRevisions";
+import { ContractExpiryService } from "./contractExpiry";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +71,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    CustomerDocumentService.startExpiryMonitor();
+    ContractApprovalService.startStatusMonitor();
+    ContractRevisionService.startAmendmentMonitor();
+    ContractExpiryService.startReminderMonitor();
   });
 })();
@@ -0,0 +1,122 @@
+import { storage } from "./storage";
+import { AuditService } from "./auditService";
+import type { User } from "@shared/schema";
+
+// Failed attempts allowed per account before it is temporarily locked
+export const MAX_ACCOUNT_ATTEMPTS = 5;
+export const ACCOUNT_LOCK_MINUTES = 15;
+
+// Failed attempts allowed per IP address within the tracking window
+export const MAX_IP_ATTEMPTS = 20;
+const IP_WINDOW_MS = 15 * 60 * 1000;
+
+// Progressive delay applied to failed logins: 1s, 2s, 4s ... capped at 8s
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+const FREE_ATTEMPTS = 2;
+
+// Password reset requests allowed per IP and per email address within an hour
+export const MAX_RESET_REQUESTS_PER_IP = 5;
+export const MAX_RESET_REQUESTS_PER_EMAIL = 3;
+const RESET_WINDOW_MS = 60 * 60 * 1000;
+
+interface IpAttempts {
+  count: number;
+  firstAttemptAt: number;
+}
+
+const ipAttempts = new Map<string, IpAttempts>();
+const resetRequests = new Map<string, IpAttempts>();
+
+// Drop expired entries so the maps do not grow unbounded
+setInterval(() => {
+  const now = Date.now();
+  ipAttempts.forEach((entry, ip) => {
+    if (now - entry.firstAttemptAt > IP_WINDOW_MS) {
+      ipAttempts.delete(ip);
+    }
+  });
+  resetRequests.forEach((entry, key) => {
+    if (now - entry.firstAttemptAt > RESET_WINDOW_MS) {
+      resetRequests.delete(key);
+    }
+  });
+}, IP_WINDOW_MS).unref();
+
+function getIpAttempts(ip: string): IpAttempts | undefined {
+  const entry = ipAttempts.get(ip);
+  if (entry && Date.now() - entry.firstAttemptAt > IP_WINDOW_MS) {
+    ipAttempts.delete(ip);
+    return undefined;
+  }
+  return entry;
+}
+
+// Count a reset request against a key, returning false once its limit is reached
+function takeResetRequest(key: string, limit: number): boolean {
+  const now = Date.now();
+  let entry = resetRequests.get(key);
+  if (!entry || now - entry.firstAttemptAt > RESET_WINDOW_MS) {
+    entry = { count: 0, firstAttemptAt: now };
+    resetRequests.set(key, entry);
+  }
+  if (entry.count >= limit) return false;
+  entry.count += 1;
+  return true;
+}
+
+export class LoginThrottle {
+  // Seconds until the IP may try again, or 0 when it is not blocked
+  static getIpRetryAfter(ip: string): number {
+    const entry = getIpAttempts(ip);
+    if (!entry || entry.count < MAX_IP_ATTEMPTS) return 0;
+    return Math.ceil((entry.firstAttemptAt + IP_WINDOW_MS - Date.now()) / 1000);
+  }
+
+  static isAccountLocked(user: User): boolean {
+    return !!user.lockedUntil && user.lockedUntil.getTime() > Date.now();
+  }
+
+  // Record a failed attempt and wait before the caller responds
+  static async recordFailure(ip: string, user?: User, userAgent?: string): Promise<void> {
+    const entry = getIpAttempts(ip) || { count: 0, firstAttemptAt: Date.now() };
+    entry.count += 1;
+    ipAttempts.set(ip, entry);
+
+    if (user) {
+      const failedAttempts = await storage.incrementFailedLoginAttempts(user.id);
+      if (failedAttempts >= MAX_ACCOUNT_ATTEMPTS) {
+        const lockedUntil = new Date(Date.now() + ACCOUNT_LOCK_MINUTES * 60 * 1000);
+        await storage.lockUser(user.id, lockedUntil);
+        await storage.resetFailedLoginAttempts(user.id);
+        await AuditService.logAccountLocked(user.id, failedAttempts, lockedUntil, ip, userAgent);
+      }
+    }
+
+    const delayMs = Math.min(BASE_DELAY_MS * 2 ** (entry.count - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+    if (entry.count > FREE_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  // Seconds until the IP may request another password reset, or 0 when it is not blocked
+  static getResetRetryAfter(ip: string): number {
+    const entry = resetRequests.get(`ip:${ip}`);
+    if (!entry || entry.count < MAX_RESET_REQUESTS_PER_IP) return 0;
+    return Math.max(Math.ceil((entry.firstAttemptAt + RESET_WINDOW_MS - Date.now()) / 1000), 0);
+  }
+
+  // Record a password reset request; false means no email should be sent for this address.
+  // The caller still answers normally so the response does not reveal the limit per account.
+  static recordResetRequest(ip: string, email: string): boolean {
+    takeResetRequest(`ip:${ip}`, MAX_RESET_REQUESTS_PER_IP);
+    return takeResetRequest(`email:${email.toLowerCase()}`, MAX_RESET_REQUESTS_PER_EMAIL);
+  }
+
+  static async recordSuccess(ip: string, user: User): Promise<void> {
+    ipAttempts.delete(ip);
+    if (user.failedLoginAttempts > 0) {
+      await storage.resetFailedLoginAttempts(user.id);
+    }
+  }
+}
@@ -8,13 +8,28 @@ export interface AuthenticatedUser {
   rolePermissions?: string[];
 }
 
-declare global {
-  namespace Express {
-    interface Request {
-      user?: AuthenticatedUser;
-    }
-  }
-}
+type PermissionLevel = 'read' | 'write' | 'manage';
+
+// Menu permission guarding each area of the API.
+// Uses the same glink:plink names that roles store as "glink:plink:levels"; every one of them is a menu
+// created by POST /api/menus/seed-defaults, so it can be granted from permission assignment.
+export const API_PERMISSIONS = {
+  dashboard: { section: "dashboard" },
+  organizations: { section: "configuration", subsection: "organization" },
+  ports: { section: "configuration", subsection: "ports" },
+  terminals: { section: "configuration", subsection: "terminals" },
+  terminalActivation: { section: "configuration", subsection: "terminal-activation" },
+  emailConfiguration: { section: "configuration", subsection: "email-configuration" },
+  users: { section: "users-access", subsection: "users" },
+  menus: { section: "menu-management" },
+  customers: { section: "customers" },
+  contracts: { section: "contracts" },
+  backups: { section: "configuration", subsection: "database-backup" },
+  passwordPolicy: { section: "configuration", subsection: "password-policy" },
+  apiKeys: { section: "configuration", subsection: "api-keys" },
+} as const satisfies Record<string, { section: string; subsection?: string }>;
+
+export type ApiArea = keyof typeof API_PERMISSIONS;
 
 // Parse permission string into structured format
 interface ParsedPermission {
@@ -113,6 +128,12 @@ export function checkPermission(
   };
 }
 
+// Middleware for an API area from API_PERMISSIONS
+export function checkApiPermission(area: ApiArea, level: PermissionLevel = 'read') {
+  const { section, subsection } = API_PERMISSIONS[area] as { section: string; subsection?: string };
+  return checkPermission(section, subsection, level);
+}
+
 // Check multiple permissions (user needs ALL)
 export function checkAllPermissions(
   permissions: Array<{ section: string; subsection?: string; level?: 'read' | 'write' | 'manage' }>
@@ -211,6 +232,21 @@ export function requireSystemAdmin(req: Request, res: Response, next: NextFuncti
   next();
 }
 
+// Customer portal access middleware; the customer always comes from the user's data scope, never the request
+export function requireCustomerUser(req: Request, res: Response, next: NextFunction) {
+  const user = req.user;
+  
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  if (user.userType !== "Customer" || !user.dataScope?.customerId) {
+    return res.status(403).json({ message: 'Customer portal access required' });
+  }
+
+  next();
+}
+
 // Role-based access middleware
 export function requireRole(allowedRoles: string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,177 @@
+// Converts the free-text amounts of contract tariffs, storage charges and special conditions to decimal
+// amounts with a currency and unit of measure (see shared/contractMoney.ts). Run it before `npm run db:push`,
+// which cannot convert text columns to numeric:
+//
+//   npm run db:migrate-contract-money              reports the rows whose amounts cannot be parsed
+//   npm run db:migrate-contract-money -- --apply   converts the columns, once every row parses
+//
+// Rows without a currency in their text get their customer's terminal currency.
+
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { parseMoneyText, type ContractChargeUnit } from "@shared/contractMoney";
+
+interface MoneyTable {
+  table: string;
+  columns: string[];
+  required: boolean; // Amount columns are NOT NULL
+  defaultUnit: ContractChargeUnit;
+}
+
+interface ParsedRow {
+  id: number;
+  currency: string;
+  unit: ContractChargeUnit;
+  amounts: Record<string, string | null>;
+}
+
+interface MigrationIssue {
+  table: string;
+  id: number;
+  contractId: number;
+  column: string | null;
+  value: string | null;
+  problem: string;
+}
+
+const MONEY_TABLES: MoneyTable[] = [
+  {
+    table: "contract_tariffs",
+    columns: ["chc_rate_to_customer", "chc_rate_to_port", "bhc_rate_to_customer", "bhc_rate_to_port"],
+    required: false,
+    defaultUnit: "TEU",
+  },
+  { table: "contract_storage_charges", columns: ["charge_per_day"], required: true, defaultUnit: "TEU" },
+  { table: "contract_special_conditions", columns: ["charge"], required: true, defaultUnit: "Unit" },
+];
+
+async function isMigrated({ table, columns }: MoneyTable): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${columns[0]}`);
+  return result.rows[0]?.data_type === "numeric";
+}
+
+async function parseTable(moneyTable: MoneyTable): Promise<{ rows: ParsedRow[]; issues: MigrationIssue[] }> {
+  const { table, columns, required, defaultUnit } = moneyTable;
+  const result = await db.execute(sql`
+    SELECT r.id, r.contract_id, ${sql.raw(columns.map(column => `r.${column}`).join(", "))}, t.currency AS terminal_currency
+    FROM ${sql.raw(table)} r
+    JOIN contracts c ON c.id = r.contract_id
+    JOIN customers cu ON cu.id = c.customer_id
+    LEFT JOIN terminals t ON t.id = cu.terminal_id
+    ORDER BY r.id`);
+
+  const rows: ParsedRow[] = [];
+  const issues: MigrationIssue[] = [];
+  for (const row of result.rows) {
+    const id = Number(row.id);
+    const contractId = Number(row.contract_id);
+    const issue = (column: string | null, problem: string) =>
+      issues.push({ table, id, contractId, column, value: column ? (row[column] as string | null) : null, problem });
+
+    const amounts: Record<string, string | null> = {};
+    const currencies = new Set<string>();
+    const units = new Set<ContractChargeUnit>();
+    for (const column of columns) {
+      const parsed = parseMoneyText(row[column] as string | null);
+      if (!parsed) {
+        issue(column, "cannot be read as a single non-negative amount");
+        continue;
+      }
+      if (parsed.amount === null && required) {
+        issue(column, "is blank but an amount is required");
+        continue;
+      }
+      amounts[column] = parsed.amount;
+      if (parsed.currency) currencies.add(parsed.currency);
+      if (parsed.unit) units.add(parsed.unit);
+    }
+    // A row has one currency and one unit for all of its amounts
+    if (currencies.size > 1) issue(null, `mixes currencies (${Array.from(currencies).join(", ")})`);
+    if (units.size > 1) issue(null, `mixes units of measure (${Array.from(units).join(", ")})`);
+
+    rows.push({
+      id,
+      currency: Array.from(currencies)[0] ?? (row.terminal_currency as string | null) ?? "INR",
+      unit: Array.from(units)[0] ?? defaultUnit,
+      amounts,
+    });
+  }
+  return { rows, issues };
+}
+
+async function applyTable({ table, columns, required, defaultUnit }: MoneyTable, rows: ParsedRow[]) {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql.raw(`ALTER TABLE ${table}
+      ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'INR',
+      ADD COLUMN IF NOT EXISTS unit_of_measure text NOT NULL DEFAULT '${defaultUnit}'`));
+    for (const column of columns) {
+      await tx.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN ${column}__amount numeric(14, 2)`));
+    }
+
+    for (const row of rows) {
+      const amounts = columns.map(column => sql`${sql.raw(`${column}__amount`)} = ${row.amounts[column]}`);
+      await tx.execute(sql`
+        UPDATE ${sql.raw(table)}
+        SET currency = ${row.currency}, unit_of_measure = ${row.unit}, ${sql.join(amounts, sql`, `)}
+        WHERE id = ${row.id}`);
+    }
+
+    for (const column of columns) {
+      await tx.execute(sql.raw(`ALTER TABLE ${table} DROP COLUMN ${column}`));
+      await tx.execute(sql.raw(`ALTER TABLE ${table} RENAME COLUMN ${column}__amount TO ${column}`));
+      if (required) {
+        await tx.execute(sql.raw(`ALTER TABLE ${table} ALTER COLUMN ${column} SET NOT NULL`));
+      }
+    }
+  });
+}
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+  const pending: { moneyTable: MoneyTable; rows: ParsedRow[] }[] = [];
+  const issues: MigrationIssue[] = [];
+
+  for (const moneyTable of MONEY_TABLES) {
+    if (await isMigrated(moneyTable)) {
+      console.log(`${moneyTable.table}: already migrated`);
+      continue;
+    }
+    const parsed = await parseTable(moneyTable);
+    const failed = new Set(parsed.issues.map(issue => issue.id));
+    console.log(`${moneyTable.table}: ${parsed.rows.length} row(s), ${parsed.rows.length - failed.size} parsed, ${failed.size} with problems`);
+    pending.push({ moneyTable, rows: parsed.rows });
+    issues.push(...parsed.issues);
+  }
+
+  if (issues.length > 0) {
+    console.log("\nRows that cannot be migrated:");
+    for (const issue of issues) {
+      const where = issue.column ? `${issue.column} ${JSON.stringify(issue.value)}` : "row";
+      console.log(`  ${issue.table} #${issue.id} (contract ${issue.contractId}): ${where} ${issue.problem}`);
+    }
+  }
+
+  if (!apply) {
+    console.log(pending.length > 0 ? "\nReport only. Run again with --apply to convert the columns." : "\nNothing to migrate.");
+    return;
+  }
+  if (issues.length > 0) {
+    console.error("\nNot applied. Correct the rows above and run the migration again.");
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const { moneyTable, rows } of pending) {
+    await applyTable(moneyTable, rows);
+    console.log(`${moneyTable.table}: converted ${rows.length} row(s)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Contract money migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
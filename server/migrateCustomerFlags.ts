@@ -0,0 +1,93 @@
+// Leaves each customer with one primary contact and one default address per address type, as the partial unique
+// indexes customer_contacts_one_primary and customer_addresses_one_default require. Run it before `npm run db:push`,
+// which cannot create the indexes while a customer has several flagged rows:
+//
+//   npm run db:migrate-customer-flags              reports the customers with several flagged rows
+//   npm run db:migrate-customer-flags -- --apply   keeps the oldest flagged row and clears the flag on the others
+//
+// Customers with rows but none flagged get their oldest row flagged, as storage does when the flag is cleared.
+
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+
+interface FlaggedTable {
+  table: string;
+  flag: string;
+  groupBy: string[]; // One flagged row per group
+}
+
+const FLAGGED_TABLES: FlaggedTable[] = [
+  { table: "customer_contacts", flag: "is_primary_contact", groupBy: ["customer_id"] },
+  { table: "customer_addresses", flag: "is_default_address", groupBy: ["customer_id", "address_type"] },
+];
+
+async function tableExists({ table }: FlaggedTable): Promise<boolean> {
+  const result = await db.execute(sql`SELECT to_regclass(${table}) IS NOT NULL AS present`);
+  return result.rows[0]?.present === true;
+}
+
+// Flagged rows after the oldest of their group
+async function getExtraFlagged({ table, flag, groupBy }: FlaggedTable): Promise<{ id: number; customerId: number }[]> {
+  const result = await db.execute(sql.raw(`
+    SELECT id, customer_id FROM (
+      SELECT id, customer_id, row_number() OVER (PARTITION BY ${groupBy.join(", ")} ORDER BY created_at, id) AS position
+      FROM ${table} WHERE ${flag}
+    ) flagged
+    WHERE position > 1
+    ORDER BY customer_id, id`));
+  return result.rows.map(row => ({ id: Number(row.id), customerId: Number(row.customer_id) }));
+}
+
+async function applyTable({ table, flag, groupBy }: FlaggedTable, extraIds: number[]) {
+  const sameGroup = groupBy.map(column => `flagged.${column} = candidate.${column}`).join(" AND ");
+  await db.transaction(async (tx) => {
+    if (extraIds.length > 0) {
+      await tx.execute(sql`
+        UPDATE ${sql.raw(table)} SET ${sql.raw(flag)} = false, updated_at = now()
+        WHERE id IN (${sql.join(extraIds.map(id => sql`${id}`), sql`, `)})`);
+    }
+    await tx.execute(sql.raw(`
+      UPDATE ${table} SET ${flag} = true, updated_at = now()
+      WHERE id IN (
+        SELECT DISTINCT ON (${groupBy.join(", ")}) id FROM ${table} candidate
+        WHERE NOT EXISTS (SELECT 1 FROM ${table} flagged WHERE ${sameGroup} AND flagged.${flag})
+        ORDER BY ${groupBy.join(", ")}, created_at, id
+      )`));
+  });
+}
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+  const pending: { flaggedTable: FlaggedTable; extraIds: number[] }[] = [];
+
+  for (const flaggedTable of FLAGGED_TABLES) {
+    if (!(await tableExists(flaggedTable))) {
+      console.log(`${flaggedTable.table}: not created yet`);
+      continue;
+    }
+    const extra = await getExtraFlagged(flaggedTable);
+    const customers = new Set(extra.map(row => row.customerId));
+    console.log(`${flaggedTable.table}: ${extra.length} extra ${flaggedTable.flag} row(s) across ${customers.size} customer(s)`);
+    for (const row of extra) {
+      console.log(`  #${row.id} (customer ${row.customerId})`);
+    }
+    pending.push({ flaggedTable, extraIds: extra.map(row => row.id) });
+  }
+
+  if (!apply) {
+    console.log("\nReport only. Run again with --apply to clear the extra flags.");
+    return;
+  }
+
+  for (const { flaggedTable, extraIds } of pending) {
+    await applyTable(flaggedTable, extraIds);
+    console.log(`${flaggedTable.table}: cleared ${extraIds.length} flag(s)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Customer flag migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,4 +1,5 @@
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
@@ -12,7 +13,10 @@ const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 // - GROUP_MEMBER: the users who are members of a specific group;
 // - SUBSCRIBER: the users who are subscribers of a specific service / content
 //   creator.
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // The users whose data scope covers a port; the id is the port id.
+  PORT_MEMBER = "port_member",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -82,6 +86,34 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// Port users and the users of the port's terminals. System administrators see
+// every port; customer portal users are never members.
+class PortMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.PORT_MEMBER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      return false;
+    }
+
+    const scope = await storage.getUserDataScope(user);
+    if (!scope) {
+      return true;
+    }
+    if (scope.customerId !== undefined) {
+      return false;
+    }
+    if (scope.terminalIds) {
+      const terminals = await storage.getTerminalsByPortId(Number(this.id), scope);
+      return terminals.length > 0;
+    }
+    return scope.portId === Number(this.id);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
@@ -97,6 +129,8 @@ function createObjectAccessGroup(
     //   return new GroupMemberAccessGroup(group.id);
     // case "SUBSCRIBER":
     //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.PORT_MEMBER:
+      return new PortMemberAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -1,9 +1,18 @@
 import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
 import { randomUUID } from "crypto";
+import {
+  ObjectAclPolicy,
+  ObjectPermission,
+  canAccessObject,
+  getObjectAclPolicy,
+  setObjectAclPolicy,
+} from "./objectAcl";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
 // The object storage client is used to interact with the object storage service.
 export const objectStorageClient = new Storage({
   credentials: {
@@ -92,12 +101,15 @@ export class ObjectStorageService {
     try {
       // Get file metadata
       const [metadata] = await file.getMetadata();
+      // Objects behind an ACL policy must not be kept by shared caches
+      const aclPolicy = await getObjectAclPolicy(file);
+      const isPublic = !aclPolicy || aclPolicy.visibility === "public";
       
       // Set appropriate headers
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
         "Content-Length": metadata.size,
-        "Cache-Control": `public, max-age=${cacheTtlSec}`,
+        "Cache-Control": `${isPublic ? "public" : "private"}, max-age=${cacheTtlSec}`,
       });
 
       // Stream the file to the response
@@ -143,6 +155,28 @@ export class ObjectStorageService {
     });
   }
 
+  // Where the client PUTs a new upload: the server's direct upload endpoint, under an id without slashes.
+  createObjectEntityUpload(): { uploadURL: string; uploadId: string } {
+    this.getPrivateObjectDir();
+    const uploadId = randomUUID();
+    return { uploadURL: `/api/objects/direct-upload/${uploadId}`, uploadId };
+  }
+
+  // Stores a file PUT to the direct upload endpoint in the private object directory and returns its object path.
+  async saveObjectEntityUpload(uploadId: string, data: Buffer, contentType: string): Promise<string> {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new ObjectNotFoundError();
+    }
+
+    const privateObjectDir = this.getPrivateObjectDir().replace(/\/+$/, "");
+    const { bucketName, objectName } = parseObjectPath(`${privateObjectDir}/uploads/${uploadId}`);
+    await objectStorageClient.bucket(bucketName).file(objectName).save(data, {
+      resumable: false,
+      metadata: { contentType },
+    });
+    return `/objects/uploads/${uploadId}`;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -171,6 +205,13 @@ export class ObjectStorageService {
   }
 
   normalizeObjectEntityPath(rawPath: string): string {
+    // Uploads made through the server's direct upload endpoint
+    const directUploadPrefix = "/api/objects/direct-upload/";
+    const directUploadIndex = rawPath.indexOf(directUploadPrefix);
+    if (directUploadIndex !== -1) {
+      return `/objects/uploads/${rawPath.slice(directUploadIndex + directUploadPrefix.length)}`;
+    }
+
     if (!rawPath.startsWith("https://storage.googleapis.com/")) {
       return rawPath;
     }
@@ -192,6 +233,38 @@ export class ObjectStorageService {
     const entityId = rawObjectPath.slice(objectEntityDir.length);
     return `/objects/${entityId}`;
   }
+
+  // Tries to set the ACL policy for the object entity and return the normalized path.
+  async trySetObjectEntityAclPolicy(
+    rawPath: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<string> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    if (!normalizedPath.startsWith("/")) {
+      return normalizedPath;
+    }
+
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    return normalizedPath;
+  }
+
+  // Checks if the user can access the object entity.
+  async canAccessObjectEntity({
+    userId,
+    objectFile,
+    requestedPermission,
+  }: {
+    userId?: string;
+    objectFile: File;
+    requestedPermission?: ObjectPermission;
+  }): Promise<boolean> {
+    return canAccessObject({
+      userId,
+      objectFile,
+      requestedPermission: requestedPermission ?? ObjectPermission.READ,
+    });
+  }
 }
 
 function parseObjectPath(path: string): {
@@ -0,0 +1,49 @@
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import { validatePasswordComplexity, type PasswordRules } from "@shared/passwordPolicy";
+import type { PasswordPolicy, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PasswordPolicyService {
+  static toRules(policy: PasswordPolicy): PasswordRules {
+    const { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, historyCount, maxAgeDays } = policy;
+    return { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, historyCount, maxAgeDays };
+  }
+
+  // Complexity errors plus reuse of the current or any of the last historyCount passwords
+  static async validateNewPassword(password: string, user?: User): Promise<string[]> {
+    const policy = await storage.getPasswordPolicy();
+    const errors = validatePasswordComplexity(password, policy);
+    if (errors.length > 0 || !user || policy.historyCount === 0) {
+      return errors;
+    }
+
+    const history = await storage.getPasswordHistory(user.id, policy.historyCount);
+    const previousHashes = [user.password, ...history.map(entry => entry.passwordHash)].filter((hash): hash is string => !!hash);
+    for (const hash of previousHashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return [`Password cannot match any of your last ${policy.historyCount} passwords`];
+      }
+    }
+    return errors;
+  }
+
+  // Hash a validated password and record it in the user's history; returns the user fields to save
+  static async preparePasswordUpdate(user: User, password: string): Promise<{ password: string; passwordChangedAt: Date }> {
+    const policy = await storage.getPasswordPolicy();
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await storage.addPasswordHistory(user.id, hashedPassword, policy.historyCount);
+    return { password: hashedPassword, passwordChangedAt: new Date() };
+  }
+
+  static async isPasswordExpired(user: User): Promise<boolean> {
+    if (!user.password) return false;
+
+    const policy = await storage.getPasswordPolicy();
+    if (!policy.maxAgeDays) return false;
+
+    const changedAt = user.passwordChangedAt || user.createdAt;
+    return Date.now() - changedAt.getTime() > policy.maxAgeDays * DAY_MS;
+  }
+}
@@ -1,7 +1,7 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { loginSchema, insertOrganizationSchema, insertPortSchema, insertPortAdminContactSchema, updatePortAdminContactSchema, insertEmailConfigurationSchema, updateEmailConfigurationSchema, insertTerminalSchema, updateTerminalSchema, insertNotificationSchema, insertMenuSchema, updateMenuSchema, insertUserSchema, updateUserSchema, insertRoleSchema, updateRoleSchema, insertCustomerSchema, insertCustomerContactSchema, insertCustomerAddressSchema, insertContractSchema, insertContractTariffSchema, insertContractCargoDetailSchema, insertContractStorageChargeSchema, insertContractSpecialConditionSchema, type InsertUser, type Menu } from "@shared/schema";
+import { storage, type SessionMetadata } from "./storage";
+import { loginSchema, twoFactorLoginSchema, twoFactorCodeSchema, ssoExchangeSchema, updateSsoConfigSchema, forgotPasswordSchema, changePasswordSchema, updatePasswordPolicySchema, insertApiKeySchema, insertOrganizationSchema, insertPortSchema, insertPortAdminContactSchema, updatePortAdminContactSchema, insertEmailConfigurationSchema, updateEmailConfigurationSchema, insertTerminalSchema, updateTerminalSchema, insertNotificationSchema, insertMenuSchema, updateMenuSchema, insertUserSchema, updateUserSchema, insertRoleSchema, updateRoleSchema, insertCustomerSchema, customerStatusTransitionSchema, customerMergeSchema, customerCreditSchema, insertCustomerDocumentSchema, updateCustomerDocumentSchema, customerDocumentVerificationSchema, insertCustomerContactSchema, updateCustomerContactSchema, insertCustomerAddressSchema, updateCustomerAddressSchema, insertContractSchema, insertContractTariffSchema, insertContractCargoDetailSchema, insertContractStorageChargeSchema, insertContractSpecialConditionSchema, contractAmendmentSchema, contractApprovalActionSchema, contractAmendmentApprovalActionSchema, contractRenewalSchema, storageChargeCalculationSchema, type InsertUser, type Menu, type User, type Session, type OrganizationSsoConfig, type SsoRoleMapping, type ApiKey } from "@shared/schema";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
@@ -9,6 +9,26 @@ import multer from "multer";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { EmailService } from "./emailService";
 import { AuditService } from "./auditService";
+import { LoginThrottle } from "./loginThrottle";
+import { PasswordPolicyService } from "./passwordPolicy";
+import { SsoService, SsoError } from "./sso";
+import { CustomerLifecycleService, CustomerTransitionError } from "./customerLifecycle";
+import { CustomerDuplicateService, CustomerMergeError } from "./customerDuplicates";
+import { CustomerCreditService, CustomerCreditError } from "./customerCredit";
+import { CustomerDocumentService, CustomerDocumentError } from "./customerDocuments";
+import { CustomerOverviewService } from "./customerOverview";
+import { ContractRevisionService, ContractRevisionError } from "./contractRevisions";
+import { ContractApprovalService, ContractApprovalError } from "./contractApproval";
+import { ContractExpiryService, ContractExpiryError } from "./contractExpiry";
+import { StorageChargeService, StorageChargeError } from "./storageCharges";
+import { ContractMoneyService } from "./contractMoney";
+import { CustomerImportService, CustomerImportError, CUSTOMER_IMPORT_COLUMNS, findCustomerConflict } from "./customerImport";
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl, generateQrCodeDataUrl, generateRecoveryCodes, hashRecoveryCode } from "./twoFactor";
+import { checkApiPermission, checkAnyPermission, checkUserPermission, userHasPermission, requireCustomerUser, API_PERMISSIONS } from "./middleware/permissions";
+import { customerCodeTemplateSchema } from "@shared/customerCode";
+import { contractExpiryReminderDaysSchema } from "@shared/contractExpiry";
+import { isContractApproved } from "@shared/contractApproval";
+import { TaxVerificationService } from "./taxVerification";
 
 // Extend Express Request to include user session
 declare global {
@@ -38,6 +58,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Customer bulk import accepts a single CSV or XLSX file
+  const customerImportUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+    fileFilter: (req: any, file: any, cb: any) => {
+      if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only CSV and XLSX files are allowed'), false);
+      }
+    }
+  });
+  
   // Validation schemas for new endpoints
   const verifyEmailSchema = z.object({
     token: z.string().min(1, "Token is required")
@@ -59,11 +92,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     );
   };
 
+  const getUserRole = (user: User) => {
+    return user.roleId ? storage.getRoleById(user.roleId) : storage.getRoleByName(user.role);
+  };
+
+  // First of the "glink[:plink]:levels" permissions the user does not hold, if any
+  const findUnheldPermission = (user: { isSystemAdmin: boolean; rolePermissions?: string[] }, permissions: string[]): string | undefined => {
+    return permissions.find(permission => {
+      const parts = permission.split(':');
+      const levels = (parts.length > 1 ? parts[parts.length - 1].split(',') : ['read']) as ('read' | 'write' | 'manage')[];
+      const subsection = parts.length === 3 ? parts[1] : undefined;
+      return !levels.every(level => checkUserPermission(user.rolePermissions || [], user.isSystemAdmin, parts[0], subsection, level));
+    });
+  };
+
+  // Organization a user belongs to, through their SSO link, port or first terminal
+  const getUserOrganizationId = async (user: User): Promise<number | undefined> => {
+    if (user.ssoOrganizationId) return user.ssoOrganizationId;
+
+    const scope = await storage.getUserDataScope(user);
+    let portId = scope?.portId;
+    if (!portId && scope?.terminalIds?.length) {
+      portId = (await storage.getTerminalById(scope.terminalIds[0]))?.portId;
+    }
+    const port = portId ? await storage.getPortById(portId) : undefined;
+    return port?.organizationId;
+  };
+
+  // How often a session's last-seen time is written back, to avoid a write on every request
+  const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+  // Sessions without activity for this long are signed out, on top of their absolute expiry
+  const SESSION_IDLE_TIMEOUT_MS = (Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+  const REMEMBER_ME_IDLE_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+
+  const isSessionIdle = (session: Session) => {
+    const idleTimeout = session.rememberMe ? REMEMBER_ME_IDLE_TIMEOUT_MS : SESSION_IDLE_TIMEOUT_MS;
+    return Date.now() - session.lastSeenAt.getTime() > idleTimeout;
+  };
+
+  const getSessionMetadata = (req: Request): SessionMetadata => ({
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  // Public view of a session; the bearer token itself is never returned
+  const toSessionInfo = (session: Session, currentSessionId?: string) => ({
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  });
+
+  // Endpoints still reachable while a role-mandated 2FA enrollment or an expired password change is pending
+  const ACCOUNT_SETUP_PATHS = ["/api/auth/me", "/api/auth/logout", "/api/auth/2fa", "/api/auth/sessions", "/api/auth/change-password", "/api/auth/password-policy"];
+
+  // Customer portal users may only reach their own account, notifications and the read-only portal
+  const CUSTOMER_PORTAL_PATHS = ["/api/auth/", "/api/notifications", "/api/customer-portal/"];
+
+  // Account endpoints act on a signed-in user, and keys must not be able to manage other keys
+  const API_KEY_BLOCKED_PATHS = ["/api/auth/", "/api/configuration/api-keys"];
+
+  // Machine-to-machine authentication: the key's permissions and port stand in for a user's role and data scope
+  const authenticateApiKey = async (req: Request, res: Response, next: any, key: string) => {
+    try {
+      const apiKey = await storage.getApiKeyByKey(key);
+      if (!apiKey || !apiKey.isActive || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+        return res.status(401).json({ message: "Invalid or expired API key" });
+      }
+
+      if (API_KEY_BLOCKED_PATHS.some(path => req.path.startsWith(path))) {
+        return res.status(403).json({ message: "This endpoint is not available to API keys" });
+      }
+
+      // A key acts for its creator, so it stops working once they are deactivated, lose any of the key's
+      // permissions or no longer cover its port
+      const creator = await storage.getUser(apiKey.createdBy);
+      if (!creator || !creator.isActive) {
+        return res.status(401).json({ message: "Invalid or expired API key" });
+      }
+      const creatorRole = await getUserRole(creator);
+      const creatorScope = await storage.getUserDataScope(creator);
+      const creatorPermissions = { isSystemAdmin: isSystemAdmin(creator), rolePermissions: creatorRole?.isActive ? creatorRole.permissions || [] : [] };
+      if (findUnheldPermission(creatorPermissions, apiKey.permissions) || (creatorScope && creatorScope.portId !== apiKey.portId)) {
+        return res.status(403).json({ message: "This API key exceeds the current permissions of the user who issued it" });
+      }
+
+      if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await storage.touchApiKey(apiKey.id, req.ip);
+      }
+
+      // Record every call once its outcome is known
+      res.on("finish", () => {
+        AuditService.logApiKeyRequest(apiKey.id, req.method, req.originalUrl, res.statusCode, req.ip, req.get('User-Agent'));
+      });
+
+      // Records created through the key are attributed to the user who issued it
+      req.user = {
+        id: apiKey.createdBy,
+        email: null,
+        firstName: apiKey.name,
+        lastName: "",
+        role: "ApiKey",
+        userType: "ApiKey",
+        portId: apiKey.portId,
+        isSystemAdmin: false,
+        isSystemAdminUser: false,
+        rolePermissions: apiKey.permissions,
+        dataScope: { portId: apiKey.portId },
+        apiKeyId: apiKey.id
+      };
+      next();
+    } catch (error) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+  };
+
   // Authentication middleware
   const authenticateToken = async (req: Request, res: Response, next: any) => {
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.split(' ')[1];
 
+    const apiKey = req.get('X-API-Key');
+    if (!token && apiKey) {
+      return authenticateApiKey(req, res, next, apiKey);
+    }
+
     if (!token) {
       return res.status(401).json({ message: "Access token required" });
     }
@@ -74,61 +231,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid or expired token" });
       }
 
+      if (isSessionIdle(session)) {
+        await storage.deleteSessionById(session.id);
+        return res.status(401).json({ message: "Session expired due to inactivity" });
+      }
+
       const user = await storage.getUser(session.userId);
       if (!user || !user.isActive) {
         return res.status(401).json({ message: "User not found or inactive" });
       }
 
+      if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await storage.touchSession(session.id);
+      }
+
+      if (user.userType === "Customer" && !CUSTOMER_PORTAL_PATHS.some(path => req.path.startsWith(path))) {
+        return res.status(403).json({ message: "This endpoint is not available to customer portal users" });
+      }
+
+      // Load role permissions for the permission middleware
+      const role = await getUserRole(user);
+
+      // Roles that require 2FA may only reach the enrollment endpoints until it is set up
+      const twoFactorSetupRequired = !!role?.requireTwoFactor && !user.twoFactorEnabled;
+      if (twoFactorSetupRequired && !ACCOUNT_SETUP_PATHS.some(path => req.path.startsWith(path))) {
+        return res.status(403).json({ 
+          message: "Two-factor authentication setup required",
+          twoFactorSetupRequired: true
+        });
+      }
+
+      // Passwords older than the policy's maximum age must be changed before anything else
+      const passwordChangeRequired = await PasswordPolicyService.isPasswordExpired(user);
+      if (passwordChangeRequired && !ACCOUNT_SETUP_PATHS.some(path => req.path.startsWith(path))) {
+        return res.status(403).json({ 
+          message: "Password change required",
+          passwordChangeRequired: true
+        });
+      }
+
       // Add system admin flag for easy checking
       const userWithAdminFlag = { 
         ...user, 
         password: undefined,
-        isSystemAdminUser: isSystemAdmin(user)
+        twoFactorSecret: undefined,
+        twoFactorRecoveryCodes: undefined,
+        twoFactorSetupRequired,
+        passwordChangeRequired,
+        isSystemAdmin: isSystemAdmin(user),
+        isSystemAdminUser: isSystemAdmin(user),
+        rolePermissions: role && role.isActive ? role.permissions || [] : [],
+        dataScope: await storage.getUserDataScope(user)
       };
       
       req.user = userWithAdminFlag;
+      req.session = session;
       next();
     } catch (error) {
       return res.status(401).json({ message: "Invalid token" });
     }
   };
 
+  // Create the session and login response once all factors are verified
+  const completeLogin = async (user: User, rememberMe: boolean | undefined, metadata: SessionMetadata) => {
+    // Update last login
+    await storage.updateUserLastLogin(user.id);
+
+    // Create session, signing out the oldest ones beyond the role's concurrent session limit
+    const role = await getUserRole(user);
+    const session = await storage.createSession(user.id, rememberMe, metadata);
+    if (role?.maxConcurrentSessions) {
+      await storage.pruneUserSessions(user.id, role.maxConcurrentSessions);
+    }
+
+    // Return user info and token (exclude password and 2FA secrets)
+    const { password, twoFactorSecret, twoFactorRecoveryCodes, ...userWithoutPassword } = user;
+    
+    // Determine redirect path based on system admin flag and role
+    let redirectPath = "/dashboard";
+    if (isSystemAdmin(user)) {
+      redirectPath = "/dashboard";
+    } else if (user.role === "PortAdmin") {
+      redirectPath = "/port-admin-dashboard";
+    } else if (user.userType === "Customer") {
+      redirectPath = "/customer-portal";
+    }
+
+    // Send users whose role mandates 2FA, or whose password has expired, to their profile first
+    const twoFactorSetupRequired = !!role?.requireTwoFactor && !user.twoFactorEnabled;
+    const passwordChangeRequired = await PasswordPolicyService.isPasswordExpired(user);
+    if (twoFactorSetupRequired || passwordChangeRequired) {
+      redirectPath = "/profile";
+    }
+    
+    return {
+      user: userWithoutPassword,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      redirectPath,
+      twoFactorSetupRequired,
+      passwordChangeRequired
+    };
+  };
+
   // Login endpoint
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
       const credentials = loginSchema.parse(req.body);
+      const ipAddress = req.ip || "unknown";
+      const userAgent = req.get('User-Agent');
+
+      // Block IPs with too many recent failures
+      const retryAfter = LoginThrottle.getIpRetryAfter(ipAddress);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ 
+          message: "Too many failed login attempts. Please try again later." 
+        });
+      }
+
+      // Reject temporarily locked accounts before checking the password, answering as for a wrong password
+      // so the response does not reveal that the account exists
+      const existingUser = await storage.getUserByEmail(credentials.email);
+      if (existingUser && LoginThrottle.isAccountLocked(existingUser)) {
+        await LoginThrottle.recordFailure(ipAddress, undefined, userAgent);
+        return res.status(401).json({ 
+          message: "Invalid email or password" 
+        });
+      }
       
       // Validate user credentials
       const user = await storage.validateUserCredentials(credentials.email, credentials.password);
       if (!user) {
+        await LoginThrottle.recordFailure(ipAddress, existingUser, userAgent);
         return res.status(401).json({ 
           message: "Invalid email or password" 
         });
       }
 
-      // Update last login
-      await storage.updateUserLastLogin(user.id);
+      // With 2FA the failed-attempt count is kept until the second step succeeds, so wrong codes add up to a lockout
+      if (!user.twoFactorEnabled) {
+        await LoginThrottle.recordSuccess(ipAddress, user);
+      }
 
-      // Create session
-      const session = await storage.createSession(user.id, credentials.rememberMe);
+      // Organizations that enforce SSO keep password login only as a SystemAdmin fallback
+      if (!isSystemAdmin(user)) {
+        const organizationId = await getUserOrganizationId(user);
+        const ssoConfig = organizationId ? await storage.getSsoConfigByOrganizationId(organizationId) : undefined;
+        if (ssoConfig?.isEnabled && ssoConfig.enforceSso) {
+          return res.status(403).json({ 
+            message: "Your organization requires single sign-on. Please sign in with your organization's identity provider.",
+            ssoRequired: true,
+            organizationId
+          });
+        }
+      }
 
-      // Return user info and token (exclude password)
-      const { password, ...userWithoutPassword } = user;
-      
-      // Determine redirect path based on system admin flag and role
-      let redirectPath = "/dashboard";
-      if (isSystemAdmin(user)) {
-        redirectPath = "/dashboard";
-      } else if (user.role === "PortAdmin") {
-        redirectPath = "/port-admin-dashboard";
+      // Users with 2FA get a short-lived challenge instead of a session
+      if (user.twoFactorEnabled) {
+        const challenge = await storage.createTwoFactorChallenge(user.id, credentials.rememberMe);
+        return res.json({
+          twoFactorRequired: true,
+          challengeToken: challenge.token,
+          expiresAt: challenge.expiresAt
+        });
       }
-      
-      return res.json({
-        user: userWithoutPassword,
-        token: session.token,
-        expiresAt: session.expiresAt,
-        redirectPath
-      });
+
+      return res.json(await completeLogin(user, credentials.rememberMe, getSessionMetadata(req)));
 
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -142,177 +411,340 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Logout endpoint
-  app.post("/api/auth/logout", authenticateToken, async (req: Request, res: Response) => {
+  // Checks a TOTP code and records its time step, so each code is accepted only once
+  const acceptTotpCode = async (user: User, code: string): Promise<boolean> => {
+    const step = user.twoFactorSecret ? verifyTotp(user.twoFactorSecret, code, user.twoFactorLastUsedStep) : null;
+    return step !== null && await storage.acceptTwoFactorStep(user.id, step);
+  };
+
+  // Second login step for users with 2FA enabled
+  app.post("/api/auth/login/2fa", async (req: Request, res: Response) => {
     try {
-      const authHeader = req.headers.authorization;
-      const token = authHeader && authHeader.split(' ')[1];
-      
-      if (token) {
-        await storage.deleteSession(token);
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+      const ipAddress = req.ip || "unknown";
+      const userAgent = req.get('User-Agent');
+
+      const retryAfter = LoginThrottle.getIpRetryAfter(ipAddress);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ 
+          message: "Too many failed login attempts. Please try again later." 
+        });
       }
-      
-      res.json({ message: "Logged out successfully" });
-    } catch (error) {
-      console.error("Logout error:", error);
-      res.status(500).json({ message: "Internal server error" });
-    }
-  });
 
-  // Get current user endpoint
-  app.get("/api/auth/me", authenticateToken, async (req: Request, res: Response) => {
-    try {
-      const user = req.user;
-      let userWithPermissions = { ...user };
+      const challenge = await storage.getTwoFactorChallengeByToken(challengeToken);
+      if (!challenge || challenge.expiresAt < new Date()) {
+        if (challenge) {
+          await storage.deleteTwoFactorChallenge(challenge.id);
+        }
+        return res.status(401).json({ message: "Login challenge expired. Please sign in again." });
+      }
 
-      // If user has a role, fetch the role permissions
-      if (user.role) {
-        const role = await storage.getRoleByName(user.role);
-        if (role && role.permissions) {
-          userWithPermissions.rolePermissions = role.permissions;
+      const user = await storage.getUser(challenge.userId);
+      if (!user || !user.isActive || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        await storage.deleteTwoFactorChallenge(challenge.id);
+        return res.status(401).json({ message: "Login challenge expired. Please sign in again." });
+      }
+
+      // Wrong codes count toward the account lockout; a locked account has to sign in again once it is released
+      if (LoginThrottle.isAccountLocked(user)) {
+        await storage.deleteTwoFactorChallenge(challenge.id);
+        await LoginThrottle.recordFailure(ipAddress, undefined, userAgent);
+        return res.status(401).json({ message: "Login challenge expired. Please sign in again." });
+      }
+
+      let verified = await acceptTotpCode(user, code);
+
+      // Fall back to a one-time recovery code
+      if (!verified) {
+        verified = await storage.consumeTwoFactorRecoveryCode(user.id, hashRecoveryCode(code));
+      }
+
+      if (!verified) {
+        const attempts = await storage.incrementTwoFactorChallengeAttempts(challenge.id);
+        if (attempts >= 5) {
+          await storage.deleteTwoFactorChallenge(challenge.id);
         }
+        await LoginThrottle.recordFailure(ipAddress, user, userAgent);
+        return res.status(400).json({ message: "Invalid authentication code" });
       }
 
-      res.json({ user: userWithPermissions });
+      await storage.deleteTwoFactorChallenge(challenge.id);
+      await LoginThrottle.recordSuccess(ipAddress, user);
+      return res.json(await completeLogin(user, challenge.rememberMe, getSessionMetadata(req)));
     } catch (error) {
-      console.error("Get user me error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      console.error("Two-factor login error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Refresh token endpoint
-  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
+  // Two-factor enrollment status for the current user
+  app.get("/api/auth/2fa", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const authHeader = req.headers.authorization;
-      const token = authHeader && authHeader.split(' ')[1];
-
-      if (!token) {
-        return res.status(401).json({ message: "Token required" });
-      }
-
-      const session = await storage.getSessionByToken(token);
-      if (!session) {
-        return res.status(401).json({ message: "Invalid or expired token" });
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-
-      // Create new session
-      const newSession = await storage.createSession(session.userId);
-      
-      // Delete old session
-      await storage.deleteSession(token);
+      const role = await getUserRole(user);
 
       res.json({
-        token: newSession.token,
-        expiresAt: newSession.expiresAt,
+        enabled: user.twoFactorEnabled,
+        required: !!role?.requireTwoFactor,
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0
       });
     } catch (error) {
-      console.error("Token refresh error:", error);
+      console.error("Get two-factor status error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Organization endpoints
-  app.get("/api/organizations", authenticateToken, async (req: Request, res: Response) => {
+  // Start enrollment: generate a secret and QR code for the authenticator app
+  app.post("/api/auth/2fa/setup", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const organizations = await storage.getAllOrganizations();
-      console.log("Organizations from database:", JSON.stringify(organizations, null, 2));
-      res.json(organizations);
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(user.id, { twoFactorSecret: secret, twoFactorLastUsedStep: null });
+
+      const otpAuthUrl = buildOtpAuthUrl(user.email, secret);
+      res.json({
+        secret,
+        otpAuthUrl,
+        qrCode: await generateQrCodeDataUrl(otpAuthUrl)
+      });
     } catch (error) {
-      console.error("Get organizations error:", error);
+      console.error("Two-factor setup error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/organizations/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Confirm enrollment with a code and issue recovery codes
+  app.post("/api/auth/2fa/enable", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const organization = await storage.getOrganizationById(id);
-      
-      if (!organization) {
-        return res.status(404).json({ message: "Organization not found" });
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json(organization);
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!(await acceptTotpCode(user, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: hashes
+      });
+
+      await AuditService.logUserUpdate(
+        user.id,
+        user.id,
+        { twoFactorEnabled: false },
+        { twoFactorEnabled: true },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
     } catch (error) {
-      console.error("Get organization error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      console.error("Enable two-factor error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/organizations", authenticateToken, async (req: Request, res: Response) => {
+  // Replace all recovery codes
+  app.post("/api/auth/2fa/recovery-codes", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const organizationData = insertOrganizationSchema.parse(req.body);
-      const organization = await storage.createOrganization(organizationData);
-      res.status(201).json(organization);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user.id);
+      if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await acceptTotpCode(user, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { twoFactorRecoveryCodes: hashes });
+
+      res.json({ recoveryCodes: codes });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: "Validation error", 
+          message: "Validation error",
           errors: error.errors 
         });
       }
-      console.error("Create organization error:", error);
+      console.error("Regenerate recovery codes error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.put("/api/organizations/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/auth/2fa/disable", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = insertOrganizationSchema.partial().parse(req.body);
-      
-      const organization = await storage.updateOrganization(id, updates);
-      
-      if (!organization) {
-        return res.status(404).json({ message: "Organization not found" });
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user.id);
+      if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
       }
-      
-      res.json(organization);
+
+      const role = await getUserRole(user);
+      if (role?.requireTwoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!(await acceptTotpCode(user, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastUsedStep: null
+      });
+
+      await AuditService.logUserUpdate(
+        user.id,
+        user.id,
+        { twoFactorEnabled: true },
+        { twoFactorEnabled: false },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({ message: "Two-factor authentication disabled" });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: "Validation error", 
+          message: "Validation error",
           errors: error.errors 
         });
       }
-      console.error("Update organization error:", error);
+      console.error("Disable two-factor error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/organizations/:id/toggle-status", authenticateToken, async (req: Request, res: Response) => {
+  // Logout endpoint
+  app.post("/api/auth/logout", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const organization = await storage.toggleOrganizationStatus(id);
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1];
       
-      if (!organization) {
-        return res.status(404).json({ message: "Organization not found" });
+      if (token) {
+        await storage.deleteSession(token);
       }
       
-      res.json(organization);
+      res.json({ message: "Logged out successfully" });
     } catch (error) {
-      console.error("Toggle organization status error:", error);
+      console.error("Logout error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Port endpoints
-  app.get("/api/organizations/:id/ports", authenticateToken, async (req: Request, res: Response) => {
+  // Get current user endpoint
+  app.get("/api/auth/me", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const organizationId = parseInt(req.params.id);
-      const ports = await storage.getPortsByOrganizationId(organizationId);
-      res.json(ports);
-    } catch (error) {
-      console.error("Get ports error:", error);
-      res.status(500).json({ message: "Internal server error" });
-    }
-  });
+      const user = req.user;
+      let userWithPermissions = { ...user };
 
-  app.post("/api/ports", authenticateToken, async (req: Request, res: Response) => {
+      // If user has a role, fetch the role permissions
+      if (user.role) {
+        const role = await storage.getRoleByName(user.role);
+        if (role && role.permissions) {
+          userWithPermissions.rolePermissions = role.permissions;
+        }
+      }
+
+      res.json({ user: userWithPermissions });
+    } catch (error) {
+      console.error("Get user me error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // List the current user's active sessions
+  app.get("/api/auth/sessions", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const portData = insertPortSchema.parse(req.body);
-      const port = await storage.createPort(portData);
-      res.status(201).json(port);
+      const sessions = await storage.getUserSessions(req.user.id);
+      res.json(sessions.map(session => toSessionInfo(session, req.session?.id)));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sign out one of the current user's sessions
+  app.delete("/api/auth/sessions/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const session = await storage.getSessionById(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.deleteSessionById(session.id);
+      await AuditService.logSessionRevoked(req.user.id, req.user.id, session.id, req.ip, req.get('User-Agent'));
+
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Password rules for password forms; public so the setup and reset pages can show them
+  app.get("/api/auth/password-policy", async (req: Request, res: Response) => {
+    try {
+      const policy = await storage.getPasswordPolicy();
+      res.json(PasswordPolicyService.toRules(policy));
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Change the current user's password
+  app.post("/api/auth/change-password", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !user.password || !(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const policyErrors = await PasswordPolicyService.validateNewPassword(newPassword, user);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({ message: policyErrors[0], errors: policyErrors });
+      }
+
+      const passwordUpdate = await PasswordPolicyService.preparePasswordUpdate(user, newPassword);
+      await storage.updateUser(user.id, passwordUpdate as any);
+
+      await AuditService.logPasswordChange(user.id, req.ip, req.get('User-Agent'));
+
+      res.json({ message: "Password changed successfully" });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -320,236 +752,595 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
-      console.error("Create port error:", error);
+      console.error("Change password error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Object storage endpoints - Fallback system
-  app.get("/objects/:objectPath(*)", async (req: Request, res: Response) => {
-    // For our fallback system, redirect to the file serving endpoint if it matches our pattern
-    const objectPath = req.params.objectPath;
-    
-    // Check if this looks like our uploaded file pattern
-    if (objectPath.startsWith('uploads/')) {
-      const uploadId = objectPath.replace('uploads/', '');
-      return res.redirect(`/api/objects/file/${uploadId}`);
-    }
-    
-    // Otherwise return 404
-    return res.status(404).json({ error: "File not found" });
-  });
-
-  app.post("/api/objects/upload", authenticateToken, async (req: Request, res: Response) => {
+  // Refresh token endpoint
+  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
     try {
-      // For now, return a simple success response - the actual upload will be handled differently
-      const uploadId = randomUUID();
-      res.json({ 
-        uploadURL: `/api/objects/direct-upload/${uploadId}`,
-        uploadId: uploadId
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1];
+
+      if (!token) {
+        return res.status(401).json({ message: "Token required" });
+      }
+
+      const session = await storage.getSessionByToken(token);
+      if (!session) {
+        return res.status(401).json({ message: "Invalid or expired token" });
+      }
+
+      if (isSessionIdle(session)) {
+        await storage.deleteSessionById(session.id);
+        return res.status(401).json({ message: "Session expired due to inactivity" });
+      }
+
+      // Create new session, keeping the original sign-in details
+      const newSession = await storage.createSession(session.userId, session.rememberMe, {
+        ipAddress: session.ipAddress || undefined,
+        userAgent: session.userAgent || undefined,
+        createdAt: session.createdAt,
+      });
+      
+      // Delete old session
+      await storage.deleteSession(token);
+
+      res.json({
+        token: newSession.token,
+        expiresAt: newSession.expiresAt,
       });
     } catch (error) {
-      console.error("Error getting upload URL:", error);
-      res.status(500).json({ error: "Failed to get upload URL" });
+      console.error("Token refresh error:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Simple file storage in memory for demo
-  const uploadedFiles = new Map<string, { data: string; filename: string; contentType: string }>();
+  // Single sign-on endpoints
+  const getSsoRedirectUri = (req: Request, organizationId: number) =>
+    `${req.protocol}://${req.get('host')}/api/auth/sso/${organizationId}/callback`;
+
+  // The IdP redirects the browser here, so failures are reported back to the login page
+  const redirectWithSsoError = (res: Response, message: string) =>
+    res.redirect(`/login?ssoError=${encodeURIComponent(message)}`);
 
-  // Direct upload endpoint for file uploads
-  app.put("/api/objects/direct-upload/:uploadId", authenticateToken, async (req: Request, res: Response) => {
+  // Organizations offering single sign-on on the login page
+  app.get("/api/auth/sso/providers", async (req: Request, res: Response) => {
     try {
-      const uploadId = req.params.uploadId;
-      const { data, filename, contentType } = req.body;
-      
-      // Store the file data in memory
-      uploadedFiles.set(uploadId, { data, filename, contentType });
-      
-      const objectPath = `/api/objects/file/${uploadId}`;
-      
-      res.status(200).json({ 
-        success: true,
-        objectPath: objectPath
-      });
+      const configs = await storage.getEnabledSsoConfigs();
+      const providers = [];
+      for (const config of configs) {
+        const organization = await storage.getOrganizationById(config.organizationId);
+        if (organization?.isActive) {
+          providers.push({ organizationId: organization.id, displayName: organization.displayName });
+        }
+      }
+      res.json(providers);
     } catch (error) {
-      console.error("Error uploading file:", error);
-      res.status(500).json({ error: "Failed to upload file" });
+      console.error("Get SSO providers error:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Serve uploaded files
-  app.get("/api/objects/file/:uploadId", async (req: Request, res: Response) => {
+  app.get("/api/auth/sso/:organizationId/login", async (req: Request, res: Response) => {
     try {
-      const uploadId = req.params.uploadId;
-      const fileData = uploadedFiles.get(uploadId);
-      
-      if (!fileData) {
-        return res.status(404).json({ error: "File not found" });
+      const organizationId = parseInt(req.params.organizationId);
+      const config = await storage.getSsoConfigByOrganizationId(organizationId);
+      if (!config?.isEnabled) {
+        return redirectWithSsoError(res, "Single sign-on is not enabled for this organization");
       }
-      
-      // Convert base64 back to binary and serve
-      const base64Data = fileData.data.split(',')[1]; // Remove data:image/jpeg;base64, prefix
-      const buffer = Buffer.from(base64Data, 'base64');
-      
-      res.set({
-        'Content-Type': fileData.contentType,
-        'Content-Length': buffer.length,
-        'Cache-Control': 'public, max-age=3600'
-      });
-      
-      res.send(buffer);
+
+      const authorizationUrl = await SsoService.startLogin(config, getSsoRedirectUri(req, organizationId));
+      res.redirect(authorizationUrl.href);
     } catch (error) {
-      console.error("Error serving file:", error);
-      res.status(500).json({ error: "Error serving file" });
+      console.error("SSO login error:", error);
+      redirectWithSsoError(res, "Unable to reach your organization's identity provider");
     }
   });
 
-  // Update organization logo endpoint - Completely rewritten to avoid any Google Cloud Storage
-  app.put("/api/organizations/:id/logo", authenticateToken, async (req: Request, res: Response) => {
-    console.log("Logo update endpoint called with:", req.body);
-    
-    if (!req.body.logoUrl) {
-      return res.status(400).json({ error: "logoUrl is required" });
-    }
+  // Find the user by IdP subject, link an existing account by email, or provision a new one
+  app.get("/api/auth/sso/:organizationId/callback", async (req: Request, res: Response) => {
+    try {
+      const organizationId = parseInt(req.params.organizationId);
+      const ipAddress = req.ip;
+      const userAgent = req.get('User-Agent');
 
-    const organizationId = parseInt(req.params.id);
+      const config = await storage.getSsoConfigByOrganizationId(organizationId);
+      if (!config?.isEnabled) {
+        return redirectWithSsoError(res, "Single sign-on is not enabled for this organization");
+      }
 
-    try {
-      console.log("Updating organization", organizationId, "with logo URL:", req.body.logoUrl);
-      
-      // Simple direct update - no Google Cloud Storage involved
-      const logoUrl = req.body.logoUrl;
+      const identity = await SsoService.completeLogin(config, new URL(req.originalUrl, getSsoRedirectUri(req, organizationId)));
+      const mappings = await storage.getSsoRoleMappings(organizationId);
+      const mappedRoleId = SsoService.resolveRoleId(identity.groups, mappings);
 
-      // Get organization first
-      const org = await storage.getOrganizationById(organizationId);
-      if (!org) {
-        console.log("Organization not found:", organizationId);
-        return res.status(404).json({ error: "Organization not found" });
+      let user = await storage.getUserBySsoSubject(organizationId, identity.subject);
+
+      // Only accounts already belonging to this organization may be linked, and only when the IdP has verified
+      // the email address; SystemAdmins keep password login
+      if (!user && identity.email) {
+        const existingUser = await storage.getUserByEmail(identity.email);
+        if (existingUser) {
+          if (!identity.emailVerified) {
+            return redirectWithSsoError(res, "Your identity provider has not verified your email address, so it cannot be linked to your Portray account");
+          }
+          if (isSystemAdmin(existingUser) || existingUser.ssoOrganizationId || await getUserOrganizationId(existingUser) !== organizationId) {
+            return redirectWithSsoError(res, "This account cannot sign in through your organization's identity provider");
+          }
+          user = await storage.linkUserSsoIdentity(existingUser.id, organizationId, identity.subject);
+          await AuditService.logSsoLogin(existingUser.id, "sso_linked", organizationId, identity.subject, ipAddress, userAgent);
+        }
       }
 
-      console.log("Found organization:", org.organizationName);
+      if (!user) {
+        const roleId = mappedRoleId ?? config.defaultRoleId;
+        const role = roleId ? await storage.getRoleById(roleId) : undefined;
+        if (!config.autoProvision || !identity.email || !identity.emailVerified || !role || isSystemAdmin({ role: role.name })) {
+          return redirectWithSsoError(res, "No Portray account is set up for you. Please contact your administrator.");
+        }
 
-      // Simple direct database update - only update logoUrl field to avoid ID issues
-      console.log("Directly updating only logoUrl field");
-      const updated = await storage.updateOrganizationLogo(organizationId, logoUrl);
+        const createdUser = await storage.createUser({
+          userType: "PortUser",
+          email: identity.email,
+          firstName: identity.firstName || identity.email.split("@")[0],
+          lastName: identity.lastName || "",
+          role: role.name,
+          roleId: role.id,
+          portId: config.defaultPortId,
+          isActive: true,
+        });
+        await storage.updateUser(createdUser.id, { isVerified: true });
+        user = await storage.linkUserSsoIdentity(createdUser.id, organizationId, identity.subject);
+        await AuditService.logSsoLogin(createdUser.id, "sso_provisioned", organizationId, identity.subject, ipAddress, userAgent);
+      } else if (mappedRoleId && mappedRoleId !== user.roleId) {
+        // IdP group membership decides the role whenever one of the mappings matches
+        const role = await storage.getRoleById(mappedRoleId);
+        if (role && !isSystemAdmin({ role: role.name })) {
+          await AuditService.logUserRoleChange(user.id, user.id, user.role, role.name, ipAddress, userAgent);
+          user = await storage.updateUser(user.id, { roleId: role.id, role: role.name });
+        }
+      }
 
-      console.log("Successfully updated organization logo");
+      if (!user || !user.isActive) {
+        return redirectWithSsoError(res, "Your account is inactive. Please contact your administrator.");
+      }
 
-      res.status(200).json({
-        success: true,
-        objectPath: logoUrl,
-        organization: updated
-      });
+      res.redirect(`/login?ssoCode=${SsoService.createExchangeCode(user.id)}`);
     } catch (error) {
-      console.error("Logo update error (no Google Cloud Storage involved):", error);
-      res.status(500).json({ error: "Failed to update organization logo" });
+      if (error instanceof SsoError) {
+        return redirectWithSsoError(res, error.message);
+      }
+      console.error("SSO callback error:", error);
+      redirectWithSsoError(res, "Single sign-on failed. Please try again.");
     }
   });
 
-  app.get("/public-objects/:filePath(*)", async (req: Request, res: Response) => {
-    // For our fallback system, we don't have public objects in the same way
-    // Return 404 since we're using direct file serving now
-    return res.status(404).json({ error: "File not found - use direct file URLs" });
-  });
-
-  // Port endpoints
-  app.get("/api/ports", authenticateToken, async (req: Request, res: Response) => {
+  // Swap the one-time code from the SSO callback for a session, as the password login would
+  app.post("/api/auth/sso/exchange", async (req: Request, res: Response) => {
     try {
-      const ports = await storage.getAllPorts();
-      res.json(ports);
+      const { code } = ssoExchangeSchema.parse(req.body);
+      const userId = SsoService.consumeExchangeCode(code);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: "Sign-in code expired. Please try again." });
+      }
+
+      if (user.twoFactorEnabled) {
+        const challenge = await storage.createTwoFactorChallenge(user.id, false);
+        return res.json({
+          twoFactorRequired: true,
+          challengeToken: challenge.token,
+          expiresAt: challenge.expiresAt
+        });
+      }
+
+      return res.json(await completeLogin(user, false, getSessionMetadata(req)));
     } catch (error) {
-      console.error("Get ports error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      console.error("SSO exchange error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/ports/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Public view of an organization's SSO configuration; the client secret is never returned
+  const toSsoConfigInfo = (config: OrganizationSsoConfig, mappings: SsoRoleMapping[]) => {
+    const { clientSecret, ...rest } = config;
+    return {
+      ...rest,
+      hasClientSecret: !!clientSecret,
+      roleMappings: mappings.map(({ groupName, roleId }) => ({ groupName, roleId })),
+    };
+  };
+
+  app.get("/api/organizations/:id/sso", authenticateToken, checkApiPermission("organizations"), async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const port = await storage.getPortById(id);
-      
-      if (!port) {
-        return res.status(404).json({ message: "Port not found" });
+      const organizationId = parseInt(req.params.id);
+      const organization = await storage.getOrganizationById(organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
-      
-      res.json(port);
+
+      const config = await storage.getSsoConfigByOrganizationId(organizationId);
+      if (!config) {
+        return res.json(null);
+      }
+      res.json(toSsoConfigInfo(config, await storage.getSsoRoleMappings(organizationId)));
     } catch (error) {
-      console.error("Get port error:", error);
+      console.error("Get SSO configuration error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/ports", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/organizations/:id/sso", authenticateToken, checkApiPermission("organizations", "manage"), async (req: Request, res: Response) => {
     try {
-      const result = insertPortSchema.safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({
+      const organizationId = parseInt(req.params.id);
+      const { roleMappings, clientSecret, ...configData } = updateSsoConfigSchema.parse(req.body);
+
+      const organization = await storage.getOrganizationById(organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (configData.defaultPortId) {
+        const port = await storage.getPortById(configData.defaultPortId);
+        if (!port || port.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Default port must belong to this organization" });
+        }
+      }
+
+      // Sign-in through the IdP can never grant system administration, nor more than the editor holds
+      const roleIds = [configData.defaultRoleId, ...(roleMappings || []).map(mapping => mapping.roleId)];
+      for (const roleId of roleIds) {
+        if (!roleId) continue;
+        const role = await storage.getRoleById(roleId);
+        if (!role) {
+          return res.status(400).json({ message: `Role ${roleId} not found` });
+        }
+        if (isSystemAdmin({ role: role.name })) {
+          return res.status(400).json({ message: `Role ${role.displayName} cannot be assigned through single sign-on` });
+        }
+        const unheldPermission = findUnheldPermission(req.user, role.permissions || []);
+        if (unheldPermission) {
+          return res.status(403).json({ message: `You cannot map role ${role.displayName}, which grants a permission you do not have: ${unheldPermission}` });
+        }
+      }
+
+      // A blank secret keeps the stored one so it does not have to be re-entered on every save
+      const config = await storage.upsertSsoConfig(
+        organizationId,
+        clientSecret ? { ...configData, clientSecret } : configData,
+        req.user.id
+      );
+      const mappings = roleMappings
+        ? await storage.replaceSsoRoleMappings(organizationId, roleMappings)
+        : await storage.getSsoRoleMappings(organizationId);
+
+      res.json(toSsoConfigInfo(config, mappings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
           message: "Validation error",
-          errors: result.error.errors
+          errors: error.errors 
         });
       }
-      
-      const port = await storage.createPort(result.data);
-      res.status(201).json(port);
-    } catch (error) {
-      console.error("Create port error:", error);
+      console.error("Update SSO configuration error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.put("/api/ports/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Organization endpoints
+  app.get("/api/organizations", authenticateToken, checkApiPermission("organizations"), async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const port = await storage.updatePort(id, req.body);
-      
-      if (!port) {
-        return res.status(404).json({ message: "Port not found" });
-      }
-      
-      res.json(port);
+      const organizations = await storage.getAllOrganizations();
+      console.log("Organizations from database:", JSON.stringify(organizations, null, 2));
+      res.json(organizations);
     } catch (error) {
-      console.error("Update port error:", error);
+      console.error("Get organizations error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/ports/:id/toggle-status", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/organizations/:id", authenticateToken, checkApiPermission("organizations"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const port = await storage.togglePortStatus(id);
+      const organization = await storage.getOrganizationById(id);
       
-      if (!port) {
-        return res.status(404).json({ message: "Port not found" });
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
       
-      res.json(port);
+      res.json(organization);
     } catch (error) {
-      console.error("Toggle port status error:", error);
+      console.error("Get organization error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Port Admin Contact endpoints
-  app.get("/api/ports/:portId/contacts", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/organizations", authenticateToken, checkApiPermission("organizations", "write"), async (req: Request, res: Response) => {
     try {
-      const portId = parseInt(req.params.portId);
-      const contacts = await storage.getPortAdminContactsByPortId(portId);
-      res.json(contacts);
+      const organizationData = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(organizationData);
+      res.status(201).json(organization);
     } catch (error) {
-      console.error("Get port admin contacts error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Create organization error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/ports/:portId/contacts", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/organizations/:id", authenticateToken, checkApiPermission("organizations", "write"), async (req: Request, res: Response) => {
     try {
-      const portId = parseInt(req.params.portId);
-      const contactData = insertPortAdminContactSchema.parse({ ...req.body, portId });
+      const id = parseInt(req.params.id);
+      const updates = insertOrganizationSchema.partial().parse(req.body);
       
-      // Check if email already exists among active contacts
-      const existingContact = await storage.getPortAdminContactByEmail(contactData.email);
+      const organization = await storage.updateOrganization(id, updates);
+      
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Update organization error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/organizations/:id/toggle-status", authenticateToken, checkApiPermission("organizations", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const organization = await storage.toggleOrganizationStatus(id);
+      
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      res.json(organization);
+    } catch (error) {
+      console.error("Toggle organization status error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Port endpoints
+  app.get("/api/organizations/:id/ports", authenticateToken, checkApiPermission("ports"), async (req: Request, res: Response) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const ports = await storage.getPortsByOrganizationId(organizationId);
+      res.json(ports);
+    } catch (error) {
+      console.error("Get ports error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/ports", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
+    try {
+      const portData = insertPortSchema.parse(req.body);
+      const port = await storage.createPort(portData);
+      res.status(201).json(port);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Create port error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update organization logo endpoint - Completely rewritten to avoid any Google Cloud Storage
+  app.put("/api/organizations/:id/logo", authenticateToken, checkApiPermission("organizations", "write"), async (req: Request, res: Response) => {
+    console.log("Logo update endpoint called with:", req.body);
+    
+    if (!req.body.logoUrl) {
+      return res.status(400).json({ error: "logoUrl is required" });
+    }
+
+    const organizationId = parseInt(req.params.id);
+
+    try {
+      console.log("Updating organization", organizationId, "with logo URL:", req.body.logoUrl);
+      
+      // Simple direct update - no Google Cloud Storage involved
+      const logoUrl = req.body.logoUrl;
+
+      // Get organization first
+      const org = await storage.getOrganizationById(organizationId);
+      if (!org) {
+        console.log("Organization not found:", organizationId);
+        return res.status(404).json({ error: "Organization not found" });
+      }
+
+      console.log("Found organization:", org.organizationName);
+
+      // Simple direct database update - only update logoUrl field to avoid ID issues
+      console.log("Directly updating only logoUrl field");
+      const updated = await storage.updateOrganizationLogo(organizationId, logoUrl);
+
+      console.log("Successfully updated organization logo");
+
+      res.status(200).json({
+        success: true,
+        objectPath: logoUrl,
+        organization: updated
+      });
+    } catch (error) {
+      console.error("Logo update error (no Google Cloud Storage involved):", error);
+      res.status(500).json({ error: "Failed to update organization logo" });
+    }
+  });
+
+  app.get("/public-objects/:filePath(*)", async (req: Request, res: Response) => {
+    // For our fallback system, we don't have public objects in the same way
+    // Return 404 since we're using direct file serving now
+    return res.status(404).json({ error: "File not found - use direct file URLs" });
+  });
+
+  // Port endpoints
+  app.get("/api/ports", authenticateToken, checkAnyPermission([API_PERMISSIONS.ports, API_PERMISSIONS.terminals, API_PERMISSIONS.users]), async (req: Request, res: Response) => {
+    try {
+      const ports = await storage.getAllPorts();
+      res.json(ports);
+    } catch (error) {
+      console.error("Get ports error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/ports/:id", authenticateToken, checkAnyPermission([API_PERMISSIONS.ports, API_PERMISSIONS.terminals, API_PERMISSIONS.users]), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const port = await storage.getPortById(id);
+      
+      if (!port) {
+        return res.status(404).json({ message: "Port not found" });
+      }
+      
+      res.json(port);
+    } catch (error) {
+      console.error("Get port error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/ports", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
+    try {
+      if (req.body.contractApprovalChain !== undefined) {
+        req.body.contractApprovalChain = await ContractApprovalService.serializeChain(req.body.contractApprovalChain);
+      }
+      const result = insertPortSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: result.error.errors
+        });
+      }
+      
+      const port = await storage.createPort(result.data);
+      res.status(201).json(port);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Create port error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/ports/:id", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (req.body.customerCodeTemplate !== undefined) {
+        const result = customerCodeTemplateSchema.safeParse(req.body.customerCodeTemplate);
+        if (!result.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: result.error.errors
+          });
+        }
+        req.body.customerCodeTemplate = result.data;
+      }
+
+      if (req.body.contractExpiryReminderDays !== undefined) {
+        const result = contractExpiryReminderDaysSchema.nullable().safeParse(req.body.contractExpiryReminderDays);
+        if (!result.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: result.error.errors
+          });
+        }
+        req.body.contractExpiryReminderDays = result.data;
+      }
+
+      if (req.body.contractApprovalChain !== undefined) {
+        req.body.contractApprovalChain = await ContractApprovalService.serializeChain(req.body.contractApprovalChain);
+      }
+
+      const port = await storage.updatePort(id, req.body);
+      
+      if (!port) {
+        return res.status(404).json({ message: "Port not found" });
+      }
+      
+      res.json(port);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Update port error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/ports/:id/toggle-status", authenticateToken, checkApiPermission("ports", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const port = await storage.togglePortStatus(id);
+      
+      if (!port) {
+        return res.status(404).json({ message: "Port not found" });
+      }
+      
+      res.json(port);
+    } catch (error) {
+      console.error("Toggle port status error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Port Admin Contact endpoints
+  app.get("/api/ports/:portId/contacts", authenticateToken, checkApiPermission("ports"), async (req: Request, res: Response) => {
+    try {
+      const portId = parseInt(req.params.portId);
+      const contacts = await storage.getPortAdminContactsByPortId(portId);
+      res.json(contacts);
+    } catch (error) {
+      console.error("Get port admin contacts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/ports/:portId/contacts", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
+    try {
+      const portId = parseInt(req.params.portId);
+      const contactData = insertPortAdminContactSchema.parse({ ...req.body, portId });
+      
+      // Check if email already exists among active contacts
+      const existingContact = await storage.getPortAdminContactByEmail(contactData.email);
       if (existingContact) {
         return res.status(400).json({ message: "Email already exists" });
       }
@@ -602,7 +1393,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/contacts/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/contacts/:id", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const updates = updatePortAdminContactSchema.parse(req.body);
@@ -626,7 +1417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/contacts/:id/toggle-status", authenticateToken, async (req: Request, res: Response) => {
+  app.patch("/api/contacts/:id/toggle-status", authenticateToken, checkApiPermission("ports", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const contact = await storage.togglePortAdminContactStatus(id);
@@ -642,7 +1433,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contacts/:id/resend-verification", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contacts/:id/resend-verification", authenticateToken, checkApiPermission("ports", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const contact = await storage.getPortAdminContactById(id);
@@ -689,7 +1480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/contacts/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/contacts/:id", authenticateToken, checkApiPermission("ports", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const contact = await storage.getPortAdminContactById(id);
@@ -707,7 +1498,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all port admin contacts (for validation purposes)
-  app.get("/api/contacts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contacts", authenticateToken, checkApiPermission("ports"), async (req: Request, res: Response) => {
     try {
       const contacts = await storage.getAllPortAdminContacts();
       res.json(contacts);
@@ -889,14 +1680,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(400).json({ message: "Invalid user ID" });
       }
+
+      const policyErrors = await PasswordPolicyService.validateNewPassword(password, user);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({ message: policyErrors[0], errors: policyErrors });
+      }
       
       // Update user with real password and activate account
-      const hashedPassword = await bcrypt.hash(password, 10);
+      const passwordUpdate = await PasswordPolicyService.preparePasswordUpdate(user, password);
       const updatedUser = await storage.updateUser(userId, {
-        password: hashedPassword,
+        ...passwordUpdate,
         isActive: true,
         lastLogin: new Date()
-      });
+      } as any);
       
       if (!updatedUser) {
         return res.status(500).json({ message: "Failed to update password" });
@@ -911,14 +1707,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create session for the user
-      const session = await storage.createSession(user.id);
+      const session = await storage.createSession(user.id, false, getSessionMetadata(req));
       
       console.log(`Password setup completed for user ${user.email}`);
       res.json({
-        user: { ...updatedUser, password: undefined },
+        user: { ...updatedUser, password: undefined, twoFactorSecret: undefined, twoFactorRecoveryCodes: undefined },
         token: session.token,
         message: "Password setup successful",
-        redirectPath: updatedUser.role === "PortAdmin" ? "/port-admin-dashboard" : "/dashboard"
+        redirectPath: updatedUser.role === "PortAdmin" ? "/port-admin-dashboard" : updatedUser.userType === "Customer" ? "/customer-portal" : "/dashboard"
       });
     } catch (error) {
       console.error("Setup password error:", error);
@@ -926,36 +1722,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Email Configuration endpoints
-  app.get("/api/configuration/email", authenticateToken, async (req: Request, res: Response) => {
+  // Password policy configuration endpoints
+  app.get("/api/configuration/password-policy", authenticateToken, checkApiPermission("passwordPolicy"), async (req: Request, res: Response) => {
     try {
-      const configs = await storage.getAllEmailConfigurations();
-      
-      // Don't send sensitive passwords in response
-      const safeConfigs = configs.map(config => ({
-        ...config,
-        smtpPassword: config.smtpPassword ? '***masked***' : ''
-      }));
-      
-      res.json(safeConfigs);
+      const policy = await storage.getPasswordPolicy();
+      res.json(policy);
     } catch (error) {
-      console.error("Get email configurations error:", error);
+      console.error("Get password policy configuration error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/configuration/email", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/configuration/password-policy", authenticateToken, checkApiPermission("passwordPolicy", "write"), async (req: Request, res: Response) => {
     try {
-      const configData = insertEmailConfigurationSchema.parse(req.body);
-      const config = await storage.createEmailConfiguration(configData);
-      
-      // Don't send sensitive password in response
-      const safeConfig = {
-        ...config,
-        smtpPassword: config.smtpPassword ? '***masked***' : ''
-      };
-      
-      res.status(201).json(safeConfig);
+      const updates = updatePasswordPolicySchema.parse(req.body);
+      const policy = await storage.updatePasswordPolicy(updates, req.user.id);
+      res.json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -963,18 +1745,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
-      console.error("Create email configuration error:", error);
+      console.error("Update password policy error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/configuration/email/test", authenticateToken, async (req: Request, res: Response) => {
-    try {
-      const { configId, testEmail } = req.body;
-      
-      if (!configId || !testEmail) {
-        return res.status(400).json({ message: "Configuration ID and test email are required" });
-      }
+  // API key endpoints
+  // Public view of an API key; only the prefix of the key is ever returned after creation
+  const toApiKeyInfo = ({ keyHash, ...apiKey }: ApiKey) => apiKey;
+
+  // Keys belong to a port; users scoped to a port only see and manage that port's keys
+  const canAccessApiKeyPort = (user: any, portId: number) => !user.dataScope || user.dataScope.portId === portId;
+
+  app.get("/api/configuration/api-keys", authenticateToken, checkApiPermission("apiKeys"), async (req: Request, res: Response) => {
+    try {
+      const apiKeys = await storage.getApiKeys(req.user.dataScope?.portId);
+      res.json(apiKeys.filter(apiKey => canAccessApiKeyPort(req.user, apiKey.portId)).map(toApiKeyInfo));
+    } catch (error) {
+      console.error("Get API keys error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/configuration/api-keys", authenticateToken, checkApiPermission("apiKeys", "manage"), async (req: Request, res: Response) => {
+    try {
+      const apiKeyData = insertApiKeySchema.parse(req.body);
+
+      const port = await storage.getPortById(apiKeyData.portId);
+      if (!port || !canAccessApiKeyPort(req.user, port.id)) {
+        return res.status(400).json({ message: "Port not found" });
+      }
+
+      // A key can never be granted more than its creator holds
+      const unheldPermission = findUnheldPermission(req.user, apiKeyData.permissions);
+      if (unheldPermission) {
+        return res.status(403).json({ message: `You cannot grant a permission you do not have: ${unheldPermission}` });
+      }
+
+      const { key, ...apiKey } = await storage.createApiKey(apiKeyData, req.user.id);
+      await AuditService.logApiKeyChange(apiKey.id, "created", req.user.id, req.ip, req.get('User-Agent'));
+
+      // The key is only returned here; it cannot be recovered later
+      res.status(201).json({ ...toApiKeyInfo(apiKey), key });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Create API key error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/configuration/api-keys/:id/revoke", authenticateToken, checkApiPermission("apiKeys", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getApiKeyById(id);
+      if (!existing || !canAccessApiKeyPort(req.user, existing.portId)) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      if (!existing.isActive) {
+        return res.status(400).json({ message: "API key is already revoked" });
+      }
+
+      const apiKey = await storage.revokeApiKey(id);
+      await AuditService.logApiKeyChange(id, "revoked", req.user.id, req.ip, req.get('User-Agent'));
+      res.json(toApiKeyInfo(apiKey!));
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/configuration/api-keys/:id/audit-logs", authenticateToken, checkApiPermission("apiKeys"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const apiKey = await storage.getApiKeyById(id);
+      if (!apiKey || !canAccessApiKeyPort(req.user, apiKey.portId)) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      res.json(await storage.getApiKeyAuditLogs(id, limit));
+    } catch (error) {
+      console.error("Get API key audit logs error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Email Configuration endpoints
+  app.get("/api/configuration/email", authenticateToken, checkApiPermission("emailConfiguration"), async (req: Request, res: Response) => {
+    try {
+      const configs = await storage.getAllEmailConfigurations();
+      
+      // Don't send sensitive passwords in response
+      const safeConfigs = configs.map(config => ({
+        ...config,
+        smtpPassword: config.smtpPassword ? '***masked***' : ''
+      }));
+      
+      res.json(safeConfigs);
+    } catch (error) {
+      console.error("Get email configurations error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/configuration/email", authenticateToken, checkApiPermission("emailConfiguration", "write"), async (req: Request, res: Response) => {
+    try {
+      const configData = insertEmailConfigurationSchema.parse(req.body);
+      const config = await storage.createEmailConfiguration(configData);
+      
+      // Don't send sensitive password in response
+      const safeConfig = {
+        ...config,
+        smtpPassword: config.smtpPassword ? '***masked***' : ''
+      };
+      
+      res.status(201).json(safeConfig);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Create email configuration error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/configuration/email/test", authenticateToken, checkApiPermission("emailConfiguration", "write"), async (req: Request, res: Response) => {
+    try {
+      const { configId, testEmail } = req.body;
+      
+      if (!configId || !testEmail) {
+        return res.status(400).json({ message: "Configuration ID and test email are required" });
+      }
 
       const config = await storage.getEmailConfigurationById(configId);
       if (!config) {
@@ -1005,7 +1914,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/configuration/email/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/configuration/email/:id", authenticateToken, checkApiPermission("emailConfiguration", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const updates = updateEmailConfigurationSchema.parse(req.body);
@@ -1034,7 +1943,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/configuration/email/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/configuration/email/:id", authenticateToken, checkApiPermission("emailConfiguration", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteEmailConfiguration(id);
@@ -1046,7 +1955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Email logs endpoints
-  app.get("/api/email-logs", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/email-logs", authenticateToken, checkApiPermission("emailConfiguration"), async (req: Request, res: Response) => {
     try {
       const { configId, portId } = req.query;
       
@@ -1067,7 +1976,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User Audit Log endpoints
-  app.get("/api/user-audit-logs", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/user-audit-logs", authenticateToken, checkApiPermission("users"), async (req: Request, res: Response) => {
     try {
       const { userId, performedBy } = req.query;
       
@@ -1113,6 +2022,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not authenticated" });
       }
 
+      // Listing by type or parent is for menu management; the unfiltered call builds the user's own navigation
+      if ((menuType || parentId !== undefined) && !userHasPermission(user, API_PERMISSIONS.menus.section)) {
+        return res.status(403).json({ message: `Access denied. Required permission: ${API_PERMISSIONS.menus.section}:read` });
+      }
+
       // If user is system admin, return all menus
       if (isSystemAdmin(user)) {
         return res.json(menus);
@@ -1171,7 +2085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/menus/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/menus/:id", authenticateToken, checkApiPermission("menus"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const menu = await storage.getMenuById(id);
@@ -1188,13 +2102,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Seed default menus endpoint
-  app.post("/api/menus/seed-defaults", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/menus/seed-defaults", authenticateToken, checkApiPermission("menus", "manage"), async (req: Request, res: Response) => {
     try {
       const defaultGlinkMenus = [
         { name: "dashboard", label: "Dashboard", icon: "Home", route: "/dashboard", sortOrder: 1, menuType: "glink", parentId: null, isActive: true },
         { name: "users-access", label: "Users & Access", icon: "Users", route: null, sortOrder: 2, menuType: "glink", parentId: null, isActive: true },
         { name: "configuration", label: "Configuration", icon: "Settings", route: null, sortOrder: 3, menuType: "glink", parentId: null, isActive: true },
         { name: "menu-management", label: "Menu Management", icon: "Menu", route: "/menu-management", sortOrder: 4, menuType: "glink", parentId: null, isActive: true },
+        { name: "customers", label: "Customers", icon: "Building", route: "/customers", sortOrder: 5, menuType: "glink", parentId: null, isActive: true },
+        { name: "contracts", label: "Contracts", icon: "FileText", route: "/contracts", sortOrder: 6, menuType: "glink", parentId: null, isActive: true },
       ];
 
       const createdMenus = [];
@@ -1224,7 +2140,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { name: "glink", label: "GLink", icon: "Link", route: "/users-access/glink", sortOrder: 1, menuType: "plink", parentId: usersAccessMenu.id, isActive: true },
           { name: "plink", label: "PLink", icon: "Link", route: "/users-access/plink", sortOrder: 2, menuType: "plink", parentId: usersAccessMenu.id, isActive: true },
           { name: "roles", label: "Roles", icon: "Shield", route: "/users-access/roles", sortOrder: 3, menuType: "plink", parentId: usersAccessMenu.id, isActive: true },
-          { name: "groups", label: "Groups", icon: "UserCheck", route: "/users-access/groups", sortOrder: 4, menuType: "plink", parentId: usersAccessMenu.id, isActive: true }
+          { name: "groups", label: "Groups", icon: "UserCheck", route: "/users-access/groups", sortOrder: 4, menuType: "plink", parentId: usersAccessMenu.id, isActive: true },
+          { name: "users", label: "Users", icon: "Users", route: "/users", sortOrder: 5, menuType: "plink", parentId: usersAccessMenu.id, isActive: true }
         );
       }
 
@@ -1232,7 +2149,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         defaultPlinkMenus.push(
           { name: "organization", label: "Organizations", icon: "Building2", route: "/organizations", sortOrder: 1, menuType: "plink", parentId: configurationMenu.id, isActive: true },
           { name: "ports", label: "Ports", icon: "Ship", route: "/ports", sortOrder: 2, menuType: "plink", parentId: configurationMenu.id, isActive: true },
-          { name: "terminal-activation", label: "Terminal Activation", icon: "CheckCircle", route: "/terminal-activation", sortOrder: 3, menuType: "plink", parentId: configurationMenu.id, isActive: true }
+          { name: "terminal-activation", label: "Terminal Activation", icon: "CheckCircle", route: "/terminal-activation", sortOrder: 3, menuType: "plink", parentId: configurationMenu.id, isActive: true },
+          { name: "terminals", label: "Terminals", icon: "Anchor", route: "/terminals", sortOrder: 4, menuType: "plink", parentId: configurationMenu.id, isActive: true },
+          { name: "email-configuration", label: "Email Configuration", icon: "Mail", route: "/configuration/email", sortOrder: 5, menuType: "plink", parentId: configurationMenu.id, isActive: true },
+          { name: "database-backup", label: "Database Backup", icon: "Database", route: "/configuration/database-backup", sortOrder: 6, menuType: "plink", parentId: configurationMenu.id, isActive: true },
+          { name: "password-policy", label: "Password Policy", icon: "KeyRound", route: "/configuration/password-policy", sortOrder: 7, menuType: "plink", parentId: configurationMenu.id, isActive: true },
+          { name: "api-keys", label: "API Keys", icon: "Key", route: "/configuration/api-keys", sortOrder: 8, menuType: "plink", parentId: configurationMenu.id, isActive: true }
         );
       }
 
@@ -1256,7 +2178,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/menus", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/menus", authenticateToken, checkApiPermission("menus", "write"), async (req: Request, res: Response) => {
     try {
       const menuData = insertMenuSchema.parse(req.body);
       const menu = await storage.createMenu(menuData);
@@ -1273,7 +2195,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/menus/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/menus/:id", authenticateToken, checkApiPermission("menus", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const updates = updateMenuSchema.parse(req.body);
@@ -1296,7 +2218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/menus/:id/toggle-status", authenticateToken, async (req: Request, res: Response) => {
+  app.patch("/api/menus/:id/toggle-status", authenticateToken, checkApiPermission("menus", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const menu = await storage.toggleMenuStatus(id);
@@ -1313,7 +2235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk update menu order endpoint
-  app.patch("/api/menus/bulk-update-order", authenticateToken, async (req: Request, res: Response) => {
+  app.patch("/api/menus/bulk-update-order", authenticateToken, checkApiPermission("menus", "write"), async (req: Request, res: Response) => {
     try {
       const { updates } = req.body;
       
@@ -1361,7 +2283,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/menus/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/menus/:id", authenticateToken, checkApiPermission("menus", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteMenu(id);
@@ -1516,17 +2438,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User management endpoints
-  app.get("/api/users", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/users", authenticateToken, checkApiPermission("users"), async (req: Request, res: Response) => {
     try {
-      // System admins and Port admins can view users
-      const isPortAdmin = req.user?.role === "PortAdmin" || req.user?.userType === "PortUser";
-      if (!isSystemAdmin(req.user) && !isPortAdmin) {
-        return res.status(403).json({ message: "Access denied. Only System Administrators and Port Administrators can view users." });
-      }
-
       const users = await storage.getAllUsers();
       // Remove password from response
-      const safeUsers = users.map(({ password, ...user }) => user);
+      const safeUsers = users.map(({ password, twoFactorSecret, twoFactorRecoveryCodes, ...user }) => user);
       res.json(safeUsers);
     } catch (error) {
       console.error("Get users error:", error);
@@ -1534,13 +2450,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/users/:id", authenticateToken, checkApiPermission("users"), async (req: Request, res: Response) => {
     try {
-      // Only system admins can view user details
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. Only System Administrators can view user details." });
-      }
-
       const id = req.params.id;
       const user = await storage.getUser(id);
       
@@ -1549,7 +2460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Remove password from response
-      const { password, ...safeUser } = user;
+      const { password, twoFactorSecret, twoFactorRecoveryCodes, ...safeUser } = user;
       res.json(safeUser);
     } catch (error) {
       console.error("Get user error:", error);
@@ -1557,14 +2468,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/users", authenticateToken, checkApiPermission("users", "write"), async (req: Request, res: Response) => {
     try {
-      // System admins and Port admins can create users
-      const isPortAdmin = req.user?.role === "PortAdmin" || req.user?.userType === "PortUser";
-      if (!isSystemAdmin(req.user) && !isPortAdmin) {
-        return res.status(403).json({ message: "Access denied. Only System Administrators and Port Administrators can create users." });
-      }
-
       const userData = insertUserSchema.parse(req.body);
       
       // Check if email already exists
@@ -1606,7 +2511,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Remove sensitive fields from response
-      const { password, verificationToken: token, ...safeUser } = user;
+      const { password, verificationToken: token, twoFactorSecret, twoFactorRecoveryCodes, ...safeUser } = user;
       res.status(201).json(safeUser);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1620,14 +2525,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/users/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/users/:id", authenticateToken, checkApiPermission("users", "write"), async (req: Request, res: Response) => {
     try {
-      // System admins and Port admins can update users
-      const isPortAdmin = req.user?.role === "PortAdmin" || req.user?.userType === "PortUser";
-      if (!isSystemAdmin(req.user) && !isPortAdmin) {
-        return res.status(403).json({ message: "Access denied. Only System Administrators and Port Administrators can update users." });
-      }
-
       const id = req.params.id;
       const updates = updateUserSchema.parse(req.body);
       
@@ -1678,7 +2577,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Remove password from response
-      const { password, ...safeUser } = user;
+      const { password, twoFactorSecret, twoFactorRecoveryCodes, ...safeUser } = user;
       res.json(safeUser);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1692,14 +2591,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/users/:id/toggle-status", authenticateToken, async (req: Request, res: Response) => {
+  app.patch("/api/users/:id/toggle-status", authenticateToken, checkApiPermission("users", "manage"), async (req: Request, res: Response) => {
     try {
-      // System admins and Port admins can toggle user status
-      const isPortAdmin = req.user?.role === "PortAdmin" || req.user?.userType === "PortUser";
-      if (!isSystemAdmin(req.user) && !isPortAdmin) {
-        return res.status(403).json({ message: "Access denied. Only System Administrators and Port Administrators can toggle user status." });
-      }
-
       const id = req.params.id;
       
       // Prevent deactivating the current user
@@ -1730,7 +2623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Remove password from response
-      const { password, ...safeUser } = user;
+      const { password, twoFactorSecret, twoFactorRecoveryCodes, ...safeUser } = user;
       res.json(safeUser);
     } catch (error) {
       console.error("Toggle user status error:", error);
@@ -1738,10 +2631,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Unlock an account locked by repeated failed logins
+  app.post("/api/users/:id/unlock", authenticateToken, checkApiPermission("users", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id;
+      const user = await storage.unlockUser(id);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Log unlock for audit trail
+      await AuditService.logAccountUnlocked(
+        user.id,
+        req.user?.id || "system",
+        req.ip,
+        req.get('User-Agent')
+      );
+      
+      // Remove password from response
+      const { password, twoFactorSecret, twoFactorRecoveryCodes, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", authenticateToken, checkApiPermission("users"), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const sessions = await storage.getUserSessions(user.id);
+      res.json(sessions.map(session => toSessionInfo(session, req.session?.id)));
+    } catch (error) {
+      console.error("Get user sessions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions/:sessionId", authenticateToken, checkApiPermission("users", "manage"), async (req: Request, res: Response) => {
+    try {
+      const session = await storage.getSessionById(req.params.sessionId);
+      if (!session || session.userId !== req.params.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.deleteSessionById(session.id);
+      await AuditService.logSessionRevoked(session.userId, req.user.id, session.id, req.ip, req.get('User-Agent'));
+
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Revoke user session error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/users/:id", authenticateToken, checkApiPermission("users", "manage"), async (req: Request, res: Response) => {
     try {
       // Only system admins can delete users
-      if (req.user?.role !== "SystemAdmin") {
+      if (!isSystemAdmin(req.user)) {
         return res.status(403).json({ message: "Access denied. Only System Administrators can delete users." });
       }
 
@@ -1772,9 +2724,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminal routes
-  app.get("/api/terminals", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
-      const terminals = await storage.getAllTerminals();
+      const terminals = await storage.getAllTerminals(req.user.dataScope);
       res.json(terminals);
     } catch (error) {
       console.error("Get all terminals error:", error);
@@ -1783,9 +2735,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get only active and subscribed terminals for customer forms
-  app.get("/api/terminals/active-subscribed", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/active-subscribed", authenticateToken, checkAnyPermission([API_PERMISSIONS.terminals, API_PERMISSIONS.customers, API_PERMISSIONS.contracts]), async (req: Request, res: Response) => {
     try {
-      const terminals = await storage.getActiveSubscribedTerminals();
+      const terminals = await storage.getActiveSubscribedTerminals(req.user.dataScope);
       res.json(terminals);
     } catch (error) {
       console.error("Get active subscribed terminals error:", error);
@@ -1793,7 +2745,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/terminals/my-port", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/my-port", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
       // Get port admin's assigned port
       const assignedPort = await storage.getPortAdminAssignedPort(req.user.id);
@@ -1807,10 +2759,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ports/:portId/terminals", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/ports/:portId/terminals", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
       const portId = parseInt(req.params.portId);
-      const terminals = await storage.getTerminalsByPortId(portId);
+      const terminals = await storage.getTerminalsByPortId(portId, req.user.dataScope);
       res.json(terminals);
     } catch (error) {
       console.error("Get terminals error:", error);
@@ -1819,7 +2771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Subscription Types routes
-  app.get("/api/subscription-types", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/subscription-types", authenticateToken, checkApiPermission("terminalActivation"), async (req: Request, res: Response) => {
     try {
       const subscriptionTypes = await storage.getAllSubscriptionTypes();
       res.json(subscriptionTypes);
@@ -1830,13 +2782,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminal activation routes (must be before parameterized routes)
-  app.get("/api/terminals/pending-activation", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/pending-activation", authenticateToken, checkApiPermission("terminalActivation"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (req.user.role !== "SystemAdmin") {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const terminals = await storage.getTerminalsPendingActivation();
       res.json(terminals);
     } catch (error) {
@@ -1845,10 +2792,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/terminals/:id/activate", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/terminals/:id/activate", authenticateToken, checkApiPermission("terminalActivation", "manage"), async (req: Request, res: Response) => {
     try {
       // Only allow System Admins
-      if (req.user.role !== "SystemAdmin") {
+      if (!isSystemAdmin(req.user)) {
         return res.status(403).json({ message: "Access denied. System Admin role required." });
       }
 
@@ -1895,10 +2842,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/terminals/:id/suspend", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/terminals/:id/suspend", authenticateToken, checkApiPermission("terminalActivation", "manage"), async (req: Request, res: Response) => {
     try {
       // Only allow System Admins
-      if (req.user.role !== "SystemAdmin") {
+      if (!isSystemAdmin(req.user)) {
         return res.status(403).json({ message: "Access denied. System Admin role required." });
       }
 
@@ -1938,10 +2885,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/terminals/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/:id", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const terminal = await storage.getTerminalById(id);
+      const terminal = await storage.getTerminalById(id, req.user.dataScope);
       if (!terminal) {
         return res.status(404).json({ message: "Terminal not found" });
       }
@@ -1953,13 +2900,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get activation logs for a terminal
-  app.get("/api/terminals/:id/activation-log", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/:id/activation-log", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid terminal ID" });
       }
 
+      const terminal = await storage.getTerminalById(id, req.user.dataScope);
+      if (!terminal) {
+        return res.status(404).json({ message: "Terminal not found" });
+      }
+
       const logs = await storage.getActivationLogsByTerminalId(id);
       res.json(logs);
     } catch (error) {
@@ -1968,7 +2920,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ports/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/ports/:id", authenticateToken, checkAnyPermission([API_PERMISSIONS.ports, API_PERMISSIONS.terminals, API_PERMISSIONS.users]), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const port = await storage.getPortById(id);
@@ -1982,7 +2934,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/organizations/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/organizations/:id", authenticateToken, checkApiPermission("organizations"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const organization = await storage.getOrganizationById(id);
@@ -1996,15 +2948,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ports/:portId/terminals", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/ports/:portId/terminals", authenticateToken, checkApiPermission("terminals", "write"), async (req: Request, res: Response) => {
     try {
       const portId = parseInt(req.params.portId);
+      if (req.user.dataScope && req.user.dataScope.portId !== portId) {
+        return res.status(404).json({ message: "Port not found" });
+      }
+
       const terminalData = insertTerminalSchema.parse({ 
         ...req.body, 
         portId,
         createdBy: req.user.id
       });
 
+      const port = await storage.getPortById(portId);
+      const taxIssues = await TaxVerificationService.verify({ gst: terminalData.gst, pan: terminalData.pan, stateName: port?.state });
+      if (taxIssues.length > 0) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: TaxVerificationService.toValidationErrors(taxIssues)
+        });
+      }
+
       // Check for duplicate terminal name
       const existingTerminalByName = await storage.getTerminalByName(terminalData.terminalName);
       if (existingTerminalByName) {
@@ -2087,13 +3052,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/terminals/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/terminals/:id", authenticateToken, checkApiPermission("terminals", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       console.log("Terminal update request body:", JSON.stringify(req.body, null, 2));
       
       // Get existing terminal to check if it's activated
-      const existingTerminal = await storage.getTerminalById(id);
+      const existingTerminal = await storage.getTerminalById(id, req.user.dataScope);
       if (!existingTerminal) {
         return res.status(404).json({ message: "Terminal not found" });
       }
@@ -2131,6 +3096,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates = updateTerminalSchema.parse(req.body);
         console.log("Terminal not activated, allowing all updates:", JSON.stringify(updates, null, 2));
       }
+
+      if (updates.gst || updates.pan) {
+        const port = await storage.getPortById(existingTerminal.portId);
+        const taxIssues = await TaxVerificationService.verify({
+          gst: updates.gst ?? existingTerminal.gst,
+          pan: updates.pan ?? existingTerminal.pan,
+          stateName: port?.state,
+        });
+        if (taxIssues.length > 0) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: TaxVerificationService.toValidationErrors(taxIssues)
+          });
+        }
+      }
       
       const terminal = await storage.updateTerminal(id, updates);
       if (!terminal) {
@@ -2204,9 +3184,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/terminals/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/terminals/:id", authenticateToken, checkApiPermission("terminals", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const terminal = await storage.getTerminalById(id, req.user.dataScope);
+      if (!terminal) {
+        return res.status(404).json({ message: "Terminal not found" });
+      }
+
       await storage.deleteTerminal(id);
       res.json({ message: "Terminal deleted successfully" });
     } catch (error) {
@@ -2239,7 +3224,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/notifications/:id/read", authenticateToken, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.markNotificationAsRead(id);
+      const notification = await storage.markNotificationAsRead(id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
       res.json({ message: "Notification marked as read" });
     } catch (error) {
       console.error("Mark notification as read error:", error);
@@ -2260,7 +3248,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/notifications/:id", authenticateToken, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteNotification(id);
+      const notification = await storage.deleteNotification(id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
       res.json({ message: "Notification deleted successfully" });
     } catch (error) {
       console.error("Delete notification error:", error);
@@ -2268,10 +3259,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/terminals/:id/status", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/terminals/:id/status", authenticateToken, checkApiPermission("terminalActivation", "manage"), async (req: Request, res: Response) => {
     try {
       // Only allow System Admins
-      if (req.user.role !== "SystemAdmin") {
+      if (!isSystemAdmin(req.user)) {
         return res.status(403).json({ message: "Access denied. System Admin role required." });
       }
 
@@ -2365,7 +3356,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Resend user verification email endpoint
-  app.post("/api/users/:id/resend-verification", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/users/:id/resend-verification", authenticateToken, checkApiPermission("users", "write"), async (req: Request, res: Response) => {
     try {
       // Allow users with proper permissions to resend verification emails
       // Port Admins can resend verification for users in their port, System Admins can resend for any user
@@ -2414,6 +3405,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Self-service password reset request. Always answers the same way so it cannot be used to probe for accounts.
+  app.post("/api/auth/forgot-password", async (req: Request, res: Response) => {
+    try {
+      const ip = req.ip || "unknown";
+      const retryAfter = LoginThrottle.getResetRetryAfter(ip);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many password reset requests. Please try again later." });
+      }
+
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const genericResponse = { message: "If an account exists for that email, a password reset link has been sent." };
+
+      if (!LoginThrottle.recordResetRequest(ip, email)) {
+        return res.json(genericResponse);
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user || !user.isActive) {
+        return res.json(genericResponse);
+      }
+
+      const passwordSetupToken = randomUUID();
+      const passwordSetupTokenExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+
+      await storage.updateUser(user.id, {
+        passwordSetupToken,
+        passwordSetupTokenExpires
+      } as any);
+
+      await AuditService.logPasswordResetRequested(user.id, req.ip, req.get('User-Agent'));
+
+      // Port admins are linked to their port through the contact record rather than users.portId
+      const portId = user.portId ?? (await storage.getPortAdminContactByUserId(user.id))?.portId;
+
+      // Send in the background so response time does not depend on whether the account exists
+      import("./emailService.js")
+        .then(({ sendPasswordResetEmail }) => sendPasswordResetEmail(user.email, user.firstName, passwordSetupToken, portId || undefined))
+        .catch(emailError => console.error("Failed to send password reset email:", emailError));
+
+      res.json(genericResponse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Password setup endpoint
   app.post("/api/auth/setup-password", async (req: Request, res: Response) => {
     try {
@@ -2430,24 +3474,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Password setup token has expired" });
       }
 
+      const policyErrors = await PasswordPolicyService.validateNewPassword(password, user);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({ message: policyErrors[0], errors: policyErrors });
+      }
+
       // Hash the new password
-      const hashedPassword = await bcrypt.hash(password, 10);
+      const passwordUpdate = await PasswordPolicyService.preparePasswordUpdate(user, password);
 
-      // Update user - set password, activate account, clear setup token
+      // An already active account holding a setup token came through forgot-password
+      const isReset = user.isActive;
+
+      // Update user - set password, activate account, clear setup token and any login lockout
       await storage.updateUser(user.id, {
-        password: hashedPassword,
+        ...passwordUpdate,
         isActive: true,
         passwordSetupToken: null,
-        passwordSetupTokenExpires: null
+        passwordSetupTokenExpires: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null
       } as any);
 
-      // Log password setup for audit trail
-      await AuditService.logPasswordSetup(
-        user.id,
-        user.id, // User sets up their own password
-        req.ip,
-        req.get('User-Agent')
-      );
+      // A new password signs out every existing session
+      await storage.deleteUserSessions(user.id);
+
+      if (isReset) {
+        await AuditService.logPasswordReset(user.id, req.ip, req.get('User-Agent'));
+      } else {
+        // Log password setup for audit trail
+        await AuditService.logPasswordSetup(
+          user.id,
+          user.id, // User sets up their own password
+          req.ip,
+          req.get('User-Agent')
+        );
+      }
 
       res.json({ message: "Password set successfully. You can now log in to your account." });
     } catch (error) {
@@ -2465,9 +3526,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Customer Management API Routes
   
   // Get all customers (for Marketing Manager)
-  app.get("/api/customers", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/customers", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
     try {
-      const customers = await storage.getAllCustomers();
+      const customers = await storage.getAllCustomers(req.user.dataScope);
       res.json(customers);
     } catch (error) {
       console.error("Error fetching customers:", error);
@@ -2475,11 +3536,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Blank import template with every supported column
+  app.get("/api/customers/import/template", authenticateToken, checkApiPermission("customers", "write"), (req: Request, res: Response) => {
+    res.set({
+      'Content-Type': 'text/csv',
+      'Content-Disposition': 'attachment; filename="customer-import-template.csv"'
+    });
+    res.send(CUSTOMER_IMPORT_COLUMNS.join(",") + "\n");
+  });
+
+  // Bulk import customers with their contacts and addresses. With dryRun=true only the row-by-row
+  // validation report is returned; otherwise a file without errors is inserted in one transaction.
+  app.post("/api/customers/import", authenticateToken, checkApiPermission("customers", "write"), (req: Request, res: Response, next: any) => {
+    customerImportUpload.single('file')(req, res, (error: any) => {
+      if (error) {
+        return res.status(400).json({
+          message: error.code === 'LIMIT_FILE_SIZE' ? "File too large. Maximum size is 5MB." : error.message
+        });
+      }
+      next();
+    });
+  }, async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No import file uploaded" });
+      }
+
+      const rows = await CustomerImportService.parseFile(req.file.buffer, req.file.originalname);
+      const { report, records } = await CustomerImportService.validate(rows, req.user.dataScope);
+
+      if (req.body.dryRun === "true") {
+        return res.json({ report });
+      }
+
+      if (report.errorRowCount > 0) {
+        return res.status(400).json({
+          message: `Import has errors in ${report.errorRowCount} row(s). Fix them and try again.`,
+          report
+        });
+      }
+
+      const customers = await storage.importCustomers(records, req.user.id);
+      for (const customer of customers) {
+        await AuditService.logEntityChange({
+          entityType: "customer",
+          entityId: customer.id,
+          customerId: customer.id,
+          action: "created",
+          description: `Customer ${customer.customerCode} imported from ${req.file.originalname}`,
+          performedBy: req.user.id,
+        });
+      }
+      res.status(201).json({
+        report,
+        customers: customers.map(({ id, customerCode, customerName }) => ({ id, customerCode, customerName }))
+      });
+    } catch (error: any) {
+      if (error instanceof CustomerImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      // A customer created after the dry run can collide on a unique column; the transaction is rolled back
+      if (error?.code === "23505") {
+        return res.status(409).json({ message: "Customers changed since validation. Validate the file again." });
+      }
+      console.error("Error importing customers:", error);
+      res.status(500).json({ message: "Failed to import customers" });
+    }
+  });
+
   // Get customer by ID
-  app.get("/api/customers/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Likely duplicate customers, scored by name similarity and shared PAN, email or phone
+  app.get("/api/customers/duplicates", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const minScore = req.query.minScore ? parseInt(req.query.minScore as string) : undefined;
+      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+      if ((minScore !== undefined && isNaN(minScore)) || (customerId !== undefined && isNaN(customerId))) {
+        return res.status(400).json({ message: "Invalid query parameters" });
+      }
+
+      const duplicates = await CustomerDuplicateService.findDuplicates(req.user.dataScope, { minScore, customerId });
+      res.json(duplicates);
+    } catch (error) {
+      console.error("Error finding duplicate customers:", error);
+      res.status(500).json({ message: "Failed to find duplicate customers" });
+    }
+  });
+
+  app.get("/api/customers/:id", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const customer = await storage.getCustomerById(id);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
       }
@@ -2491,9 +3637,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get customer contracts
-  app.get("/api/customers/:id/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/customers/:id/contracts", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const contracts = await storage.getContractsByCustomerId(customerId);
       res.json(contracts);
     } catch (error) {
@@ -2503,34 +3653,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new customer with validation
-  app.post("/api/customers", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/customers", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
     try {
       const validatedData = insertCustomerSchema.parse(req.body);
       const userId = req.user?.id;
 
-      // Validation checks as per requirements
-      const allCustomers = await storage.getAllCustomers();
-      const existingCustomerName = allCustomers.find(c => c.customerName === validatedData.customerName);
-      if (existingCustomerName) {
-        return res.status(400).json({ message: "Customer name already exists" });
-      }
-
-      const existingPAN = await storage.getCustomerByPAN(validatedData.pan);
-      if (existingPAN) {
-        return res.status(400).json({ message: "PAN number already exists" });
+      const terminal = await storage.getTerminalById(validatedData.terminalId, req.user.dataScope);
+      if (!terminal) {
+        return res.status(404).json({ message: "Terminal not found" });
       }
 
-      const existingGST = await storage.getCustomerByGST(validatedData.gst);
-      if (existingGST) {
-        return res.status(400).json({ message: "GST number already exists" });
+      const taxIssues = await TaxVerificationService.verify({ gst: validatedData.gst, pan: validatedData.pan, stateName: validatedData.state });
+      if (taxIssues.length > 0) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: TaxVerificationService.toValidationErrors(taxIssues)
+        });
       }
 
-      const existingCustomerEmail = await storage.getCustomerByEmail(validatedData.email);
+      // Validation checks as per requirements
+      const allCustomers = await storage.getAllCustomers();
       const existingUserEmail = await storage.getUserByEmail(validatedData.email);
-      if (existingCustomerEmail || existingUserEmail) {
-        return res.status(400).json({ 
-          message: existingUserEmail ? "Email already exists as a registered user" : "Email already exists as a customer" 
-        });
+      const conflict = findCustomerConflict(validatedData, allCustomers, new Set(existingUserEmail ? [existingUserEmail.email] : []));
+      if (conflict) {
+        return res.status(400).json({ message: conflict });
       }
 
       // Generate customer code
@@ -2541,6 +3687,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         customerCode,
         createdBy: userId,
       });
+      await AuditService.logEntityChange({
+        entityType: "customer",
+        entityId: customer.id,
+        customerId: customer.id,
+        action: "created",
+        description: `Customer ${customer.customerCode} created`,
+        performedBy: userId,
+      });
 
       res.status(201).json(customer);
     } catch (error) {
@@ -2556,16 +3710,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update customer
-  app.put("/api/customers/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/customers/:id", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertCustomerSchema.partial().parse(req.body);
       
       // Check if customer exists
-      const existingCustomer = await storage.getCustomerById(id);
+      const existingCustomer = await storage.getCustomerById(id, req.user.dataScope);
       if (!existingCustomer) {
         return res.status(404).json({ message: "Customer not found" });
       }
+      if (validatedData.terminalId && !(await storage.getTerminalById(validatedData.terminalId, req.user.dataScope))) {
+        return res.status(404).json({ message: "Terminal not found" });
+      }
+
+      // Cross-checks run against the merged record, since GST, PAN and state must agree
+      if (validatedData.gst || validatedData.pan || validatedData.state) {
+        const taxIssues = await TaxVerificationService.verify({
+          gst: validatedData.gst ?? existingCustomer.gst,
+          pan: validatedData.pan ?? existingCustomer.pan,
+          stateName: validatedData.state ?? existingCustomer.state,
+        });
+        if (taxIssues.length > 0) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: TaxVerificationService.toValidationErrors(taxIssues)
+          });
+        }
+      }
 
       // Validation checks - exclude current customer from uniqueness checks
       if (validatedData.customerName) {
@@ -2600,7 +3772,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const customer = await storage.updateCustomer(id, validatedData);
+      const customer = await storage.updateCustomer(id, { ...validatedData, updatedBy: req.user.id });
+      await AuditService.logEntityChange({
+        entityType: "customer",
+        entityId: id,
+        customerId: id,
+        action: "updated",
+        description: "Customer details updated",
+        performedBy: req.user.id,
+        oldValues: existingCustomer,
+        newValues: validatedData,
+      });
       res.json(customer);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2614,28 +3796,323 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update customer status (for contract creation workflow)
-  app.patch("/api/customers/:id/status", authenticateToken, async (req: Request, res: Response) => {
+  // Lifecycle status, checklist, transitions open to the current user and status history
+  app.get("/api/customers/:id/lifecycle", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
-      
-      const customer = await storage.updateCustomerStatus(id, status);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
       }
+
+      const [checklist, history] = await Promise.all([
+        CustomerLifecycleService.getChecklist(id),
+        storage.getCustomerStatusHistory(id),
+      ]);
+      res.json({
+        status: customer.status,
+        checklist,
+        transitions: CustomerLifecycleService.getAvailableTransitions(customer, req.user),
+        history,
+      });
+    } catch (error) {
+      console.error("Error fetching customer lifecycle:", error);
+      res.status(500).json({ message: "Failed to fetch customer lifecycle" });
+    }
+  });
+
+  // Move a customer through its lifecycle; the allowed transitions and their rules live in shared/customerLifecycle.ts
+  app.patch("/api/customers/:id/status", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { action, reason } = customerStatusTransitionSchema.parse(req.body);
       
+      const existingCustomer = await storage.getCustomerById(id, req.user.dataScope);
+      if (!existingCustomer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const customer = await CustomerLifecycleService.transition(existingCustomer, action, reason, req.user);
       res.json(customer);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerTransitionError) {
+        return res.status(error.statusCode).json({
+          message: error.message,
+          missingItems: error.missingItems
+        });
+      }
       console.error("Error updating customer status:", error);
       res.status(500).json({ message: "Failed to update customer status" });
     }
   });
 
+  // Merge another customer into this one; the merged customer's code becomes an alias of this one
+  app.post("/api/customers/:id/merge", authenticateToken, checkApiPermission("customers", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { mergedCustomerId, reason } = customerMergeSchema.parse(req.body);
+
+      const result = await CustomerDuplicateService.merge(id, mergedCustomerId, req.user.id, reason, req.user.dataScope);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerMergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error merging customers:", error);
+      res.status(500).json({ message: "Failed to merge customers" });
+    }
+  });
+
+  app.get("/api/customers/:id/merges", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const [aliases, merges] = await Promise.all([
+        storage.getCustomerCodeAliases(id),
+        storage.getCustomerMerges(id),
+      ]);
+      res.json({ aliases: aliases.map(alias => alias.aliasCode), merges });
+    } catch (error) {
+      console.error("Error fetching customer merges:", error);
+      res.status(500).json({ message: "Failed to fetch customer merges" });
+    }
+  });
+
+  // Customer 360: profile, contacts, addresses, contracts, documents and the activity timeline in one response
+  app.get("/api/customers/:id/overview", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await CustomerOverviewService.getOverview(customer));
+    } catch (error) {
+      console.error("Error fetching customer overview:", error);
+      res.status(500).json({ message: "Failed to fetch customer overview" });
+    }
+  });
+
+  // Credit limit, payment terms and hold status; other modules check canTransact before starting new business
+  app.get("/api/customers/:id/credit-status", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(CustomerCreditService.getStatus(customer));
+    } catch (error) {
+      console.error("Error fetching customer credit status:", error);
+      res.status(500).json({ message: "Failed to fetch customer credit status" });
+    }
+  });
+
+  app.put("/api/customers/:id/credit", authenticateToken, checkApiPermission("customers", "manage"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = customerCreditSchema.parse(req.body);
+      const customer = await storage.getCustomerById(id, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const updated = await CustomerCreditService.updateCredit(customer, validatedData, req.user.id);
+      res.json(CustomerCreditService.getStatus(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating customer credit:", error);
+      res.status(500).json({ message: "Failed to update customer credit" });
+    }
+  });
+
+  // Customer KYC documents. Files are uploaded through /api/objects/upload first, then registered here.
+  app.get("/api/customers/:customerId/documents", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const documents = await storage.getCustomerDocumentsByCustomerId(customerId);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching customer documents:", error);
+      res.status(500).json({ message: "Failed to fetch customer documents" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/documents", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const validatedData = insertCustomerDocumentSchema.parse({
+        ...req.body,
+        customerId,
+        uploadedBy: req.user.id
+      });
+
+      const document = await CustomerDocumentService.create(customer, validatedData);
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerDocumentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating customer document:", error);
+      res.status(500).json({ message: "Failed to create customer document" });
+    }
+  });
+
+  app.put("/api/customers/:customerId/documents/:documentId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const documentId = parseInt(req.params.documentId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const document = await storage.getCustomerDocumentById(documentId);
+      if (!document || document.customerId !== customerId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const validatedData = updateCustomerDocumentSchema.parse(req.body);
+      const updated = await CustomerDocumentService.update(document, validatedData, req.user.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerDocumentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating customer document:", error);
+      res.status(500).json({ message: "Failed to update customer document" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/documents/:documentId/verify", authenticateToken, checkApiPermission("customers", "manage"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const documentId = parseInt(req.params.documentId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const document = await storage.getCustomerDocumentById(documentId);
+      if (!document || document.customerId !== customerId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const validatedData = customerDocumentVerificationSchema.parse(req.body);
+      const updated = await CustomerDocumentService.verify(document, validatedData, req.user.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof CustomerDocumentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error verifying customer document:", error);
+      res.status(500).json({ message: "Failed to verify customer document" });
+    }
+  });
+
+  app.delete("/api/customers/:customerId/documents/:documentId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const documentId = parseInt(req.params.documentId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const document = await storage.getCustomerDocumentById(documentId);
+      if (!document || document.customerId !== customerId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      await CustomerDocumentService.delete(document, req.user.id);
+      res.json({ message: "Document deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting customer document:", error);
+      res.status(500).json({ message: "Failed to delete customer document" });
+    }
+  });
+
+  // Streams the file after the object's ACL policy has confirmed the user belongs to the customer's port
+  app.get("/api/customers/:customerId/documents/:documentId/file", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const documentId = parseInt(req.params.documentId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const document = await storage.getCustomerDocumentById(documentId);
+      if (!document || document.customerId !== customerId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const objectFile = await CustomerDocumentService.getFile(document, req.user.id);
+      res.setHeader("Content-Disposition", `inline; filename="${document.fileName.replace(/"/g, "")}"`);
+      await new ObjectStorageService().downloadObject(objectFile, res);
+    } catch (error) {
+      if (error instanceof CustomerDocumentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error serving customer document:", error);
+      res.status(500).json({ message: "Failed to serve customer document" });
+    }
+  });
+
   // Customer Contacts API
-  app.get("/api/customers/:customerId/contacts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/customers/:customerId/contacts", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const contacts = await storage.getCustomerContactsByCustomerId(customerId);
       res.json(contacts);
     } catch (error) {
@@ -2644,15 +4121,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers/:customerId/contacts", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/customers/:customerId/contacts", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const validatedData = insertCustomerContactSchema.parse({
         ...req.body,
         customerId
       });
 
       const contact = await storage.createCustomerContact(validatedData);
+      await AuditService.logEntityChange({
+        entityType: "customer_contact",
+        entityId: contact.id,
+        customerId,
+        action: "created",
+        description: `Contact "${contact.contactName}" added`,
+        performedBy: req.user.id,
+      });
       res.status(201).json(contact);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2666,10 +4155,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/customers/:customerId/contacts/:contactId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const contactId = parseInt(req.params.contactId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const contact = (await storage.getCustomerContactsByCustomerId(customerId)).find(c => c.id === contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const validatedData = updateCustomerContactSchema.parse(req.body);
+      if (contact.isPrimaryContact && validatedData.isPrimaryContact === false) {
+        return res.status(400).json({ message: "A customer must have a primary contact. Make another contact primary instead." });
+      }
+
+      const updated = await storage.updateCustomerContact(contactId, validatedData);
+      await AuditService.logEntityChange({
+        entityType: "customer_contact",
+        entityId: contactId,
+        customerId,
+        action: "updated",
+        description: `Contact "${updated?.contactName ?? contact.contactName}" updated`,
+        performedBy: req.user.id,
+        oldValues: contact,
+        newValues: validatedData,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      console.error("Error updating customer contact:", error);
+      res.status(500).json({ message: "Failed to update customer contact" });
+    }
+  });
+
+  app.delete("/api/customers/:customerId/contacts/:contactId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const contactId = parseInt(req.params.contactId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const contact = (await storage.getCustomerContactsByCustomerId(customerId)).find(c => c.id === contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      await storage.deleteCustomerContact(contactId);
+      await AuditService.logEntityChange({
+        entityType: "customer_contact",
+        entityId: contactId,
+        customerId,
+        action: "deleted",
+        description: `Contact "${contact.contactName}" deleted`,
+        performedBy: req.user.id,
+      });
+      res.json({ message: "Contact deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting customer contact:", error);
+      res.status(500).json({ message: "Failed to delete customer contact" });
+    }
+  });
+
   // Customer Addresses API
-  app.get("/api/customers/:customerId/addresses", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/customers/:customerId/addresses", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const addresses = await storage.getCustomerAddressesByCustomerId(customerId);
       res.json(addresses);
     } catch (error) {
@@ -2678,32 +4242,328 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers/:customerId/addresses", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/customers/:customerId/addresses", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const validatedData = insertCustomerAddressSchema.parse({
         ...req.body,
         customerId
       });
 
-      const address = await storage.createCustomerAddress(validatedData);
-      res.status(201).json(address);
+      const address = await storage.createCustomerAddress(validatedData);
+      await AuditService.logEntityChange({
+        entityType: "customer_address",
+        entityId: address.id,
+        customerId,
+        action: "created",
+        description: `${address.addressType} address added`,
+        performedBy: req.user.id,
+      });
+      res.status(201).json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      console.error("Error creating customer address:", error);
+      res.status(500).json({ message: "Failed to create customer address" });
+    }
+  });
+
+  app.put("/api/customers/:customerId/addresses/:addressId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const addressId = parseInt(req.params.addressId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const address = (await storage.getCustomerAddressesByCustomerId(customerId)).find(a => a.id === addressId);
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+
+      const validatedData = updateCustomerAddressSchema.parse(req.body);
+      const keepsType = !validatedData.addressType || validatedData.addressType === address.addressType;
+      if (address.isDefaultAddress && keepsType && validatedData.isDefaultAddress === false) {
+        return res.status(400).json({ message: `A customer must have a default ${address.addressType} address. Make another address the default instead.` });
+      }
+
+      const updated = await storage.updateCustomerAddress(addressId, validatedData);
+      await AuditService.logEntityChange({
+        entityType: "customer_address",
+        entityId: addressId,
+        customerId,
+        action: "updated",
+        description: `${updated?.addressType ?? address.addressType} address updated`,
+        performedBy: req.user.id,
+        oldValues: address,
+        newValues: validatedData,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      console.error("Error updating customer address:", error);
+      res.status(500).json({ message: "Failed to update customer address" });
+    }
+  });
+
+  app.delete("/api/customers/:customerId/addresses/:addressId", authenticateToken, checkApiPermission("customers", "write"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const addressId = parseInt(req.params.addressId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const address = (await storage.getCustomerAddressesByCustomerId(customerId)).find(a => a.id === addressId);
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+
+      await storage.deleteCustomerAddress(addressId);
+      await AuditService.logEntityChange({
+        entityType: "customer_address",
+        entityId: addressId,
+        customerId,
+        action: "deleted",
+        description: `${address.addressType} address deleted`,
+        performedBy: req.user.id,
+      });
+      res.json({ message: "Address deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting customer address:", error);
+      res.status(500).json({ message: "Failed to delete customer address" });
+    }
+  });
+
+  // Customer portal access, granted per customer contact
+  const toPortalUserInfo = (user: User) => ({
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    isActive: user.isActive,
+    isVerified: user.isVerified,
+    invitationPending: !user.isActive && !!(user.verificationToken || user.passwordSetupToken),
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt,
+  });
+
+  app.get("/api/customers/:customerId/portal-users", authenticateToken, checkApiPermission("customers"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const portalUsers = await storage.getUsersByCustomerId(customerId);
+      res.json(portalUsers.map(toPortalUserInfo));
+    } catch (error) {
+      console.error("Error fetching customer portal users:", error);
+      res.status(500).json({ message: "Failed to fetch customer portal users" });
+    }
+  });
+
+  // Invite a contact to the portal; uses the same verification and password setup emails as staff accounts
+  app.post("/api/customers/:customerId/contacts/:contactId/portal-access", authenticateToken, checkApiPermission("customers", "manage"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const contactId = parseInt(req.params.contactId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const contacts = await storage.getCustomerContactsByCustomerId(customerId);
+      const contact = contacts.find(c => c.id === contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const existingUser = await storage.getUserByEmail(contact.email);
+      if (existingUser && (existingUser.userType !== "Customer" || existingUser.customerId !== customerId)) {
+        return res.status(400).json({ message: "Email already belongs to another user" });
+      }
+      if (existingUser?.isActive) {
+        return res.status(400).json({ message: "Contact already has portal access" });
+      }
+
+      // Generate verification token
+      const verificationToken = randomUUID();
+      const verificationTokenExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+      let portalUser: User;
+      if (existingUser) {
+        // Re-inviting a revoked contact sends them through verification and password setup again
+        portalUser = (await storage.updateUser(existingUser.id, {
+          verificationToken,
+          verificationTokenExpires
+        } as any))!;
+      } else {
+        const [firstName, ...lastNameParts] = contact.contactName.trim().split(/\s+/);
+        portalUser = await storage.createUser({
+          id: randomUUID(),
+          userType: "Customer",
+          email: contact.email,
+          password: null,
+          firstName,
+          lastName: lastNameParts.join(" "),
+          role: "Customer",
+          portId: customer.portId,
+          customerId,
+          isActive: false,
+          isVerified: false,
+          verificationToken,
+          verificationTokenExpires
+        } as any);
+
+        await AuditService.logUserCreation(
+          portalUser.id,
+          req.user.id,
+          portalUser,
+          req.ip,
+          req.get('User-Agent')
+        );
+      }
+
+      try {
+        const { sendUserVerificationEmail } = await import("./emailService.js");
+        await sendUserVerificationEmail(portalUser.email, portalUser.firstName, verificationToken, customer.portId);
+      } catch (emailError) {
+        console.error("Failed to send verification email:", emailError);
+        // Continue without failing - the invitation can be sent again
+      }
+
+      res.status(existingUser ? 200 : 201).json(toPortalUserInfo(portalUser));
+    } catch (error) {
+      console.error("Error granting customer portal access:", error);
+      res.status(500).json({ message: "Failed to grant customer portal access" });
+    }
+  });
+
+  app.delete("/api/customers/:customerId/portal-users/:userId", authenticateToken, checkApiPermission("customers", "manage"), async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const portalUser = await storage.getUser(req.params.userId);
+      if (!portalUser || portalUser.userType !== "Customer" || portalUser.customerId !== customerId) {
+        return res.status(404).json({ message: "Portal user not found" });
+      }
+
+      await storage.updateUser(portalUser.id, {
+        isActive: false,
+        verificationToken: null,
+        verificationTokenExpires: null,
+        passwordSetupToken: null,
+        passwordSetupTokenExpires: null
+      } as any);
+      await storage.deleteUserSessions(portalUser.id);
+
+      await AuditService.logUserStatusChange(
+        portalUser.id,
+        req.user.id,
+        portalUser.isActive,
+        false,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({ message: "Customer portal access revoked" });
+    } catch (error) {
+      console.error("Error revoking customer portal access:", error);
+      res.status(500).json({ message: "Failed to revoke customer portal access" });
+    }
+  });
+
+  // Customer self-service portal (read-only). Records are always looked up through the portal user's
+  // own data scope, so a customer can only ever see their own customer record and contracts.
+  app.get("/api/customer-portal/profile", authenticateToken, requireCustomerUser, async (req: Request, res: Response) => {
+    try {
+      const customer = await storage.getCustomerById(req.user.dataScope.customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(customer);
+    } catch (error) {
+      console.error("Error fetching portal customer:", error);
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+
+  app.get("/api/customer-portal/contracts", authenticateToken, requireCustomerUser, async (req: Request, res: Response) => {
+    try {
+      // Customers only see contracts whose terms have been approved
+      const contracts = await storage.getContractsByCustomerId(req.user.dataScope.customerId, req.user.dataScope);
+      res.json(contracts.filter(contract => isContractApproved(contract.status)));
+    } catch (error) {
+      console.error("Error fetching portal contracts:", error);
+      res.status(500).json({ message: "Failed to fetch contracts" });
+    }
+  });
+
+  app.get("/api/customer-portal/contracts/:id", authenticateToken, requireCustomerUser, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const contract = await storage.getContractById(id, req.user.dataScope);
+      if (!contract || !isContractApproved(contract.status)) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const [tariffs, storageCharges, specialConditions] = await Promise.all([
+        storage.getContractTariffsByContractId(contract.id),
+        storage.getContractStorageChargesByContractId(contract.id),
+        storage.getContractSpecialConditionsByContractId(contract.id),
+      ]);
+      res.json({ ...contract, tariffs, storageCharges, specialConditions });
+    } catch (error) {
+      console.error("Error fetching portal contract:", error);
+      res.status(500).json({ message: "Failed to fetch contract" });
+    }
+  });
+
+  // Streams the signed contract copy from private object storage, whose objects the customer cannot reach directly
+  app.get("/api/customer-portal/contracts/:id/copy", authenticateToken, requireCustomerUser, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const contract = await storage.getContractById(id, req.user.dataScope);
+      if (!contract || contract.customerId !== req.user.dataScope.customerId || !isContractApproved(contract.status)) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (!contract.contractCopyUrl) {
+        return res.status(404).json({ message: "Contract copy not found" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(contract.contractCopyUrl);
+      res.setHeader("Content-Disposition", `inline; filename="${contract.contractNumber.replace(/"/g, "")}"`);
+      await objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          message: "Validation error",
-          errors: error.errors
-        });
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Contract copy not found" });
       }
-      console.error("Error creating customer address:", error);
-      res.status(500).json({ message: "Failed to create customer address" });
+      console.error("Error serving portal contract copy:", error);
+      res.status(500).json({ message: "Failed to serve contract copy" });
     }
   });
 
   // Contract Management API
-  app.get("/api/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
-      const contracts = await storage.getAllContracts();
+      const contracts = await storage.getAllContracts(req.user.dataScope);
       res.json(contracts);
     } catch (error) {
       console.error("Error fetching contracts:", error);
@@ -2711,9 +4571,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/:customerId/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/customers/:customerId/contracts", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      const customer = await storage.getCustomerById(customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
       const contracts = await storage.getContractsByCustomerId(customerId);
       res.json(contracts);
     } catch (error) {
@@ -2722,17 +4586,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const validatedData = insertContractSchema.parse({
         ...req.body,
         createdBy: req.user?.id
       });
 
+      const customer = await storage.getCustomerById(validatedData.customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      CustomerCreditService.assertCanCreateContract(customer);
+
       const contract = await storage.createContract(validatedData);
-      
-      // Update customer status to "Customer TC" after contract creation
-      await storage.updateCustomerStatus(validatedData.customerId, "Customer TC");
+      await AuditService.logEntityChange({
+        entityType: "contract",
+        entityId: contract.id,
+        customerId: contract.customerId,
+        action: "created",
+        description: `Contract ${contract.contractNumber} created`,
+        performedBy: req.user.id,
+      });
 
       res.status(201).json(contract);
     } catch (error) {
@@ -2742,33 +4617,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors
         });
       }
+      if (error instanceof CustomerCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract:", error);
       res.status(500).json({ message: "Failed to create contract" });
     }
   });
 
   // Contract details API endpoints (tariffs, cargo, storage, conditions)
-  app.post("/api/contracts/:contractId/tariffs", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:contractId/tariffs", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.contractId);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractTariffSchema.parse({
         ...req.body,
         contractId
       });
-      const tariff = await storage.createContractTariff(validatedData);
+      const [tariffData] = ContractMoneyService.withDefaultCurrency([validatedData], await ContractMoneyService.getDefaultCurrency(contract));
+      const tariff = await storage.createContractTariff(tariffData);
       res.status(201).json(tariff);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract tariff:", error);
       res.status(500).json({ message: "Failed to create contract tariff" });
     }
   });
 
-  app.post("/api/contracts/:contractId/cargo-details", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:contractId/cargo-details", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.contractId);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractCargoDetailSchema.parse({
         ...req.body,
         contractId
@@ -2779,42 +4671,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract cargo detail:", error);
       res.status(500).json({ message: "Failed to create contract cargo detail" });
     }
   });
 
-  app.post("/api/contracts/:contractId/storage-charges", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:contractId/storage-charges", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.contractId);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractStorageChargeSchema.parse({
         ...req.body,
         contractId
       });
-      const storageCharge = await storage.createContractStorageCharge(validatedData);
+      const [storageChargeData] = ContractMoneyService.withDefaultCurrency([validatedData], await ContractMoneyService.getDefaultCurrency(contract));
+      const storageCharge = await storage.createContractStorageCharge(storageChargeData);
       res.status(201).json(storageCharge);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract storage charge:", error);
       res.status(500).json({ message: "Failed to create contract storage charge" });
     }
   });
 
-  app.post("/api/contracts/:contractId/special-conditions", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:contractId/special-conditions", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.contractId);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractSpecialConditionSchema.parse({
         ...req.body,
         contractId
       });
-      const condition = await storage.createContractSpecialCondition(validatedData);
+      const [conditionData] = ContractMoneyService.withDefaultCurrency([validatedData], await ContractMoneyService.getDefaultCurrency(contract));
+      const condition = await storage.createContractSpecialCondition(conditionData);
       res.status(201).json(condition);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract special condition:", error);
       res.status(500).json({ message: "Failed to create contract special condition" });
     }
@@ -2852,7 +4765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/cargo-types", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/cargo-types", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const cargoTypes = await storage.getAllCargoTypes();
       res.json(cargoTypes);
@@ -2862,9 +4775,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/terminals/:terminalId/plots", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/terminals/:terminalId/plots", authenticateToken, checkApiPermission("terminals"), async (req: Request, res: Response) => {
     try {
       const terminalId = parseInt(req.params.terminalId);
+      const terminal = await storage.getTerminalById(terminalId, req.user.dataScope);
+      if (!terminal) {
+        return res.status(404).json({ message: "Terminal not found" });
+      }
+
       const plots = await storage.getPlotsByTerminalId(terminalId);
       res.json(plots);
     } catch (error) {
@@ -2874,9 +4792,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contract management routes
-  app.get("/api/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
-      const contracts = await storage.getAllContracts();
+      const contracts = await storage.getAllContracts(req.user.dataScope);
       res.json(contracts);
     } catch (error) {
       console.error("Error fetching contracts:", error);
@@ -2884,10 +4802,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/contracts/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts/:id", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const contract = await storage.getContractById(id);
+      const contract = await storage.getContractById(id, req.user.dataScope);
       if (!contract) {
         return res.status(404).json({ message: "Contract not found" });
       }
@@ -2898,11 +4816,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contracts", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const validatedData = insertContractSchema.parse(req.body);
       const userId = req.user?.id;
 
+      const customer = await storage.getCustomerById(validatedData.customerId, req.user.dataScope);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
       const contractData = {
         ...validatedData,
         createdBy: userId || 'system',
@@ -2923,12 +4846,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/contracts/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.put("/api/contracts/:id", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertContractSchema.partial().parse(req.body);
       const userId = req.user?.id;
 
+      const existingContract = await storage.getContractById(id, req.user.dataScope);
+      if (!existingContract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (validatedData.customerId && !(await storage.getCustomerById(validatedData.customerId, req.user.dataScope))) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      // A draft is edited directly. Any other contract keeps its customer and number, and changed terms are recorded
+      // as an amendment rather than overwritten.
+      if (existingContract.status !== "Draft") {
+        const { customerId, contractNumber, validFrom, validTo, contractCopyUrl } = validatedData;
+        const headerChanged = (customerId !== undefined && customerId !== existingContract.customerId)
+          || (contractNumber !== undefined && contractNumber !== existingContract.contractNumber);
+        if (headerChanged) {
+          ContractRevisionService.assertEditable(existingContract);
+        }
+
+        const termsChanged = (validFrom && validFrom.getTime() !== existingContract.validFrom.getTime())
+          || (validTo && validTo.getTime() !== existingContract.validTo.getTime())
+          || (contractCopyUrl !== undefined && contractCopyUrl !== existingContract.contractCopyUrl);
+        if (!termsChanged) {
+          return res.json(existingContract);
+        }
+        const amendment = contractAmendmentSchema.parse({
+          effectiveDate: req.body.effectiveDate ?? new Date(Math.max(Date.now(), (validFrom ?? existingContract.validFrom).getTime())),
+          reason: req.body.reason || "Contract terms updated",
+          validFrom,
+          validTo,
+          contractCopyUrl,
+        });
+        const { contract } = await ContractRevisionService.amend(existingContract, amendment, req.user.id);
+        return res.json(contract);
+      }
+
       const updateData = {
         ...validatedData,
         updatedBy: userId || 'system'
@@ -2938,6 +4896,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!contract) {
         return res.status(404).json({ message: "Contract not found" });
       }
+      await AuditService.logEntityChange({
+        entityType: "contract",
+        entityId: id,
+        customerId: contract.customerId,
+        action: "updated",
+        description: `Contract ${contract.contractNumber} updated`,
+        performedBy: userId,
+        oldValues: existingContract,
+        newValues: validatedData,
+      });
       res.json(contract);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2946,15 +4914,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error updating contract:", error);
       res.status(500).json({ message: "Failed to update contract" });
     }
   });
 
-  app.delete("/api/contracts/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/contracts/:id", authenticateToken, checkApiPermission("contracts", "manage"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const contract = await storage.getContractById(id, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
       await storage.deleteContract(id);
+      await AuditService.logEntityChange({
+        entityType: "contract",
+        entityId: id,
+        customerId: contract.customerId,
+        action: "deleted",
+        description: `Contract ${contract.contractNumber} deleted`,
+        performedBy: req.user.id,
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting contract:", error);
@@ -2962,10 +4946,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Approval status, chain progress and history, with the actions open to the current user
+  app.get("/api/contracts/:id/approval", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      res.json(await ContractApprovalService.getState(contract, req.user));
+    } catch (error) {
+      if (error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching contract approval:", error);
+      res.status(500).json({ message: "Failed to fetch contract approval" });
+    }
+  });
+
+  // Submit, approve, reject or terminate; the service checks who may take each action
+  app.post("/api/contracts/:id/approval", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const validatedData = contractApprovalActionSchema.parse(req.body);
+      res.json(await ContractApprovalService.perform(contract, validatedData, req.user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating contract approval:", error);
+      res.status(500).json({ message: "Failed to update contract approval" });
+    }
+  });
+
+  // Approve or reject the current step of a pending amendment
+  app.post("/api/contracts/:id/amendments/:revisionNumber/approval", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const validatedData = contractAmendmentApprovalActionSchema.parse(req.body);
+      res.json(await ContractApprovalService.performAmendment(contract, parseInt(req.params.revisionNumber), validatedData, req.user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating contract amendment approval:", error);
+      res.status(500).json({ message: "Failed to update contract amendment approval" });
+    }
+  });
+
+  // Clones the contract into a new draft running on from it; number and dates default from the contract
+  app.post("/api/contracts/:id/renew", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const validatedData = contractRenewalSchema.parse(req.body);
+      res.status(201).json(await ContractExpiryService.renew(contract, validatedData, req.user.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractExpiryError || error instanceof CustomerCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error renewing contract:", error);
+      res.status(500).json({ message: "Failed to renew contract" });
+    }
+  });
+
+  // Contract revisions, oldest first
+  app.get("/api/contracts/:id/revisions", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      res.json(await ContractRevisionService.getRevisions(contract));
+    } catch (error) {
+      console.error("Error fetching contract revisions:", error);
+      res.status(500).json({ message: "Failed to fetch contract revisions" });
+    }
+  });
+
+  // Field-level differences between two revisions, e.g. ?from=1&to=3
+  app.get("/api/contracts/:id/revisions/compare", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: "Revisions to compare are required" });
+      }
+      res.json({ from, to, changes: await ContractRevisionService.compare(contract, from, to) });
+    } catch (error) {
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error comparing contract revisions:", error);
+      res.status(500).json({ message: "Failed to compare contract revisions" });
+    }
+  });
+
+  app.post("/api/contracts/:id/amendments", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const validatedData = contractAmendmentSchema.parse(req.body);
+      const amended = await ContractRevisionService.amend(contract, validatedData, req.user.id);
+      res.status(201).json(amended);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error amending contract:", error);
+      res.status(500).json({ message: "Failed to amend contract" });
+    }
+  });
+
   // Contract-specific data routes (linked by contract number)
-  app.get("/api/contracts/:id/tariffs", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts/:id/tariffs", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
       const tariffs = await storage.getContractTariffsByContractId(contractId);
       res.json(tariffs);
     } catch (error) {
@@ -2974,9 +5111,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/contracts/:id/cargo", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts/:id/cargo", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
       const cargoDetails = await storage.getContractCargoDetailsByContractId(contractId);
       res.json(cargoDetails);
     } catch (error) {
@@ -2985,9 +5126,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/contracts/:id/storage", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/contracts/:id/storage", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
       const storageCharges = await storage.getContractStorageChargesByContractId(contractId);
       res.json(storageCharges);
     } catch (error) {
@@ -2996,82 +5141,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Object Storage Routes for Contract Documents
+  // What-if storage charge, itemized by free time and rate slab; nothing is billed
+  app.post("/api/contracts/:id/storage-charges/calculate", authenticateToken, checkApiPermission("contracts"), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContractById(parseInt(req.params.id), req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const validatedData = storageChargeCalculationSchema.parse(req.body);
+      res.json(await StorageChargeService.calculate(contract, validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof StorageChargeError || error instanceof ContractApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error calculating storage charge:", error);
+      res.status(500).json({ message: "Failed to calculate storage charge" });
+    }
+  });
+
+  // Object Storage Routes for Contract Documents. Files go to private object storage only, where they can carry
+  // ACL policies; without it uploads are refused.
   app.post("/api/objects/upload", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const objectStorageService = new ObjectStorageService();
-      
-      // Generate a unique object ID for this upload
-      const objectId = `uploads/${Date.now()}-${Math.random().toString(36).substring(2)}`;
-      const privateObjectDir = process.env.PRIVATE_OBJECT_DIR || "";
-      
-      if (!privateObjectDir) {
-        return res.status(500).json({ error: "Object storage not configured" });
+      if (!process.env.PRIVATE_OBJECT_DIR) {
+        return res.status(503).json({ error: "File uploads are unavailable: private object storage is not configured" });
       }
-      
-      // Create a direct upload URL that points to our server endpoint
-      const directUploadURL = `/api/objects/direct-upload/${objectId}`;
-      
-      res.json({ uploadURL: directUploadURL });
+      res.json(new ObjectStorageService().createObjectEntityUpload());
     } catch (error) {
       console.error("Error getting upload URL:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Direct upload handler - accepts file uploads and stores them
-  app.put("/api/objects/direct-upload/:objectId", (req, res, next) => {
-    // Parse raw body for file upload
-    let data = Buffer.alloc(0);
-    req.on('data', chunk => {
-      data = Buffer.concat([data, chunk]);
-    });
-    req.on('end', () => {
-      req.body = data;
-      next();
-    });
-  }, async (req: Request, res: Response) => {
+  // Direct upload handler - the file is the raw request body, as the uploader PUTs it
+  app.put("/api/objects/direct-upload/:uploadId", authenticateToken, express.raw({ type: () => true, limit: "10mb" }), async (req: Request, res: Response) => {
     try {
-      const { objectId } = req.params;
-      const fileBuffer = req.body;
-      
-      if (!fileBuffer || fileBuffer.length === 0) {
-        return res.status(400).json({ error: "No file data provided" });
+      if (!process.env.PRIVATE_OBJECT_DIR) {
+        return res.status(503).json({ error: "File uploads are unavailable: private object storage is not configured" });
       }
-      
-      const privateObjectDir = process.env.PRIVATE_OBJECT_DIR || "";
-      const objectPath = `${privateObjectDir}/${objectId}`;
-      
-      // Parse the object path to get bucket and object name
-      const pathParts = objectPath.split("/");
-      if (pathParts.length < 3) {
-        return res.status(500).json({ error: "Invalid object path configuration" });
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "No file data provided" });
       }
-      
-      const bucketName = pathParts[1];
-      const objectName = pathParts.slice(2).join("/");
-      
-      // Upload to Google Cloud Storage
-      const { objectStorageClient } = await import("./objectStorage");
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
-      
-      // Upload the file
-      await file.save(fileBuffer, {
-        metadata: {
-          contentType: req.get('content-type') || 'application/octet-stream'
-        }
-      });
-      
-      // Return the object path for later access
-      const publicPath = `/objects/${objectId}`;
-      res.json({ 
-        success: true, 
-        objectPath: publicPath,
-        url: publicPath 
-      });
-      
+
+      const objectPath = await new ObjectStorageService().saveObjectEntityUpload(
+        req.params.uploadId,
+        req.body,
+        req.get("content-type") || "application/octet-stream",
+      );
+      res.json({ success: true, objectPath, url: objectPath });
     } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Unknown upload" });
+      }
       console.error("Error uploading file:", error);
       res.status(500).json({ error: "Failed to upload file" });
     }
@@ -3107,15 +5234,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contract tariff management
-  app.post("/api/contracts/:id/tariffs", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:id/tariffs", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractTariffSchema.parse({
         ...req.body,
         contractId
       });
       
-      const tariff = await storage.createContractTariff(validatedData);
+      const [tariffData] = ContractMoneyService.withDefaultCurrency([validatedData], await ContractMoneyService.getDefaultCurrency(contract));
+      const tariff = await storage.createContractTariff(tariffData);
       res.status(201).json(tariff);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -3124,15 +5257,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract tariff:", error);
       res.status(500).json({ message: "Failed to create contract tariff" });
     }
   });
 
   // Contract cargo management
-  app.post("/api/contracts/:id/cargo", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:id/cargo", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractCargoDetailSchema.parse({
         ...req.body,
         contractId
@@ -3147,21 +5288,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract cargo detail:", error);
       res.status(500).json({ message: "Failed to create contract cargo detail" });
     }
   });
 
   // Contract storage management
-  app.post("/api/contracts/:id/storage", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/contracts/:id/storage", authenticateToken, checkApiPermission("contracts", "write"), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
+      const contract = await storage.getContractById(contractId, req.user.dataScope);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      ContractRevisionService.assertEditable(contract);
       const validatedData = insertContractStorageChargeSchema.parse({
         ...req.body,
         contractId
       });
       
-      const storageCharge = await storage.createContractStorageCharge(validatedData);
+      const [storageChargeData] = ContractMoneyService.withDefaultCurrency([validatedData], await ContractMoneyService.getDefaultCurrency(contract));
+      const storageCharge = await storage.createContractStorageCharge(storageChargeData);
       res.status(201).json(storageCharge);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -3170,13 +5320,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: error.errors 
         });
       }
+      if (error instanceof ContractRevisionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating contract storage charge:", error);
       res.status(500).json({ message: "Failed to create contract storage charge" });
     }
   });
 
   // Dashboard Stats API
-  app.get("/api/dashboard/stats", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/dashboard/stats", authenticateToken, checkApiPermission("dashboard"), async (req: Request, res: Response) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -3187,13 +5340,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Database Backup API Routes
-  app.get("/api/database/backups", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/database/backups", authenticateToken, checkApiPermission("backups"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const backups = await storage.getDatabaseBackups();
       res.json(backups);
     } catch (error) {
@@ -3202,13 +5350,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/backup", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/database/backup", authenticateToken, checkApiPermission("backups", "write"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const { description } = req.body;
       const backup = await storage.createDatabaseBackup(req.user.id, description);
       res.status(201).json(backup);
@@ -3219,13 +5362,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cancel database backup
-  app.post("/api/database/backup/:backupId/cancel", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/database/backup/:backupId/cancel", authenticateToken, checkApiPermission("backups", "write"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const { backupId } = req.params;
       
       const result = await storage.cancelBackup(backupId);
@@ -3241,13 +5379,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/database/backups/:id/download", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/database/backups/:id/download", authenticateToken, checkApiPermission("backups", "manage"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const backupId = req.params.id;
       const backupPath = await storage.getBackupPath(backupId);
       
@@ -3262,13 +5395,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/database/backups/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.delete("/api/database/backups/:id", authenticateToken, checkApiPermission("backups", "manage"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const backupId = req.params.id;
       await storage.deleteDatabaseBackup(backupId);
       res.status(204).send();
@@ -3278,13 +5406,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/database/restore/:id", authenticateToken, async (req: Request, res: Response) => {
+  app.post("/api/database/restore/:id", authenticateToken, checkApiPermission("backups", "manage"), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       const backupId = req.params.id;
       const { createIfNotExists = false } = req.body;
       
@@ -3297,13 +5420,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload and restore database backup
-  app.post("/api/database/upload-restore", authenticateToken, upload.single('backupFile'), async (req: Request, res: Response) => {
+  app.post("/api/database/upload-restore", authenticateToken, checkApiPermission("backups", "manage"), upload.single('backupFile'), async (req: Request, res: Response) => {
     try {
-      // Only allow System Admins
-      if (!isSystemAdmin(req.user)) {
-        return res.status(403).json({ message: "Access denied. System Admin role required." });
-      }
-
       if (!req.file) {
         return res.status(400).json({ message: "No backup file uploaded" });
       }
@@ -3347,9 +5465,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/role-creation-permissions/creator/:roleId", authenticateToken, async (req: Request, res: Response) => {
+  app.get("/api/role-creation-permissions/creator/:roleId", authenticateToken, checkApiPermission("users", "write"), async (req: Request, res: Response) => {
     try {
       const { roleId } = req.params;
+      // Users who create users may look up what their own role is allowed to create
+      if (!isSystemAdmin(req.user) && parseInt(roleId) !== req.user.roleId) {
+        return res.status(403).json({ message: "Access denied. System Admin role required." });
+      }
       const permission = await storage.getRoleCreationPermissionByCreatorRoleId(parseInt(roleId));
       res.json(permission);
     } catch (error) {
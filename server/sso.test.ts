@@ -0,0 +1,226 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from "crypto";
+import type { AddressInfo } from "net";
+import { SsoService, SsoError } from "./sso";
+import type { OrganizationSsoConfig, SsoRoleMapping } from "@shared/schema";
+
+// Minimal OpenID Connect provider: discovery, JWKS, an authorization endpoint that signs the user straight in
+// and a token endpoint that checks PKCE before issuing an RS256 ID token
+interface MockIdpUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  groups?: string[];
+}
+
+const CLIENT_ID = "portray-test";
+const CLIENT_SECRET = "test-secret";
+
+class MockIdp {
+  issuer = "";
+  user: MockIdpUser = { sub: "user-1", email: "someone@example.com" };
+  private server: Server;
+  private privateKey: KeyObject;
+  private publicJwk: Record<string, unknown>;
+  private codes = new Map<string, { nonce: string; codeChallenge: string; redirectUri: string; user: MockIdpUser }>();
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicJwk = { ...publicKey.export({ format: "jwk" }), kid: "test-key", use: "sig", alg: "RS256" };
+    this.server = createServer((req, res) => this.handle(req.method || "GET", new URL(req.url || "/", this.issuer), req, res));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  // What the browser does at the IdP: follow the authorization URL and come back with a code
+  async authorize(authorizationUrl: URL): Promise<URL> {
+    const response = await fetch(authorizationUrl, { redirect: "manual" });
+    return new URL(response.headers.get("location")!);
+  }
+
+  private handle(method: string, url: URL, req: import("http").IncomingMessage, res: import("http").ServerResponse) {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return json(200, { keys: [this.publicJwk] });
+    }
+
+    if (url.pathname === "/authorize") {
+      const redirectUri = new URL(url.searchParams.get("redirect_uri")!);
+      const code = randomBytes(16).toString("hex");
+      this.codes.set(code, {
+        nonce: url.searchParams.get("nonce")!,
+        codeChallenge: url.searchParams.get("code_challenge")!,
+        redirectUri: redirectUri.href,
+        user: this.user,
+      });
+      redirectUri.searchParams.set("code", code);
+      redirectUri.searchParams.set("state", url.searchParams.get("state")!);
+      res.writeHead(302, { Location: redirectUri.href });
+      return res.end();
+    }
+
+    if (url.pathname === "/token" && method === "POST") {
+      let body = "";
+      req.on("data", chunk => { body += chunk; });
+      req.on("end", () => {
+        const params = new URLSearchParams(body);
+        const authorization = req.headers.authorization?.replace(/^Basic /, "");
+        const [clientId, clientSecret] = authorization
+          ? Buffer.from(authorization, "base64").toString().split(":").map(decodeURIComponent)
+          : [params.get("client_id"), params.get("client_secret")];
+        if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+          return json(401, { error: "invalid_client" });
+        }
+
+        const grant = this.codes.get(params.get("code") || "");
+        this.codes.delete(params.get("code") || "");
+        const verifier = params.get("code_verifier") || "";
+        if (!grant || grant.redirectUri !== params.get("redirect_uri")
+          || createHash("sha256").update(verifier).digest("base64url") !== grant.codeChallenge) {
+          return json(400, { error: "invalid_grant" });
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        json(200, {
+          access_token: randomBytes(16).toString("hex"),
+          token_type: "Bearer",
+          expires_in: 300,
+          id_token: this.signIdToken({ iss: this.issuer, aud: CLIENT_ID, iat: now, exp: now + 300, nonce: grant.nonce, ...grant.user }),
+        });
+      });
+      return;
+    }
+
+    json(404, { error: "not_found" });
+  }
+
+  private signIdToken(claims: Record<string, unknown>): string {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const unsigned = `${encode({ alg: "RS256", typ: "JWT", kid: "test-key" })}.${encode(claims)}`;
+    return `${unsigned}.${sign("sha256", Buffer.from(unsigned), this.privateKey).toString("base64url")}`;
+  }
+}
+
+const idp = new MockIdp();
+const REDIRECT_URI = "http://localhost:5000/api/auth/sso/1/callback";
+
+const ssoConfig = (): OrganizationSsoConfig => ({
+  id: 1,
+  organizationId: 1,
+  issuerUrl: idp.issuer,
+  clientId: CLIENT_ID,
+  clientSecret: CLIENT_SECRET,
+  scopes: "openid profile email",
+  groupsClaim: "groups",
+  defaultRoleId: null,
+  defaultPortId: null,
+  autoProvision: true,
+  enforceSso: false,
+  isEnabled: true,
+  updatedBy: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+// The callback as it reaches the server, on whatever host the browser used
+const toServerCallback = (redirect: URL) => new URL(`${redirect.pathname}${redirect.search}`, "http://127.0.0.1:5000");
+
+before(() => idp.start());
+after(() => idp.stop());
+
+test("signs in through the mock IdP and reads the identity from the ID token", async () => {
+  idp.user = {
+    sub: "user-1",
+    email: "Jane.Doe@Example.com",
+    email_verified: true,
+    given_name: "Jane",
+    family_name: "Doe",
+    groups: ["port-ops", "finance"],
+  };
+
+  const authorizationUrl = await SsoService.startLogin(ssoConfig(), REDIRECT_URI);
+  assert.equal(authorizationUrl.origin, idp.issuer);
+  assert.equal(authorizationUrl.searchParams.get("code_challenge_method"), "S256");
+
+  const identity = await SsoService.completeLogin(ssoConfig(), toServerCallback(await idp.authorize(authorizationUrl)));
+  assert.deepEqual(identity, {
+    subject: "user-1",
+    email: "jane.doe@example.com",
+    emailVerified: true,
+    firstName: "Jane",
+    lastName: "Doe",
+    groups: ["port-ops", "finance"],
+  });
+});
+
+test("reports an email the IdP has not verified", async () => {
+  idp.user = { sub: "user-2", email: "unverified@example.com" };
+  const authorizationUrl = await SsoService.startLogin(ssoConfig(), REDIRECT_URI);
+  const identity = await SsoService.completeLogin(ssoConfig(), toServerCallback(await idp.authorize(authorizationUrl)));
+
+  assert.equal(identity.email, "unverified@example.com");
+  assert.equal(identity.emailVerified, false);
+  assert.deepEqual(identity.groups, []);
+});
+
+test("accepts each sign-in request only once", async () => {
+  idp.user = { sub: "user-3", email: "once@example.com", email_verified: true };
+  const authorizationUrl = await SsoService.startLogin(ssoConfig(), REDIRECT_URI);
+  const callback = toServerCallback(await idp.authorize(authorizationUrl));
+  await SsoService.completeLogin(ssoConfig(), callback);
+
+  await assert.rejects(SsoService.completeLogin(ssoConfig(), callback), SsoError);
+});
+
+test("rejects a callback whose state was never issued", async () => {
+  const callback = new URL("/api/auth/sso/1/callback?code=abc&state=forged", "http://127.0.0.1:5000");
+  await assert.rejects(SsoService.completeLogin(ssoConfig(), callback), SsoError);
+});
+
+test("reports an error returned by the IdP", async () => {
+  const authorizationUrl = await SsoService.startLogin(ssoConfig(), REDIRECT_URI);
+  const callback = new URL("/api/auth/sso/1/callback", "http://127.0.0.1:5000");
+  callback.searchParams.set("state", authorizationUrl.searchParams.get("state")!);
+  callback.searchParams.set("error", "access_denied");
+  callback.searchParams.set("error_description", "User cancelled the sign-in");
+
+  await assert.rejects(SsoService.completeLogin(ssoConfig(), callback), { message: "User cancelled the sign-in" });
+});
+
+test("maps the first configured group the user belongs to", () => {
+  const mapping = (groupName: string, roleId: number) => ({ groupName, roleId }) as SsoRoleMapping;
+  const mappings = [mapping("admins", 1), mapping("finance", 2), mapping("port-ops", 3)];
+
+  assert.equal(SsoService.resolveRoleId(["port-ops", "finance"], mappings), 2);
+  assert.equal(SsoService.resolveRoleId(["visitors"], mappings), undefined);
+});
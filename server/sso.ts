@@ -0,0 +1,171 @@
+import * as client from "openid-client";
+import { randomBytes } from "crypto";
+import type { OrganizationSsoConfig, SsoRoleMapping } from "@shared/schema";
+
+// How long a user has to finish signing in at the IdP, and to exchange the resulting code for a session
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const EXCHANGE_CODE_TTL_MS = 60 * 1000;
+
+interface PendingLogin {
+  organizationId: number;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+interface ExchangeCode {
+  userId: string;
+  expiresAt: number;
+}
+
+export interface SsoIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean; // The IdP's email_verified claim; unverified addresses are never used to link accounts
+  firstName?: string;
+  lastName?: string;
+  groups: string[];
+}
+
+export class SsoError extends Error {}
+
+const pendingLogins = new Map<string, PendingLogin>();
+const exchangeCodes = new Map<string, ExchangeCode>();
+
+// Discovery results, keyed by organization and invalidated whenever its configuration is saved
+const clientConfigurations = new Map<number, { updatedAt: number; configuration: client.Configuration }>();
+
+// Drop expired entries so the maps do not grow unbounded
+setInterval(() => {
+  const now = Date.now();
+  pendingLogins.forEach((login, state) => {
+    if (login.expiresAt < now) {
+      pendingLogins.delete(state);
+    }
+  });
+  exchangeCodes.forEach((entry, code) => {
+    if (entry.expiresAt < now) {
+      exchangeCodes.delete(code);
+    }
+  });
+}, PENDING_LOGIN_TTL_MS).unref();
+
+// Plain http is only accepted for local issuers such as a mock IdP used in development and tests
+function isLocalIssuer(issuerUrl: URL): boolean {
+  return ["localhost", "127.0.0.1", "::1", "[::1]"].includes(issuerUrl.hostname);
+}
+
+function readStringClaim(claims: Record<string, unknown>, name: string): string | undefined {
+  const value = claims[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+export class SsoService {
+  static async getClientConfiguration(config: OrganizationSsoConfig): Promise<client.Configuration> {
+    const cached = clientConfigurations.get(config.organizationId);
+    if (cached && cached.updatedAt === config.updatedAt.getTime()) {
+      return cached.configuration;
+    }
+
+    const issuerUrl = new URL(config.issuerUrl);
+    const configuration = await client.discovery(
+      issuerUrl,
+      config.clientId,
+      config.clientSecret || undefined,
+      config.clientSecret ? undefined : client.None(),
+      isLocalIssuer(issuerUrl) ? { execute: [client.allowInsecureRequests] } : undefined
+    );
+    clientConfigurations.set(config.organizationId, { updatedAt: config.updatedAt.getTime(), configuration });
+    return configuration;
+  }
+
+  // Authorization URL for the IdP, using PKCE, state and nonce
+  static async startLogin(config: OrganizationSsoConfig, redirectUri: string): Promise<URL> {
+    const configuration = await this.getClientConfiguration(config);
+    const codeVerifier = client.randomPKCECodeVerifier();
+    const state = client.randomState();
+    const nonce = client.randomNonce();
+
+    pendingLogins.set(state, {
+      organizationId: config.organizationId,
+      codeVerifier,
+      nonce,
+      redirectUri,
+      expiresAt: Date.now() + PENDING_LOGIN_TTL_MS,
+    });
+
+    return client.buildAuthorizationUrl(configuration, {
+      redirect_uri: redirectUri,
+      scope: config.scopes,
+      code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+      code_challenge_method: "S256",
+      state,
+      nonce,
+    });
+  }
+
+  // Exchange the authorization code from the IdP callback and read the user's identity from the ID token
+  static async completeLogin(config: OrganizationSsoConfig, callbackUrl: URL): Promise<SsoIdentity> {
+    const state = callbackUrl.searchParams.get("state");
+    const pending = state ? pendingLogins.get(state) : undefined;
+    if (!state || !pending || pending.expiresAt < Date.now() || pending.organizationId !== config.organizationId) {
+      throw new SsoError("Sign-in request expired. Please try again.");
+    }
+    pendingLogins.delete(state);
+
+    const idpError = callbackUrl.searchParams.get("error");
+    if (idpError) {
+      throw new SsoError(callbackUrl.searchParams.get("error_description") || `Identity provider returned ${idpError}`);
+    }
+
+    // Match the redirect URI sent in the authorization request, whatever host the callback came in on
+    const currentUrl = new URL(pending.redirectUri);
+    currentUrl.search = callbackUrl.search;
+
+    const configuration = await this.getClientConfiguration(config);
+    const tokens = await client.authorizationCodeGrant(configuration, currentUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+
+    const claims = tokens.claims() as Record<string, unknown> | undefined;
+    if (!claims || typeof claims.sub !== "string") {
+      throw new SsoError("Identity provider did not return an ID token");
+    }
+
+    const groupsClaim = claims[config.groupsClaim];
+    const groups = Array.isArray(groupsClaim)
+      ? groupsClaim.filter((group): group is string => typeof group === "string")
+      : typeof groupsClaim === "string" ? [groupsClaim] : [];
+
+    return {
+      subject: claims.sub,
+      email: readStringClaim(claims, "email")?.toLowerCase(),
+      emailVerified: claims.email_verified === true,
+      firstName: readStringClaim(claims, "given_name"),
+      lastName: readStringClaim(claims, "family_name"),
+      groups,
+    };
+  }
+
+  // First mapping, in configured order, whose group the user belongs to
+  static resolveRoleId(groups: string[], mappings: SsoRoleMapping[]): number | undefined {
+    return mappings.find(mapping => groups.includes(mapping.groupName))?.roleId;
+  }
+
+  // Short-lived, single-use code handed to the browser so the session token never appears in a URL
+  static createExchangeCode(userId: string): string {
+    const code = randomBytes(32).toString("hex");
+    exchangeCodes.set(code, { userId, expiresAt: Date.now() + EXCHANGE_CODE_TTL_MS });
+    return code;
+  }
+
+  static consumeExchangeCode(code: string): string | undefined {
+    const entry = exchangeCodes.get(code);
+    exchangeCodes.delete(code);
+    return entry && entry.expiresAt >= Date.now() ? entry.userId : undefined;
+  }
+}
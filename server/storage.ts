@@ -1,14 +1,68 @@
-import { type User, type InsertUser, type UpdateUser, type Session, type LoginCredentials, type Organization, type InsertOrganization, type Port, type InsertPort, type PortAdminContact, type InsertPortAdminContact, type UpdatePortAdminContact, type EmailConfiguration, type InsertEmailConfiguration, type Terminal, type InsertTerminal, type UpdateTerminal, type Notification, type InsertNotification, type SubscriptionType, type ActivationLog, type InsertActivationLog, type Menu, type InsertMenu, type UpdateMenu, type Role, type InsertRole, type UpdateRole, type EmailLog, type InsertEmailLog, type UserAuditLog, type InsertUserAuditLog, type Customer, type InsertCustomer, type CustomerContact, type InsertCustomerContact, type CustomerAddress, type InsertCustomerAddress, type Contract, type InsertContract, type ContractTariff, type InsertContractTariff, type ContractCargoDetail, type InsertContractCargoDetail, type ContractStorageCharge, type InsertContractStorageCharge, type ContractSpecialCondition, type InsertContractSpecialCondition, type Country, type State, type CargoType, type Plot, type DatabaseBackup, type InsertDatabaseBackup, type RoleCreationPermission, type InsertRoleCreationPermission } from "@shared/schema";
-import { users, sessions, organizations, ports, portAdminContacts, emailConfigurations, terminals, notifications, subscriptionTypes, activationLogs, menus, roles, emailLogs, userAuditLogs, customers, customerContacts, customerAddresses, contracts, contractTariffs, contractCargoDetails, contractStorageCharges, contractSpecialConditions, countries, states, cargoTypes, plots, databaseBackups, roleCreationPermissions } from "@shared/schema";
+import { type User, type InsertUser, type UpdateUser, type Session, type TwoFactorChallenge, type PasswordPolicy, type PasswordHistory, type UpdatePasswordPolicy, type LoginCredentials, type Organization, type OrganizationSsoConfig, type SsoRoleMapping, type UpdateSsoConfig, type InsertOrganization, type Port, type InsertPort, type PortAdminContact, type InsertPortAdminContact, type UpdatePortAdminContact, type EmailConfiguration, type InsertEmailConfiguration, type Terminal, type InsertTerminal, type UpdateTerminal, type Notification, type InsertNotification, type SubscriptionType, type ActivationLog, type InsertActivationLog, type Menu, type InsertMenu, type UpdateMenu, type Role, type InsertRole, type UpdateRole, type EmailLog, type InsertEmailLog, type UserAuditLog, type InsertUserAuditLog, type EntityAuditLog, type InsertEntityAuditLog, type ApiKey, type InsertApiKey, type ApiKeyAuditLog, type InsertApiKeyAuditLog, type Customer, type InsertCustomer, type CustomerContact, type InsertCustomerContact, type CustomerAddress, type InsertCustomerAddress, type CustomerStatusHistory, type InsertCustomerStatusHistory, type CustomerCodeAlias, type CustomerMerge, type CustomerDocument, type InsertCustomerDocument, type Contract, type InsertContract, type ContractRevision, type ContractAmendment, type ContractRenewal, type ContractApprovalHistory, type InsertContractApprovalHistory, type ContractTariff, type InsertContractTariff, type ContractCargoDetail, type InsertContractCargoDetail, type ContractStorageCharge, type InsertContractStorageCharge, type ContractSpecialCondition, type InsertContractSpecialCondition, type Country, type State, type CargoType, type Plot, type DatabaseBackup, type InsertDatabaseBackup, type RoleCreationPermission, type InsertRoleCreationPermission } from "@shared/schema";
+import { users, sessions, twoFactorChallenges, passwordPolicies, passwordHistory, organizations, organizationSsoConfigs, ssoRoleMappings, ports, portAdminContacts, emailConfigurations, terminals, notifications, subscriptionTypes, activationLogs, menus, roles, emailLogs, userAuditLogs, entityAuditLogs, apiKeys, apiKeyAuditLogs, customers, customerContacts, customerAddresses, customerStatusHistory, customerCodeSequences, customerCodeAliases, customerMerges, customerDocuments, contracts, contractRevisions, contractApprovalHistory, contractTariffs, contractCargoDetails, contractStorageCharges, contractSpecialConditions, countries, states, cargoTypes, plots, databaseBackups, roleCreationPermissions } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, isNull, desc, asc, isNotNull, inArray } from "drizzle-orm";
-import { randomUUID } from "crypto";
+import { eq, ne, and, isNull, desc, asc, isNotNull, inArray, notInArray, arrayContains, gt, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import bcrypt from "bcrypt";
+import { DEFAULT_PASSWORD_RULES } from "@shared/passwordPolicy";
+import { DEFAULT_CUSTOMER_CODE_TEMPLATE, renderCustomerCode } from "@shared/customerCode";
+import { amendContractRevisionSnapshot, buildContractRevisionSnapshot, type ContractRevisionSnapshot } from "@shared/contractRevisions";
 
 // Global map to track running backup processes for cancellation
 const runningBackups = new Map<string, { timeoutId: NodeJS.Timeout | null; cancelled: boolean }>();
 
+// Port/terminal tenancy for scoped queries. A missing scope means unrestricted (system admins).
+// Customer portal users are scoped to their own customer record.
+export interface DataScope {
+  portId?: number;
+  terminalIds?: number[];
+  customerId?: number;
+}
+
+// Whether a customer falls within a data scope, as returned by getUserDataScope
+export function isCustomerInScope(customer: Pick<Customer, "id" | "portId" | "terminalId">, scope: DataScope | undefined): boolean {
+  if (!scope) return true;
+  if (scope.customerId !== undefined) return customer.id === scope.customerId;
+  if (scope.terminalIds) return scope.terminalIds.includes(customer.terminalId);
+  return scope.portId !== undefined && customer.portId === scope.portId;
+}
+
+// A customer from a bulk import, with its contacts and addresses; code, creator and ids are assigned on insert
+export interface CustomerImportRecord {
+  customer: Omit<InsertCustomer, "createdBy">;
+  contacts: Omit<InsertCustomerContact, "customerId">[];
+  addresses: Omit<InsertCustomerAddress, "customerId">[];
+}
+
+// Client details recorded with a session; createdAt is carried over when a session is refreshed
+export interface SessionMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt?: Date;
+}
+
+// A newly created session together with its bearer token, which is only available at creation time
+export type NewSession = Session & { token: string };
+
+// Sessions are stored and looked up by token hash so a leaked database cannot be used to impersonate users
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A newly created API key together with the key itself, which is only available at creation time
+export type NewApiKey = ApiKey & { key: string };
+
+// Number of leading key characters kept in clear so keys can be told apart in the UI
+const API_KEY_PREFIX_LENGTH = 12;
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
 export interface IStorage {
+  // Data scoping
+  getUserDataScope(user: User): Promise<DataScope | undefined>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -16,20 +70,57 @@ export interface IStorage {
   getUserByPasswordSetupToken(token: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   getUsersByRole(role: string): Promise<User[]>;
+  getUsersByCustomerId(customerId: number): Promise<User[]>;
+  getUsersByTerminalId(terminalId: number): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: UpdateUser): Promise<User | undefined>;
   toggleUserStatus(id: string): Promise<User | undefined>;
   updateUserLastLogin(id: string): Promise<void>;
+  incrementFailedLoginAttempts(id: string): Promise<number>;
+  resetFailedLoginAttempts(id: string): Promise<void>;
+  lockUser(id: string, lockedUntil: Date): Promise<void>;
+  unlockUser(id: string): Promise<User | undefined>;
+  updateUserTwoFactor(id: string, updates: Partial<Pick<User, "twoFactorEnabled" | "twoFactorSecret" | "twoFactorRecoveryCodes" | "twoFactorLastUsedStep">>): Promise<User | undefined>;
+  // Records a TOTP time step as used; false when it or a later step was already accepted
+  acceptTwoFactorStep(id: string, step: number): Promise<boolean>;
+  // Removes an unused recovery code; false when the user does not have it, or another request used it first
+  consumeTwoFactorRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+  getUserBySsoSubject(organizationId: number, subject: string): Promise<User | undefined>;
+  linkUserSsoIdentity(id: string, organizationId: number, subject: string): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
   
   // Authentication operations
   validateUserCredentials(email: string, password: string): Promise<User | null>;
   
   // Session operations
-  createSession(userId: string, rememberMe?: boolean): Promise<Session>;
+  createSession(userId: string, rememberMe?: boolean, metadata?: SessionMetadata): Promise<NewSession>;
   getSessionByToken(token: string): Promise<Session | undefined>;
+  getSessionById(id: string): Promise<Session | undefined>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  touchSession(id: string): Promise<void>;
   deleteSession(token: string): Promise<void>;
+  deleteSessionById(id: string): Promise<void>;
   deleteUserSessions(userId: string): Promise<void>;
+  pruneUserSessions(userId: string, maxSessions: number): Promise<number>;
+
+  // Two-factor challenge operations
+  createTwoFactorChallenge(userId: string, rememberMe?: boolean): Promise<TwoFactorChallenge>;
+  getTwoFactorChallengeByToken(token: string): Promise<TwoFactorChallenge | undefined>;
+  incrementTwoFactorChallengeAttempts(id: string): Promise<number>;
+  deleteTwoFactorChallenge(id: string): Promise<void>;
+
+  // Password policy operations
+  getPasswordPolicy(): Promise<PasswordPolicy>;
+  updatePasswordPolicy(updates: UpdatePasswordPolicy, updatedBy: string): Promise<PasswordPolicy>;
+  getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]>;
+  addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void>;
+
+  // Single sign-on operations
+  getSsoConfigByOrganizationId(organizationId: number): Promise<OrganizationSsoConfig | undefined>;
+  getEnabledSsoConfigs(): Promise<OrganizationSsoConfig[]>;
+  upsertSsoConfig(organizationId: number, config: Omit<UpdateSsoConfig, "roleMappings">, updatedBy: string): Promise<OrganizationSsoConfig>;
+  getSsoRoleMappings(organizationId: number): Promise<SsoRoleMapping[]>;
+  replaceSsoRoleMappings(organizationId: number, mappings: { groupName: string; roleId: number }[]): Promise<SsoRoleMapping[]>;
 
   // Organization operations
   getAllOrganizations(): Promise<Organization[]>;
@@ -80,11 +171,24 @@ export interface IStorage {
   getUserAuditLogsByUserId(userId: string): Promise<UserAuditLog[]>;
   getUserAuditLogsByPerformedBy(performedBy: string): Promise<UserAuditLog[]>;
   createUserAuditLog(log: InsertUserAuditLog): Promise<UserAuditLog>;
+  createEntityAuditLog(log: InsertEntityAuditLog): Promise<EntityAuditLog>;
+  getEntityAuditLogsByCustomerId(customerId: number): Promise<EntityAuditLog[]>;
+
+  // API key operations
+  getApiKeys(portId?: number): Promise<ApiKey[]>;
+  getApiKeyById(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByKey(key: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey, createdBy: string): Promise<NewApiKey>;
+  revokeApiKey(id: number): Promise<ApiKey | undefined>;
+  touchApiKey(id: number, ipAddress?: string): Promise<void>;
+  getApiKeyAuditLogs(apiKeyId: number, limit: number): Promise<ApiKeyAuditLog[]>;
+  createApiKeyAuditLog(log: InsertApiKeyAuditLog): Promise<ApiKeyAuditLog>;
 
   // Terminal operations
-  getAllTerminals(): Promise<Terminal[]>;
-  getTerminalsByPortId(portId: number): Promise<Terminal[]>;
-  getTerminalById(id: number): Promise<Terminal | undefined>;
+  getAllTerminals(scope?: DataScope): Promise<Terminal[]>;
+  getActiveSubscribedTerminals(scope?: DataScope): Promise<Terminal[]>;
+  getTerminalsByPortId(portId: number, scope?: DataScope): Promise<Terminal[]>;
+  getTerminalById(id: number, scope?: DataScope): Promise<Terminal | undefined>;
   getTerminalByName(terminalName: string): Promise<Terminal | undefined>;
   getTerminalByShortCode(shortCode: string): Promise<Terminal | undefined>;
   createTerminal(terminal: InsertTerminal): Promise<Terminal>;
@@ -98,7 +202,7 @@ export interface IStorage {
   getNotificationsByUserId(userId: string): Promise<Notification[]>;
   getUnreadNotificationsCount(userId: string): Promise<number>;
   createNotification(notification: InsertNotification): Promise<Notification>;
-  markNotificationAsRead(id: number): Promise<void>;
+  markNotificationAsRead(id: number, userId?: string): Promise<Notification | undefined>;
 
   // Subscription Types operations
   getAllSubscriptionTypes(): Promise<SubscriptionType[]>;
@@ -112,7 +216,7 @@ export interface IStorage {
     workOrderDate?: Date | null;
   }): Promise<Terminal | undefined>;
   markAllNotificationsAsRead(userId: string): Promise<void>;
-  deleteNotification(id: number): Promise<void>;
+  deleteNotification(id: number, userId?: string): Promise<Notification | undefined>;
 
   // Activation Log operations
   getActivationLogsByTerminalId(terminalId: number): Promise<ActivationLog[]>;
@@ -138,8 +242,8 @@ export interface IStorage {
   deleteRole(id: number): Promise<void>;
 
   // Customer management operations
-  getAllCustomers(): Promise<Customer[]>;
-  getCustomerById(id: number): Promise<Customer | undefined>;
+  getAllCustomers(scope?: DataScope): Promise<Customer[]>;
+  getCustomerById(id: number, scope?: DataScope): Promise<Customer | undefined>;
   getCustomerByCode(customerCode: string): Promise<Customer | undefined>;
   getCustomerByEmail(email: string): Promise<Customer | undefined>;
   getCustomerByPAN(pan: string): Promise<Customer | undefined>;
@@ -147,12 +251,20 @@ export interface IStorage {
   getCustomersByTerminalId(terminalId: number): Promise<Customer[]>;
   createCustomer(customer: InsertCustomer & { customerCode: string }): Promise<Customer>;
   updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined>;
-  updateCustomerStatus(id: number, status: string): Promise<Customer | undefined>;
+  updateCustomerStatus(id: number, status: string, updatedBy?: string): Promise<Customer | undefined>;
+  getCustomerStatusHistory(customerId: number): Promise<CustomerStatusHistory[]>;
+  // Moves the customer to entry.toStatus and records the history entry in one transaction
+  transitionCustomerStatus(entry: InsertCustomerStatusHistory): Promise<Customer | undefined>;
   deleteCustomer(id: number): Promise<void>;
   generateCustomerCode(terminalId: number): Promise<string>;
+  importCustomers(records: CustomerImportRecord[], createdBy: string): Promise<Customer[]>;
+  mergeCustomers(survivorId: number, mergedCustomerId: number, performedBy: string, reason?: string): Promise<CustomerMerge>;
+  getCustomerMerges(customerId: number): Promise<CustomerMerge[]>;
+  getCustomerCodeAliases(customerId: number): Promise<CustomerCodeAlias[]>;
 
   // Customer contacts
   getCustomerContactsByCustomerId(customerId: number): Promise<CustomerContact[]>;
+  getCustomerContactsByCustomerIds(customerIds: number[]): Promise<CustomerContact[]>;
   createCustomerContact(contact: InsertCustomerContact): Promise<CustomerContact>;
   updateCustomerContact(id: number, updates: Partial<CustomerContact>): Promise<CustomerContact | undefined>;
   deleteCustomerContact(id: number): Promise<void>;
@@ -163,14 +275,34 @@ export interface IStorage {
   updateCustomerAddress(id: number, updates: Partial<CustomerAddress>): Promise<CustomerAddress | undefined>;
   deleteCustomerAddress(id: number): Promise<void>;
 
+  // Customer documents
+  getCustomerDocumentsByCustomerId(customerId: number): Promise<CustomerDocument[]>;
+  getCustomerDocumentById(id: number): Promise<CustomerDocument | undefined>;
+  getCustomerDocumentsExpiringBefore(date: Date): Promise<CustomerDocument[]>;
+  createCustomerDocument(document: InsertCustomerDocument): Promise<CustomerDocument>;
+  updateCustomerDocument(id: number, updates: Partial<CustomerDocument>): Promise<CustomerDocument | undefined>;
+  deleteCustomerDocument(id: number): Promise<void>;
+
   // Contract management
-  getAllContracts(): Promise<Contract[]>;
-  getContractById(id: number): Promise<Contract | undefined>;
-  getContractsByCustomerId(customerId: number): Promise<Contract[]>;
+  getAllContracts(scope?: DataScope): Promise<Contract[]>;
+  getContractById(id: number, scope?: DataScope): Promise<Contract | undefined>;
+  getContractsByCustomerId(customerId: number, scope?: DataScope): Promise<Contract[]>;
   createContract(contract: InsertContract): Promise<Contract>;
   updateContract(id: number, updates: Partial<Contract>): Promise<Contract | undefined>;
   deleteContract(id: number): Promise<void>;
 
+  // Contract revisions
+  getContractRevisions(contractId: number): Promise<ContractRevision[]>;
+  amendContract(contractId: number, amendment: ContractAmendment, performedBy: string): Promise<ContractRevision | undefined>;
+  updateContractRevision(id: number, updates: Partial<Pick<ContractRevision, "status" | "approvalStep">>): Promise<ContractRevision | undefined>;
+  applyContractRevision(contractId: number, revisionNumber: number, performedBy: string | null): Promise<{ contract: Contract; revision: ContractRevision }>;
+  getDueContractRevisions(now: Date): Promise<ContractRevision[]>;
+  renewContract(contractId: number, renewal: Required<ContractRenewal>, createdBy: string): Promise<Contract>;
+
+  // Contract approval history
+  getContractApprovalHistory(contractId: number): Promise<ContractApprovalHistory[]>;
+  createContractApprovalHistory(entry: InsertContractApprovalHistory): Promise<ContractApprovalHistory>;
+
   // Contract tariffs
   getContractTariffsByContractId(contractId: number): Promise<ContractTariff[]>;
   createContractTariff(tariff: InsertContractTariff): Promise<ContractTariff>;
@@ -233,6 +365,55 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  // Data scoping
+  async getUserDataScope(user: User): Promise<DataScope | undefined> {
+    if (user.isSystemAdmin || user.userType === "SuperAdmin" || user.role === "SystemAdmin") {
+      return undefined;
+    }
+
+    if (user.userType === "TerminalUser") {
+      return { terminalIds: (user.terminalIds || []).map(id => parseInt(id)).filter(id => !isNaN(id)) };
+    }
+
+    if (user.userType === "Customer") {
+      return user.customerId ? { customerId: user.customerId } : { terminalIds: [] };
+    }
+
+    // Port admins are linked to their port through the port admin contact
+    if (user.portId) {
+      return { portId: user.portId };
+    }
+    const contact = await this.getPortAdminContactByUserId(user.id);
+    return contact ? { portId: contact.portId } : { terminalIds: [] };
+  }
+
+  private terminalScopeFilter(scope?: DataScope): SQL | undefined {
+    if (!scope) return undefined;
+    if (scope.terminalIds) {
+      return scope.terminalIds.length ? inArray(terminals.id, scope.terminalIds) : sql`false`;
+    }
+    return scope.portId !== undefined ? eq(terminals.portId, scope.portId) : sql`false`;
+  }
+
+  private customerScopeFilter(scope?: DataScope): SQL | undefined {
+    if (!scope) return undefined;
+    if (scope.customerId !== undefined) {
+      return eq(customers.id, scope.customerId);
+    }
+    if (scope.terminalIds) {
+      return scope.terminalIds.length ? inArray(customers.terminalId, scope.terminalIds) : sql`false`;
+    }
+    return scope.portId !== undefined ? eq(customers.portId, scope.portId) : sql`false`;
+  }
+
+  private contractScopeFilter(scope?: DataScope): SQL | undefined {
+    if (!scope) return undefined;
+    return inArray(
+      contracts.customerId,
+      db.select({ id: customers.id }).from(customers).where(this.customerScopeFilter(scope))
+    );
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -268,6 +449,87 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  async incrementFailedLoginAttempts(id: string): Promise<number> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+    return user?.failedLoginAttempts ?? 0;
+  }
+
+  async resetFailedLoginAttempts(id: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0 })
+      .where(eq(users.id, id));
+  }
+
+  async lockUser(id: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(users)
+      .set({ lockedUntil, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async unlockUser(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ lockedUntil: null, failedLoginAttempts: 0, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async updateUserTwoFactor(id: string, updates: Partial<Pick<User, "twoFactorEnabled" | "twoFactorSecret" | "twoFactorRecoveryCodes" | "twoFactorLastUsedStep">>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async acceptTwoFactorStep(id: string, step: number): Promise<boolean> {
+    // Conditional update, so two requests racing with the same code cannot both succeed
+    const accepted = await db
+      .update(users)
+      .set({ twoFactorLastUsedStep: step })
+      .where(and(eq(users.id, id), or(isNull(users.twoFactorLastUsedStep), lt(users.twoFactorLastUsedStep, step))))
+      .returning({ id: users.id });
+    return accepted.length > 0;
+  }
+
+  async consumeTwoFactorRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    // Conditional update, so two requests racing with the same recovery code cannot both succeed
+    const consumed = await db
+      .update(users)
+      .set({
+        twoFactorRecoveryCodes: sql`array_remove(${users.twoFactorRecoveryCodes}, ${codeHash})`,
+        updatedAt: new Date()
+      })
+      .where(and(eq(users.id, id), arrayContains(users.twoFactorRecoveryCodes, [codeHash])))
+      .returning({ id: users.id });
+    return consumed.length > 0;
+  }
+
+  async getUserBySsoSubject(organizationId: number, subject: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.ssoOrganizationId, organizationId), eq(users.ssoSubject, subject)));
+    return user || undefined;
+  }
+
+  async linkUserSsoIdentity(id: string, organizationId: number, subject: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ssoOrganizationId: organizationId, ssoSubject: subject, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async validateUserCredentials(email: string, password: string): Promise<User | null> {
     const user = await this.getUserByEmail(email);
     if (!user || !user.password) return null;
@@ -276,34 +538,193 @@ export class DatabaseStorage implements IStorage {
     return isValidPassword ? user : null;
   }
 
-  async createSession(userId: string, rememberMe: boolean = false): Promise<Session> {
+  async createSession(userId: string, rememberMe: boolean = false, metadata: SessionMetadata = {}): Promise<NewSession> {
     const expiresAt = new Date();
     expiresAt.setHours(expiresAt.getHours() + (rememberMe ? 720 : 24)); // 30 days vs 24 hours
 
+    const token = randomUUID();
     const [session] = await db
       .insert(sessions)
       .values({
         userId,
-        token: randomUUID(),
+        tokenHash: hashSessionToken(token),
+        rememberMe,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
         expiresAt,
+        ...(metadata.createdAt ? { createdAt: metadata.createdAt } : {}),
       })
       .returning();
-    return session;
+    return { ...session, token };
   }
 
   async getSessionByToken(token: string): Promise<Session | undefined> {
-    const [session] = await db.select().from(sessions).where(eq(sessions.token, token));
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.tokenHash, hashSessionToken(token)), gt(sessions.expiresAt, new Date())));
     return session || undefined;
   }
 
+  async getSessionById(id: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session || undefined;
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async touchSession(id: string): Promise<void> {
+    await db.update(sessions).set({ lastSeenAt: new Date() }).where(eq(sessions.id, id));
+  }
+
   async deleteSession(token: string): Promise<void> {
-    await db.delete(sessions).where(eq(sessions.token, token));
+    await db.delete(sessions).where(eq(sessions.tokenHash, hashSessionToken(token)));
+  }
+
+  async deleteSessionById(id: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.id, id));
   }
 
   async deleteUserSessions(userId: string): Promise<void> {
     await db.delete(sessions).where(eq(sessions.userId, userId));
   }
 
+  // Sign out the oldest sessions so at most maxSessions remain
+  async pruneUserSessions(userId: string, maxSessions: number): Promise<number> {
+    const activeSessions = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.createdAt));
+
+    const evicted = activeSessions.slice(maxSessions).map(session => session.id);
+    if (evicted.length > 0) {
+      await db.delete(sessions).where(inArray(sessions.id, evicted));
+    }
+    return evicted.length;
+  }
+
+  async createTwoFactorChallenge(userId: string, rememberMe: boolean = false): Promise<TwoFactorChallenge> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + 5);
+
+    const [challenge] = await db
+      .insert(twoFactorChallenges)
+      .values({
+        userId,
+        token: randomUUID(),
+        rememberMe,
+        expiresAt,
+      })
+      .returning();
+    return challenge;
+  }
+
+  async getTwoFactorChallengeByToken(token: string): Promise<TwoFactorChallenge | undefined> {
+    const [challenge] = await db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.token, token));
+    return challenge || undefined;
+  }
+
+  async incrementTwoFactorChallengeAttempts(id: string): Promise<number> {
+    const [challenge] = await db
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(eq(twoFactorChallenges.id, id))
+      .returning({ attempts: twoFactorChallenges.attempts });
+    return challenge?.attempts ?? 0;
+  }
+
+  async deleteTwoFactorChallenge(id: string): Promise<void> {
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, id));
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    const [policy] = await db.select().from(passwordPolicies).orderBy(asc(passwordPolicies.id)).limit(1);
+    if (policy) return policy;
+
+    const [created] = await db.insert(passwordPolicies).values({}).returning();
+    return created;
+  }
+
+  async updatePasswordPolicy(updates: UpdatePasswordPolicy, updatedBy: string): Promise<PasswordPolicy> {
+    const current = await this.getPasswordPolicy();
+    const [policy] = await db
+      .update(passwordPolicies)
+      .set({ ...updates, updatedBy, updatedAt: new Date() })
+      .where(eq(passwordPolicies.id, current.id))
+      .returning();
+    return policy;
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    if (limit <= 0) return [];
+    return await db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+  }
+
+  // Record a newly set password and drop entries beyond the policy's history size; the latest entry is the current password
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await db.insert(passwordHistory).values({ userId, passwordHash });
+
+    const retained = await this.getPasswordHistory(userId, keep);
+    const retainedIds = retained.map(entry => entry.id);
+    await db.delete(passwordHistory).where(
+      retainedIds.length > 0
+        ? and(eq(passwordHistory.userId, userId), notInArray(passwordHistory.id, retainedIds))
+        : eq(passwordHistory.userId, userId)
+    );
+  }
+
+  async getSsoConfigByOrganizationId(organizationId: number): Promise<OrganizationSsoConfig | undefined> {
+    const [config] = await db.select().from(organizationSsoConfigs).where(eq(organizationSsoConfigs.organizationId, organizationId));
+    return config || undefined;
+  }
+
+  async getEnabledSsoConfigs(): Promise<OrganizationSsoConfig[]> {
+    return await db.select().from(organizationSsoConfigs).where(eq(organizationSsoConfigs.isEnabled, true));
+  }
+
+  async upsertSsoConfig(organizationId: number, config: Omit<UpdateSsoConfig, "roleMappings">, updatedBy: string): Promise<OrganizationSsoConfig> {
+    const [saved] = await db
+      .insert(organizationSsoConfigs)
+      .values({ ...config, organizationId, updatedBy })
+      .onConflictDoUpdate({
+        target: organizationSsoConfigs.organizationId,
+        set: { ...config, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSsoRoleMappings(organizationId: number): Promise<SsoRoleMapping[]> {
+    return await db
+      .select()
+      .from(ssoRoleMappings)
+      .where(eq(ssoRoleMappings.organizationId, organizationId))
+      .orderBy(asc(ssoRoleMappings.id));
+  }
+
+  async replaceSsoRoleMappings(organizationId: number, mappings: { groupName: string; roleId: number }[]): Promise<SsoRoleMapping[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(ssoRoleMappings).where(eq(ssoRoleMappings.organizationId, organizationId));
+      if (mappings.length === 0) return [];
+      return await tx
+        .insert(ssoRoleMappings)
+        .values(mappings.map(mapping => ({ ...mapping, organizationId })))
+        .returning();
+    });
+  }
+
   async getAllOrganizations(): Promise<Organization[]> {
     return db.select().from(organizations);
   }
@@ -588,6 +1009,85 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  async createEntityAuditLog(logData: InsertEntityAuditLog): Promise<EntityAuditLog> {
+    const [log] = await db
+      .insert(entityAuditLogs)
+      .values(logData)
+      .returning();
+    return log;
+  }
+
+  async getEntityAuditLogsByCustomerId(customerId: number): Promise<EntityAuditLog[]> {
+    return db.select().from(entityAuditLogs)
+      .where(eq(entityAuditLogs.customerId, customerId))
+      .orderBy(desc(entityAuditLogs.createdAt), desc(entityAuditLogs.id));
+  }
+
+  async getApiKeys(portId?: number): Promise<ApiKey[]> {
+    return await db
+      .select()
+      .from(apiKeys)
+      .where(portId !== undefined ? eq(apiKeys.portId, portId) : undefined)
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyById(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || undefined;
+  }
+
+  async getApiKeyByKey(key: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, hashApiKey(key)));
+    return apiKey || undefined;
+  }
+
+  async createApiKey(apiKeyData: InsertApiKey, createdBy: string): Promise<NewApiKey> {
+    const key = `prk_${randomBytes(24).toString("hex")}`;
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        ...apiKeyData,
+        keyPrefix: key.slice(0, API_KEY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+        createdBy,
+      })
+      .returning();
+    return { ...apiKey, key };
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ isActive: false, revokedAt: new Date(), updatedAt: new Date() })
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return apiKey || undefined;
+  }
+
+  async touchApiKey(id: number, ipAddress?: string): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async getApiKeyAuditLogs(apiKeyId: number, limit: number): Promise<ApiKeyAuditLog[]> {
+    return await db
+      .select()
+      .from(apiKeyAuditLogs)
+      .where(eq(apiKeyAuditLogs.apiKeyId, apiKeyId))
+      .orderBy(desc(apiKeyAuditLogs.createdAt))
+      .limit(limit);
+  }
+
+  async createApiKeyAuditLog(logData: InsertApiKeyAuditLog): Promise<ApiKeyAuditLog> {
+    const [log] = await db
+      .insert(apiKeyAuditLogs)
+      .values(logData)
+      .returning();
+    return log;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return db.select().from(users);
   }
@@ -596,6 +1096,14 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(users).where(eq(users.role, role));
   }
 
+  async getUsersByCustomerId(customerId: number): Promise<User[]> {
+    return db.select().from(users).where(eq(users.customerId, customerId));
+  }
+
+  async getUsersByTerminalId(terminalId: number): Promise<User[]> {
+    return db.select().from(users).where(arrayContains(users.terminalIds, [String(terminalId)]));
+  }
+
   async updateUser(id: string, updates: UpdateUser): Promise<User | undefined> {
     const [user] = await db
       .update(users)
@@ -646,25 +1154,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Terminal operations
-  async getAllTerminals(): Promise<Terminal[]> {
-    return db.select().from(terminals);
+  async getAllTerminals(scope?: DataScope): Promise<Terminal[]> {
+    return db.select().from(terminals).where(this.terminalScopeFilter(scope));
   }
 
-  async getActiveSubscribedTerminals(): Promise<Terminal[]> {
+  async getActiveSubscribedTerminals(scope?: DataScope): Promise<Terminal[]> {
     return db.select().from(terminals).where(
       and(
         eq(terminals.isActive, true),
-        eq(terminals.status, "Active")
+        eq(terminals.status, "Active"),
+        this.terminalScopeFilter(scope)
       )
     );
   }
 
-  async getTerminalsByPortId(portId: number): Promise<Terminal[]> {
-    return db.select().from(terminals).where(eq(terminals.portId, portId));
+  async getTerminalsByPortId(portId: number, scope?: DataScope): Promise<Terminal[]> {
+    return db.select().from(terminals).where(and(eq(terminals.portId, portId), this.terminalScopeFilter(scope)));
   }
 
-  async getTerminalById(id: number): Promise<Terminal | undefined> {
-    const [terminal] = await db.select().from(terminals).where(eq(terminals.id, id));
+  async getTerminalById(id: number, scope?: DataScope): Promise<Terminal | undefined> {
+    const [terminal] = await db.select().from(terminals).where(and(eq(terminals.id, id), this.terminalScopeFilter(scope)));
     return terminal || undefined;
   }
 
@@ -754,11 +1263,13 @@ export class DatabaseStorage implements IStorage {
     return notification;
   }
 
-  async markNotificationAsRead(id: number): Promise<void> {
-    await db
+  async markNotificationAsRead(id: number, userId?: string): Promise<Notification | undefined> {
+    const [notification] = await db
       .update(notifications)
       .set({ isRead: true, updatedAt: new Date() })
-      .where(eq(notifications.id, id));
+      .where(and(eq(notifications.id, id), userId ? eq(notifications.userId, userId) : undefined))
+      .returning();
+    return notification || undefined;
   }
 
   async markAllNotificationsAsRead(userId: string): Promise<void> {
@@ -768,8 +1279,12 @@ export class DatabaseStorage implements IStorage {
       .where(eq(notifications.userId, userId));
   }
 
-  async deleteNotification(id: number): Promise<void> {
-    await db.delete(notifications).where(eq(notifications.id, id));
+  async deleteNotification(id: number, userId?: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .delete(notifications)
+      .where(and(eq(notifications.id, id), userId ? eq(notifications.userId, userId) : undefined))
+      .returning();
+    return notification || undefined;
   }
 
   async getTerminalsPendingActivation(): Promise<any[]> {
@@ -1062,18 +1577,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Customer management operations
-  async getAllCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers);
+  async getAllCustomers(scope?: DataScope): Promise<Customer[]> {
+    return await db.select().from(customers).where(this.customerScopeFilter(scope));
   }
 
-  async getCustomerById(id: number): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+  async getCustomerById(id: number, scope?: DataScope): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(and(eq(customers.id, id), this.customerScopeFilter(scope)));
     return customer || undefined;
   }
 
+  // Codes of merged customers resolve to the customer they were merged into
   async getCustomerByCode(customerCode: string): Promise<Customer | undefined> {
     const [customer] = await db.select().from(customers).where(eq(customers.customerCode, customerCode));
-    return customer || undefined;
+    if (customer) return customer;
+
+    const [aliased] = await db
+      .select({ customer: customers })
+      .from(customerCodeAliases)
+      .innerJoin(customers, eq(customers.id, customerCodeAliases.customerId))
+      .where(eq(customerCodeAliases.aliasCode, customerCode));
+    return aliased?.customer;
   }
 
   async getCustomerByEmail(email: string): Promise<Customer | undefined> {
@@ -1112,42 +1635,192 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async updateCustomerStatus(id: number, status: string): Promise<Customer | undefined> {
+  async updateCustomerStatus(id: number, status: string, updatedBy?: string): Promise<Customer | undefined> {
     const [updated] = await db.update(customers)
-      .set({ status, updatedAt: new Date() })
+      .set({ status, ...(updatedBy ? { updatedBy } : {}), updatedAt: new Date() })
       .where(eq(customers.id, id))
       .returning();
     return updated || undefined;
   }
 
+  async getCustomerStatusHistory(customerId: number): Promise<CustomerStatusHistory[]> {
+    return await db
+      .select()
+      .from(customerStatusHistory)
+      .where(eq(customerStatusHistory.customerId, customerId))
+      .orderBy(desc(customerStatusHistory.createdAt), desc(customerStatusHistory.id));
+  }
+
+  async transitionCustomerStatus(entry: InsertCustomerStatusHistory): Promise<Customer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(customers)
+        .set({ status: entry.toStatus, ...(entry.performedBy ? { updatedBy: entry.performedBy } : {}), updatedAt: new Date() })
+        .where(eq(customers.id, entry.customerId))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.insert(customerStatusHistory).values(entry);
+      return updated;
+    });
+  }
+
   async deleteCustomer(id: number): Promise<void> {
     await db.delete(customers).where(eq(customers.id, id));
   }
 
-  async generateCustomerCode(terminalId: number): Promise<string> {
-    // Get terminal short code
+  // Pass a transaction as the executor to claim the sequence number inside that transaction
+  async generateCustomerCode(terminalId: number, executor: Pick<typeof db, "select" | "insert" | "update"> = db): Promise<string> {
     const terminal = await this.getTerminalById(terminalId);
     if (!terminal) throw new Error('Terminal not found');
 
-    // Get current year
+    const [port] = await executor.select().from(ports).where(eq(ports.id, terminal.portId));
+    if (!port) throw new Error('Port not found');
+
     const year = new Date().getFullYear();
+    const sequence = await this.nextCustomerCodeSequence(terminal, year, executor);
 
-    // Get counter for this terminal and year
-    const existingCustomers = await db.select()
+    return renderCustomerCode(port.customerCodeTemplate, {
+      year,
+      terminalCode: terminal.shortCode,
+      portCode: port.displayName,
+      sequence,
+    });
+  }
+
+  // Atomically claims the next number for the terminal and year
+  private async nextCustomerCodeSequence(terminal: Terminal, year: number, executor: Pick<typeof db, "select" | "insert" | "update">): Promise<number> {
+    const [incremented] = await executor
+      .update(customerCodeSequences)
+      .set({ lastValue: sql`${customerCodeSequences.lastValue} + 1`, updatedAt: new Date() })
+      .where(and(eq(customerCodeSequences.terminalId, terminal.id), eq(customerCodeSequences.year, year)))
+      .returning();
+    if (incremented) return incremented.lastValue;
+
+    // First code of the year: continue after codes issued before sequences were tracked
+    const [{ legacyMax }] = await executor
+      .select({ legacyMax: sql<number | null>`max(substring(${customers.customerCode} from '[0-9]+$')::int)` })
       .from(customers)
-      .where(eq(customers.terminalId, terminalId));
+      .where(and(
+        eq(customers.terminalId, terminal.id),
+        sql`starts_with(${customers.customerCode}, ${`${year}_${terminal.shortCode}_`})`,
+      ));
+    const firstValue = (legacyMax ?? 0) + 1;
+
+    const [created] = await executor
+      .insert(customerCodeSequences)
+      .values({ terminalId: terminal.id, year, lastValue: firstValue })
+      .onConflictDoUpdate({
+        target: [customerCodeSequences.terminalId, customerCodeSequences.year],
+        set: { lastValue: sql`greatest(${customerCodeSequences.lastValue} + 1, ${firstValue})`, updatedAt: new Date() },
+      })
+      .returning();
+    return created.lastValue;
+  }
+
+  // All customers of an import are inserted together, or none are
+  async importCustomers(records: CustomerImportRecord[], createdBy: string): Promise<Customer[]> {
+    return await db.transaction(async (tx) => {
+      const created: Customer[] = [];
+      for (const record of records) {
+        const customerCode = await this.generateCustomerCode(record.customer.terminalId, tx);
+        const [customer] = await tx.insert(customers).values({ ...record.customer, customerCode, createdBy }).returning();
+        if (record.contacts.length > 0) {
+          await tx.insert(customerContacts).values(record.contacts.map(contact => ({ ...contact, customerId: customer.id })));
+        }
+        if (record.addresses.length > 0) {
+          await tx.insert(customerAddresses).values(record.addresses.map(address => ({ ...address, customerId: customer.id })));
+        }
+        created.push(customer);
+      }
+      return created;
+    });
+  }
 
-    // Filter by current year from customer codes
-    const yearPrefix = `${year}_${terminal.shortCode}_`;
-    const currentYearCustomers = existingCustomers.filter(c => 
-      c.customerCode.startsWith(yearPrefix)
-    );
+  // Moves contacts, addresses, contracts and portal users to the survivor, then deletes the merged customer
+  async mergeCustomers(survivorId: number, mergedCustomerId: number, performedBy: string, reason?: string): Promise<CustomerMerge> {
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(customers).where(eq(customers.id, survivorId)).for("update");
+      const [merged] = await tx.select().from(customers).where(eq(customers.id, mergedCustomerId)).for("update");
+      if (!survivor || !merged) throw new Error("Customer not found");
+
+      const history = await tx.select().from(customerStatusHistory).where(eq(customerStatusHistory.customerId, mergedCustomerId));
+
+      // The survivor keeps its own primary contact and its default address of each type
+      const [survivorPrimaryContact] = await tx.select({ id: customerContacts.id }).from(customerContacts)
+        .where(and(eq(customerContacts.customerId, survivorId), eq(customerContacts.isPrimaryContact, true)));
+      const survivorDefaults = await tx.select({ addressType: customerAddresses.addressType }).from(customerAddresses)
+        .where(and(eq(customerAddresses.customerId, survivorId), eq(customerAddresses.isDefaultAddress, true)));
+
+      const movedContacts = await tx.update(customerContacts)
+        .set({ customerId: survivorId, ...(survivorPrimaryContact ? { isPrimaryContact: false } : {}), updatedAt: new Date() })
+        .where(eq(customerContacts.customerId, mergedCustomerId))
+        .returning({ id: customerContacts.id });
+      if (survivorDefaults.length > 0) {
+        await tx.update(customerAddresses)
+          .set({ isDefaultAddress: false })
+          .where(and(
+            eq(customerAddresses.customerId, mergedCustomerId),
+            inArray(customerAddresses.addressType, survivorDefaults.map(address => address.addressType)),
+          ));
+      }
+      const movedAddresses = await tx.update(customerAddresses)
+        .set({ customerId: survivorId, updatedAt: new Date() })
+        .where(eq(customerAddresses.customerId, mergedCustomerId))
+        .returning({ id: customerAddresses.id, addressType: customerAddresses.addressType });
+      await this.ensurePrimaryContact(tx, survivorId);
+      for (const addressType of Array.from(new Set(movedAddresses.map(address => address.addressType)))) {
+        await this.ensureDefaultAddress(tx, survivorId, addressType);
+      }
+      const movedContracts = await tx.update(contracts)
+        .set({ customerId: survivorId, updatedBy: performedBy, updatedAt: new Date() })
+        .where(eq(contracts.customerId, mergedCustomerId))
+        .returning({ id: contracts.id });
+      // Merges stay within one port, so the documents' port read policy still holds
+      await tx.update(customerDocuments)
+        .set({ customerId: survivorId, updatedAt: new Date() })
+        .where(eq(customerDocuments.customerId, mergedCustomerId));
+      const movedPortalUsers = await tx.update(users)
+        .set({ customerId: survivorId, updatedAt: new Date() })
+        .where(eq(users.customerId, mergedCustomerId))
+        .returning({ id: users.id });
+
+      // Aliases and merge history of the merged customer carry over to the survivor
+      await tx.update(customerCodeAliases).set({ customerId: survivorId }).where(eq(customerCodeAliases.customerId, mergedCustomerId));
+      await tx.insert(customerCodeAliases).values({ customerId: survivorId, aliasCode: merged.customerCode });
+      await tx.update(customerMerges).set({ survivorId }).where(eq(customerMerges.survivorId, mergedCustomerId));
+      await tx.update(entityAuditLogs).set({ customerId: survivorId }).where(eq(entityAuditLogs.customerId, mergedCustomerId));
+
+      const [merge] = await tx.insert(customerMerges).values({
+        survivorId,
+        survivorCode: survivor.customerCode,
+        mergedCustomerId,
+        mergedCustomerCode: merged.customerCode,
+        mergedCustomerName: merged.customerName,
+        snapshot: JSON.stringify({ customer: merged, statusHistory: history }),
+        movedContacts: movedContacts.length,
+        movedAddresses: movedAddresses.length,
+        movedContracts: movedContracts.length,
+        movedPortalUsers: movedPortalUsers.length,
+        reason: reason || null,
+        performedBy,
+      }).returning();
+
+      await tx.delete(customers).where(eq(customers.id, mergedCustomerId));
+      await tx.update(customers).set({ updatedBy: performedBy, updatedAt: new Date() }).where(eq(customers.id, survivorId));
+      return merge;
+    });
+  }
 
-    // Generate next counter
-    const counter = currentYearCustomers.length + 1;
-    const paddedCounter = counter.toString().padStart(3, '0');
+  async getCustomerMerges(customerId: number): Promise<CustomerMerge[]> {
+    return await db
+      .select()
+      .from(customerMerges)
+      .where(eq(customerMerges.survivorId, customerId))
+      .orderBy(desc(customerMerges.createdAt), desc(customerMerges.id));
+  }
 
-    return `${year}_${terminal.shortCode}_${paddedCounter}`;
+  async getCustomerCodeAliases(customerId: number): Promise<CustomerCodeAlias[]> {
+    return await db.select().from(customerCodeAliases).where(eq(customerCodeAliases.customerId, customerId));
   }
 
   // Customer contacts
@@ -1155,83 +1828,252 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(customerContacts).where(eq(customerContacts.customerId, customerId));
   }
 
+  async getCustomerContactsByCustomerIds(customerIds: number[]): Promise<CustomerContact[]> {
+    if (customerIds.length === 0) return [];
+    return await db.select().from(customerContacts).where(inArray(customerContacts.customerId, customerIds));
+  }
+
+  // Every customer with contacts has exactly one primary contact. The first contact becomes primary, making a contact
+  // primary clears the previous one, and un-setting or deleting the primary promotes another contact, all in one
+  // transaction holding the customer's row lock so concurrent changes cannot leave none.
   async createCustomerContact(contact: InsertCustomerContact): Promise<CustomerContact> {
-    const [created] = await db.insert(customerContacts).values({
-      ...contact,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      await this.lockCustomer(tx, contact.customerId);
+      const [currentPrimary] = await tx.select({ id: customerContacts.id }).from(customerContacts)
+        .where(and(eq(customerContacts.customerId, contact.customerId), eq(customerContacts.isPrimaryContact, true)));
+      if (contact.isPrimaryContact && currentPrimary) {
+        await tx.update(customerContacts)
+          .set({ isPrimaryContact: false, updatedAt: new Date() })
+          .where(eq(customerContacts.id, currentPrimary.id));
+      }
+
+      const [created] = await tx.insert(customerContacts).values({
+        ...contact,
+        isPrimaryContact: contact.isPrimaryContact || !currentPrimary,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+      return created;
+    });
+  }
+
+  async updateCustomerContact(id: number, updates: Partial<CustomerContact>): Promise<CustomerContact | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select({ customerId: customerContacts.customerId }).from(customerContacts).where(eq(customerContacts.id, id));
+      if (!existing) return undefined;
+      await this.lockCustomer(tx, existing.customerId);
+      const [contact] = await tx.select().from(customerContacts).where(eq(customerContacts.id, id));
+      if (!contact) return undefined;
+
+      if (updates.isPrimaryContact && !contact.isPrimaryContact) {
+        await tx.update(customerContacts)
+          .set({ isPrimaryContact: false, updatedAt: new Date() })
+          .where(and(eq(customerContacts.customerId, contact.customerId), eq(customerContacts.isPrimaryContact, true)));
+      }
+      await tx.update(customerContacts)
+        .set({ ...updates, customerId: contact.customerId, updatedAt: new Date() })
+        .where(eq(customerContacts.id, id));
+      // A primary contact that is un-set hands the flag on, and only keeps it when it is the only contact
+      await this.ensurePrimaryContact(tx, contact.customerId, updates.isPrimaryContact === false ? id : undefined);
+
+      const [updated] = await tx.select().from(customerContacts).where(eq(customerContacts.id, id));
+      return updated;
+    });
+  }
+
+  // Customer rows are locked by transactions that change its contacts or addresses, so they run one at a time
+  private async lockCustomer(executor: Pick<typeof db, "select">, customerId: number): Promise<void> {
+    await executor.select({ id: customers.id }).from(customers).where(eq(customers.id, customerId)).for("update");
+  }
+
+  // Promotes the oldest contact, other than avoidId where possible, when the customer has contacts but none is primary
+  private async ensurePrimaryContact(executor: Pick<typeof db, "select" | "update">, customerId: number, avoidId?: number): Promise<void> {
+    const contacts = await executor.select().from(customerContacts)
+      .where(eq(customerContacts.customerId, customerId))
+      .orderBy(asc(customerContacts.createdAt), asc(customerContacts.id));
+    if (contacts.length > 0 && !contacts.some(contact => contact.isPrimaryContact)) {
+      const promoted = contacts.find(contact => contact.id !== avoidId) ?? contacts[0];
+      await executor.update(customerContacts)
+        .set({ isPrimaryContact: true, updatedAt: new Date() })
+        .where(eq(customerContacts.id, promoted.id));
+    }
+  }
+
+  // Deletes the contact, handing the primary flag to another contact if needed. A portal login of this customer with
+  // the contact's email is deactivated; staff accounts are never touched.
+  async deleteCustomerContact(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [contact] = await tx.select().from(customerContacts).where(eq(customerContacts.id, id));
+      if (!contact) return;
+
+      await this.lockCustomer(tx, contact.customerId);
+      await tx.delete(customerContacts).where(eq(customerContacts.id, id));
+      await this.ensurePrimaryContact(tx, contact.customerId);
+
+      if (contact.email) {
+        await tx.update(users)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(and(
+            eq(users.userType, "Customer"),
+            eq(users.customerId, contact.customerId),
+            sql`lower(${users.email}) = lower(${contact.email})`,
+          ));
+      }
+    });
+  }
+
+  // Customer addresses
+  async getCustomerAddressesByCustomerId(customerId: number): Promise<CustomerAddress[]> {
+    return await db.select().from(customerAddresses).where(eq(customerAddresses.customerId, customerId));
+  }
+
+  // Defaults are per address type, with exactly one per type: the first address of a type becomes its default, a new
+  // default replaces the old one, and un-setting or deleting the default promotes another address of the type
+  async createCustomerAddress(address: InsertCustomerAddress): Promise<CustomerAddress> {
+    return await db.transaction(async (tx) => {
+      await this.lockCustomer(tx, address.customerId);
+      const [currentDefault] = await tx.select({ id: customerAddresses.id }).from(customerAddresses)
+        .where(and(
+          eq(customerAddresses.customerId, address.customerId),
+          eq(customerAddresses.addressType, address.addressType),
+          eq(customerAddresses.isDefaultAddress, true),
+        ));
+      if (address.isDefaultAddress && currentDefault) {
+        await tx.update(customerAddresses)
+          .set({ isDefaultAddress: false, updatedAt: new Date() })
+          .where(eq(customerAddresses.id, currentDefault.id));
+      }
+
+      const [created] = await tx.insert(customerAddresses).values({
+        ...address,
+        isDefaultAddress: address.isDefaultAddress || !currentDefault,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+      return created;
+    });
+  }
+
+  async updateCustomerAddress(id: number, updates: Partial<CustomerAddress>): Promise<CustomerAddress | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select({ customerId: customerAddresses.customerId }).from(customerAddresses).where(eq(customerAddresses.id, id));
+      if (!existing) return undefined;
+      await this.lockCustomer(tx, existing.customerId);
+      const [address] = await tx.select().from(customerAddresses).where(eq(customerAddresses.id, id));
+      if (!address) return undefined;
+
+      const addressType = updates.addressType ?? address.addressType;
+      const typeChanged = addressType !== address.addressType;
+      if (updates.isDefaultAddress) {
+        await tx.update(customerAddresses)
+          .set({ isDefaultAddress: false, updatedAt: new Date() })
+          .where(and(
+            eq(customerAddresses.customerId, address.customerId),
+            eq(customerAddresses.addressType, addressType),
+            eq(customerAddresses.isDefaultAddress, true),
+            ne(customerAddresses.id, id),
+          ));
+      }
+      // A default moving to another type does not take over that type's default unless asked to
+      const isDefaultAddress = updates.isDefaultAddress ?? (typeChanged ? false : address.isDefaultAddress);
+
+      await tx.update(customerAddresses)
+        .set({ ...updates, customerId: address.customerId, isDefaultAddress, updatedAt: new Date() })
+        .where(eq(customerAddresses.id, id));
+      await this.ensureDefaultAddress(tx, address.customerId, addressType, updates.isDefaultAddress === false ? id : undefined);
+      if (typeChanged) await this.ensureDefaultAddress(tx, address.customerId, address.addressType);
+
+      const [updated] = await tx.select().from(customerAddresses).where(eq(customerAddresses.id, id));
+      return updated;
+    });
   }
 
-  async updateCustomerContact(id: number, updates: Partial<CustomerContact>): Promise<CustomerContact | undefined> {
-    const [updated] = await db.update(customerContacts)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(customerContacts.id, id))
-      .returning();
-    return updated || undefined;
+  // Promotes the oldest address of the type, other than avoidId where possible, when the customer has some but none is the default
+  private async ensureDefaultAddress(executor: Pick<typeof db, "select" | "update">, customerId: number, addressType: string, avoidId?: number): Promise<void> {
+    const addresses = await executor.select().from(customerAddresses)
+      .where(and(eq(customerAddresses.customerId, customerId), eq(customerAddresses.addressType, addressType)))
+      .orderBy(asc(customerAddresses.createdAt), asc(customerAddresses.id));
+    if (addresses.length > 0 && !addresses.some(address => address.isDefaultAddress)) {
+      const promoted = addresses.find(address => address.id !== avoidId) ?? addresses[0];
+      await executor.update(customerAddresses)
+        .set({ isDefaultAddress: true, updatedAt: new Date() })
+        .where(eq(customerAddresses.id, promoted.id));
+    }
   }
 
-  async deleteCustomerContact(id: number): Promise<void> {
-    // First get the contact to find the associated email
-    const [contact] = await db.select().from(customerContacts).where(eq(customerContacts.id, id));
-    
-    // Delete the contact
-    await db.delete(customerContacts).where(eq(customerContacts.id, id));
-    
-    // If the contact exists, delete any user with the same email to free up the email
-    if (contact && contact.email) {
-      const user = await this.getUserByEmail(contact.email);
-      if (user) {
-        await this.deleteUser(user.id);
-        console.log(`Deleted user ${user.id} (${user.email}) after deleting customer contact ${contact.contactName}`);
-      }
-    }
+  async deleteCustomerAddress(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select({ customerId: customerAddresses.customerId }).from(customerAddresses).where(eq(customerAddresses.id, id));
+      if (!existing) return;
+      await this.lockCustomer(tx, existing.customerId);
+      const [address] = await tx.delete(customerAddresses).where(eq(customerAddresses.id, id)).returning();
+      if (address) await this.ensureDefaultAddress(tx, address.customerId, address.addressType);
+    });
   }
 
-  // Customer addresses
-  async getCustomerAddressesByCustomerId(customerId: number): Promise<CustomerAddress[]> {
-    return await db.select().from(customerAddresses).where(eq(customerAddresses.customerId, customerId));
+  // Customer document operations
+  async getCustomerDocumentsByCustomerId(customerId: number): Promise<CustomerDocument[]> {
+    return await db.select().from(customerDocuments)
+      .where(eq(customerDocuments.customerId, customerId))
+      .orderBy(desc(customerDocuments.createdAt), desc(customerDocuments.id));
   }
 
-  async createCustomerAddress(address: InsertCustomerAddress): Promise<CustomerAddress> {
-    const [created] = await db.insert(customerAddresses).values({
-      ...address,
+  async getCustomerDocumentById(id: number): Promise<CustomerDocument | undefined> {
+    const [document] = await db.select().from(customerDocuments).where(eq(customerDocuments.id, id));
+    return document || undefined;
+  }
+
+  // Documents expiring by the date whose expiry warning has not gone out yet; rejected documents are skipped
+  async getCustomerDocumentsExpiringBefore(date: Date): Promise<CustomerDocument[]> {
+    return await db.select().from(customerDocuments)
+      .where(and(
+        isNotNull(customerDocuments.expiryDate),
+        lte(customerDocuments.expiryDate, date),
+        isNull(customerDocuments.expiryNotifiedAt),
+        ne(customerDocuments.verificationStatus, "Rejected")
+      ))
+      .orderBy(asc(customerDocuments.expiryDate));
+  }
+
+  async createCustomerDocument(document: InsertCustomerDocument): Promise<CustomerDocument> {
+    const [created] = await db.insert(customerDocuments).values({
+      ...document,
       createdAt: new Date(),
       updatedAt: new Date(),
     }).returning();
     return created;
   }
 
-  async updateCustomerAddress(id: number, updates: Partial<CustomerAddress>): Promise<CustomerAddress | undefined> {
-    const [updated] = await db.update(customerAddresses)
+  async updateCustomerDocument(id: number, updates: Partial<CustomerDocument>): Promise<CustomerDocument | undefined> {
+    const [updated] = await db.update(customerDocuments)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(customerAddresses.id, id))
+      .where(eq(customerDocuments.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async deleteCustomerAddress(id: number): Promise<void> {
-    await db.delete(customerAddresses).where(eq(customerAddresses.id, id));
+  async deleteCustomerDocument(id: number): Promise<void> {
+    await db.delete(customerDocuments).where(eq(customerDocuments.id, id));
   }
 
   // Contract management operations
-  async getAllContracts(): Promise<Contract[]> {
-    return await db.select().from(contracts);
+  async getAllContracts(scope?: DataScope): Promise<Contract[]> {
+    return await db.select().from(contracts).where(this.contractScopeFilter(scope));
   }
 
-  async getContractsByCustomerId(customerId: number): Promise<Contract[]> {
-    return await db.select().from(contracts).where(eq(contracts.customerId, customerId));
+  async getContractsByCustomerId(customerId: number, scope?: DataScope): Promise<Contract[]> {
+    return await db.select().from(contracts).where(and(eq(contracts.customerId, customerId), this.contractScopeFilter(scope)));
   }
 
-  async getContractById(id: number): Promise<Contract | undefined> {
-    const [contract] = await db.select().from(contracts).where(eq(contracts.id, id));
+  async getContractById(id: number, scope?: DataScope): Promise<Contract | undefined> {
+    const [contract] = await db.select().from(contracts).where(and(eq(contracts.id, id), this.contractScopeFilter(scope)));
     return contract || undefined;
   }
 
   async createContract(contractData: InsertContract): Promise<Contract> {
     const [contract] = await db.insert(contracts).values({
       ...contractData,
+      status: "Draft",
       createdAt: new Date(),
       updatedAt: new Date(),
     }).returning();
@@ -1250,6 +2092,196 @@ export class DatabaseStorage implements IStorage {
     await db.delete(contracts).where(eq(contracts.id, id));
   }
 
+  async getContractApprovalHistory(contractId: number): Promise<ContractApprovalHistory[]> {
+    return await db
+      .select()
+      .from(contractApprovalHistory)
+      .where(eq(contractApprovalHistory.contractId, contractId))
+      .orderBy(desc(contractApprovalHistory.createdAt), desc(contractApprovalHistory.id));
+  }
+
+  async createContractApprovalHistory(entry: InsertContractApprovalHistory): Promise<ContractApprovalHistory> {
+    const [created] = await db.insert(contractApprovalHistory).values(entry).returning();
+    return created;
+  }
+
+  async getContractRevisions(contractId: number): Promise<ContractRevision[]> {
+    return await db
+      .select()
+      .from(contractRevisions)
+      .where(eq(contractRevisions.contractId, contractId))
+      .orderBy(contractRevisions.revisionNumber);
+  }
+
+  // Records the current terms as a revision if none has been yet, then records the amendment as the next revision,
+  // Pending at the first approval step. The live rows keep the current terms until applyContractRevision.
+  // Returns undefined, recording nothing, while another amendment is Pending or Scheduled.
+  async amendContract(contractId: number, amendment: ContractAmendment, performedBy: string): Promise<ContractRevision | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locking the contract row serialises amendments, so revision numbers cannot collide
+      const [contract] = await tx.select().from(contracts).where(eq(contracts.id, contractId)).for("update");
+      if (!contract) throw new Error("Contract not found");
+
+      const current = await this.readContractTerms(tx, contract);
+      const recorded = await tx.select({ revisionNumber: contractRevisions.revisionNumber, status: contractRevisions.status }).from(contractRevisions)
+        .where(eq(contractRevisions.contractId, contractId));
+      if (recorded.some(revision => revision.status === "Pending" || revision.status === "Scheduled")) return undefined;
+      if (!recorded.some(revision => revision.revisionNumber === contract.currentRevision)) {
+        await tx.insert(contractRevisions).values({
+          contractId,
+          revisionNumber: contract.currentRevision,
+          effectiveDate: contract.validFrom,
+          snapshot: JSON.stringify(current),
+          createdBy: contract.createdBy,
+          createdAt: contract.createdAt,
+        });
+      }
+
+      const [revision] = await tx.insert(contractRevisions).values({
+        contractId,
+        revisionNumber: Math.max(contract.currentRevision, ...recorded.map(r => r.revisionNumber)) + 1,
+        effectiveDate: amendment.effectiveDate,
+        reason: amendment.reason,
+        status: "Pending",
+        approvalStep: 1,
+        snapshot: JSON.stringify(amendContractRevisionSnapshot(current, amendment)),
+        createdBy: performedBy,
+      }).returning();
+      return revision;
+    });
+  }
+
+  async updateContractRevision(id: number, updates: Partial<Pick<ContractRevision, "status" | "approvalStep">>): Promise<ContractRevision | undefined> {
+    const [updated] = await db.update(contractRevisions).set(updates).where(eq(contractRevisions.id, id)).returning();
+    return updated;
+  }
+
+  async applyContractRevision(contractId: number, revisionNumber: number, performedBy: string | null): Promise<{ contract: Contract; revision: ContractRevision }> {
+    return await db.transaction(async (tx) => {
+      const [contract] = await tx.select().from(contracts).where(eq(contracts.id, contractId)).for("update");
+      if (!contract) throw new Error("Contract not found");
+      const [revision] = await tx.select().from(contractRevisions)
+        .where(and(eq(contractRevisions.contractId, contractId), eq(contractRevisions.revisionNumber, revisionNumber)));
+      if (!revision) throw new Error("Contract revision not found");
+
+      // Applied meanwhile, e.g. by another run of the daily check
+      if (revision.status === "Applied") return { contract, revision };
+      if (revision.status === "Rejected") throw new Error("Rejected contract revisions cannot be applied");
+      return await this.applyRevision(tx, contract, revision, performedBy);
+    });
+  }
+
+  // Scheduled revisions whose effective date has come, oldest first
+  async getDueContractRevisions(now: Date): Promise<ContractRevision[]> {
+    return await db
+      .select()
+      .from(contractRevisions)
+      .where(and(eq(contractRevisions.status, "Scheduled"), lte(contractRevisions.effectiveDate, now)))
+      .orderBy(contractRevisions.contractId, contractRevisions.revisionNumber);
+  }
+
+  private async readContractTerms(executor: Pick<typeof db, "select">, contract: Contract): Promise<ContractRevisionSnapshot> {
+    return buildContractRevisionSnapshot({
+      contract,
+      tariffs: await executor.select().from(contractTariffs).where(eq(contractTariffs.contractId, contract.id)).orderBy(contractTariffs.id),
+      cargoDetails: await executor.select().from(contractCargoDetails).where(eq(contractCargoDetails.contractId, contract.id)).orderBy(contractCargoDetails.id),
+      storageCharges: await executor.select().from(contractStorageCharges).where(eq(contractStorageCharges.contractId, contract.id)).orderBy(contractStorageCharges.id),
+      specialConditions: await executor.select().from(contractSpecialConditions).where(eq(contractSpecialConditions.contractId, contract.id)).orderBy(contractSpecialConditions.id),
+    });
+  }
+
+  // Brings the live rows in line with the revision: rows are updated in place by id, added or removed,
+  // and the revision's snapshot is rewritten with the ids of the rows it added
+  private async applyRevision(tx: Pick<typeof db, "select" | "insert" | "update" | "delete">, contract: Contract, revision: ContractRevision, performedBy: string | null): Promise<{ contract: Contract; revision: ContractRevision }> {
+    const terms: ContractRevisionSnapshot = JSON.parse(revision.snapshot);
+    const now = new Date();
+
+    await this.syncContractRows(tx, contractTariffs, contract.id, terms.tariffs, now);
+    await this.syncContractRows(tx, contractCargoDetails, contract.id, terms.cargoDetails, now);
+    await this.syncContractRows(tx, contractStorageCharges, contract.id, terms.storageCharges, now);
+    await this.syncContractRows(tx, contractSpecialConditions, contract.id, terms.specialConditions, now);
+
+    const validTo = new Date(terms.contract.validTo);
+    const [applied] = await tx.update(contracts)
+      .set({
+        validFrom: new Date(terms.contract.validFrom),
+        validTo,
+        // A new end date gets its own expiry reminders
+        ...(validTo.getTime() !== new Date(contract.validTo).getTime() ? { expiryReminderDays: null } : {}),
+        contractCopyUrl: terms.contract.contractCopyUrl,
+        currentRevision: revision.revisionNumber,
+        ...(performedBy ? { updatedBy: performedBy } : {}),
+        updatedAt: now,
+      })
+      .where(eq(contracts.id, contract.id))
+      .returning();
+
+    const [recorded] = await tx.update(contractRevisions)
+      .set({ status: "Applied", approvalStep: null, snapshot: JSON.stringify(await this.readContractTerms(tx, applied)) })
+      .where(eq(contractRevisions.id, revision.id))
+      .returning();
+    return { contract: applied, revision: recorded };
+  }
+
+  private async syncContractRows(
+    tx: Pick<typeof db, "select" | "insert" | "update" | "delete">,
+    table: typeof contractTariffs | typeof contractCargoDetails | typeof contractStorageCharges | typeof contractSpecialConditions,
+    contractId: number,
+    rows: Record<string, unknown>[],
+    now: Date,
+  ): Promise<void> {
+    const live = await tx.select().from(table).where(eq(table.contractId, contractId));
+    const keptIds = rows.map(row => row.id).filter((id): id is number => typeof id === "number" && live.some(existing => existing.id === id));
+    const removedIds = live.map(existing => existing.id).filter(id => !keptIds.includes(id));
+    if (removedIds.length > 0) {
+      await tx.delete(table).where(inArray(table.id, removedIds));
+    }
+
+    for (const { id, ...values } of rows) {
+      const existing = live.find(row => row.id === id) as Record<string, unknown> | undefined;
+      if (!existing) {
+        await tx.insert(table).values({ ...values, contractId, createdAt: now, updatedAt: now } as typeof table.$inferInsert);
+      } else if (Object.entries(values).some(([field, value]) => JSON.stringify(existing[field] ?? null) !== JSON.stringify(value ?? null))) {
+        await tx.update(table).set({ ...values, updatedAt: now }).where(eq(table.id, id as number));
+      }
+    }
+  }
+
+  // Copies the contract and its tariff, cargo, storage and condition rows into a new draft contract
+  async renewContract(contractId: number, renewal: Required<ContractRenewal>, createdBy: string): Promise<Contract> {
+    return await db.transaction(async (tx) => {
+      const [contract] = await tx.select().from(contracts).where(eq(contracts.id, contractId));
+      if (!contract) throw new Error("Contract not found");
+
+      const now = new Date();
+      const [renewed] = await tx.insert(contracts).values({
+        customerId: contract.customerId,
+        contractNumber: renewal.contractNumber,
+        contractCopyUrl: contract.contractCopyUrl,
+        validFrom: renewal.validFrom,
+        validTo: renewal.validTo,
+        status: "Draft",
+        renewedFromContractId: contract.id,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+
+      const rowValues = <T extends { id: number; contractId: number; createdAt: Date; updatedAt: Date }>(rows: T[]) =>
+        rows.map(({ id, contractId, createdAt, updatedAt, ...row }) => ({ ...row, contractId: renewed.id, createdAt: now, updatedAt: now }));
+      const tariffs = await tx.select().from(contractTariffs).where(eq(contractTariffs.contractId, contractId)).orderBy(contractTariffs.id);
+      if (tariffs.length > 0) await tx.insert(contractTariffs).values(rowValues(tariffs));
+      const cargoDetails = await tx.select().from(contractCargoDetails).where(eq(contractCargoDetails.contractId, contractId)).orderBy(contractCargoDetails.id);
+      if (cargoDetails.length > 0) await tx.insert(contractCargoDetails).values(rowValues(cargoDetails));
+      const storageCharges = await tx.select().from(contractStorageCharges).where(eq(contractStorageCharges.contractId, contractId)).orderBy(contractStorageCharges.id);
+      if (storageCharges.length > 0) await tx.insert(contractStorageCharges).values(rowValues(storageCharges));
+      const specialConditions = await tx.select().from(contractSpecialConditions).where(eq(contractSpecialConditions.contractId, contractId)).orderBy(contractSpecialConditions.id);
+      if (specialConditions.length > 0) await tx.insert(contractSpecialConditions).values(rowValues(specialConditions));
+
+      return renewed;
+    });
+  }
+
   // Contract cargo details management
   async getContractCargoDetailsByContractId(contractId: number): Promise<ContractCargoDetail[]> {
     return await db.select().from(contractCargoDetails).where(eq(contractCargoDetails.contractId, contractId));
@@ -1934,6 +2966,7 @@ export class MemStorage implements IStorage {
       roleId: null,
       portId: null,
       terminalIds: null,
+      customerId: null,
       isActive: true,
       isVerified: true,
       verificationToken: null,
@@ -1942,6 +2975,15 @@ export class MemStorage implements IStorage {
       passwordSetupTokenExpires: null,
       isSystemAdmin: true,
       lastLogin: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastUsedStep: null,
+      passwordChangedAt: null,
+      ssoOrganizationId: null,
+      ssoSubject: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -1976,6 +3018,9 @@ export class MemStorage implements IStorage {
       address: "Paradeep, Odisha",
       country: "India",
       state: "Odisha",
+      customerCodeTemplate: DEFAULT_CUSTOMER_CODE_TEMPLATE,
+      contractApprovalChain: null,
+      contractExpiryReminderDays: null,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -1991,6 +3036,9 @@ export class MemStorage implements IStorage {
       address: "Dharamtar, Maharashtra",
       country: "India",
       state: "Maharashtra",
+      customerCodeTemplate: DEFAULT_CUSTOMER_CODE_TEMPLATE,
+      contractApprovalChain: null,
+      contractExpiryReminderDays: null,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -2070,6 +3118,23 @@ export class MemStorage implements IStorage {
     this.nextMenuId = 5;
   }
 
+  async getUserDataScope(user: User): Promise<DataScope | undefined> {
+    if (user.isSystemAdmin || user.userType === "SuperAdmin" || user.role === "SystemAdmin") {
+      return undefined;
+    }
+    if (user.userType === "TerminalUser") {
+      return { terminalIds: (user.terminalIds || []).map(id => parseInt(id)).filter(id => !isNaN(id)) };
+    }
+    if (user.userType === "Customer") {
+      return user.customerId ? { customerId: user.customerId } : { terminalIds: [] };
+    }
+    if (user.portId) {
+      return { portId: user.portId };
+    }
+    const contact = await this.getPortAdminContactByUserId(user.id);
+    return contact ? { portId: contact.portId } : { terminalIds: [] };
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -2096,6 +3161,14 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).filter(user => user.role === role);
   }
 
+  async getUsersByCustomerId(customerId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.customerId === customerId);
+  }
+
+  async getUsersByTerminalId(terminalId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => (user.terminalIds || []).includes(String(terminalId)));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const user: User = {
@@ -2109,6 +3182,7 @@ export class MemStorage implements IStorage {
       roleId: insertUser.roleId || null,
       portId: insertUser.portId || null,
       terminalIds: insertUser.terminalIds || null,
+      customerId: null,
       isActive: insertUser.isActive ?? false,
       isVerified: false,
       verificationToken: null,
@@ -2117,6 +3191,15 @@ export class MemStorage implements IStorage {
       passwordSetupTokenExpires: null,
       isSystemAdmin: false,
       lastLogin: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastUsedStep: null,
+      passwordChangedAt: null,
+      ssoOrganizationId: null,
+      ssoSubject: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -2145,6 +3228,70 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async incrementFailedLoginAttempts(id: string): Promise<number> {
+    const user = this.users.get(id);
+    if (!user) return 0;
+    user.failedLoginAttempts += 1;
+    return user.failedLoginAttempts;
+  }
+
+  async resetFailedLoginAttempts(id: string): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.failedLoginAttempts = 0;
+    }
+  }
+
+  async lockUser(id: string, lockedUntil: Date): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.lockedUntil = lockedUntil;
+      user.updatedAt = new Date();
+    }
+  }
+
+  async unlockUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.lockedUntil = null;
+    user.failedLoginAttempts = 0;
+    user.updatedAt = new Date();
+    return user;
+  }
+
+  async updateUserTwoFactor(id: string, updates: Partial<Pick<User, "twoFactorEnabled" | "twoFactorSecret" | "twoFactorRecoveryCodes" | "twoFactorLastUsedStep">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    Object.assign(user, updates, { updatedAt: new Date() });
+    return user;
+  }
+
+  async acceptTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || (user.twoFactorLastUsedStep !== null && user.twoFactorLastUsedStep >= step)) return false;
+    user.twoFactorLastUsedStep = step;
+    return true;
+  }
+
+  async consumeTwoFactorRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user?.twoFactorRecoveryCodes?.includes(codeHash)) return false;
+    user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(hash => hash !== codeHash);
+    user.updatedAt = new Date();
+    return true;
+  }
+
+  async getUserBySsoSubject(organizationId: number, subject: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.ssoOrganizationId === organizationId && user.ssoSubject === subject);
+  }
+
+  async linkUserSsoIdentity(id: string, organizationId: number, subject: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    Object.assign(user, { ssoOrganizationId: organizationId, ssoSubject: subject, updatedAt: new Date() });
+    return user;
+  }
+
   async toggleUserStatus(id: string): Promise<User | undefined> {
     const user = this.users.get(id);
     if (!user) return undefined;
@@ -2180,7 +3327,7 @@ export class MemStorage implements IStorage {
     return isPasswordValid ? user : null;
   }
 
-  async createSession(userId: string, rememberMe = false): Promise<Session> {
+  async createSession(userId: string, rememberMe = false, metadata: SessionMetadata = {}): Promise<NewSession> {
     const id = randomUUID();
     const token = randomUUID();
     const expiresAt = new Date();
@@ -2191,41 +3338,139 @@ export class MemStorage implements IStorage {
     const session: Session = {
       id,
       userId,
-      token,
+      tokenHash: hashSessionToken(token),
+      rememberMe,
+      ipAddress: metadata.ipAddress || null,
+      userAgent: metadata.userAgent || null,
       expiresAt,
-      createdAt: new Date(),
+      lastSeenAt: new Date(),
+      createdAt: metadata.createdAt || new Date(),
     };
 
-    this.sessions.set(token, session);
-    return session;
+    this.sessions.set(session.tokenHash, session);
+    return { ...session, token };
   }
 
   async getSessionByToken(token: string): Promise<Session | undefined> {
-    const session = this.sessions.get(token);
+    const tokenHash = hashSessionToken(token);
+    const session = this.sessions.get(tokenHash);
     if (session && session.expiresAt > new Date()) {
       return session;
     }
     
     // Clean up expired session
     if (session) {
-      this.sessions.delete(token);
+      this.sessions.delete(tokenHash);
     }
     
     return undefined;
   }
 
+  async getSessionById(id: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find(session => session.id === id);
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    const now = new Date();
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && session.expiresAt > now)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async touchSession(id: string): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (session) {
+      session.lastSeenAt = new Date();
+    }
+  }
+
   async deleteSession(token: string): Promise<void> {
-    this.sessions.delete(token);
+    this.sessions.delete(hashSessionToken(token));
+  }
+
+  async deleteSessionById(id: string): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (session) {
+      this.sessions.delete(session.tokenHash);
+    }
   }
 
   async deleteUserSessions(userId: string): Promise<void> {
-    for (const [token, session] of Array.from(this.sessions.entries())) {
+    for (const [tokenHash, session] of Array.from(this.sessions.entries())) {
       if (session.userId === userId) {
-        this.sessions.delete(token);
+        this.sessions.delete(tokenHash);
       }
     }
   }
 
+  async pruneUserSessions(userId: string, maxSessions: number): Promise<number> {
+    const now = new Date();
+    const evicted = Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && session.expiresAt > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(maxSessions);
+    evicted.forEach(session => this.sessions.delete(session.tokenHash));
+    return evicted.length;
+  }
+
+  async createTwoFactorChallenge(userId: string, rememberMe?: boolean): Promise<TwoFactorChallenge> {
+    throw new Error("Two-factor authentication not supported in memory storage");
+  }
+
+  async getTwoFactorChallengeByToken(token: string): Promise<TwoFactorChallenge | undefined> {
+    return undefined;
+  }
+
+  async incrementTwoFactorChallengeAttempts(id: string): Promise<number> {
+    return 0;
+  }
+
+  async deleteTwoFactorChallenge(id: string): Promise<void> {
+    // No-op for memory storage
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    return {
+      id: 1,
+      ...DEFAULT_PASSWORD_RULES,
+      updatedBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  async updatePasswordPolicy(updates: UpdatePasswordPolicy, updatedBy: string): Promise<PasswordPolicy> {
+    throw new Error("Password policy updates not supported in memory storage");
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    return [];
+  }
+
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    // No-op for memory storage
+  }
+
+  async getSsoConfigByOrganizationId(organizationId: number): Promise<OrganizationSsoConfig | undefined> {
+    return undefined;
+  }
+
+  async getEnabledSsoConfigs(): Promise<OrganizationSsoConfig[]> {
+    return [];
+  }
+
+  async upsertSsoConfig(organizationId: number, config: Omit<UpdateSsoConfig, "roleMappings">, updatedBy: string): Promise<OrganizationSsoConfig> {
+    throw new Error("Single sign-on configuration not supported in memory storage");
+  }
+
+  async getSsoRoleMappings(organizationId: number): Promise<SsoRoleMapping[]> {
+    return [];
+  }
+
+  async replaceSsoRoleMappings(organizationId: number, mappings: { groupName: string; roleId: number }[]): Promise<SsoRoleMapping[]> {
+    throw new Error("Single sign-on configuration not supported in memory storage");
+  }
+
   // Organization methods
   async getAllOrganizations(): Promise<Organization[]> {
     return Array.from(this.organizations.values());
@@ -2299,6 +3544,9 @@ export class MemStorage implements IStorage {
     const port: Port = {
       ...insertPort,
       id,
+      customerCodeTemplate: insertPort.customerCodeTemplate ?? DEFAULT_CUSTOMER_CODE_TEMPLATE,
+      contractApprovalChain: insertPort.contractApprovalChain ?? null,
+      contractExpiryReminderDays: insertPort.contractExpiryReminderDays ?? null,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -2606,19 +3854,72 @@ export class MemStorage implements IStorage {
     return newAuditLog;
   }
 
+  async createEntityAuditLog(log: InsertEntityAuditLog): Promise<EntityAuditLog> {
+    throw new Error("Entity audit logs not supported in memory storage");
+  }
+
+  async getEntityAuditLogsByCustomerId(customerId: number): Promise<EntityAuditLog[]> {
+    return [];
+  }
+
+  async getApiKeys(portId?: number): Promise<ApiKey[]> {
+    return [];
+  }
+
+  async getApiKeyById(id: number): Promise<ApiKey | undefined> {
+    return undefined;
+  }
+
+  async getApiKeyByKey(key: string): Promise<ApiKey | undefined> {
+    return undefined;
+  }
+
+  async createApiKey(apiKey: InsertApiKey, createdBy: string): Promise<NewApiKey> {
+    throw new Error("API keys not supported in memory storage");
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey | undefined> {
+    throw new Error("API keys not supported in memory storage");
+  }
+
+  async touchApiKey(id: number, ipAddress?: string): Promise<void> {
+    // No-op for memory storage
+  }
+
+  async getApiKeyAuditLogs(apiKeyId: number, limit: number): Promise<ApiKeyAuditLog[]> {
+    return [];
+  }
+
+  async createApiKeyAuditLog(log: InsertApiKeyAuditLog): Promise<ApiKeyAuditLog> {
+    throw new Error("API keys not supported in memory storage");
+  }
+
   // Terminal operations for MemStorage
-  async getAllTerminals(): Promise<Terminal[]> {
-    return Array.from(this.terminals.values());
+  async getAllTerminals(scope?: DataScope): Promise<Terminal[]> {
+    return Array.from(this.terminals.values()).filter(terminal => this.isTerminalInScope(terminal, scope));
   }
 
-  async getTerminalsByPortId(portId: number): Promise<Terminal[]> {
+  async getActiveSubscribedTerminals(scope?: DataScope): Promise<Terminal[]> {
+    return (await this.getAllTerminals(scope)).filter(
+      (terminal) => terminal.isActive && terminal.status === "Active"
+    );
+  }
+
+  async getTerminalsByPortId(portId: number, scope?: DataScope): Promise<Terminal[]> {
     return Array.from(this.terminals.values()).filter(
-      (terminal) => terminal.portId === portId
+      (terminal) => terminal.portId === portId && this.isTerminalInScope(terminal, scope)
     );
   }
 
-  async getTerminalById(id: number): Promise<Terminal | undefined> {
-    return this.terminals.get(id);
+  async getTerminalById(id: number, scope?: DataScope): Promise<Terminal | undefined> {
+    const terminal = this.terminals.get(id);
+    return terminal && this.isTerminalInScope(terminal, scope) ? terminal : undefined;
+  }
+
+  private isTerminalInScope(terminal: Terminal, scope?: DataScope): boolean {
+    if (!scope) return true;
+    if (scope.terminalIds) return scope.terminalIds.includes(terminal.id);
+    return terminal.portId === scope.portId;
   }
 
   async getTerminalByName(terminalName: string): Promise<Terminal | undefined> {
@@ -2708,16 +4009,16 @@ export class MemStorage implements IStorage {
     throw new Error("Notifications not supported in memory storage");
   }
 
-  async markNotificationAsRead(id: number): Promise<void> {
-    // No-op for memory storage
+  async markNotificationAsRead(id: number, userId?: string): Promise<Notification | undefined> {
+    return undefined;
   }
 
   async markAllNotificationsAsRead(userId: string): Promise<void> {
     // No-op for memory storage
   }
 
-  async deleteNotification(id: number): Promise<void> {
-    // No-op for memory storage
+  async deleteNotification(id: number, userId?: string): Promise<Notification | undefined> {
+    return undefined;
   }
 
   async getTerminalsPendingActivation(): Promise<any[]> {
@@ -2946,10 +4247,18 @@ export class MemStorage implements IStorage {
     return undefined;
   }
 
-  async updateCustomerStatus(id: number, status: string): Promise<Customer | undefined> {
+  async updateCustomerStatus(id: number, status: string, updatedBy?: string): Promise<Customer | undefined> {
     return undefined;
   }
 
+  async getCustomerStatusHistory(customerId: number): Promise<CustomerStatusHistory[]> {
+    return [];
+  }
+
+  async transitionCustomerStatus(entry: InsertCustomerStatusHistory): Promise<Customer | undefined> {
+    throw new Error("Customer status history not supported in memory storage");
+  }
+
   async deleteCustomer(id: number): Promise<void> {
     // No-op
   }
@@ -2958,11 +4267,31 @@ export class MemStorage implements IStorage {
     return "MEM-001";
   }
 
+  async importCustomers(records: CustomerImportRecord[], createdBy: string): Promise<Customer[]> {
+    throw new Error("Customer import not supported in memory storage");
+  }
+
+  async mergeCustomers(survivorId: number, mergedCustomerId: number, performedBy: string, reason?: string): Promise<CustomerMerge> {
+    throw new Error("Customer merge not supported in memory storage");
+  }
+
+  async getCustomerMerges(customerId: number): Promise<CustomerMerge[]> {
+    return [];
+  }
+
+  async getCustomerCodeAliases(customerId: number): Promise<CustomerCodeAlias[]> {
+    return [];
+  }
+
   // Customer contacts - stubs
   async getCustomerContactsByCustomerId(customerId: number): Promise<CustomerContact[]> {
     return [];
   }
 
+  async getCustomerContactsByCustomerIds(customerIds: number[]): Promise<CustomerContact[]> {
+    return [];
+  }
+
   async createCustomerContact(contact: InsertCustomerContact): Promise<CustomerContact> {
     throw new Error("Customer contacts not supported in memory storage");
   }
@@ -2992,6 +4321,31 @@ export class MemStorage implements IStorage {
     // No-op
   }
 
+  // Customer documents - stubs
+  async getCustomerDocumentsByCustomerId(customerId: number): Promise<CustomerDocument[]> {
+    return [];
+  }
+
+  async getCustomerDocumentById(id: number): Promise<CustomerDocument | undefined> {
+    return undefined;
+  }
+
+  async getCustomerDocumentsExpiringBefore(date: Date): Promise<CustomerDocument[]> {
+    return [];
+  }
+
+  async createCustomerDocument(document: InsertCustomerDocument): Promise<CustomerDocument> {
+    throw new Error("Customer documents not supported in memory storage");
+  }
+
+  async updateCustomerDocument(id: number, updates: Partial<CustomerDocument>): Promise<CustomerDocument | undefined> {
+    return undefined;
+  }
+
+  async deleteCustomerDocument(id: number): Promise<void> {
+    // No-op
+  }
+
   // Contract management operations - stubs
   async getAllContracts(): Promise<Contract[]> {
     return [];
@@ -3017,6 +4371,38 @@ export class MemStorage implements IStorage {
     // No-op
   }
 
+  async getContractRevisions(contractId: number): Promise<ContractRevision[]> {
+    return [];
+  }
+
+  async amendContract(contractId: number, amendment: ContractAmendment, performedBy: string): Promise<ContractRevision | undefined> {
+    throw new Error("Contract amendments not supported in memory storage");
+  }
+
+  async updateContractRevision(id: number, updates: Partial<Pick<ContractRevision, "status" | "approvalStep">>): Promise<ContractRevision | undefined> {
+    throw new Error("Contract amendments not supported in memory storage");
+  }
+
+  async applyContractRevision(contractId: number, revisionNumber: number, performedBy: string | null): Promise<{ contract: Contract; revision: ContractRevision }> {
+    throw new Error("Contract amendments not supported in memory storage");
+  }
+
+  async getDueContractRevisions(now: Date): Promise<ContractRevision[]> {
+    return [];
+  }
+
+  async renewContract(contractId: number, renewal: Required<ContractRenewal>, createdBy: string): Promise<Contract> {
+    throw new Error("Contract renewals not supported in memory storage");
+  }
+
+  async getContractApprovalHistory(contractId: number): Promise<ContractApprovalHistory[]> {
+    return [];
+  }
+
+  async createContractApprovalHistory(entry: InsertContractApprovalHistory): Promise<ContractApprovalHistory> {
+    throw new Error("Contract approval not supported in memory storage");
+  }
+
   // Contract tariffs - stubs
   async getContractTariffsByContractId(contractId: number): Promise<ContractTariff[]> {
     return [];
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { ContractApprovalService } from "./contractApproval";
+import { isContractApproved } from "@shared/contractApproval";
+import {
+  calculateStorageCharge,
+  getExcludedStorageDays,
+  getStorageDays,
+  parseStorageChargeApplicableDays,
+  type StorageChargeApplicableDays,
+  type StorageChargeBreakdown,
+} from "@shared/storageCharges";
+import type { ContractRevisionSnapshot } from "@shared/contractRevisions";
+import type { Contract, ContractStorageCharge, StorageChargeCalculationRequest } from "@shared/schema";
+
+// Calculation refused; statusCode is the HTTP status to respond with
+export class StorageChargeError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
+// Itemized storage charge, as returned by POST /api/contracts/:id/storage-charges/calculate
+export interface StorageChargeCalculation extends StorageChargeBreakdown {
+  contractId: number;
+  contractNumber: string;
+  revisionNumber: number; // Revision whose terms were used
+  provisional: boolean; // A preview of a contract that is not approved yet, whose terms may still change
+  storageChargeId: number | null; // Null when priced from a revision recorded before rows kept their ids
+  cargoType: string;
+  quantity: number;
+  unitOfMeasure: string;
+  currency: string;
+  chargeApplicableDays: StorageChargeApplicableDays;
+  calendarDays: number;
+  excludedDays: number; // Calendar days the charge does not apply on; totalDays leaves them out
+  gateInDate: Date;
+  gateOutDate: Date;
+}
+
+// Storage charge and cargo terms in effect on a date
+interface ContractTermsOn {
+  revisionNumber: number;
+  validFrom: Date;
+  validTo: Date;
+  cargoDetails: { cargoType: string }[];
+  storageCharges: (Omit<ContractStorageCharge, "id" | "contractId" | "createdAt" | "updatedAt"> & { id?: number })[];
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const sameCargoType = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class StorageChargeService {
+  // Prices the stay with the terms in effect on the gate-in date, which must fall within their validity.
+  // Only approved contracts are priced, except in preview mode, whose result for other contracts is provisional.
+  static async calculate(contract: Contract, request: StorageChargeCalculationRequest): Promise<StorageChargeCalculation> {
+    if (contract.status === "Terminated") {
+      throw new StorageChargeError(`Contract ${contract.contractNumber} has been terminated. Its tariffs cannot be used.`, 409);
+    }
+    if (!request.preview) {
+      ContractApprovalService.assertTariffsUsable(contract);
+    }
+
+    const terms = await this.getTermsOn(contract, request.gateInDate);
+    if (formatDate(request.gateInDate) < formatDate(terms.validFrom) || formatDate(request.gateInDate) > formatDate(terms.validTo)) {
+      throw new StorageChargeError(
+        `Gate-in date must fall within the validity of contract ${contract.contractNumber} (${formatDate(terms.validFrom)} to ${formatDate(terms.validTo)})`
+      );
+    }
+
+    if (terms.cargoDetails.length > 0 && !terms.cargoDetails.some(detail => sameCargoType(detail.cargoType, request.cargoType))) {
+      throw new StorageChargeError(`Contract ${contract.contractNumber} does not cover cargo type "${request.cargoType}"`);
+    }
+
+    const charge = this.findCharge(terms.storageCharges, request.cargoType);
+    if (!charge) {
+      throw new StorageChargeError(`Contract ${contract.contractNumber} has no storage charge for cargo type "${request.cargoType}"`, 404);
+    }
+
+    const chargeApplicableDays = parseStorageChargeApplicableDays(charge.chargeApplicableDays);
+    const calendarDays = getStorageDays(request.gateInDate, request.gateOutDate);
+    const excludedDays = getExcludedStorageDays(request.gateInDate, request.gateOutDate, chargeApplicableDays);
+
+    return {
+      contractId: contract.id,
+      contractNumber: contract.contractNumber,
+      revisionNumber: terms.revisionNumber,
+      provisional: request.preview && !isContractApproved(contract.status),
+      storageChargeId: charge.id ?? null,
+      cargoType: request.cargoType,
+      quantity: request.quantity,
+      // Rows an amendment adds take the column defaults once applied
+      unitOfMeasure: charge.unitOfMeasure ?? "TEU",
+      currency: charge.currency,
+      chargeApplicableDays,
+      calendarDays,
+      excludedDays,
+      gateInDate: request.gateInDate,
+      gateOutDate: request.gateOutDate,
+      ...calculateStorageCharge({ ...charge, rateSlabs: charge.rateSlabs ?? null }, request.quantity, calendarDays - excludedDays),
+    };
+  }
+
+  // The latest approved revision that took effect by the date, Scheduled ones included for future dates; dates before
+  // the first revision get its terms. A contract that was never amended only has its current terms.
+  private static async getTermsOn(contract: Contract, date: Date): Promise<ContractTermsOn> {
+    const approved = (await storage.getContractRevisions(contract.id))
+      .filter(revision => revision.status === "Applied" || revision.status === "Scheduled");
+    const inEffect = approved.filter(revision => formatDate(revision.effectiveDate) <= formatDate(date)).pop() ?? approved[0];
+
+    if (inEffect) {
+      const snapshot: ContractRevisionSnapshot = JSON.parse(inEffect.snapshot);
+      return {
+        revisionNumber: inEffect.revisionNumber,
+        validFrom: new Date(snapshot.contract.validFrom),
+        validTo: new Date(snapshot.contract.validTo),
+        cargoDetails: snapshot.cargoDetails as ContractTermsOn["cargoDetails"],
+        storageCharges: snapshot.storageCharges as ContractTermsOn["storageCharges"],
+      };
+    }
+
+    const [cargoDetails, storageCharges] = await Promise.all([
+      storage.getContractCargoDetailsByContractId(contract.id),
+      storage.getContractStorageChargesByContractId(contract.id),
+    ]);
+    return {
+      revisionNumber: contract.currentRevision,
+      validFrom: new Date(contract.validFrom),
+      validTo: new Date(contract.validTo),
+      cargoDetails,
+      storageCharges: [...storageCharges].sort((a, b) => a.id - b.id),
+    };
+  }
+
+  // A charge for the cargo type itself wins over one for every cargo type; rows are in their stored order
+  private static findCharge<T extends { cargoType: string | null }>(charges: T[], cargoType: string): T | undefined {
+    return charges.find(charge => charge.cargoType && sameCargoType(charge.cargoType, cargoType))
+      ?? charges.find(charge => !charge.cargoType);
+  }
+}
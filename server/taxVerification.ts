@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import {
+  getGstinStateCode,
+  isValidGstin,
+  validateTaxIdentifiers,
+  type TaxIdentifierIssue,
+} from "@shared/taxIdentifiers";
+
+export interface GstVerificationResult {
+  status: "verified" | "unverified" | "invalid";
+  legalName?: string;
+  stateCode?: string;
+  message?: string;
+}
+
+// A GST registry lookup. Implementations return "invalid" for numbers the registry
+// does not know and throw only when the lookup itself fails.
+export interface GstVerificationProvider {
+  readonly name: string;
+  verifyGstin(gstin: string): Promise<GstVerificationResult>;
+}
+
+// No registry access: a well-formed GSTIN is reported as unverified, never as verified
+export class OfflineGstVerificationProvider implements GstVerificationProvider {
+  readonly name = "offline";
+
+  async verifyGstin(gstin: string): Promise<GstVerificationResult> {
+    if (!isValidGstin(gstin)) {
+      return { status: "invalid", message: "GST number check character is invalid" };
+    }
+    return { status: "unverified", stateCode: getGstinStateCode(gstin), message: "Checked offline; registry lookup not configured" };
+  }
+}
+
+export class TaxVerificationService {
+  private static provider: GstVerificationProvider = new OfflineGstVerificationProvider();
+
+  static setProvider(provider: GstVerificationProvider): void {
+    this.provider = provider;
+  }
+
+  static getProviderName(): string {
+    return this.provider.name;
+  }
+
+  // Local checksum, PAN and state checks, then the provider lookup
+  static async verify({ gst, pan, stateName }: { gst?: string | null; pan?: string | null; stateName?: string | null }): Promise<TaxIdentifierIssue[]> {
+    const state = stateName ? (await storage.getAllStates()).find(row => row.name === stateName) : undefined;
+    const issues = validateTaxIdentifiers({ gst, pan, state });
+    if (issues.length > 0 || !gst) return issues;
+
+    try {
+      const result = await this.provider.verifyGstin(gst);
+      if (result.status === "invalid") {
+        issues.push({ field: "gst", message: result.message || "GST number is not registered" });
+      }
+    } catch (error) {
+      // An unavailable registry must not block data entry; the local checks have passed
+      console.error(`GST verification via ${this.provider.name} failed:`, error);
+    }
+    return issues;
+  }
+
+  // In the shape of ZodError.errors, for "Validation error" responses
+  static toValidationErrors(issues: TaxIdentifierIssue[]): { path: string[]; message: string }[] {
+    return issues.map(issue => ({ path: [issue.field], message: issue.message }));
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+// Contract approval: Draft → Submitted → Under Review → Approved, signed off step by step along the port's approval chain.
+// Approved contracts become Active and then Expired with their validity dates; Terminated ends one early.
+
+export const CONTRACT_STATUSES = ["Draft", "Submitted", "Under Review", "Approved", "Active", "Expired", "Terminated"] as const;
+export type ContractStatus = typeof CONTRACT_STATUSES[number];
+
+// Tariffs and charges of contracts in these statuses may be used for billing. Expired contracts stay usable
+// for activity within their validity period.
+export const APPROVED_CONTRACT_STATUSES: ContractStatus[] = ["Approved", "Active", "Expired"];
+
+export function isContractApproved(status: string): boolean {
+  return (APPROVED_CONTRACT_STATUSES as string[]).includes(status);
+}
+
+export type ContractApprovalAction = "submit" | "approve" | "reject" | "terminate" | "activate" | "expire";
+
+export const CONTRACT_APPROVAL_ACTION_LABELS: Record<ContractApprovalAction, string> = {
+  submit: "Submitted for approval",
+  approve: "Approved",
+  reject: "Rejected",
+  terminate: "Terminated",
+  activate: "Activated",
+  expire: "Expired",
+};
+
+// One sign-off in a port's approval chain, made by a user of the port holding the role
+export const contractApprovalStepSchema = z.object({
+  name: z.string().trim().min(1, "Step name is required").max(100),
+  roleName: z.string().trim().min(1, "Approver role is required"),
+});
+export type ContractApprovalStep = z.infer<typeof contractApprovalStepSchema>;
+
+export const contractApprovalChainSchema = z.array(contractApprovalStepSchema)
+  .min(1, "At least one approval step is required")
+  .max(5, "An approval chain can have at most 5 steps");
+
+export const DEFAULT_CONTRACT_APPROVAL_CHAIN: ContractApprovalStep[] = [
+  { name: "Port admin approval", roleName: "PortAdmin" },
+];
+
+// Ports store their chain as JSON; ports without one, or with an unreadable one, use the default chain
+export function parseContractApprovalChain(value: string | null | undefined): ContractApprovalStep[] {
+  if (!value) return DEFAULT_CONTRACT_APPROVAL_CHAIN;
+  try {
+    const result = contractApprovalChainSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : DEFAULT_CONTRACT_APPROVAL_CHAIN;
+  } catch {
+    return DEFAULT_CONTRACT_APPROVAL_CHAIN;
+  }
+}
+
+// Where an approved contract sits given its validity dates
+export function getApprovedContractStatus(validFrom: Date | string, validTo: Date | string, now: Date = new Date()): ContractStatus {
+  if (new Date(validTo).getTime() < now.getTime()) return "Expired";
+  return new Date(validFrom).getTime() <= now.getTime() ? "Active" : "Approved";
+}
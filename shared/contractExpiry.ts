@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+// Expiry reminders: approved contracts are reminded about once per window (days before validTo) they enter.
+// Ports configure their windows; ports without any use the default ones.
+
+export const DEFAULT_CONTRACT_EXPIRY_REMINDER_DAYS = [90, 60, 30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const contractExpiryReminderDaysSchema = z.array(
+  z.number({ invalid_type_error: "Reminder days must be a number" })
+    .int("Reminder days must be a whole number")
+    .min(1, "Reminder days must be at least 1")
+    .max(365, "Reminder days can be at most 365")
+)
+  .min(1, "At least one reminder is required")
+  .max(6, "At most 6 reminders can be configured")
+  .refine(days => new Set(days).size === days.length, "Reminder days must be different from each other")
+  .transform(days => [...days].sort((a, b) => b - a));
+
+// Largest window first
+export function getContractExpiryReminderDays(value: number[] | null | undefined): number[] {
+  if (!value || value.length === 0) return DEFAULT_CONTRACT_EXPIRY_REMINDER_DAYS;
+  return [...value].sort((a, b) => b - a);
+}
+
+// Whole days left until validTo, 0 on the last day and negative once it has passed
+export function getDaysUntilExpiry(validTo: Date | string, now: Date = new Date()): number {
+  return Math.ceil((new Date(validTo).getTime() - now.getTime()) / DAY_MS);
+}
+
+// The smallest window the contract is in, or null when it is outside all of them
+export function getDueExpiryReminder(daysLeft: number, reminderDays: number[]): number | null {
+  const windows = reminderDays.filter(days => daysLeft <= days);
+  return windows.length > 0 ? Math.min(...windows) : null;
+}
+
+// A renewal starts the day after the contract ends and runs as long as it did
+export function getContractRenewalPeriod(validFrom: Date | string, validTo: Date | string): { validFrom: Date; validTo: Date } {
+  const from = new Date(validFrom).getTime();
+  const to = new Date(validTo).getTime();
+  return { validFrom: new Date(to + DAY_MS), validTo: new Date(to + DAY_MS + (to - from)) };
+}
+
+// Renewals are numbered after the contract they renew, e.g. "CT-1001-R1", "CT-1001-R2"
+export function getRenewalContractNumber(contractNumber: string, takenNumbers: string[]): string {
+  const base = contractNumber.replace(/-R\d+$/, "");
+  const taken = new Set(takenNumbers);
+  let n = 1;
+  while (taken.has(`${base}-R${n}`)) n++;
+  return `${base}-R${n}`;
+}
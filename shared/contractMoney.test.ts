@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_MONEY_AMOUNT, formatMoney, moneyAmountSchema, optionalMoneyAmountSchema, parseMoneyText } from "./contractMoney";
+
+test("stores amounts with two decimals", () => {
+  assert.equal(moneyAmountSchema.parse(1250), "1250.00");
+  assert.equal(moneyAmountSchema.parse("12.5"), "12.50");
+  assert.equal(moneyAmountSchema.parse("0.29"), "0.29");
+  assert.equal(moneyAmountSchema.parse(MAX_MONEY_AMOUNT), "999999999999.99");
+});
+
+test("rejects negative, oversized and sub-cent amounts", () => {
+  assert.equal(moneyAmountSchema.safeParse(-1).success, false);
+  assert.equal(moneyAmountSchema.safeParse(MAX_MONEY_AMOUNT + 1).success, false);
+  assert.equal(moneyAmountSchema.safeParse("12.345").success, false);
+  assert.equal(moneyAmountSchema.safeParse("abc").success, false);
+});
+
+test("reads a blank optional amount as not set", () => {
+  assert.equal(optionalMoneyAmountSchema.parse(""), null);
+  assert.equal(optionalMoneyAmountSchema.parse(undefined), null);
+  assert.equal(optionalMoneyAmountSchema.parse(null), null);
+  assert.equal(optionalMoneyAmountSchema.parse("7"), "7.00");
+});
+
+test("shows amounts that are not set", () => {
+  assert.equal(formatMoney(null, "INR"), "Not set");
+  assert.equal(formatMoney("", "INR", "TEU"), "Not set");
+});
+
+test("reads amounts with their currency and unit from free text", () => {
+  assert.deepEqual(parseMoneyText("₹1,250/-"), { amount: "1250.00", currency: "INR", unit: null });
+  assert.deepEqual(parseMoneyText("USD 15 per MT"), { amount: "15.00", currency: "USD", unit: "MT" });
+  assert.deepEqual(parseMoneyText("Rs. 500/TEU"), { amount: "500.00", currency: "INR", unit: "TEU" });
+  assert.deepEqual(parseMoneyText("1,00,000.50"), { amount: "100000.50", currency: null, unit: null });
+  assert.deepEqual(parseMoneyText("€ 12 per cbm"), { amount: "12.00", currency: "EUR", unit: "CBM" });
+});
+
+test("reads blank and nil values", () => {
+  assert.deepEqual(parseMoneyText(null), { amount: null, currency: null, unit: null });
+  assert.deepEqual(parseMoneyText(" n/a "), { amount: null, currency: null, unit: null });
+  assert.deepEqual(parseMoneyText("Nil"), { amount: "0.00", currency: null, unit: null });
+});
+
+test("refuses text that is not a single amount", () => {
+  assert.equal(parseMoneyText("INR 10 or USD 1"), null);
+  assert.equal(parseMoneyText("10 per TEU, 5 per MT"), null);
+  assert.equal(parseMoneyText("10-20"), null);
+  assert.equal(parseMoneyText("As per tariff"), null);
+  assert.equal(parseMoneyText("-5"), null);
+  assert.equal(parseMoneyText("12.345"), null);
+});
@@ -0,0 +1,93 @@
+import { z } from "zod";
+
+// Money on contract tariffs, storage charges and special conditions: a decimal amount (numeric(14,2)),
+// a currency that defaults to the terminal's currency, and the unit the amount is charged per.
+
+export const CONTRACT_CHARGE_UNITS = ["TEU", "MT", "CBM", "Unit"] as const;
+export type ContractChargeUnit = typeof CONTRACT_CHARGE_UNITS[number];
+
+export const CONTRACT_CHARGE_UNIT_LABELS: Record<ContractChargeUnit, string> = {
+  TEU: "per TEU",
+  MT: "per MT",
+  CBM: "per CBM",
+  Unit: "per unit",
+};
+
+// Currencies offered by the forms; terminals use the same list
+export const CONTRACT_CURRENCIES = ["INR", "USD", "EUR", "GBP"] as const;
+
+export const MAX_MONEY_AMOUNT = 999999999999.99;
+
+// Amounts arrive as numbers or numeric strings and are stored with two decimals
+export const moneyAmountSchema = z.coerce.number({ invalid_type_error: "Amount must be a number" })
+  .min(0, "Amount cannot be negative")
+  .max(MAX_MONEY_AMOUNT, "Amount is too large")
+  .refine(amount => Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6, "Amount can have at most 2 decimal places")
+  .transform(amount => amount.toFixed(2));
+
+// Blank means the rate is not set
+export const optionalMoneyAmountSchema = z.preprocess(
+  value => (value === "" || value === undefined ? null : value),
+  moneyAmountSchema.nullable()
+);
+
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, "Please select a currency");
+export const chargeUnitSchema = z.enum(CONTRACT_CHARGE_UNITS, { errorMap: () => ({ message: "Please select a unit of measure" }) });
+
+export function formatMoney(amount: string | number | null | undefined, currency: string, unit?: string | null): string {
+  if (amount === null || amount === undefined || amount === "") return "Not set";
+  const formatted = Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const unitLabel = unit ? CONTRACT_CHARGE_UNIT_LABELS[unit as ContractChargeUnit] ?? `per ${unit}` : null;
+  return `${currency} ${formatted}${unitLabel ? ` ${unitLabel}` : ""}`;
+}
+
+// Parsing of the free-text amounts contracts held before amounts were typed, e.g. "₹1,250/-", "USD 15 per MT"
+// or "1,00,000.50". Used by the contract money migration.
+
+export interface ParsedMoneyText {
+  amount: string | null; // Null for blank or "N/A" values
+  currency: string | null; // Null when the text does not name one
+  unit: ContractChargeUnit | null;
+}
+
+const CURRENCY_TOKENS: [RegExp, string][] = [
+  [/₹|\bRS\.?|\bRUPEES?\b|\bINR\b/, "INR"],
+  [/\$|\bUSD\b|\bDOLLARS?\b/, "USD"],
+  [/€|\bEUR\b|\bEUROS?\b/, "EUR"],
+  [/£|\bGBP\b/, "GBP"],
+];
+
+const UNIT_TOKENS: [RegExp, ContractChargeUnit][] = [
+  [/\bTEUS?\b/, "TEU"],
+  [/\bMTS?\b|\bM\.T\.?|\bTONN?E?S?\b/, "MT"],
+  [/\bCBMS?\b|\bCUBIC METRES?\b|\bM3\b/, "CBM"],
+  [/\bUNITS?\b|\bEACH\b|\bPCS?\b|\bNOS?\.?\b/, "Unit"],
+];
+
+const BLANK_VALUES = ["", "-", "--", "NA", "N/A", "N.A.", "NOT APPLICABLE"];
+const ZERO_VALUES = ["NIL", "FREE", "NO CHARGE"];
+
+// Returns null when the text cannot be read as a single non-negative amount
+export function parseMoneyText(text: string | null | undefined): ParsedMoneyText | null {
+  let rest = (text ?? "").trim().toUpperCase();
+  if (BLANK_VALUES.includes(rest)) return { amount: null, currency: null, unit: null };
+  if (ZERO_VALUES.includes(rest)) return { amount: "0.00", currency: null, unit: null };
+
+  const currencies = CURRENCY_TOKENS.filter(([pattern]) => pattern.test(rest)).map(([, code]) => code);
+  const units = UNIT_TOKENS.filter(([pattern]) => pattern.test(rest)).map(([, unit]) => unit);
+  if (currencies.length > 1 || units.length > 1) return null;
+
+  for (const [pattern] of [...CURRENCY_TOKENS, ...UNIT_TOKENS]) {
+    rest = rest.replace(new RegExp(pattern.source, "g"), " ");
+  }
+  rest = rest
+    .replace(/\/-/g, " ") // "1200/-"
+    .replace(/\bPER\b|\//g, " ")
+    .replace(/\s+/g, "");
+
+  if (!/^\d[\d,]*(\.\d+)?$/.test(rest)) return null;
+  const amount = moneyAmountSchema.safeParse(rest.replace(/,/g, ""));
+  if (!amount.success) return null;
+
+  return { amount: amount.data, currency: currencies[0] ?? null, unit: units[0] ?? null };
+}
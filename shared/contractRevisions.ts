@@ -0,0 +1,148 @@
+import type { ContractAmendment } from "./schema";
+
+// Contract terms as of one revision. Rows are kept in their stored order with their ids, so revisions can be compared
+// row by row; rows an amendment adds have no id until it is applied.
+
+export const CONTRACT_REVISION_SECTIONS = ["contract", "tariffs", "cargoDetails", "storageCharges", "specialConditions"] as const;
+export type ContractRevisionSection = typeof CONTRACT_REVISION_SECTIONS[number];
+
+export const CONTRACT_REVISION_SECTION_LABELS: Record<ContractRevisionSection, string> = {
+  contract: "Contract",
+  tariffs: "Tariffs",
+  cargoDetails: "Cargo Details",
+  storageCharges: "Storage Charges",
+  specialConditions: "Special Conditions",
+};
+
+// An amendment is Pending until the port's approval chain signs it off, then Scheduled until its effective date
+// and Applied once its terms are on the live rows. A Rejected amendment never takes effect.
+export const CONTRACT_REVISION_STATUSES = ["Pending", "Scheduled", "Applied", "Rejected"] as const;
+export type ContractRevisionStatus = typeof CONTRACT_REVISION_STATUSES[number];
+
+type SnapshotRow = Record<string, unknown>;
+
+export interface ContractRevisionSnapshot {
+  contract: {
+    validFrom: string;
+    validTo: string;
+    contractCopyUrl: string | null;
+  };
+  tariffs: SnapshotRow[];
+  cargoDetails: SnapshotRow[];
+  storageCharges: SnapshotRow[];
+  specialConditions: SnapshotRow[];
+}
+
+interface SnapshotSource {
+  contract: { validFrom: Date | string; validTo: Date | string; contractCopyUrl: string | null };
+  tariffs: SnapshotRow[];
+  cargoDetails: SnapshotRow[];
+  storageCharges: SnapshotRow[];
+  specialConditions: SnapshotRow[];
+}
+
+const UNVERSIONED_FIELDS = new Set(["contractId", "createdAt", "updatedAt"]);
+
+const toSnapshotRow = (row: SnapshotRow): SnapshotRow =>
+  Object.fromEntries(Object.entries(row).filter(([field]) => !UNVERSIONED_FIELDS.has(field)));
+
+export function buildContractRevisionSnapshot(source: SnapshotSource): ContractRevisionSnapshot {
+  return {
+    contract: {
+      validFrom: new Date(source.contract.validFrom).toISOString(),
+      validTo: new Date(source.contract.validTo).toISOString(),
+      contractCopyUrl: source.contract.contractCopyUrl,
+    },
+    tariffs: source.tariffs.map(toSnapshotRow),
+    cargoDetails: source.cargoDetails.map(toSnapshotRow),
+    storageCharges: source.storageCharges.map(toSnapshotRow),
+    specialConditions: source.specialConditions.map(toSnapshotRow),
+  };
+}
+
+const ROW_SECTIONS = ["tariffs", "cargoDetails", "storageCharges", "specialConditions"] as const;
+
+// Terms after an amendment. In a section that is given, a row with an existing row's id amends that row,
+// a row without an id is added and rows left out are removed.
+export function amendContractRevisionSnapshot(current: ContractRevisionSnapshot, amendment: ContractAmendment): ContractRevisionSnapshot {
+  const amended: ContractRevisionSnapshot = {
+    ...current,
+    contract: {
+      validFrom: amendment.validFrom ? amendment.validFrom.toISOString() : current.contract.validFrom,
+      validTo: amendment.validTo ? amendment.validTo.toISOString() : current.contract.validTo,
+      contractCopyUrl: amendment.contractCopyUrl !== undefined ? amendment.contractCopyUrl : current.contract.contractCopyUrl,
+    },
+  };
+  for (const section of ROW_SECTIONS) {
+    const rows: SnapshotRow[] | undefined = amendment[section];
+    if (!rows) continue;
+    amended[section] = rows.map(row => {
+      const existing = row.id === undefined ? undefined : current[section].find(currentRow => currentRow.id === row.id);
+      return toSnapshotRow({ ...existing, ...row });
+    });
+  }
+  return amended;
+}
+
+export interface ContractRevisionChange {
+  section: ContractRevisionSection;
+  // Position of the row within its section, in the earlier revision for removed rows; null for contract fields
+  row: number | null;
+  // Null when a whole row was added or removed
+  field: string | null;
+  kind: "added" | "removed" | "changed";
+  from: unknown;
+  to: unknown;
+}
+
+// Ids only match rows up; they are not shown as changes
+const withoutId = ({ id, ...row }: SnapshotRow): SnapshotRow => row;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function diffFields(section: ContractRevisionSection, row: number | null, from: SnapshotRow, to: SnapshotRow): ContractRevisionChange[] {
+  const fields = Array.from(new Set([...Object.keys(withoutId(from)), ...Object.keys(withoutId(to))]));
+  return fields
+    .filter(field => !sameValue(from[field], to[field]))
+    .map(field => ({ section, row, field, kind: "changed" as const, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+// Field-level changes from one revision to another. Rows are matched by id; snapshots recorded before rows kept
+// their ids are matched by position within their section.
+export function diffContractRevisions(from: ContractRevisionSnapshot, to: ContractRevisionSnapshot): ContractRevisionChange[] {
+  const changes = diffFields("contract", null, from.contract, to.contract);
+
+  for (const section of ROW_SECTIONS) {
+    const fromRows = from[section];
+    const toRows = to[section];
+    const hasIds = (rows: SnapshotRow[]) => rows.length === 0 || rows.some(row => row.id !== undefined);
+
+    if (!hasIds(fromRows) || !hasIds(toRows)) {
+      for (let row = 0; row < Math.max(fromRows.length, toRows.length); row++) {
+        if (row >= fromRows.length) {
+          changes.push({ section, row, field: null, kind: "added", from: null, to: withoutId(toRows[row]) });
+        } else if (row >= toRows.length) {
+          changes.push({ section, row, field: null, kind: "removed", from: withoutId(fromRows[row]), to: null });
+        } else {
+          changes.push(...diffFields(section, row, fromRows[row], toRows[row]));
+        }
+      }
+      continue;
+    }
+
+    toRows.forEach((toRow, row) => {
+      const fromRow = toRow.id === undefined ? undefined : fromRows.find(candidate => candidate.id === toRow.id);
+      if (fromRow) {
+        changes.push(...diffFields(section, row, fromRow, toRow));
+      } else {
+        changes.push({ section, row, field: null, kind: "added", from: null, to: withoutId(toRow) });
+      }
+    });
+    fromRows.forEach((fromRow, row) => {
+      if (!toRows.some(toRow => toRow.id !== undefined && toRow.id === fromRow.id)) {
+        changes.push({ section, row, field: null, kind: "removed", from: withoutId(fromRow), to: null });
+      }
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_CUSTOMER_CODE_TEMPLATE, customerCodeTemplateSchema, renderCustomerCode, validateCustomerCodeTemplate } from "./customerCode";
+
+const parts = { year: 2025, terminalCode: "VPT", portCode: "VIZAG", sequence: 7 };
+
+test("renders every token", () => {
+  assert.equal(renderCustomerCode(DEFAULT_CUSTOMER_CODE_TEMPLATE, parts), "2025_VPT_007");
+  assert.equal(renderCustomerCode("{PORT}-{TERM}-{YY}-{SEQ:4}", parts), "VIZAG-VPT-25-0007");
+});
+
+test("pads two-digit years and leaves an unpadded sequence as is", () => {
+  assert.equal(renderCustomerCode("{YY}{TERM}{SEQ}", { ...parts, year: 2005, sequence: 1234 }), "05VPT1234");
+});
+
+test("does not cut a sequence longer than its width", () => {
+  assert.equal(renderCustomerCode("{YYYY}{TERM}{SEQ:2}", { ...parts, sequence: 123 }), "2025VPT123");
+});
+
+test("accepts templates with one sequence, a year and the terminal", () => {
+  assert.deepEqual(validateCustomerCodeTemplate(DEFAULT_CUSTOMER_CODE_TEMPLATE), []);
+  assert.deepEqual(validateCustomerCodeTemplate("{PORT}/{YY}/{TERM}/{SEQ}"), []);
+});
+
+test("requires exactly one sequence, a year and the terminal", () => {
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}_{TERM}"), ["Template must contain exactly one {SEQ} token"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}_{TERM}_{SEQ}_{SEQ:2}"), ["Template must contain exactly one {SEQ} token"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{TERM}_{SEQ}"), ["Template must contain {YYYY} or {YY}"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{PORT}_{YYYY}_{SEQ}"), ["Template must contain {TERM}"]);
+});
+
+test("rejects bad widths, unknown tokens and malformed braces", () => {
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM}{SEQ:0}"), ["Sequence width must be between 1 and 9"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM}{SEQ:10}"), ["Sequence width must be between 1 and 9"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM:3}{SEQ}"), ["{TERM:3} does not take a width", "Template must contain {TERM}"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM}{SEQ}{CITY}"), ["Unknown token {CITY}"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM}{SEQ}{yy}"), ["Template has an unclosed or malformed token"]);
+  assert.deepEqual(validateCustomerCodeTemplate("{YYYY}{TERM}{SEQ}_{"), ["Template has an unclosed or malformed token"]);
+});
+
+test("trims the template and reports each problem", () => {
+  assert.equal(customerCodeTemplateSchema.parse("  {YYYY}_{TERM}_{SEQ:3}  "), "{YYYY}_{TERM}_{SEQ:3}");
+  const result = customerCodeTemplateSchema.safeParse("{SEQ:0}");
+  assert.equal(result.success, false);
+  assert.deepEqual(result.error?.issues.map(issue => issue.message), [
+    "Sequence width must be between 1 and 9",
+    "Template must contain {YYYY} or {YY}",
+    "Template must contain {TERM}",
+  ]);
+});
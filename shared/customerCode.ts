@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+// Customer codes are rendered from a per-port template, e.g. "{YYYY}_{TERM}_{SEQ:4}" → 2025_VPT_0007.
+// The sequence runs per terminal and per year, so templates must include the terminal and the year.
+
+export const DEFAULT_CUSTOMER_CODE_TEMPLATE = "{YYYY}_{TERM}_{SEQ:3}";
+
+export const CUSTOMER_CODE_TOKENS = [
+  { token: "{YYYY}", description: "Four-digit year" },
+  { token: "{YY}", description: "Two-digit year" },
+  { token: "{TERM}", description: "Terminal short code" },
+  { token: "{PORT}", description: "Port display name" },
+  { token: "{SEQ:n}", description: "Sequence number padded to n digits ({SEQ} for no padding)" },
+] as const;
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+const MAX_SEQUENCE_WIDTH = 9;
+
+export interface CustomerCodeParts {
+  year: number;
+  terminalCode: string;
+  portCode: string;
+  sequence: number;
+}
+
+export function validateCustomerCodeTemplate(template: string): string[] {
+  const errors: string[] = [];
+  let sequenceCount = 0;
+  let hasYear = false;
+  let hasTerminal = false;
+
+  for (const [token, name, width] of Array.from(template.matchAll(TOKEN_PATTERN))) {
+    if (name === "SEQ") {
+      sequenceCount++;
+      if (width !== undefined && (Number(width) < 1 || Number(width) > MAX_SEQUENCE_WIDTH)) {
+        errors.push(`Sequence width must be between 1 and ${MAX_SEQUENCE_WIDTH}`);
+      }
+    } else if (width !== undefined) {
+      errors.push(`${token} does not take a width`);
+    } else if (name === "YYYY" || name === "YY") {
+      hasYear = true;
+    } else if (name === "TERM") {
+      hasTerminal = true;
+    } else if (name !== "PORT") {
+      errors.push(`Unknown token ${token}`);
+    }
+  }
+
+  if (sequenceCount !== 1) errors.push("Template must contain exactly one {SEQ} token");
+  if (!hasYear) errors.push("Template must contain {YYYY} or {YY}");
+  if (!hasTerminal) errors.push("Template must contain {TERM}");
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ""))) errors.push("Template has an unclosed or malformed token");
+  return errors;
+}
+
+export function renderCustomerCode(template: string, parts: CustomerCodeParts): string {
+  return template.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+    switch (name) {
+      case "YYYY": return String(parts.year);
+      case "YY": return String(parts.year % 100).padStart(2, "0");
+      case "TERM": return parts.terminalCode;
+      case "PORT": return parts.portCode;
+      case "SEQ": return String(parts.sequence).padStart(width ? Number(width) : 0, "0");
+      default: return token;
+    }
+  });
+}
+
+export const customerCodeTemplateSchema = z.string()
+  .trim()
+  .min(1, "Customer code template is required")
+  .max(64, "Customer code template must be at most 64 characters")
+  .superRefine((template, ctx) => {
+    for (const message of validateCustomerCodeTemplate(template)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
@@ -0,0 +1,27 @@
+// KYC documents kept per customer, with expiry tracking and a verification step
+
+export const CUSTOMER_DOCUMENT_TYPES = [
+  "GST Certificate",
+  "PAN Card",
+  "Incorporation Certificate",
+  "Signed NDA",
+  "Other",
+] as const;
+export type CustomerDocumentType = typeof CUSTOMER_DOCUMENT_TYPES[number];
+
+export const CUSTOMER_DOCUMENT_STATUSES = ["Pending", "Verified", "Rejected"] as const;
+export type CustomerDocumentStatus = typeof CUSTOMER_DOCUMENT_STATUSES[number];
+
+// Documents expiring within this many days are flagged and their port's users notified
+export const DOCUMENT_EXPIRY_WARNING_DAYS = 30;
+
+export type DocumentExpiryState = "expired" | "expiring" | "valid";
+
+// Null for documents that do not expire
+export function getDocumentExpiryState(expiryDate: Date | string | null, now: Date = new Date()): DocumentExpiryState | null {
+  if (!expiryDate) return null;
+  const expiry = new Date(expiryDate).getTime();
+  if (expiry < now.getTime()) return "expired";
+  const warningFrom = now.getTime() + DOCUMENT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  return expiry <= warningFrom ? "expiring" : "valid";
+}
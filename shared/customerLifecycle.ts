@@ -0,0 +1,56 @@
+// Customer onboarding lifecycle: Draft → Activation in Progress → Active, with rejection and deactivation
+
+export const CUSTOMER_STATUSES = ["Draft", "Activation in Progress", "Active", "Rejected", "Inactive"] as const;
+export type CustomerStatus = typeof CUSTOMER_STATUSES[number];
+
+// Statuses written before the lifecycle existed, and where those customers now sit in it
+const LEGACY_CUSTOMER_STATUSES: Record<string, CustomerStatus> = {
+  "Prospect": "Draft",
+  "Customer SC": "Draft",
+  "Customer TC": "Activation in Progress",
+};
+
+export function normalizeCustomerStatus(status: string): CustomerStatus {
+  return (CUSTOMER_STATUSES as readonly string[]).includes(status)
+    ? status as CustomerStatus
+    : LEGACY_CUSTOMER_STATUSES[status] ?? "Draft";
+}
+
+export type CustomerTransitionAction = "submit" | "approve" | "reject" | "revise" | "deactivate" | "reactivate";
+
+export type CustomerChecklistItem = "primaryContact" | "billingAddress" | "signedContract";
+
+export interface CustomerTransition {
+  action: CustomerTransitionAction;
+  label: string;
+  from: CustomerStatus;
+  to: CustomerStatus;
+  // Permission level on the customers menu needed to perform the transition
+  requiredLevel: "write" | "manage";
+  requiresReason: boolean;
+  requiresChecklist: boolean;
+}
+
+export const CUSTOMER_TRANSITIONS: CustomerTransition[] = [
+  { action: "submit", label: "Submit for Activation", from: "Draft", to: "Activation in Progress", requiredLevel: "write", requiresReason: false, requiresChecklist: true },
+  { action: "approve", label: "Approve", from: "Activation in Progress", to: "Active", requiredLevel: "manage", requiresReason: false, requiresChecklist: true },
+  { action: "reject", label: "Reject", from: "Activation in Progress", to: "Rejected", requiredLevel: "manage", requiresReason: true, requiresChecklist: false },
+  { action: "revise", label: "Return to Draft", from: "Rejected", to: "Draft", requiredLevel: "write", requiresReason: false, requiresChecklist: false },
+  { action: "deactivate", label: "Deactivate", from: "Active", to: "Inactive", requiredLevel: "manage", requiresReason: true, requiresChecklist: false },
+  { action: "reactivate", label: "Reactivate", from: "Inactive", to: "Active", requiredLevel: "manage", requiresReason: false, requiresChecklist: true },
+];
+
+export const CUSTOMER_CHECKLIST_LABELS: Record<CustomerChecklistItem, string> = {
+  primaryContact: "At least one primary contact",
+  billingAddress: "A billing address",
+  signedContract: "A contract with an uploaded signed copy",
+};
+
+export function getCustomerTransitions(status: string): CustomerTransition[] {
+  const current = normalizeCustomerStatus(status);
+  return CUSTOMER_TRANSITIONS.filter(transition => transition.from === current);
+}
+
+export function findCustomerTransition(status: string, action: string): CustomerTransition | undefined {
+  return getCustomerTransitions(status).find(transition => transition.action === action);
+}
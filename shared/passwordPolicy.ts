@@ -0,0 +1,49 @@
+import type { PasswordPolicy } from "./schema";
+
+// The parts of the password policy that clients need to validate a new password
+export type PasswordRules = Pick<PasswordPolicy, "minLength" | "requireUppercase" | "requireLowercase" | "requireNumber" | "requireSymbol" | "historyCount" | "maxAgeDays">;
+
+export const DEFAULT_PASSWORD_RULES: PasswordRules = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: null,
+};
+
+const COMPLEXITY_CLASSES = [
+  { key: "requireUppercase", pattern: /[A-Z]/, requirement: "At least one uppercase letter (A-Z)", error: "Password must contain at least one uppercase letter" },
+  { key: "requireLowercase", pattern: /[a-z]/, requirement: "At least one lowercase letter (a-z)", error: "Password must contain at least one lowercase letter" },
+  { key: "requireNumber", pattern: /\d/, requirement: "At least one number (0-9)", error: "Password must contain at least one number" },
+  { key: "requireSymbol", pattern: /[^A-Za-z0-9]/, requirement: "At least one symbol (e.g. ! @ # $)", error: "Password must contain at least one symbol" },
+] as const;
+
+// Human-readable requirement list for password forms
+export function getPasswordRequirements(rules: PasswordRules): string[] {
+  const requirements = [`At least ${rules.minLength} characters long`];
+  for (const complexityClass of COMPLEXITY_CLASSES) {
+    if (rules[complexityClass.key]) {
+      requirements.push(complexityClass.requirement);
+    }
+  }
+  if (rules.historyCount > 0) {
+    requirements.push(`Different from your last ${rules.historyCount} passwords`);
+  }
+  return requirements;
+}
+
+// Length and character-class checks; password reuse can only be checked on the server
+export function validatePasswordComplexity(password: string, rules: PasswordRules): string[] {
+  const errors: string[] = [];
+  if (password.length < rules.minLength) {
+    errors.push(`Password must be at least ${rules.minLength} characters long`);
+  }
+  for (const complexityClass of COMPLEXITY_CLASSES) {
+    if (rules[complexityClass.key] && !complexityClass.pattern.test(password)) {
+      errors.push(complexityClass.error);
+    }
+  }
+  return errors;
+}
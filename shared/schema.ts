@@ -1,11 +1,17 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, numeric, unique, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_CUSTOMER_CODE_TEMPLATE, customerCodeTemplateSchema } from "./customerCode";
+import { panSchema, gstinSchema } from "./taxIdentifiers";
+import { CUSTOMER_DOCUMENT_TYPES, CUSTOMER_DOCUMENT_STATUSES } from "./customerDocuments";
+import { moneyAmountSchema, optionalMoneyAmountSchema, currencyCodeSchema, chargeUnitSchema } from "./contractMoney";
+import { contractExpiryReminderDaysSchema } from "./contractExpiry";
+import { storageChargeApplicableDaysSchema, storageRateSlabsSchema } from "./storageCharges";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userType: text("user_type").notNull().default("PortUser"), // "SuperAdmin", "PortUser", "TerminalUser"
+  userType: text("user_type").notNull().default("PortUser"), // "SuperAdmin", "PortUser", "TerminalUser", "Customer"
   email: text("email").notNull().unique(),
   password: text("password"),
   firstName: text("first_name").notNull(),
@@ -14,6 +20,7 @@ export const users = pgTable("users", {
   roleId: integer("role_id").references(() => roles.id),
   portId: integer("port_id").references(() => ports.id), // Required for PortUser
   terminalIds: text("terminal_ids").array(), // Array of terminal IDs for TerminalUser
+  customerId: integer("customer_id").references((): AnyPgColumn => customers.id), // Required for Customer (portal) users
   isActive: boolean("is_active").notNull().default(false),
   isVerified: boolean("is_verified").notNull().default(false),
   verificationToken: text("verification_token").unique(),
@@ -22,6 +29,15 @@ export const users = pgTable("users", {
   passwordSetupTokenExpires: timestamp("password_setup_token_expires"),
   isSystemAdmin: boolean("is_system_admin").notNull().default(false),
   lastLogin: timestamp("last_login"),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"), // Temporary lockout after repeated failed logins
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret, set during enrollment
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array(), // SHA-256 hashes of unused recovery codes
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"), // TOTP time step of the last accepted code, so it cannot be replayed
+  passwordChangedAt: timestamp("password_changed_at"), // Drives the password policy's maximum age
+  ssoOrganizationId: integer("sso_organization_id").references(() => organizations.id), // Organization whose IdP the account is linked to
+  ssoSubject: text("sso_subject"), // IdP "sub" claim, linked on first single sign-on
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -29,11 +45,49 @@ export const users = pgTable("users", {
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the bearer token; the token itself is never stored
+  rememberMe: boolean("remember_me").notNull().default(false),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(), // Absolute expiry
+  lastSeenAt: timestamp("last_seen_at").notNull().default(sql`now()`), // Last activity, used for the idle timeout
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Pending logins waiting for a second factor; exchanged for a session once the code is verified
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: text("token").notNull().unique(),
+  rememberMe: boolean("remember_me").notNull().default(false),
+  attempts: integer("attempts").notNull().default(0),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Previous password hashes, checked so users cannot reuse recent passwords
+export const passwordHistory = pgTable("password_history", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// System-wide password policy; a single row created with defaults on first use
+export const passwordPolicies = pgTable("password_policies", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  minLength: integer("min_length").notNull().default(8),
+  requireUppercase: boolean("require_uppercase").notNull().default(true),
+  requireLowercase: boolean("require_lowercase").notNull().default(true),
+  requireNumber: boolean("require_number").notNull().default(true),
+  requireSymbol: boolean("require_symbol").notNull().default(false),
+  historyCount: integer("history_count").notNull().default(5), // Number of previous passwords that cannot be reused
+  maxAgeDays: integer("max_age_days"), // Null means passwords never expire
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
 export const organizations = pgTable("organizations", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   organizationName: text("organization_name").notNull().unique(),
@@ -58,11 +112,42 @@ export const ports = pgTable("ports", {
   address: text("address").notNull(),
   country: text("country").notNull(),
   state: text("state").notNull(),
+  customerCodeTemplate: text("customer_code_template").notNull().default(DEFAULT_CUSTOMER_CODE_TEMPLATE), // See shared/customerCode.ts
+  contractApprovalChain: text("contract_approval_chain"), // JSON approval steps, see shared/contractApproval.ts; null uses the default chain
+  contractExpiryReminderDays: integer("contract_expiry_reminder_days").array(), // Days before expiry to remind at, see shared/contractExpiry.ts; null uses the defaults
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Per-organization OpenID Connect single sign-on settings
+export const organizationSsoConfigs = pgTable("organization_sso_configs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  organizationId: integer("organization_id").notNull().unique().references(() => organizations.id, { onDelete: 'cascade' }),
+  issuerUrl: text("issuer_url").notNull(), // Discovery is done against {issuerUrl}/.well-known/openid-configuration
+  clientId: text("client_id").notNull(),
+  clientSecret: text("client_secret"), // Never returned by the API
+  scopes: text("scopes").notNull().default("openid profile email"),
+  groupsClaim: text("groups_claim").notNull().default("groups"), // ID token claim holding the user's IdP groups
+  defaultRoleId: integer("default_role_id").references(() => roles.id), // Role for new users whose groups match no mapping
+  defaultPortId: integer("default_port_id").references(() => ports.id), // Port assigned to automatically provisioned users
+  autoProvision: boolean("auto_provision").notNull().default(true), // Create users on first login instead of requiring an existing account
+  enforceSso: boolean("enforce_sso").notNull().default(false), // Disable password login for the organization's users (SystemAdmins excepted)
+  isEnabled: boolean("is_enabled").notNull().default(false),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// IdP group to Portray role mappings used by single sign-on
+export const ssoRoleMappings = pgTable("sso_role_mappings", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  groupName: text("group_name").notNull(),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Relations
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   ports: many(ports),
@@ -166,7 +251,7 @@ export const emailLogs = pgTable("email_logs", {
   fromEmail: text("from_email").notNull(),
   fromName: text("from_name").notNull(),
   subject: text("subject").notNull(),
-  emailType: text("email_type").notNull(), // "verification", "password_setup", "test", "notification"
+  emailType: text("email_type").notNull(), // "verification", "password_setup", "password_reset", "test", "notification"
   status: text("status").notNull().default("sent"), // "sent", "failed", "pending"
   errorMessage: text("error_message"), // Store error details if failed
   sentAt: timestamp("sent_at").notNull().default(sql`now()`),
@@ -275,6 +360,15 @@ export const loginSchema = z.object({
   rememberMe: z.boolean().optional(),
 });
 
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().min(6, "Enter the 6-digit code or a recovery code"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(6, "Enter the 6-digit code from your authenticator app"),
+});
+
 export const setupPasswordSchema = z.object({
   token: z.string().min(1, "Token is required"),
   password: z.string().min(8, "Password must be at least 8 characters long"),
@@ -284,6 +378,60 @@ export const setupPasswordSchema = z.object({
   path: ["confirmPassword"],
 });
 
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const updatePasswordPolicySchema = createInsertSchema(passwordPolicies).pick({
+  minLength: true,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  historyCount: true,
+  maxAgeDays: true,
+}).extend({
+  minLength: z.number().int().min(8, "Minimum length cannot be below 8").max(128),
+  historyCount: z.number().int().min(0).max(24, "History can keep at most 24 passwords"),
+  maxAgeDays: z.number().int().min(1, "Maximum age must be at least 1 day").nullable().optional(),
+}).partial();
+
+export const ssoExchangeSchema = z.object({
+  code: z.string().min(1, "Sign-in code is required"),
+});
+
+export const updateSsoConfigSchema = createInsertSchema(organizationSsoConfigs).pick({
+  issuerUrl: true,
+  clientId: true,
+  clientSecret: true,
+  scopes: true,
+  groupsClaim: true,
+  defaultRoleId: true,
+  defaultPortId: true,
+  autoProvision: true,
+  enforceSso: true,
+  isEnabled: true,
+}).extend({
+  issuerUrl: z.string().url("Please enter a valid issuer URL"),
+  clientId: z.string().min(1, "Client ID is required"),
+  clientSecret: z.string().nullable().optional(), // Omit or leave blank to keep the stored secret
+  scopes: z.string().min(1).refine((scopes) => scopes.split(/\s+/).includes("openid"), "Scopes must include openid").optional(),
+  groupsClaim: z.string().min(1).optional(),
+  roleMappings: z.array(z.object({
+    groupName: z.string().min(1, "Group name is required"),
+    roleId: z.number().int(),
+  })).optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
 export const verifyEmailSchema = z.object({
   token: z.string().min(1, "Token is required"),
 });
@@ -307,6 +455,12 @@ export const insertPortSchema = createInsertSchema(ports).pick({
   address: true,
   country: true,
   state: true,
+  customerCodeTemplate: true,
+  contractApprovalChain: true,
+  contractExpiryReminderDays: true,
+}).extend({
+  customerCodeTemplate: customerCodeTemplateSchema.optional(),
+  contractExpiryReminderDays: contractExpiryReminderDaysSchema.nullable().optional(),
 });
 
 export const insertEmailConfigurationSchema = createInsertSchema(emailConfigurations).pick({
@@ -426,7 +580,12 @@ export const insertNotificationSchema = createInsertSchema(notifications).pick({
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type PasswordPolicy = typeof passwordPolicies.$inferSelect;
 export type Organization = typeof organizations.$inferSelect;
+export type OrganizationSsoConfig = typeof organizationSsoConfigs.$inferSelect;
+export type SsoRoleMapping = typeof ssoRoleMappings.$inferSelect;
 export type Port = typeof ports.$inferSelect;
 export type PortAdminContact = typeof portAdminContacts.$inferSelect;
 export type EmailConfiguration = typeof emailConfigurations.$inferSelect;
@@ -441,6 +600,11 @@ export type InsertEmailConfiguration = z.infer<typeof insertEmailConfigurationSc
 export type UpdateEmailConfiguration = z.infer<typeof updateEmailConfigurationSchema>;
 export type UpdatePortAdminContact = z.infer<typeof updatePortAdminContactSchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
+export type TwoFactorLogin = z.infer<typeof twoFactorLoginSchema>;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type UpdatePasswordPolicy = z.infer<typeof updatePasswordPolicySchema>;
+export type UpdateSsoConfig = z.infer<typeof updateSsoConfigSchema>;
 export type InsertTerminal = z.infer<typeof insertTerminalSchema>;
 export type UpdateTerminal = z.infer<typeof updateTerminalSchema>;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
@@ -551,6 +715,8 @@ export const roles = pgTable("roles", {
   permissions: text("permissions").array(), // Array of permission strings
   isActive: boolean("is_active").notNull().default(true),
   isSystem: boolean("is_system").notNull().default(false), // System roles cannot be deleted
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false), // Users must enroll in TOTP before using the app
+  maxConcurrentSessions: integer("max_concurrent_sessions"), // Oldest sessions are signed out beyond this; null means unlimited
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -564,6 +730,10 @@ export const insertRoleSchema = createInsertSchema(roles).pick({
   description: true,
   permissions: true,
   isActive: true,
+  requireTwoFactor: true,
+  maxConcurrentSessions: true,
+}).extend({
+  maxConcurrentSessions: z.number().int().min(1, "Session limit must be at least 1").nullable().optional(),
 });
 
 export const updateRoleSchema = createInsertSchema(roles).pick({
@@ -572,6 +742,10 @@ export const updateRoleSchema = createInsertSchema(roles).pick({
   description: true,
   permissions: true,
   isActive: true,
+  requireTwoFactor: true,
+  maxConcurrentSessions: true,
+}).extend({
+  maxConcurrentSessions: z.number().int().min(1, "Session limit must be at least 1").nullable().optional(),
 }).partial();
 
 export type Role = typeof roles.$inferSelect;
@@ -627,7 +801,7 @@ export const userAuditLogs = pgTable("user_audit_logs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   targetUserId: varchar("target_user_id").notNull().references(() => users.id), // User being modified
   performedBy: varchar("performed_by").references(() => users.id), // User performing the action (nullable for deleted users)
-  action: text("action").notNull(), // "created", "updated", "status_changed", "role_changed", "password_reset", "verified", "deleted"
+  action: text("action").notNull(), // "created", "updated", "status_changed", "role_changed", "password_reset", "password_reset_requested", "verified", "deleted", "locked", "unlocked", "session_revoked", "password_changed", "sso_linked", "sso_provisioned"
   description: text("description").notNull(),
   oldValues: text("old_values"), // JSON string of previous values
   newValues: text("new_values"), // JSON string of new values
@@ -663,12 +837,117 @@ export const insertUserAuditLogSchema = createInsertSchema(userAuditLogs).pick({
 export type UserAuditLog = typeof userAuditLogs.$inferSelect;
 export type InsertUserAuditLog = z.infer<typeof insertUserAuditLogSchema>;
 
+// Generic change history for business records; entries with a customerId make up that customer's timeline
+export const entityAuditLogs = pgTable("entity_audit_logs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  entityType: text("entity_type").notNull(), // "customer", "customer_contact", "customer_address", "customer_document", "contract"
+  entityId: text("entity_id").notNull(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // "created", "updated", "deleted", "verified", "rejected", "credit_hold", "credit_released", "imported"
+  description: text("description").notNull(),
+  changes: text("changes"), // JSON string of { field: { from, to } }
+  performedBy: varchar("performed_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  customerIdx: index("entity_audit_logs_customer_idx").on(table.customerId, table.createdAt),
+  entityIdx: index("entity_audit_logs_entity_idx").on(table.entityType, table.entityId),
+}));
+
+export const insertEntityAuditLogSchema = createInsertSchema(entityAuditLogs).pick({
+  entityType: true,
+  entityId: true,
+  customerId: true,
+  action: true,
+  description: true,
+  changes: true,
+  performedBy: true,
+});
+
+export type EntityAuditLog = typeof entityAuditLogs.$inferSelect;
+export type InsertEntityAuditLog = z.infer<typeof insertEntityAuditLogSchema>;
+
+// Port-scoped keys for machine-to-machine integrations, sent in the X-API-Key header
+export const apiKeys = pgTable("api_keys", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  portId: integer("port_id").notNull().references(() => ports.id),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // Start of the key, shown so keys can be told apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the key; the key itself is only shown once
+  permissions: text("permissions").array().notNull(), // "glink:plink:levels", as stored on roles
+  expiresAt: timestamp("expires_at"), // Null means the key does not expire
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  isActive: boolean("is_active").notNull().default(true),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").notNull().references(() => users.id), // Calls made with the key are attributed to this user
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Every request made with an API key, plus key creation and revocation
+export const apiKeyAuditLogs = pgTable("api_key_audit_logs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  apiKeyId: integer("api_key_id").notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // "created", "revoked", "request"
+  method: text("method"),
+  path: text("path"),
+  statusCode: integer("status_code"),
+  performedBy: varchar("performed_by").references(() => users.id), // User who created or revoked the key
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const apiKeysRelations = relations(apiKeys, ({ one, many }) => ({
+  port: one(ports, {
+    fields: [apiKeys.portId],
+    references: [ports.id],
+  }),
+  auditLogs: many(apiKeyAuditLogs),
+}));
+
+export const apiKeyAuditLogsRelations = relations(apiKeyAuditLogs, ({ one }) => ({
+  apiKey: one(apiKeys, {
+    fields: [apiKeyAuditLogs.apiKeyId],
+    references: [apiKeys.id],
+  }),
+}));
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  portId: true,
+  name: true,
+  permissions: true,
+  expiresAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  permissions: z.array(
+    z.string().regex(/^[a-z0-9*-]+(:[a-z0-9-]+)?:(read|write|manage)(,(read|write|manage))*$/, "Permissions must use the glink:plink:level format")
+  ).min(1, "Select at least one permission"),
+  expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future").nullable().optional(),
+});
+
+export const insertApiKeyAuditLogSchema = createInsertSchema(apiKeyAuditLogs).pick({
+  apiKeyId: true,
+  action: true,
+  method: true,
+  path: true,
+  statusCode: true,
+  performedBy: true,
+  ipAddress: true,
+  userAgent: true,
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyAuditLog = typeof apiKeyAuditLogs.$inferSelect;
+export type InsertApiKeyAuditLog = z.infer<typeof insertApiKeyAuditLogSchema>;
+
 
 
 // Customer Management Tables
 export const customers = pgTable("customers", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  customerCode: text("customer_code").notNull().unique(), // Format: 2025_VPT_001
+  customerCode: text("customer_code").notNull().unique(), // Rendered from the port's customer code template, e.g. 2025_VPT_001
   customerName: text("customer_name").notNull().unique(),
   displayName: text("display_name").notNull(),
   country: text("country").notNull(),
@@ -678,7 +957,14 @@ export const customers = pgTable("customers", {
   email: text("email").notNull().unique(), // Must be unique in both customers and users tables
   terminalId: integer("terminal_id").notNull().references(() => terminals.id),
   portId: integer("port_id").notNull().references(() => ports.id),
-  status: text("status").notNull().default("Draft"), // "Draft", "Activation in Progress", "Customer TC"
+  status: text("status").notNull().default("Draft"), // Lifecycle status, see shared/customerLifecycle.ts
+  creditLimit: numeric("credit_limit", { precision: 14, scale: 2 }), // Null when no credit limit has been set
+  creditCurrency: text("credit_currency").notNull().default("INR"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(0),
+  creditHold: boolean("credit_hold").notNull().default(false), // Blocks new contracts while set
+  creditHoldReason: text("credit_hold_reason"),
+  creditHoldAt: timestamp("credit_hold_at"),
+  creditHoldBy: varchar("credit_hold_by").references(() => users.id),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedBy: varchar("updated_by").references(() => users.id),
@@ -695,6 +981,77 @@ export const customerContacts = pgTable("customer_contacts", {
   isPrimaryContact: boolean("is_primary_contact").notNull().default(false),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  // At most one primary per customer; storage keeps it at exactly one while the customer has contacts
+  onePrimaryContact: uniqueIndex("customer_contacts_one_primary").on(table.customerId).where(sql`${table.isPrimaryContact}`),
+}));
+
+// Every customer lifecycle transition, including rejection reasons
+export const customerStatusHistory = pgTable("customer_status_history", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // "submit", "approve", "reject", "revise", "deactivate", "reactivate"
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  performedBy: varchar("performed_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Last customer code number issued per terminal and year; only ever incremented, so codes are never reused
+export const customerCodeSequences = pgTable("customer_code_sequences", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  terminalId: integer("terminal_id").notNull().references(() => terminals.id, { onDelete: 'cascade' }),
+  year: integer("year").notNull(),
+  lastValue: integer("last_value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  terminalYearUnique: unique("customer_code_sequences_terminal_year_unique").on(table.terminalId, table.year),
+}));
+
+// Codes of customers merged into another; lookups by an old code resolve to the surviving customer
+export const customerCodeAliases = pgTable("customer_code_aliases", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  aliasCode: text("alias_code").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Audit of customer merges; the merged customer is deleted, so its row is kept as a snapshot
+export const customerMerges = pgTable("customer_merges", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  survivorId: integer("survivor_id").references(() => customers.id, { onDelete: 'set null' }),
+  survivorCode: text("survivor_code").notNull(),
+  mergedCustomerId: integer("merged_customer_id").notNull(), // No foreign key: the row no longer exists
+  mergedCustomerCode: text("merged_customer_code").notNull(),
+  mergedCustomerName: text("merged_customer_name").notNull(),
+  snapshot: text("snapshot").notNull(), // JSON of the merged customer and its status history
+  movedContacts: integer("moved_contacts").notNull().default(0),
+  movedAddresses: integer("moved_addresses").notNull().default(0),
+  movedContracts: integer("moved_contracts").notNull().default(0),
+  movedPortalUsers: integer("moved_portal_users").notNull().default(0),
+  reason: text("reason"),
+  performedBy: varchar("performed_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// KYC documents; the file lives in private object storage, readable only by the customer's port
+export const customerDocuments = pgTable("customer_documents", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  documentType: text("document_type").notNull(), // See shared/customerDocuments.ts
+  documentNumber: text("document_number"),
+  fileUrl: text("file_url").notNull(), // Object entity path, e.g. /objects/uploads/<id>
+  fileName: text("file_name").notNull(),
+  expiryDate: timestamp("expiry_date"), // Null for documents that do not expire
+  verificationStatus: text("verification_status").notNull().default("Pending"), // "Pending", "Verified", "Rejected"
+  verificationNotes: text("verification_notes"),
+  verifiedBy: varchar("verified_by").references(() => users.id),
+  verifiedAt: timestamp("verified_at"),
+  expiryNotifiedAt: timestamp("expiry_notified_at"), // Set once the expiry warning has gone out; cleared when the expiry date changes
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
 export const customerAddresses = pgTable("customer_addresses", {
@@ -710,7 +1067,10 @@ export const customerAddresses = pgTable("customer_addresses", {
   isDefaultAddress: boolean("is_default_address").notNull().default(false),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
-});
+}, (table) => ({
+  // At most one default per customer and address type; storage keeps it at exactly one per type in use
+  oneDefaultAddress: uniqueIndex("customer_addresses_one_default").on(table.customerId, table.addressType).where(sql`${table.isDefaultAddress}`),
+}));
 
 export const contracts = pgTable("contracts", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -719,19 +1079,67 @@ export const contracts = pgTable("contracts", {
   contractCopyUrl: text("contract_copy_url"), // PDF/Doc upload URL
   validFrom: timestamp("valid_from").notNull(),
   validTo: timestamp("valid_to").notNull(),
+  // The contract and its tariff, cargo, storage and condition rows hold this revision's terms
+  currentRevision: integer("current_revision").notNull().default(1),
+  // See shared/contractApproval.ts. Contracts from before the approval workflow count as approved;
+  // new contracts start as Draft (see storage.createContract).
+  status: text("status").notNull().default("Approved"),
+  approvalStep: integer("approval_step"), // 1-based step of the port's approval chain awaiting sign-off, while submitted
+  submittedBy: varchar("submitted_by").references(() => users.id),
+  submittedAt: timestamp("submitted_at"),
+  renewedFromContractId: integer("renewed_from_contract_id").references((): AnyPgColumn => contracts.id, { onDelete: 'set null' }),
+  // Smallest expiry reminder window already sent for the current validTo; null when none has been
+  expiryReminderDays: integer("expiry_reminder_days"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedBy: varchar("updated_by").references(() => users.id),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Every approval action on a contract, including the automatic activation and expiry
+export const contractApprovalHistory = pgTable("contract_approval_history", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // "submit", "approve", "reject", "terminate", "activate", "expire"
+  revisionNumber: integer("revision_number"), // Amendment acted on; null for actions on the contract itself
+  step: integer("step"), // Approval chain step acted on, for "approve" and "reject"
+  stepName: text("step_name"),
+  // Contract statuses, or the amendment's revision statuses when revisionNumber is set
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  comments: text("comments"),
+  performedBy: varchar("performed_by").references(() => users.id), // Null for automatic transitions
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Read-only copies of a contract's terms, one per revision. Written when the contract is first amended
+// (revision 1, from the original terms) and on every amendment after that. An amendment waits for the port's
+// approval chain as Pending while the contract keeps its current terms, and only reaches the live rows on its effective date.
+export const contractRevisions = pgTable("contract_revisions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: 'cascade' }),
+  revisionNumber: integer("revision_number").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(), // Terms apply from this date until the next revision's
+  status: text("status").notNull().default("Applied"), // See CONTRACT_REVISION_STATUSES in shared/contractRevisions.ts
+  approvalStep: integer("approval_step"), // 1-based step of the port's approval chain awaiting sign-off, while Pending
+  reason: text("reason"), // Null for the original terms
+  snapshot: text("snapshot").notNull(), // JSON, see shared/contractRevisions.ts
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  contractRevisionUnique: unique("contract_revisions_contract_revision_unique").on(table.contractId, table.revisionNumber),
+}));
+
 export const contractTariffs = pgTable("contract_tariffs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: 'cascade' }),
-  chcRateToCustomer: text("chc_rate_to_customer"), // CHC - Cargo Handling Charge
-  chcRateToPort: text("chc_rate_to_port"),
-  bhcRateToCustomer: text("bhc_rate_to_customer"), // BHC - Berth Handling Charge
-  bhcRateToPort: text("bhc_rate_to_port"),
+  // Amounts are in the row's currency, per its unit of measure. See shared/contractMoney.ts.
+  chcRateToCustomer: numeric("chc_rate_to_customer", { precision: 14, scale: 2 }), // CHC - Cargo Handling Charge
+  chcRateToPort: numeric("chc_rate_to_port", { precision: 14, scale: 2 }),
+  bhcRateToCustomer: numeric("bhc_rate_to_customer", { precision: 14, scale: 2 }), // BHC - Berth Handling Charge
+  bhcRateToPort: numeric("bhc_rate_to_port", { precision: 14, scale: 2 }),
+  currency: text("currency").notNull().default("INR"), // Defaults to the terminal's currency on create
+  unitOfMeasure: text("unit_of_measure").notNull().default("TEU"), // "TEU", "MT", "CBM" or "Unit"
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -749,9 +1157,13 @@ export const contractCargoDetails = pgTable("contract_cargo_details", {
 export const contractStorageCharges = pgTable("contract_storage_charges", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: 'cascade' }),
+  cargoType: text("cargo_type"), // Null applies to every cargo type without a charge of its own
   storageFreeTime: integer("storage_free_time").notNull(), // in days
-  chargePerDay: text("charge_per_day").notNull(), // after free time
-  chargeApplicableDays: text("charge_applicable_days").notNull(),
+  rateSlabs: text("rate_slabs"), // JSON day slabs after free time, see shared/storageCharges.ts
+  chargePerDay: numeric("charge_per_day", { precision: 14, scale: 2 }).notNull(), // after free time and any slabs, per unit of measure
+  currency: text("currency").notNull().default("INR"), // Defaults to the terminal's currency on create
+  unitOfMeasure: text("unit_of_measure").notNull().default("TEU"), // "TEU", "MT", "CBM" or "Unit"
+  chargeApplicableDays: text("charge_applicable_days").notNull(), // See STORAGE_CHARGE_APPLICABLE_DAYS in shared/storageCharges.ts
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -761,7 +1173,9 @@ export const contractSpecialConditions = pgTable("contract_special_conditions",
   contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: 'cascade' }),
   condition: text("condition").notNull(),
   responsibility: text("responsibility").notNull(),
-  charge: text("charge").notNull(),
+  charge: numeric("charge", { precision: 14, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("INR"), // Defaults to the terminal's currency on create
+  unitOfMeasure: text("unit_of_measure").notNull().default("Unit"), // "TEU", "MT", "CBM" or "Unit"
   chargeType: text("charge_type").notNull(), // "Including" or "Excluding"
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
@@ -823,6 +1237,14 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
   contacts: many(customerContacts),
   addresses: many(customerAddresses),
   contracts: many(contracts),
+  statusHistory: many(customerStatusHistory),
+}));
+
+export const customerStatusHistoryRelations = relations(customerStatusHistory, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerStatusHistory.customerId],
+    references: [customers.id],
+  }),
 }));
 
 export const customerContactsRelations = relations(customerContacts, ({ one }) => ({
@@ -854,10 +1276,32 @@ export const contractsRelations = relations(contracts, ({ one, many }) => ({
     references: [users.id],
     relationName: "ContractUpdatedBy",
   }),
+  renewedFrom: one(contracts, {
+    fields: [contracts.renewedFromContractId],
+    references: [contracts.id],
+    relationName: "ContractRenewedFrom",
+  }),
+  renewals: many(contracts, { relationName: "ContractRenewedFrom" }),
   tariffs: many(contractTariffs),
   cargoDetails: many(contractCargoDetails),
   storageCharges: many(contractStorageCharges),
   specialConditions: many(contractSpecialConditions),
+  revisions: many(contractRevisions),
+  approvalHistory: many(contractApprovalHistory),
+}));
+
+export const contractApprovalHistoryRelations = relations(contractApprovalHistory, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [contractApprovalHistory.contractId],
+    references: [contracts.id],
+  }),
+}));
+
+export const contractRevisionsRelations = relations(contractRevisions, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [contractRevisions.contractId],
+    references: [contracts.id],
+  }),
 }));
 
 export const contractTariffsRelations = relations(contractTariffs, ({ one }) => ({
@@ -903,8 +1347,6 @@ export const plotsRelations = relations(plots, ({ one }) => ({
 }));
 
 // Validation schemas with Indian format validation
-const indianPANRegex = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/;
-const indianGSTRegex = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
 const indianMobileRegex = /^[6-9]\d{9}$/;
 const indianPincodeRegex = /^[1-9][0-9]{5}$/;
 
@@ -920,8 +1362,8 @@ export const insertCustomerSchema = createInsertSchema(customers).pick({
   portId: true,
   createdBy: true,
 }).extend({
-  pan: z.string().regex(indianPANRegex, "Please enter a valid PAN number (e.g., ABCDE1234F)"),
-  gst: z.string().regex(indianGSTRegex, "Please enter a valid GST number"),
+  pan: panSchema,
+  gst: gstinSchema,
   email: z.string().email("Please enter a valid email address"),
 });
 
@@ -938,6 +1380,36 @@ export const updateCustomerSchema = createInsertSchema(customers).pick({
   updatedBy: true,
 }).partial();
 
+export const customerStatusTransitionSchema = z.object({
+  action: z.enum(["submit", "approve", "reject", "revise", "deactivate", "reactivate"]),
+  reason: z.string().trim().max(1000, "Reason must be at most 1000 characters").optional(),
+});
+
+export const customerMergeSchema = z.object({
+  mergedCustomerId: z.number().int().positive(),
+  reason: z.string().trim().max(1000, "Reason must be at most 1000 characters").optional(),
+});
+
+export const customerCreditSchema = z.object({
+  creditLimit: z.number().min(0, "Credit limit cannot be negative").max(999999999999.99, "Credit limit is too large").nullable(),
+  creditCurrency: z.string().regex(/^[A-Z]{3}$/, "Please select a currency"),
+  paymentTermsDays: z.number().int("Payment terms must be whole days").min(0, "Payment terms cannot be negative").max(365, "Payment terms must be at most 365 days"),
+  creditHold: z.boolean(),
+  creditHoldReason: z.string().trim().max(1000, "Reason must be at most 1000 characters").optional(),
+}).refine(data => !data.creditHold || !!data.creditHoldReason, {
+  message: "A reason is required to put a customer on credit hold",
+  path: ["creditHoldReason"],
+});
+
+export const insertCustomerStatusHistorySchema = createInsertSchema(customerStatusHistory).pick({
+  customerId: true,
+  action: true,
+  fromStatus: true,
+  toStatus: true,
+  reason: true,
+  performedBy: true,
+});
+
 export const insertCustomerContactSchema = createInsertSchema(customerContacts).pick({
   customerId: true,
   contactName: true,
@@ -950,6 +1422,8 @@ export const insertCustomerContactSchema = createInsertSchema(customerContacts).
   contactNumber: z.string().regex(indianMobileRegex, "Please enter a valid 10-digit mobile number"),
 });
 
+export const updateCustomerContactSchema = insertCustomerContactSchema.omit({ customerId: true }).partial();
+
 export const insertCustomerAddressSchema = createInsertSchema(customerAddresses).pick({
   customerId: true,
   addressType: true,
@@ -964,6 +1438,39 @@ export const insertCustomerAddressSchema = createInsertSchema(customerAddresses)
   pincode: z.string().regex(indianPincodeRegex, "Please enter a valid 6-digit pincode"),
 });
 
+export const updateCustomerAddressSchema = insertCustomerAddressSchema.omit({ customerId: true }).partial();
+
+export const insertCustomerDocumentSchema = createInsertSchema(customerDocuments).pick({
+  customerId: true,
+  documentType: true,
+  documentNumber: true,
+  fileUrl: true,
+  fileName: true,
+  expiryDate: true,
+  uploadedBy: true,
+}).extend({
+  documentType: z.enum(CUSTOMER_DOCUMENT_TYPES),
+  documentNumber: z.string().trim().max(100, "Document number must be at most 100 characters").nullable().optional(),
+  fileUrl: z.string().min(1, "Please upload the document"),
+  fileName: z.string().trim().min(1).max(255),
+  expiryDate: z.coerce.date().nullable().optional(),
+});
+
+// The file itself cannot be replaced; upload a new document instead
+export const updateCustomerDocumentSchema = insertCustomerDocumentSchema.pick({
+  documentType: true,
+  documentNumber: true,
+  expiryDate: true,
+}).partial();
+
+export const customerDocumentVerificationSchema = z.object({
+  verificationStatus: z.enum(CUSTOMER_DOCUMENT_STATUSES).exclude(["Pending"]),
+  verificationNotes: z.string().trim().max(1000, "Notes must be at most 1000 characters").optional(),
+}).refine(data => data.verificationStatus !== "Rejected" || !!data.verificationNotes, {
+  message: "A reason is required to reject a document",
+  path: ["verificationNotes"],
+});
+
 export const insertContractSchema = createInsertSchema(contracts).pick({
   customerId: true,
   contractNumber: true,
@@ -979,6 +1486,15 @@ export const insertContractTariffSchema = createInsertSchema(contractTariffs).pi
   chcRateToPort: true,
   bhcRateToCustomer: true,
   bhcRateToPort: true,
+  currency: true,
+  unitOfMeasure: true,
+}).extend({
+  chcRateToCustomer: optionalMoneyAmountSchema,
+  chcRateToPort: optionalMoneyAmountSchema,
+  bhcRateToCustomer: optionalMoneyAmountSchema,
+  bhcRateToPort: optionalMoneyAmountSchema,
+  currency: currencyCodeSchema.optional(), // The terminal's currency when left out
+  unitOfMeasure: chargeUnitSchema.optional(),
 });
 
 export const insertContractCargoDetailSchema = createInsertSchema(contractCargoDetails).pick({
@@ -990,9 +1506,20 @@ export const insertContractCargoDetailSchema = createInsertSchema(contractCargoD
 
 export const insertContractStorageChargeSchema = createInsertSchema(contractStorageCharges).pick({
   contractId: true,
+  cargoType: true,
   storageFreeTime: true,
+  rateSlabs: true,
   chargePerDay: true,
   chargeApplicableDays: true,
+  currency: true,
+  unitOfMeasure: true,
+}).extend({
+  cargoType: z.string().trim().min(1).nullable().optional(),
+  rateSlabs: storageRateSlabsSchema.optional(),
+  chargePerDay: moneyAmountSchema,
+  chargeApplicableDays: storageChargeApplicableDaysSchema,
+  currency: currencyCodeSchema.optional(), // The terminal's currency when left out
+  unitOfMeasure: chargeUnitSchema.optional(),
 });
 
 export const insertContractSpecialConditionSchema = createInsertSchema(contractSpecialConditions).pick({
@@ -1001,6 +1528,74 @@ export const insertContractSpecialConditionSchema = createInsertSchema(contractS
   responsibility: true,
   charge: true,
   chargeType: true,
+  currency: true,
+  unitOfMeasure: true,
+}).extend({
+  charge: moneyAmountSchema,
+  currency: currencyCodeSchema.optional(), // The terminal's currency when left out
+  unitOfMeasure: chargeUnitSchema.optional(),
+});
+
+export const insertContractApprovalHistorySchema = createInsertSchema(contractApprovalHistory).pick({
+  contractId: true,
+  action: true,
+  revisionNumber: true,
+  step: true,
+  stepName: true,
+  fromStatus: true,
+  toStatus: true,
+  comments: true,
+  performedBy: true,
+});
+
+export const contractApprovalActionSchema = z.object({
+  action: z.enum(["submit", "approve", "reject", "terminate"]),
+  comments: z.string().trim().max(1000).optional(),
+});
+
+// Amendments are submitted when they are made, so only sign-off remains
+export const contractAmendmentApprovalActionSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  comments: z.string().trim().max(1000).optional(),
+});
+
+// Id of the live row an amended row replaces; rows without one are added
+const amendedRowIdSchema = z.number().int().positive().optional();
+
+// Sections left out carry over unchanged. A section that is given lists all of its rows: rows keeping their id
+// are amended, rows without one are added and rows left out are removed.
+export const contractAmendmentSchema = z.object({
+  effectiveDate: z.coerce.date(),
+  reason: z.string().trim().min(1, "A reason is required for an amendment").max(1000),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().optional(),
+  contractCopyUrl: z.string().nullable().optional(),
+  tariffs: z.array(insertContractTariffSchema.omit({ contractId: true }).extend({ id: amendedRowIdSchema })).optional(),
+  cargoDetails: z.array(insertContractCargoDetailSchema.omit({ contractId: true }).extend({ id: amendedRowIdSchema })).optional(),
+  storageCharges: z.array(insertContractStorageChargeSchema.omit({ contractId: true }).extend({ id: amendedRowIdSchema })).optional(),
+  specialConditions: z.array(insertContractSpecialConditionSchema.omit({ contractId: true }).extend({ id: amendedRowIdSchema })).optional(),
+});
+
+// What-if storage charge for a quantity of cargo held at the terminal between two dates
+export const storageChargeCalculationSchema = z.object({
+  cargoType: z.string().trim().min(1, "Cargo type is required"),
+  quantity: z.coerce.number({ invalid_type_error: "Quantity must be a number" })
+    .positive("Quantity must be greater than 0")
+    .max(1000000, "Quantity is too large"),
+  gateInDate: z.coerce.date({ invalid_type_error: "Gate-in date is required" }),
+  gateOutDate: z.coerce.date({ invalid_type_error: "Gate-out date is required" }),
+  // Prices a contract that is not approved yet; the result is provisional and must not be relied on
+  preview: z.boolean().default(false),
+}).refine(data => data.gateOutDate.getTime() >= data.gateInDate.getTime(), {
+  message: "Gate-out cannot be before gate-in",
+  path: ["gateOutDate"],
+});
+
+// Left out, the number and dates follow the renewed contract, see shared/contractExpiry.ts
+export const contractRenewalSchema = z.object({
+  contractNumber: z.string().trim().min(1, "Contract number is required").max(100).optional(),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().optional(),
 });
 
 export const insertCountrySchema = createInsertSchema(countries).pick({
@@ -1035,11 +1630,18 @@ export const insertPlotSchema = createInsertSchema(plots).pick({
 export type Customer = typeof customers.$inferSelect;
 export type CustomerContact = typeof customerContacts.$inferSelect;
 export type CustomerAddress = typeof customerAddresses.$inferSelect;
+export type CustomerStatusHistory = typeof customerStatusHistory.$inferSelect;
+export type CustomerCodeSequence = typeof customerCodeSequences.$inferSelect;
+export type CustomerCodeAlias = typeof customerCodeAliases.$inferSelect;
+export type CustomerMerge = typeof customerMerges.$inferSelect;
+export type CustomerDocument = typeof customerDocuments.$inferSelect;
 export type Contract = typeof contracts.$inferSelect;
 export type ContractTariff = typeof contractTariffs.$inferSelect;
 export type ContractCargoDetail = typeof contractCargoDetails.$inferSelect;
 export type ContractStorageCharge = typeof contractStorageCharges.$inferSelect;
 export type ContractSpecialCondition = typeof contractSpecialConditions.$inferSelect;
+export type ContractRevision = typeof contractRevisions.$inferSelect;
+export type ContractApprovalHistory = typeof contractApprovalHistory.$inferSelect;
 export type Country = typeof countries.$inferSelect;
 export type State = typeof states.$inferSelect;
 export type CargoType = typeof cargoTypes.$inferSelect;
@@ -1047,13 +1649,28 @@ export type Plot = typeof plots.$inferSelect;
 
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
+export type CustomerStatusTransition = z.infer<typeof customerStatusTransitionSchema>;
+export type CustomerMergeRequest = z.infer<typeof customerMergeSchema>;
+export type CustomerCreditUpdate = z.infer<typeof customerCreditSchema>;
+export type InsertCustomerDocument = z.infer<typeof insertCustomerDocumentSchema>;
+export type UpdateCustomerDocument = z.infer<typeof updateCustomerDocumentSchema>;
+export type CustomerDocumentVerification = z.infer<typeof customerDocumentVerificationSchema>;
+export type InsertCustomerStatusHistory = z.infer<typeof insertCustomerStatusHistorySchema>;
 export type InsertCustomerContact = z.infer<typeof insertCustomerContactSchema>;
+export type UpdateCustomerContact = z.infer<typeof updateCustomerContactSchema>;
 export type InsertCustomerAddress = z.infer<typeof insertCustomerAddressSchema>;
+export type UpdateCustomerAddress = z.infer<typeof updateCustomerAddressSchema>;
 export type InsertContract = z.infer<typeof insertContractSchema>;
 export type InsertContractTariff = z.infer<typeof insertContractTariffSchema>;
 export type InsertContractCargoDetail = z.infer<typeof insertContractCargoDetailSchema>;
 export type InsertContractStorageCharge = z.infer<typeof insertContractStorageChargeSchema>;
 export type InsertContractSpecialCondition = z.infer<typeof insertContractSpecialConditionSchema>;
+export type ContractAmendment = z.infer<typeof contractAmendmentSchema>;
+export type ContractRenewal = z.infer<typeof contractRenewalSchema>;
+export type StorageChargeCalculationRequest = z.infer<typeof storageChargeCalculationSchema>;
+export type InsertContractApprovalHistory = z.infer<typeof insertContractApprovalHistorySchema>;
+export type ContractApprovalActionRequest = z.infer<typeof contractApprovalActionSchema>;
+export type ContractAmendmentApprovalActionRequest = z.infer<typeof contractAmendmentApprovalActionSchema>;
 export type InsertCountry = z.infer<typeof insertCountrySchema>;
 export type InsertState = z.infer<typeof insertStateSchema>;
 export type InsertCargoType = z.infer<typeof insertCargoTypeSchema>;
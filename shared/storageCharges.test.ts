@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateStorageCharge,
+  formatStorageDays,
+  getExcludedStorageDays,
+  getStorageDays,
+  getStorageRatePeriods,
+  parseStorageChargeApplicableDays,
+  storageRateSlabsSchema,
+} from "./storageCharges";
+
+// 7 free days, days 8–15 at 10.00, then 20.00 a day
+const slabbed = { storageFreeTime: 7, chargePerDay: "20.00", rateSlabs: JSON.stringify([{ days: 8, chargePerDay: "10.00" }]) };
+
+test("charges free time, then each slab, then the flat rate", () => {
+  const breakdown = calculateStorageCharge(slabbed, 2, 20);
+  assert.deepEqual(breakdown.lines, [
+    { fromDay: 1, toDay: 7, days: 7, chargePerDay: null, amount: "0.00" },
+    { fromDay: 8, toDay: 15, days: 8, chargePerDay: "10.00", amount: "160.00" },
+    { fromDay: 16, toDay: 20, days: 5, chargePerDay: "20.00", amount: "200.00" },
+  ]);
+  assert.equal(breakdown.total, "360.00");
+  assert.equal(breakdown.freeDays, 7);
+  assert.equal(breakdown.chargeableDays, 13);
+});
+
+test("stops at the period the stay ends in", () => {
+  const withinSlab = calculateStorageCharge(slabbed, 1, 10);
+  assert.deepEqual(withinSlab.lines.map(line => [line.fromDay, line.toDay]), [[1, 7], [8, 10]]);
+  assert.equal(withinSlab.total, "30.00");
+
+  const withinFreeTime = calculateStorageCharge(slabbed, 1, 5);
+  assert.deepEqual(withinFreeTime.lines.map(line => [line.fromDay, line.toDay]), [[1, 5]]);
+  assert.equal(withinFreeTime.total, "0.00");
+  assert.equal(withinFreeTime.chargeableDays, 0);
+});
+
+test("charges from the first day without free time", () => {
+  const breakdown = calculateStorageCharge({ storageFreeTime: 0, chargePerDay: "5.00", rateSlabs: null }, 1, 3);
+  assert.deepEqual(breakdown.lines, [{ fromDay: 1, toDay: 3, days: 3, chargePerDay: "5.00", amount: "15.00" }]);
+  assert.equal(breakdown.freeDays, 0);
+});
+
+test("adds amounts in cents, without floating point drift", () => {
+  assert.equal(calculateStorageCharge({ storageFreeTime: 0, chargePerDay: "0.10", rateSlabs: null }, 3, 1).total, "0.30");
+});
+
+test("charges nothing for a stay that has no chargeable days", () => {
+  const breakdown = calculateStorageCharge(slabbed, 1, 0);
+  assert.deepEqual(breakdown.lines, []);
+  assert.equal(breakdown.total, "0.00");
+});
+
+test("ignores unreadable slabs, leaving the flat rate after free time", () => {
+  const periods = getStorageRatePeriods({ storageFreeTime: 2, chargePerDay: "4.00", rateSlabs: "not json" });
+  assert.deepEqual(periods, [
+    { fromDay: 1, toDay: 2, chargePerDay: null },
+    { fromDay: 3, toDay: null, chargePerDay: "4.00" },
+  ]);
+});
+
+test("stores slabs as JSON, and no slabs as null", () => {
+  assert.equal(storageRateSlabsSchema.parse([]), null);
+  assert.equal(storageRateSlabsSchema.parse([{ days: "5", chargePerDay: "2.5" }]), JSON.stringify([{ days: 5, chargePerDay: "2.50" }]));
+  assert.equal(storageRateSlabsSchema.safeParse([{ days: 0, chargePerDay: "1" }]).success, false);
+  assert.equal(storageRateSlabsSchema.safeParse(Array.from({ length: 11 }, () => ({ days: 1, chargePerDay: "1" }))).success, false);
+});
+
+test("reads the applicable days of charges recorded as free text", () => {
+  assert.equal(parseStorageChargeApplicableDays("excluding sundays"), "Excluding Sundays");
+  assert.equal(parseStorageChargeApplicableDays("Excluding Sundays and holidays"), "Excluding Sundays");
+  assert.equal(parseStorageChargeApplicableDays("Except Saturday & Sunday"), "Excluding weekends");
+  assert.equal(parseStorageChargeApplicableDays("No charge on weekends"), "Excluding weekends");
+  assert.equal(parseStorageChargeApplicableDays("Sundays included"), "All days");
+  assert.equal(parseStorageChargeApplicableDays("Excluding holidays"), "All days");
+  assert.equal(parseStorageChargeApplicableDays(null), "All days");
+});
+
+test("counts both the gate-in and the gate-out day, by UTC calendar day", () => {
+  assert.equal(getStorageDays("2025-06-01", "2025-06-01"), 1);
+  assert.equal(getStorageDays("2025-06-01T23:00:00Z", "2025-06-02T01:00:00Z"), 2);
+  assert.equal(getStorageDays(new Date("2025-02-27"), new Date("2025-03-02")), 4);
+});
+
+test("counts the excluded days of a stay, both ends included", () => {
+  // 2025-06-01 is a Sunday and 2025-06-14 a Saturday
+  assert.equal(getExcludedStorageDays("2025-06-01", "2025-06-14", "All days"), 0);
+  assert.equal(getExcludedStorageDays("2025-06-01", "2025-06-14", "Excluding Sundays"), 2);
+  assert.equal(getExcludedStorageDays("2025-06-01", "2025-06-14", "Excluding weekends"), 4);
+  assert.equal(getExcludedStorageDays("2025-06-02", "2025-06-06", "Excluding weekends"), 0);
+});
+
+test("labels a run of storage days", () => {
+  assert.equal(formatStorageDays(1, 7), "Days 1–7");
+  assert.equal(formatStorageDays(8, 8), "Day 8");
+  assert.equal(formatStorageDays(16, null), "Day 16 onwards");
+});
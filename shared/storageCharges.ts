@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { moneyAmountSchema } from "./contractMoney";
+
+// Storage is charged per day and per unit of measure. The first storageFreeTime days are free, each rate slab then
+// covers its number of days at its own rate, and days after the last slab are charged at chargePerDay.
+// E.g. 7 free days, one slab of 8 days at X and chargePerDay Y: days 1–7 free, 8–15 at X, 16 onwards at Y.
+// Only the days the charge applies on are counted; excluded days are neither free nor charged.
+
+export const MAX_STORAGE_RATE_SLABS = 10;
+
+export const storageRateSlabSchema = z.object({
+  days: z.coerce.number({ invalid_type_error: "Slab days must be a number" })
+    .int("Slab days must be a whole number")
+    .min(1, "A slab covers at least 1 day")
+    .max(3650, "A slab can cover at most 3650 days"),
+  chargePerDay: moneyAmountSchema,
+});
+export type StorageRateSlab = z.output<typeof storageRateSlabSchema>;
+
+// Slabs are stored on the storage charge as JSON; a charge without slabs stores null
+export const storageRateSlabsSchema = z.array(storageRateSlabSchema)
+  .max(MAX_STORAGE_RATE_SLABS, `A storage charge can have at most ${MAX_STORAGE_RATE_SLABS} slabs`)
+  .transform(slabs => (slabs.length > 0 ? JSON.stringify(slabs) : null));
+
+// Unreadable slabs are ignored, which leaves the flat rate after free time
+export function parseStorageRateSlabs(value: string | null | undefined): StorageRateSlab[] {
+  if (!value) return [];
+  try {
+    const result = z.array(storageRateSlabSchema).safeParse(JSON.parse(value));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export const STORAGE_CHARGE_APPLICABLE_DAYS = ["All days", "Excluding Sundays", "Excluding weekends"] as const;
+export type StorageChargeApplicableDays = typeof STORAGE_CHARGE_APPLICABLE_DAYS[number];
+
+export const storageChargeApplicableDaysSchema = z.enum(STORAGE_CHARGE_APPLICABLE_DAYS, {
+  errorMap: () => ({ message: `Applicable days must be one of: ${STORAGE_CHARGE_APPLICABLE_DAYS.join(", ")}` }),
+});
+
+// Charges from before the choice was fixed hold free text, e.g. "Excluding Sundays and holidays"; anything that
+// does not exclude Sundays or weekends applies on all days
+export function parseStorageChargeApplicableDays(value: string | null | undefined): StorageChargeApplicableDays {
+  const text = (value ?? "").trim().toLowerCase();
+  const known = STORAGE_CHARGE_APPLICABLE_DAYS.find(option => option.toLowerCase() === text);
+  if (known) return known;
+  if (!/\b(excl\w*|except|without|no|not)\b/.test(text)) return "All days";
+  if (/weekend|saturday/.test(text)) return "Excluding weekends";
+  return /sunday/.test(text) ? "Excluding Sundays" : "All days";
+}
+
+interface StorageChargeTerms {
+  storageFreeTime: number;
+  chargePerDay: string;
+  rateSlabs: string | null;
+}
+
+// A run of storage days at one rate; chargePerDay is null for free days and toDay is null for the open-ended last period
+export interface StorageRatePeriod {
+  fromDay: number;
+  toDay: number | null;
+  chargePerDay: string | null;
+}
+
+export function getStorageRatePeriods(charge: StorageChargeTerms): StorageRatePeriod[] {
+  const periods: StorageRatePeriod[] = [];
+  let day = 1;
+  if (charge.storageFreeTime > 0) {
+    periods.push({ fromDay: 1, toDay: charge.storageFreeTime, chargePerDay: null });
+    day = charge.storageFreeTime + 1;
+  }
+  for (const slab of parseStorageRateSlabs(charge.rateSlabs)) {
+    periods.push({ fromDay: day, toDay: day + slab.days - 1, chargePerDay: slab.chargePerDay });
+    day += slab.days;
+  }
+  periods.push({ fromDay: day, toDay: null, chargePerDay: charge.chargePerDay });
+  return periods;
+}
+
+export function formatStorageDays(fromDay: number, toDay: number | null): string {
+  if (toDay === null) return `Day ${fromDay} onwards`;
+  return fromDay === toDay ? `Day ${fromDay}` : `Days ${fromDay}–${toDay}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDay = (date: Date | string) => {
+  const d = new Date(date);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+// Storage days between gate-in and gate-out, counting both calendar days (UTC)
+export function getStorageDays(gateInDate: Date | string, gateOutDate: Date | string): number {
+  return Math.round((utcDay(gateOutDate) - utcDay(gateInDate)) / DAY_MS) + 1;
+}
+
+// Days between gate-in and gate-out, both included, that the charge does not apply on
+export function getExcludedStorageDays(gateInDate: Date | string, gateOutDate: Date | string, applicableDays: StorageChargeApplicableDays): number {
+  if (applicableDays === "All days") return 0;
+  const excludedWeekdays = applicableDays === "Excluding weekends" ? [0, 6] : [0];
+  let excluded = 0;
+  for (let day = utcDay(gateInDate); day <= utcDay(gateOutDate); day += DAY_MS) {
+    if (excludedWeekdays.includes(new Date(day).getUTCDay())) excluded++;
+  }
+  return excluded;
+}
+
+export interface StorageChargeLine {
+  fromDay: number;
+  toDay: number;
+  days: number;
+  chargePerDay: string | null; // Null for free days
+  amount: string;
+}
+
+export interface StorageChargeBreakdown {
+  totalDays: number;
+  freeDays: number;
+  chargeableDays: number;
+  lines: StorageChargeLine[];
+  total: string;
+}
+
+// Amounts are rate × days × quantity per period, rounded to the cent
+export function calculateStorageCharge(charge: StorageChargeTerms, quantity: number, totalDays: number): StorageChargeBreakdown {
+  const lines: StorageChargeLine[] = [];
+  let totalCents = 0;
+  for (const period of getStorageRatePeriods(charge)) {
+    const toDay = Math.min(period.toDay ?? totalDays, totalDays);
+    if (toDay < period.fromDay) break;
+    const days = toDay - period.fromDay + 1;
+    const cents = period.chargePerDay === null ? 0 : Math.round(Math.round(Number(period.chargePerDay) * 100) * days * quantity);
+    totalCents += cents;
+    lines.push({ fromDay: period.fromDay, toDay, days, chargePerDay: period.chargePerDay, amount: (cents / 100).toFixed(2) });
+  }
+
+  const freeDays = lines.filter(line => line.chargePerDay === null).reduce((sum, line) => sum + line.days, 0);
+  return {
+    totalDays,
+    freeDays,
+    chargeableDays: totalDays - freeDays,
+    lines,
+    total: (totalCents / 100).toFixed(2),
+  };
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { gstinCheckCharacter, gstinSchema, isValidGstin, panSchema, validateTaxIdentifiers } from "./taxIdentifiers";
+
+const GSTIN = "27AAPFU0939F1ZV"; // Maharashtra, PAN AAPFU0939F
+const PAN = "AAPFU0939F";
+
+test("computes the GSTIN check character", () => {
+  assert.equal(gstinCheckCharacter(GSTIN.slice(0, 14)), "V");
+  assert.equal(isValidGstin(GSTIN), true);
+  assert.equal(isValidGstin("27AAPFU0939F1ZW"), false);
+  assert.equal(isValidGstin("27aapfu0939f1zv"), false);
+});
+
+test("accepts a consistent GSTIN, PAN and state", () => {
+  assert.deepEqual(validateTaxIdentifiers({ gst: GSTIN, pan: PAN, state: { name: "Maharashtra", code: "MH" } }), []);
+  assert.deepEqual(validateTaxIdentifiers({ gst: GSTIN, pan: PAN, state: { name: "Maharashtra", code: "27" } }), []);
+  assert.deepEqual(validateTaxIdentifiers({}), []);
+});
+
+test("reports a bad PAN, and a GSTIN that does not match the pattern without checking it further", () => {
+  assert.deepEqual(validateTaxIdentifiers({ gst: "27AAPFU0939F1Z", pan: "AAPFU0939" }), [
+    { field: "pan", message: "Please enter a valid PAN number (e.g., ABCDE1234F)" },
+    { field: "gst", message: "Please enter a valid GST number" },
+  ]);
+});
+
+test("reports a wrong check character and a PAN the GSTIN does not contain", () => {
+  assert.deepEqual(validateTaxIdentifiers({ gst: "27AAPFU0939F1ZW", pan: "ABCDE1234F" }), [
+    { field: "gst", message: "GST number check character is invalid" },
+    { field: "gst", message: "GST number does not contain the PAN ABCDE1234F" },
+  ]);
+});
+
+test("reports unknown state codes and states that do not match", () => {
+  const unknownState = "99AAPFU0939F1Z" + gstinCheckCharacter("99AAPFU0939F1Z");
+  assert.deepEqual(validateTaxIdentifiers({ gst: unknownState }), [
+    { field: "gst", message: "GST state code 99 is not a valid state code" },
+  ]);
+  assert.deepEqual(validateTaxIdentifiers({ gst: GSTIN, state: { name: "Gujarat", code: "GJ" } }), [
+    { field: "gst", message: "GST state code 27 (Maharashtra) does not match the selected state Gujarat" },
+  ]);
+  assert.deepEqual(validateTaxIdentifiers({ gst: GSTIN, state: { name: "Gujarat", code: "24" } }).length, 1);
+});
+
+test("matches states by their former names and loose spelling", () => {
+  const odisha = "21AAPFU0939F1Z" + gstinCheckCharacter("21AAPFU0939F1Z");
+  assert.deepEqual(validateTaxIdentifiers({ gst: odisha, state: { name: "Orissa", code: "OR" } }), []);
+  const andaman = "35AAPFU0939F1Z" + gstinCheckCharacter("35AAPFU0939F1Z");
+  assert.deepEqual(validateTaxIdentifiers({ gst: andaman, state: { name: "Andaman & Nicobar Islands", code: "AN" } }), []);
+});
+
+test("validates GSTIN and PAN fields on their own", () => {
+  assert.equal(gstinSchema.safeParse(GSTIN).success, true);
+  assert.equal(gstinSchema.safeParse("27AAPFU0939F1ZW").success, false);
+  assert.equal(panSchema.safeParse(PAN).success, true);
+  assert.equal(panSchema.safeParse("AAPFU0939").success, false);
+});
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { State } from "./schema";
+
+// Indian PAN and GSTIN checks shared by the server and the client.
+// A GSTIN is: 2-digit state code + the holder's PAN + entity number + "Z" + mod-36 check character.
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/;
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// GST state codes; some states kept their pre-reorganisation code
+export const GST_STATE_CODES: Record<string, string[]> = {
+  "01": ["Jammu and Kashmir"],
+  "02": ["Himachal Pradesh"],
+  "03": ["Punjab"],
+  "04": ["Chandigarh"],
+  "05": ["Uttarakhand"],
+  "06": ["Haryana"],
+  "07": ["Delhi"],
+  "08": ["Rajasthan"],
+  "09": ["Uttar Pradesh"],
+  "10": ["Bihar"],
+  "11": ["Sikkim"],
+  "12": ["Arunachal Pradesh"],
+  "13": ["Nagaland"],
+  "14": ["Manipur"],
+  "15": ["Mizoram"],
+  "16": ["Tripura"],
+  "17": ["Meghalaya"],
+  "18": ["Assam"],
+  "19": ["West Bengal"],
+  "20": ["Jharkhand"],
+  "21": ["Odisha", "Orissa"],
+  "22": ["Chhattisgarh"],
+  "23": ["Madhya Pradesh"],
+  "24": ["Gujarat"],
+  "25": ["Dadra and Nagar Haveli and Daman and Diu", "Daman and Diu"],
+  "26": ["Dadra and Nagar Haveli and Daman and Diu", "Dadra and Nagar Haveli"],
+  "27": ["Maharashtra"],
+  "28": ["Andhra Pradesh"],
+  "29": ["Karnataka"],
+  "30": ["Goa"],
+  "31": ["Lakshadweep"],
+  "32": ["Kerala"],
+  "33": ["Tamil Nadu"],
+  "34": ["Puducherry", "Pondicherry"],
+  "35": ["Andaman and Nicobar Islands"],
+  "36": ["Telangana"],
+  "37": ["Andhra Pradesh"],
+  "38": ["Ladakh"],
+};
+
+export interface TaxIdentifierIssue {
+  field: "gst" | "pan";
+  message: string;
+}
+
+export interface TaxIdentifiers {
+  gst?: string | null;
+  pan?: string | null;
+  state?: Pick<State, "name" | "code"> | null;
+}
+
+export function gstinCheckCharacter(first14: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin) && gstinCheckCharacter(gstin.slice(0, 14)) === gstin[14];
+}
+
+export function getGstinStateCode(gstin: string): string {
+  return gstin.slice(0, 2);
+}
+
+export function getGstinPan(gstin: string): string {
+  return gstin.slice(2, 12);
+}
+
+function normalizeStateName(name: string): string {
+  return name.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+}
+
+function stateMatchesGstCode(state: Pick<State, "name" | "code">, stateCode: string): boolean {
+  if (/^\d{2}$/.test(state.code)) return state.code === stateCode;
+  return (GST_STATE_CODES[stateCode] ?? []).some(name => normalizeStateName(name) === normalizeStateName(state.name));
+}
+
+// Checksum, embedded PAN and state code; fields that are absent are skipped
+export function validateTaxIdentifiers({ gst, pan, state }: TaxIdentifiers): TaxIdentifierIssue[] {
+  const issues: TaxIdentifierIssue[] = [];
+  if (pan && !PAN_PATTERN.test(pan)) {
+    issues.push({ field: "pan", message: "Please enter a valid PAN number (e.g., ABCDE1234F)" });
+  }
+  if (!gst) return issues;
+
+  if (!GSTIN_PATTERN.test(gst)) {
+    issues.push({ field: "gst", message: "Please enter a valid GST number" });
+    return issues;
+  }
+  if (!isValidGstin(gst)) {
+    issues.push({ field: "gst", message: "GST number check character is invalid" });
+  }
+  if (pan && getGstinPan(gst) !== pan) {
+    issues.push({ field: "gst", message: `GST number does not contain the PAN ${pan}` });
+  }
+
+  const stateCode = getGstinStateCode(gst);
+  if (!GST_STATE_CODES[stateCode]) {
+    issues.push({ field: "gst", message: `GST state code ${stateCode} is not a valid state code` });
+  } else if (state && !stateMatchesGstCode(state, stateCode)) {
+    issues.push({ field: "gst", message: `GST state code ${stateCode} (${GST_STATE_CODES[stateCode][0]}) does not match the selected state ${state.name}` });
+  }
+  return issues;
+}
+
+export const panSchema = z.string().regex(PAN_PATTERN, "Please enter a valid PAN number (e.g., ABCDE1234F)");
+
+export const gstinSchema = z.string()
+  .regex(GSTIN_PATTERN, "Please enter a valid GST number")
+  .refine(isValidGstin, "GST number check character is invalid");